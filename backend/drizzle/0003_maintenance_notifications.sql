@@ -0,0 +1,15 @@
+-- Records every maintenance reminder email sent by the background dispatcher so the
+-- same overdue generator is not emailed again until its next oil change.
+
+CREATE TABLE IF NOT EXISTS "maintenance_notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"reason" varchar(20) NOT NULL,
+	"hours_since_change" double precision NOT NULL,
+	"months_since_change" integer NOT NULL,
+	"last_oil_change_date" timestamp,
+	"recipient" varchar(255) NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "maintenance_notifications" ADD CONSTRAINT "maintenance_notifications_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
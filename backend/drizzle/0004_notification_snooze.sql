@@ -0,0 +1,6 @@
+-- Lets users snooze a maintenance alert for N days (the dispatcher re-sends it once the
+-- snooze expires) or acknowledge it (no further emails until the next oil change).
+
+ALTER TABLE "maintenance_notifications" ADD COLUMN IF NOT EXISTS "snoozed_until" timestamp;
+--> statement-breakpoint
+ALTER TABLE "maintenance_notifications" ADD COLUMN IF NOT EXISTS "acknowledged_at" timestamp;
@@ -0,0 +1,67 @@
+-- Generic maintenance tasks (oil change, air filter, spark plug, fuel stabilizer, valve
+-- clearance, ...) each with their own hour and/or month interval and completion history.
+-- Existing oil change settings and history are migrated into an 'oil_change' task per
+-- generator; oil_change_history is dropped once its rows have been copied.
+
+CREATE TABLE IF NOT EXISTS "maintenance_tasks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"kind" varchar(30) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"interval_hours" double precision,
+	"interval_months" integer,
+	"last_completed_at" timestamp,
+	"last_completed_hours" double precision,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "maintenance_tasks" ADD CONSTRAINT "maintenance_tasks_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "maintenance_tasks_oil_change_unique" ON "maintenance_tasks" USING btree ("generator_id") WHERE kind = 'oil_change';
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "maintenance_task_completions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"task_id" integer NOT NULL,
+	"performed_at" timestamp NOT NULL,
+	"hours_at_completion" double precision NOT NULL,
+	"notes" varchar(500),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "maintenance_task_completions" ADD CONSTRAINT "maintenance_task_completions_task_id_maintenance_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."maintenance_tasks"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+INSERT INTO "maintenance_tasks" ("generator_id", "kind", "name", "interval_hours", "interval_months", "last_completed_at", "last_completed_hours")
+SELECT "id", 'oil_change', 'Oil Change', "oil_change_hours", "oil_change_months", "last_oil_change_date", "last_oil_change_hours"
+FROM "generators";
+--> statement-breakpoint
+-- oil_change_history was only ever created through db:push, so it may not exist
+DO $$
+BEGIN
+	IF to_regclass('public.oil_change_history') IS NOT NULL THEN
+		INSERT INTO "maintenance_task_completions" ("task_id", "performed_at", "hours_at_completion", "notes", "created_at")
+		SELECT t."id", h."performed_at", h."hours_at_change", h."notes", h."created_at"
+		FROM "oil_change_history" h
+		JOIN "maintenance_tasks" t ON t."generator_id" = h."generator_id" AND t."kind" = 'oil_change';
+	END IF;
+END $$;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "oil_change_history";
+--> statement-breakpoint
+
+-- Maintenance notifications now belong to a task
+ALTER TABLE "maintenance_notifications" ADD COLUMN "task_id" integer;
+--> statement-breakpoint
+ALTER TABLE "maintenance_notifications" ADD COLUMN "last_completed_at" timestamp;
+--> statement-breakpoint
+UPDATE "maintenance_notifications" n
+SET "task_id" = t."id", "last_completed_at" = n."last_oil_change_date"
+FROM "maintenance_tasks" t
+WHERE t."generator_id" = n."generator_id" AND t."kind" = 'oil_change';
+--> statement-breakpoint
+ALTER TABLE "maintenance_notifications" ALTER COLUMN "task_id" SET NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "maintenance_notifications" ADD CONSTRAINT "maintenance_notifications_task_id_maintenance_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."maintenance_tasks"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "maintenance_notifications" DROP COLUMN "last_oil_change_date";
@@ -0,0 +1,6 @@
+-- Optionally binds an API key to one generator so /api/generator/toggle works for users
+-- with several generators. Unbound keys keep toggling the user's only generator.
+
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "generator_id" integer;
+--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE set null ON UPDATE no action;
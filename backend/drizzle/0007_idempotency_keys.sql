@@ -0,0 +1,16 @@
+-- Stores the result of API-key generator requests sent with an Idempotency-Key header so
+-- retried requests (e.g. an iOS Shortcut on a flaky connection) replay the original result
+-- instead of toggling the generator again.
+
+CREATE TABLE IF NOT EXISTS "idempotency_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"response" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "idempotency_keys" ADD CONSTRAINT "idempotency_keys_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idempotency_keys_generator_key_unique" ON "idempotency_keys" USING btree ("generator_id","key");
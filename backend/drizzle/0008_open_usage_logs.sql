@@ -0,0 +1,14 @@
+-- Starting a generator now inserts an open usage log (null end_time) that stopping closes.
+-- Backfill open logs for generators that were already running when this was deployed.
+
+INSERT INTO "usage_logs" ("generator_id", "start_time")
+SELECT g."id", g."current_start_time"
+FROM "generators" g
+WHERE g."is_running" = true
+	AND g."current_start_time" IS NOT NULL
+	AND NOT EXISTS (
+		SELECT 1 FROM "usage_logs" l
+		WHERE l."generator_id" = g."id"
+			AND l."start_time" = g."current_start_time"
+			AND l."end_time" IS NULL
+	);
@@ -0,0 +1,8 @@
+-- Optional per-generator maximum run length. A background sweeper stops runs that exceed it
+-- and flags the closed usage log so the owner can confirm or correct it on the dashboard.
+
+ALTER TABLE "generators" ADD COLUMN IF NOT EXISTS "max_run_hours" double precision;
+--> statement-breakpoint
+ALTER TABLE "usage_logs" ADD COLUMN IF NOT EXISTS "auto_closed" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "usage_logs" ADD COLUMN IF NOT EXISTS "auto_close_reviewed_at" timestamp;
@@ -0,0 +1,18 @@
+-- Fuel tracking: tank capacity and estimated burn rate per generator, plus refuel events used
+-- to estimate the fuel left in the tank.
+
+ALTER TABLE "generators" ADD COLUMN IF NOT EXISTS "tank_capacity_gallons" double precision;
+--> statement-breakpoint
+ALTER TABLE "generators" ADD COLUMN IF NOT EXISTS "fuel_burn_rate" double precision;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "refuel_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"gallons" double precision NOT NULL,
+	"filled_to_full" boolean DEFAULT false NOT NULL,
+	"refueled_at" timestamp NOT NULL,
+	"notes" varchar(500),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "refuel_events" ADD CONSTRAINT "refuel_events_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
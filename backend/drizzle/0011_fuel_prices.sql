@@ -0,0 +1,11 @@
+-- Fuel price history per generator, used to cost each run in the monthly cost report.
+
+CREATE TABLE IF NOT EXISTS "fuel_prices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"price_per_gallon" double precision NOT NULL,
+	"effective_from" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fuel_prices" ADD CONSTRAINT "fuel_prices_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
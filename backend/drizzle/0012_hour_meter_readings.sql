@@ -0,0 +1,32 @@
+-- Physical hour meter readings, and rebasing the tracked total to a reading. The net
+-- correction is kept on the generator so recalculating total_hours from usage logs keeps it.
+
+ALTER TABLE "generators" ADD COLUMN "meter_adjustment_hours" double precision DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "hour_meter_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"meter_hours" double precision NOT NULL,
+	"tracked_hours" double precision NOT NULL,
+	"read_at" timestamp NOT NULL,
+	"notes" varchar(500),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "hour_meter_readings" ADD CONSTRAINT "hour_meter_readings_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "hour_meter_adjustments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"reading_id" integer,
+	"user_id" integer,
+	"previous_total_hours" double precision NOT NULL,
+	"new_total_hours" double precision NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "hour_meter_adjustments" ADD CONSTRAINT "hour_meter_adjustments_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "hour_meter_adjustments" ADD CONSTRAINT "hour_meter_adjustments_reading_id_hour_meter_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."hour_meter_readings"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "hour_meter_adjustments" ADD CONSTRAINT "hour_meter_adjustments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,3 @@
+-- Hours a generator already had when it was added, counted in total_hours on top of its usage logs.
+
+ALTER TABLE "generators" ADD COLUMN "initial_hours" double precision DEFAULT 0 NOT NULL;
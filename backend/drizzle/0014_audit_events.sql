@@ -0,0 +1,24 @@
+-- Who changed what: one row per state-changing request. actor_api_key_id, generator_id and
+-- target_id are kept without foreign keys so events outlive the rows they describe.
+
+CREATE TABLE IF NOT EXISTS "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"actor_type" varchar(20) NOT NULL,
+	"actor_user_id" integer,
+	"actor_api_key_id" integer,
+	"generator_id" integer,
+	"action" varchar(50) NOT NULL,
+	"target_type" varchar(50) NOT NULL,
+	"target_id" integer,
+	"before" jsonb,
+	"after" jsonb,
+	"ip" varchar(45),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actor_user_id_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_events_user_id_id_index" ON "audit_events" USING btree ("user_id","id");
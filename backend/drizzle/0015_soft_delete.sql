@@ -0,0 +1,6 @@
+-- Deleted usage logs and maintenance completions (oil changes included) go to the trash instead
+-- of being removed; rows still deleted after the retention period are purged.
+
+ALTER TABLE "usage_logs" ADD COLUMN "deleted_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "maintenance_task_completions" ADD COLUMN "deleted_at" timestamp;
@@ -0,0 +1,8 @@
+-- Archived generators are hidden from the dashboard and can't be started, but keep their history.
+-- Deleting a generator now removes its usage logs along with everything else that belongs to it.
+
+ALTER TABLE "generators" ADD COLUMN "archived_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "usage_logs" DROP CONSTRAINT "usage_logs_generator_id_generators_id_fk";
+--> statement-breakpoint
+ALTER TABLE "usage_logs" ADD CONSTRAINT "usage_logs_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
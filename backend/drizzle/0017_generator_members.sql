@@ -0,0 +1,44 @@
+-- Generators can be shared: every user with access has a membership with a role (owner,
+-- operator or viewer). Existing generators get an owner membership for their creator.
+-- Invites are sent by email with a single-use token; only its SHA-256 hash is stored.
+
+CREATE TABLE IF NOT EXISTS "generator_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generator_members" ADD CONSTRAINT "generator_members_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "generator_members" ADD CONSTRAINT "generator_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "generator_members_generator_user_unique" ON "generator_members" USING btree ("generator_id","user_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "generator_members_user_id_index" ON "generator_members" USING btree ("user_id");
+--> statement-breakpoint
+INSERT INTO "generator_members" ("generator_id", "user_id", "role", "created_at", "updated_at")
+SELECT "id", "user_id", 'owner', "created_at", "created_at" FROM "generators"
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "generator_invites" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"generator_id" integer NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"invited_by_user_id" integer,
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"accepted_by_user_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "generator_invites_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "generator_invites" ADD CONSTRAINT "generator_invites_generator_id_generators_id_fk" FOREIGN KEY ("generator_id") REFERENCES "public"."generators"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "generator_invites" ADD CONSTRAINT "generator_invites_invited_by_user_id_users_id_fk" FOREIGN KEY ("invited_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "generator_invites" ADD CONSTRAINT "generator_invites_accepted_by_user_id_users_id_fk" FOREIGN KEY ("accepted_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,21 @@
+-- Sites group generators by property or location. A site belongs to the user who created it;
+-- generators are optionally assigned to one and are left unassigned when the site is deleted.
+
+CREATE TABLE IF NOT EXISTS "sites" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"address" varchar(500),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sites" ADD CONSTRAINT "sites_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sites_user_id_index" ON "sites" USING btree ("user_id");
+--> statement-breakpoint
+ALTER TABLE "generators" ADD COLUMN "site_id" integer;
+--> statement-breakpoint
+ALTER TABLE "generators" ADD CONSTRAINT "generators_site_id_sites_id_fk" FOREIGN KEY ("site_id") REFERENCES "public"."sites"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "generators_site_id_index" ON "generators" USING btree ("site_id");
@@ -0,0 +1,6 @@
+-- API keys get explicit scopes. New keys default to toggle only; existing keys keep what they
+-- could do before (toggle, start and stop, and export their generator's logs).
+
+ALTER TABLE "api_keys" ADD COLUMN "scopes" jsonb DEFAULT '["toggle"]'::jsonb NOT NULL;
+--> statement-breakpoint
+UPDATE "api_keys" SET "scopes" = '["toggle", "logs:read"]'::jsonb;
@@ -0,0 +1,4 @@
+-- The audit log is filtered by generator since events became visible to every member, so the
+-- generator's events are read newest first through this index like a user's own events.
+
+CREATE INDEX IF NOT EXISTS "audit_events_generator_id_id_index" ON "audit_events" USING btree ("generator_id","id");
@@ -6,6 +6,7 @@ interface Config {
   nodeEnv: string;
   corsOrigin: string;
   apiBaseUrl: string;
+  appUrl: string;
   database: {
     url: string;
     host: string;
@@ -16,11 +17,35 @@ interface Config {
     ssl: boolean;
   };
   apiRateLimit: number;
+  idempotency: {
+    window: number;
+  };
   session: {
     secret: string;
     cookieName: string;
     maxAge: number;
   };
+  smtp: {
+    host: string;
+    port: number;
+    user: string;
+    password: string;
+    from: string;
+    secure: boolean;
+  };
+  reminders: {
+    checkInterval: number;
+  };
+  autoStop: {
+    checkInterval: number;
+  };
+  trash: {
+    retentionDays: number;
+    purgeInterval: number;
+  };
+  invites: {
+    ttl: number;
+  };
   logLevel: string;
 }
 
@@ -30,6 +55,8 @@ const config: Config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
   apiBaseUrl: process.env.API_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`,
+  // Where the web app is served; used for links in emails
+  appUrl: process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:5173',
   database: {
     url: process.env.DATABASE_URL || '',
     host: process.env.DB_HOST || 'localhost',
@@ -40,11 +67,35 @@ const config: Config = {
     ssl: process.env.DB_SSL === 'true',
   },
   apiRateLimit: parseInt(process.env.API_RATE_LIMIT || '1', 10),
+  idempotency: {
+    window: parseInt(process.env.IDEMPOTENCY_WINDOW || '86400000', 10),
+  },
   session: {
     secret: process.env.SESSION_SECRET || 'change-this-secret',
     cookieName: process.env.SESSION_COOKIE_NAME || 'generatorlog_session',
     maxAge: parseInt(process.env.SESSION_MAX_AGE || '86400000', 10),
   },
+  smtp: {
+    host: process.env.SMTP_HOST || '',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+    from: process.env.SMTP_FROM || 'GeneratorLog <noreply@generatorlog.com>',
+    secure: process.env.SMTP_SECURE === 'true',
+  },
+  reminders: {
+    checkInterval: parseInt(process.env.REMINDER_CHECK_INTERVAL || '3600000', 10),
+  },
+  autoStop: {
+    checkInterval: parseInt(process.env.AUTO_STOP_CHECK_INTERVAL || '300000', 10),
+  },
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    purgeInterval: parseInt(process.env.TRASH_PURGE_INTERVAL || '3600000', 10),
+  },
+  invites: {
+    ttl: parseInt(process.env.INVITE_TTL || '604800000', 10),
+  },
   logLevel: process.env.LOG_LEVEL || 'info',
 };
 
@@ -1,4 +1,5 @@
-import { pgTable, serial, varchar, timestamp, integer, boolean, doublePrecision } from 'drizzle-orm/pg-core';
+import { pgTable, serial, varchar, timestamp, integer, boolean, doublePrecision, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 export const users = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -11,6 +12,19 @@ export const users = pgTable('users', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// A property or location that groups generators, e.g. for a team looking after several buildings.
+// Owned by the user who created it; generators.siteId assigns a generator to it.
+export const sites = pgTable('sites', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  address: varchar('address', { length: 500 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('sites_user_id_index').on(table.userId),
+]);
+
 export const generators = pgTable('generators', {
   id: serial('id').primaryKey(),
   userId: integer('user_id').notNull().references(() => users.id),
@@ -18,35 +32,145 @@ export const generators = pgTable('generators', {
   oilChangeMonths: integer('oil_change_months').notNull().default(6),
   oilChangeHours: doublePrecision('oil_change_hours').notNull().default(100),
   totalHours: doublePrecision('total_hours').notNull().default(0),
+  // Hours already on the generator when it was added; part of totalHours
+  initialHours: doublePrecision('initial_hours').notNull().default(0),
   lastOilChangeDate: timestamp('last_oil_change_date'),
   lastOilChangeHours: doublePrecision('last_oil_change_hours').default(0),
   installedAt: timestamp('installed_at'),
   isRunning: boolean('is_running').notNull().default(false),
   currentStartTime: timestamp('current_start_time'),
+  maxRunHours: doublePrecision('max_run_hours'),
+  tankCapacityGallons: doublePrecision('tank_capacity_gallons'),
+  // Estimated gallons burned per running hour
+  fuelBurnRate: doublePrecision('fuel_burn_rate'),
+  // Net correction from rebasing to the hour meter; kept when totalHours is recalculated from logs
+  meterAdjustmentHours: doublePrecision('meter_adjustment_hours').notNull().default(0),
+  // Set while retired: hidden from the dashboard and can't be started, history is kept
+  archivedAt: timestamp('archived_at'),
+  // Site the generator is grouped under, if any
+  siteId: integer('site_id').references(() => sites.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('generators_site_id_index').on(table.siteId),
+]);
+
+// Users with access to a generator. generators.userId is the user who created it; every user
+// with access, the creator included, has a membership whose role decides what they can do:
+// viewers read, operators also start/stop and log, owners also change settings and sharing.
+export const generatorMembers = pgTable('generator_members', {
+  id: serial('id').primaryKey(),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 20 }).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('generator_members_generator_user_unique').on(table.generatorId, table.userId),
+  index('generator_members_user_id_index').on(table.userId),
+]);
+
+// Pending and accepted invitations to join a generator. The token is emailed to the invitee and
+// only its SHA-256 hash is kept; accepting it creates a membership with the invited role.
+export const generatorInvites = pgTable('generator_invites', {
+  id: serial('id').primaryKey(),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  email: varchar('email', { length: 255 }).notNull(),
+  role: varchar('role', { length: 20 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  invitedByUserId: integer('invited_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+  expiresAt: timestamp('expires_at').notNull(),
+  acceptedAt: timestamp('accepted_at'),
+  acceptedByUserId: integer('accepted_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
 export const usageLogs = pgTable('usage_logs', {
   id: serial('id').primaryKey(),
-  generatorId: integer('generator_id').notNull().references(() => generators.id),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
   startTime: timestamp('start_time').notNull(),
   endTime: timestamp('end_time'),
   durationHours: doublePrecision('duration_hours'),
+  autoClosed: boolean('auto_closed').notNull().default(false),
+  autoCloseReviewedAt: timestamp('auto_close_reviewed_at'),
+  // Set while the log is in the trash; trashed logs don't count towards totalHours
+  deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Fuel added to a generator's tank. A fill to full resets the estimated level to the tank
+// capacity regardless of the gallons recorded.
+export const refuelEvents = pgTable('refuel_events', {
+  id: serial('id').primaryKey(),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  gallons: doublePrecision('gallons').notNull(),
+  filledToFull: boolean('filled_to_full').notNull().default(false),
+  refueledAt: timestamp('refueled_at').notNull(),
+  notes: varchar('notes', { length: 500 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Fuel price history. The price for a run is the latest entry effective at the run's start.
+export const fuelPrices = pgTable('fuel_prices', {
+  id: serial('id').primaryKey(),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  pricePerGallon: doublePrecision('price_per_gallon').notNull(),
+  effectiveFrom: timestamp('effective_from').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Readings of the generator's physical hour meter. trackedHours is the generator's totalHours
+// when the reading was recorded, so the drift at that point is meterHours - trackedHours.
+export const hourMeterReadings = pgTable('hour_meter_readings', {
+  id: serial('id').primaryKey(),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  meterHours: doublePrecision('meter_hours').notNull(),
+  trackedHours: doublePrecision('tracked_hours').notNull(),
+  readAt: timestamp('read_at').notNull(),
+  notes: varchar('notes', { length: 500 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Audit trail of totalHours being rebased to a meter reading
+export const hourMeterAdjustments = pgTable('hour_meter_adjustments', {
+  id: serial('id').primaryKey(),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  readingId: integer('reading_id').references(() => hourMeterReadings.id, { onDelete: 'set null' }),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  previousTotalHours: doublePrecision('previous_total_hours').notNull(),
+  newTotalHours: doublePrecision('new_total_hours').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 export const apiKeys = pgTable('api_keys', {
   id: serial('id').primaryKey(),
   userId: integer('user_id').notNull().references(() => users.id),
   keyHash: varchar('key_hash', { length: 64 }).notNull().unique(),
   hint: varchar('hint', { length: 4 }).notNull(),
   name: varchar('name', { length: 255 }),
+  // Generator toggled by this key; null falls back to the user's only generator
+  generatorId: integer('generator_id').references(() => generators.id, { onDelete: 'set null' }),
+  // What the key may do (see API_KEY_SCOPES)
+  scopes: jsonb('scopes').$type<string[]>().notNull().default(['toggle']),
   lastUsedAt: timestamp('last_used_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Results of API-key generator requests sent with an Idempotency-Key header. A replay of the
+// same key returns the stored response instead of toggling again. response is null while the
+// original request is still running.
+export const idempotencyKeys = pgTable('idempotency_keys', {
+  id: serial('id').primaryKey(),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  key: varchar('key', { length: 255 }).notNull(),
+  action: varchar('action', { length: 20 }).notNull(),
+  response: jsonb('response'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idempotency_keys_generator_key_unique').on(table.generatorId, table.key),
+]);
+
 export const sessions = pgTable('sessions', {
   id: varchar('id', { length: 64 }).primaryKey(),
   userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -54,11 +178,70 @@ export const sessions = pgTable('sessions', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
-export const oilChangeHistory = pgTable('oil_change_history', {
+// Recurring service items (oil change, air filter, spark plug, ...) with an hour and/or month
+// interval. Every generator has exactly one 'oil_change' task, which is kept in sync with the
+// generators.oil_change_* and last_oil_change_* columns.
+export const maintenanceTasks = pgTable('maintenance_tasks', {
   id: serial('id').primaryKey(),
   generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  kind: varchar('kind', { length: 30 }).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  intervalHours: doublePrecision('interval_hours'),
+  intervalMonths: integer('interval_months'),
+  lastCompletedAt: timestamp('last_completed_at'),
+  lastCompletedHours: doublePrecision('last_completed_hours'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('maintenance_tasks_oil_change_unique').on(table.generatorId).where(sql`kind = 'oil_change'`),
+]);
+
+export const maintenanceTaskCompletions = pgTable('maintenance_task_completions', {
+  id: serial('id').primaryKey(),
+  taskId: integer('task_id').notNull().references(() => maintenanceTasks.id, { onDelete: 'cascade' }),
   performedAt: timestamp('performed_at').notNull(),
-  hoursAtChange: doublePrecision('hours_at_change').notNull(),
+  hoursAtCompletion: doublePrecision('hours_at_completion').notNull(),
   notes: varchar('notes', { length: 500 }),
+  // Set while the completion is in the trash; trashed completions don't count as the last service
+  deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
+
+export const maintenanceNotifications = pgTable('maintenance_notifications', {
+  id: serial('id').primaryKey(),
+  generatorId: integer('generator_id').notNull().references(() => generators.id, { onDelete: 'cascade' }),
+  taskId: integer('task_id').notNull().references(() => maintenanceTasks.id, { onDelete: 'cascade' }),
+  reason: varchar('reason', { length: 20 }).notNull(),
+  hoursSinceChange: doublePrecision('hours_since_change').notNull(),
+  monthsSinceChange: integer('months_since_change').notNull(),
+  // Snapshot of maintenance_tasks.last_completed_at when the reminder fired; a reminder is only
+  // sent once per service cycle, so logging the task as done re-arms the dispatcher.
+  lastCompletedAt: timestamp('last_completed_at'),
+  recipient: varchar('recipient', { length: 255 }).notNull(),
+  sentAt: timestamp('sent_at').defaultNow().notNull(),
+  snoozedUntil: timestamp('snoozed_until'),
+  acknowledgedAt: timestamp('acknowledged_at'),
+});
+
+// Who changed what: one row per state-changing request (toggles, log edits, maintenance,
+// generator settings, API keys). userId is the account the event belongs to; the actor is the
+// session user, the API key used, or 'system' for the auto-stop sweeper. actorApiKeyId,
+// generatorId and targetId have no foreign keys so events outlive what they describe.
+export const auditEvents = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  actorType: varchar('actor_type', { length: 20 }).notNull(),
+  actorUserId: integer('actor_user_id').references(() => users.id, { onDelete: 'set null' }),
+  actorApiKeyId: integer('actor_api_key_id'),
+  generatorId: integer('generator_id'),
+  action: varchar('action', { length: 50 }).notNull(),
+  targetType: varchar('target_type', { length: 50 }).notNull(),
+  targetId: integer('target_id'),
+  before: jsonb('before'),
+  after: jsonb('after'),
+  ip: varchar('ip', { length: 45 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('audit_events_user_id_id_index').on(table.userId, table.id),
+  index('audit_events_generator_id_id_index').on(table.generatorId, table.id),
+]);
@@ -7,8 +7,22 @@ import { profileRoutes } from './routes/profile.js';
 import { generatorConfigRoutes } from './routes/generator-config.js';
 import { apiKeyRoutes } from './routes/api-keys.js';
 import { usageLogsRoutes } from './routes/usage-logs.js';
+import { fuelRoutes } from './routes/fuel.js';
+import { hourMeterRoutes } from './routes/hour-meter.js';
+import { reportRoutes } from './routes/reports.js';
+import { exportRoutes } from './routes/export.js';
 import { oilChangeHistoryRoutes } from './routes/oil-change-history.js';
+import { maintenanceNotificationRoutes } from './routes/maintenance-notifications.js';
+import { maintenanceTaskRoutes } from './routes/maintenance-tasks.js';
+import { auditRoutes } from './routes/audit.js';
+import { trashRoutes } from './routes/trash.js';
+import { memberRoutes } from './routes/members.js';
+import { siteRoutes } from './routes/sites.js';
 import { registerSessionMiddleware } from './services/session.js';
+import { createSmtpTransport } from './services/email.js';
+import { MaintenanceReminderScheduler } from './services/reminders.js';
+import { AutoStopScheduler } from './services/auto-stop.js';
+import { TrashPurgeScheduler } from './services/trash.js';
 
 const server = Fastify({
   logger: {
@@ -20,6 +34,20 @@ const server = Fastify({
 const rateLimiter = new RateLimiter(config.apiRateLimit);
 server.decorate('rateLimiter', rateLimiter);
 
+// Outgoing email for reminders and invites — only available when an SMTP server is configured
+const mailTransport = config.smtp.host ? createSmtpTransport(config.smtp) : null;
+
+// Maintenance reminder emails
+const reminderScheduler = mailTransport
+  ? new MaintenanceReminderScheduler(mailTransport, config.reminders.checkInterval, server.log)
+  : null;
+
+// Stops runs that exceed a generator's maximum run length (forgotten Shortcut taps)
+const autoStopScheduler = new AutoStopScheduler(config.autoStop.checkInterval, server.log);
+
+// Permanently removes deleted usage logs and maintenance entries once their retention has passed
+const trashPurgeScheduler = new TrashPurgeScheduler(config.trash.retentionDays, config.trash.purgeInterval, server.log);
+
 // CORS — reflect localhost/LAN origins in development, enforce configured origin in production
 server.addHook('onRequest', async (request, reply) => {
   const origin = request.headers['origin'] ?? '';
@@ -27,8 +55,9 @@ server.addHook('onRequest', async (request, reply) => {
   const allowedOrigin = (config.nodeEnv !== 'production' && isLocalOrigin) ? origin : config.corsOrigin;
   reply.header('Access-Control-Allow-Origin', allowedOrigin);
   reply.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  reply.header('Access-Control-Allow-Headers', 'Content-Type, x-api-key');
+  reply.header('Access-Control-Allow-Headers', 'Content-Type, x-api-key, Idempotency-Key');
   reply.header('Access-Control-Allow-Credentials', 'true');
+  reply.header('Access-Control-Expose-Headers', 'X-Next-Cursor');
   if (request.method === 'OPTIONS') {
     return reply.status(204).send();
   }
@@ -44,7 +73,17 @@ profileRoutes(server);
 generatorConfigRoutes(server);
 apiKeyRoutes(server);
 usageLogsRoutes(server);
+fuelRoutes(server);
+hourMeterRoutes(server);
+reportRoutes(server);
+exportRoutes(server);
 oilChangeHistoryRoutes(server);
+maintenanceTaskRoutes(server);
+maintenanceNotificationRoutes(server);
+auditRoutes(server);
+trashRoutes(server);
+memberRoutes(server, mailTransport);
+siteRoutes(server);
 
 // Health check endpoint
 server.get('/health', async () => {
@@ -75,6 +114,15 @@ const start = async () => {
     server.log.info(`Environment: ${config.nodeEnv}`);
     server.log.info(`Listening on ${config.host}:${config.port}`);
     server.log.info(`Rate limit: ${config.apiRateLimit} requests per second`);
+
+    if (reminderScheduler) {
+      server.log.info(`Maintenance reminders: checking every ${config.reminders.checkInterval / 1000}s via ${config.smtp.host}`);
+      void reminderScheduler.run();
+    } else {
+      server.log.info('Maintenance reminders: disabled (SMTP_HOST not set)');
+    }
+    void autoStopScheduler.run();
+    void trashPurgeScheduler.run();
   } catch (err) {
     server.log.error(err);
     process.exit(1);
@@ -85,6 +133,9 @@ const start = async () => {
 const shutdown = async () => {
   server.log.info('Shutting down gracefully...');
   rateLimiter.destroy();
+  reminderScheduler?.destroy();
+  autoStopScheduler.destroy();
+  trashPurgeScheduler.destroy();
   await server.close();
   process.exit(0);
 };
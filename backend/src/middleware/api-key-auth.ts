@@ -0,0 +1,73 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import * as schema from '../db/schema.js';
+import { findApiKey, resolveApiKeyGenerator } from '../services/generator.js';
+import { normalizeScopes, SCOPE_ROLES, type ApiKeyScope } from '../services/api-key-scopes.js';
+import { forbiddenMessage } from '../services/membership.js';
+
+export interface AuthenticatedApiKey {
+  apiKeyId: number;
+  userId: number;
+  scopes: ApiKeyScope[];
+  generator: typeof schema.generators.$inferSelect;
+}
+
+// The key authenticated by requireApiKey for this request
+export function getApiKey(request: FastifyRequest): AuthenticatedApiKey {
+  return (request as any).apiKey;
+}
+
+// preHandler for the API-key endpoints: applies the rate limit, authenticates the x-api-key
+// header, checks the key has `scope` and resolves the generator it acts on. Handlers read the
+// result with getApiKey.
+export function requireApiKey(scope: ApiKeyScope) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const apiKey = request.headers['x-api-key'];
+    if (typeof apiKey !== 'string' || !apiKey) {
+      return reply.code(401).send({ error: 'API key required' });
+    }
+
+    const rateLimiter = (request.server as any).rateLimiter;
+    if (rateLimiter) {
+      const limitCheck = rateLimiter.checkLimit(request.ip);
+      if (!limitCheck.allowed) {
+        return reply.code(429).send({
+          error: 'Too many requests - rate limit exceeded',
+          retryAfter: limitCheck.retryAfter,
+        });
+      }
+    }
+
+    try {
+      const key = await findApiKey(apiKey);
+      if (!key) {
+        return reply.code(401).send({ error: 'Invalid API key' });
+      }
+
+      const scopes = normalizeScopes(key.scopes);
+      if (!scopes.includes(scope)) {
+        return reply.code(403).send({ error: `API key does not have the ${scope} scope` });
+      }
+
+      const required = SCOPE_ROLES[scope];
+      const generator = await resolveApiKeyGenerator(key, required);
+      if (!generator) {
+        // The key is valid, but its user can only view the generator it would act on
+        if (required !== 'viewer' && await resolveApiKeyGenerator(key, 'viewer')) {
+          return reply.code(403).send({ error: forbiddenMessage(required) });
+        }
+        return reply.code(401).send({ error: 'Invalid API key' });
+      }
+
+      const authenticated: AuthenticatedApiKey = { apiKeyId: key.id, userId: key.userId, scopes, generator };
+      (request as any).apiKey = authenticated;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'API key is not bound to a generator') {
+        return reply.code(409).send({
+          error: 'API key is not bound to a generator and this account has more than one. Select a generator for the key on the API Keys page.',
+        });
+      }
+      request.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  };
+}
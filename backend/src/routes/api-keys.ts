@@ -4,14 +4,67 @@ import { getDb } from '../db/index.js';
 import * as schema from '../db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import { generateApiKey } from '../utils/auth.js';
-import { generateToggleShortcut } from '../utils/shortcut.js';
+import { generateStartShortcut, generateStopShortcut, generateToggleShortcut } from '../utils/shortcut.js';
 import QRCode from 'qrcode';
 import config from '../config.js';
+import { recordAuditEvent, sessionActor } from '../services/audit.js';
+import { hasRole, resolveGeneratorAccess } from '../services/membership.js';
+import {
+  API_KEY_SCOPES,
+  DEFAULT_API_KEY_SCOPES,
+  normalizeScopes,
+  requiredRole,
+  type ApiKeyScope,
+} from '../services/api-key-scopes.js';
+
+const scopesSchema = z.array(z.enum(API_KEY_SCOPES)).min(1).transform(normalizeScopes);
 
 const createApiKeySchema = z.object({
   name: z.string().min(1).optional(),
+  generatorId: z.number().int().positive().nullable().optional(),
+  scopes: scopesSchema.optional(),
 });
 
+const updateApiKeySchema = z.object({
+  name: z.string().min(1).optional(),
+  generatorId: z.number().int().positive().nullable().optional(),
+  scopes: scopesSchema.optional(),
+}).refine(data => data.name !== undefined || data.generatorId !== undefined || data.scopes !== undefined, {
+  message: 'At least one field must be provided',
+});
+
+const shortcutActionSchema = z.enum(['toggle', 'start', 'stop']).default('toggle');
+
+const SHORTCUT_VARIANTS = {
+  toggle: { generate: generateToggleShortcut, suffix: 'Toggle' },
+  start: { generate: generateStartShortcut, suffix: 'Start' },
+  stop: { generate: generateStopShortcut, suffix: 'Stop' },
+};
+
+function shortcutFileUrl(keyId: number, action: 'toggle' | 'start' | 'stop'): string {
+  const base = `${config.apiBaseUrl}/api/api-keys/${keyId}/shortcut-file`;
+  return action === 'toggle' ? base : `${base}?action=${action}`;
+}
+
+type ApiKey = typeof schema.apiKeys.$inferSelect;
+
+// Audit log view of a key; never includes the hash
+function keySnapshot(k: ApiKey) {
+  return { name: k.name, hint: k.hint, generatorId: k.generatorId, scopes: k.scopes };
+}
+
+// Keys can only be bound to generators the user may use for all of the key's scopes: read-only
+// keys need a viewer, keys that start and stop or log need an operator
+async function canBindGenerator(
+  db: ReturnType<typeof getDb>,
+  generatorId: number,
+  userId: number,
+  scopes: ApiKeyScope[]
+): Promise<boolean> {
+  const access = await resolveGeneratorAccess(db, generatorId, userId);
+  return access !== null && hasRole(access.role, requiredRole(scopes));
+}
+
 export async function apiKeyRoutes(app: FastifyInstance) {
   app.post('/api/api-keys', async (request, reply) => {
     const userId = (request as any).sessionUser?.id;
@@ -22,23 +75,38 @@ export async function apiKeyRoutes(app: FastifyInstance) {
       return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
     }
 
-    const { name } = validation.data;
+    const { name, generatorId, scopes = DEFAULT_API_KEY_SCOPES } = validation.data;
     const db = getDb();
 
+    if (generatorId != null && !(await canBindGenerator(db, generatorId, userId, scopes))) {
+      return reply.status(400).send({ error: 'Generator not found' });
+    }
+
     try {
       const { raw, hash, hint } = generateApiKey();
 
       const [newApiKey] = await db
         .insert(schema.apiKeys)
-        .values({ userId, keyHash: hash, hint, name: name || null })
+        .values({ userId, keyHash: hash, hint, name: name || null, generatorId: generatorId ?? null, scopes })
         .returning();
 
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId: newApiKey.generatorId,
+        action: 'api_key.create',
+        targetType: 'api_key',
+        targetId: newApiKey.id,
+        after: keySnapshot(newApiKey),
+      });
+
       // Return raw key exactly once — it cannot be recovered after this response
       return reply.status(201).send({
         id: newApiKey.id,
         name: newApiKey.name,
         key: raw,
         hint: newApiKey.hint,
+        generatorId: newApiKey.generatorId,
+        scopes: normalizeScopes(newApiKey.scopes),
         createdAt: newApiKey.createdAt,
       });
     } catch (error) {
@@ -63,6 +131,8 @@ export async function apiKeyRoutes(app: FastifyInstance) {
         id: k.id,
         name: k.name,
         hint: `gl_...${k.hint}`,
+        generatorId: k.generatorId,
+        scopes: normalizeScopes(k.scopes),
         lastUsedAt: k.lastUsedAt,
         createdAt: k.createdAt,
       })));
@@ -72,6 +142,74 @@ export async function apiKeyRoutes(app: FastifyInstance) {
     }
   });
 
+  app.put('/api/api-keys/:id', async (request, reply) => {
+    const userId = (request as any).sessionUser?.id;
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string };
+    const keyId = parseInt(params.id, 10);
+    if (isNaN(keyId)) return reply.status(400).send({ error: 'Invalid API key ID' });
+
+    const validation = updateApiKeySchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const { name, generatorId, scopes } = validation.data;
+    const db = getDb();
+
+    try {
+      const [existing] = await db
+        .select()
+        .from(schema.apiKeys)
+        .where(and(eq(schema.apiKeys.id, keyId), eq(schema.apiKeys.userId, userId)))
+        .limit(1);
+
+      if (!existing) return reply.status(404).send({ error: 'API key not found' });
+
+      // Checks the binding the key ends up with, since new scopes may need a higher role
+      const boundId = generatorId !== undefined ? generatorId : existing.generatorId;
+      const bindingChanged = generatorId !== undefined || scopes !== undefined;
+      if (boundId !== null && bindingChanged
+        && !(await canBindGenerator(db, boundId, userId, scopes ?? normalizeScopes(existing.scopes)))) {
+        return reply.status(400).send({ error: 'Generator not found' });
+      }
+
+      const [updated] = await db
+        .update(schema.apiKeys)
+        .set({
+          ...(name !== undefined ? { name } : {}),
+          ...(generatorId !== undefined ? { generatorId } : {}),
+          ...(scopes !== undefined ? { scopes } : {}),
+        })
+        .where(eq(schema.apiKeys.id, keyId))
+        .returning();
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId: updated.generatorId,
+        action: 'api_key.update',
+        targetType: 'api_key',
+        targetId: keyId,
+        before: keySnapshot(existing),
+        after: keySnapshot(updated),
+      });
+
+      return reply.send({
+        id: updated.id,
+        name: updated.name,
+        hint: `gl_...${updated.hint}`,
+        generatorId: updated.generatorId,
+        scopes: normalizeScopes(updated.scopes),
+        lastUsedAt: updated.lastUsedAt,
+        createdAt: updated.createdAt,
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
   app.delete('/api/api-keys/:id', async (request, reply) => {
     const userId = (request as any).sessionUser?.id;
     if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
@@ -92,6 +230,16 @@ export async function apiKeyRoutes(app: FastifyInstance) {
       if (!existing) return reply.status(404).send({ error: 'API key not found' });
 
       await db.delete(schema.apiKeys).where(eq(schema.apiKeys.id, keyId));
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId: existing.generatorId,
+        action: 'api_key.delete',
+        targetType: 'api_key',
+        targetId: keyId,
+        before: keySnapshot(existing),
+      });
+
       return reply.status(204).send();
     } catch (error) {
       app.log.error(error);
@@ -126,12 +274,24 @@ export async function apiKeyRoutes(app: FastifyInstance) {
         .where(eq(schema.apiKeys.id, keyId))
         .returning();
 
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId: updated.generatorId,
+        action: 'api_key.reset',
+        targetType: 'api_key',
+        targetId: keyId,
+        before: keySnapshot(existing),
+        after: keySnapshot(updated),
+      });
+
       // Return raw key exactly once
       return reply.send({
         id: updated.id,
         name: updated.name,
         key: raw,
         hint: updated.hint,
+        generatorId: updated.generatorId,
+        scopes: normalizeScopes(updated.scopes),
         createdAt: updated.createdAt,
       });
     } catch (error) {
@@ -148,6 +308,9 @@ export async function apiKeyRoutes(app: FastifyInstance) {
     const keyId = parseInt(params.id, 10);
     if (isNaN(keyId)) return reply.status(400).send({ error: 'Invalid API key ID' });
 
+    const action = shortcutActionSchema.safeParse((request.query as { action?: string }).action);
+    if (!action.success) return reply.status(400).send({ error: 'Invalid shortcut action' });
+
     const db = getDb();
 
     try {
@@ -159,9 +322,10 @@ export async function apiKeyRoutes(app: FastifyInstance) {
 
       if (!apiKey) return reply.status(404).send({ error: 'API key not found' });
 
-      const toggleEndpoint = `${config.apiBaseUrl}/api/generator/toggle`;
-      const shortcutName = apiKey.name ? `${apiKey.name} Toggle` : 'Generator Toggle';
-      const plist = generateToggleShortcut(toggleEndpoint, shortcutName);
+      const variant = SHORTCUT_VARIANTS[action.data];
+      const endpoint = `${config.apiBaseUrl}/api/generator/${action.data}`;
+      const shortcutName = apiKey.name ? `${apiKey.name} ${variant.suffix}` : `Generator ${variant.suffix}`;
+      const plist = variant.generate(endpoint, shortcutName);
 
       return reply
         .header('Content-Type', 'application/octet-stream')
@@ -194,8 +358,8 @@ export async function apiKeyRoutes(app: FastifyInstance) {
 
       if (!existing) return reply.status(404).send({ error: 'API key not found' });
 
-      const shortcutFileUrl = `${config.apiBaseUrl}/api/api-keys/${keyId}/shortcut-file`;
-      const deepLink = `shortcuts://import-workflow?url=${encodeURIComponent(shortcutFileUrl)}`;
+      const toggleFileUrl = shortcutFileUrl(keyId, 'toggle');
+      const deepLink = `shortcuts://import-workflow?url=${encodeURIComponent(toggleFileUrl)}`;
 
       const qrDataUrl = await QRCode.toDataURL(deepLink, {
         width: 300,
@@ -203,7 +367,7 @@ export async function apiKeyRoutes(app: FastifyInstance) {
         color: { dark: '#000000', light: '#FFFFFF' },
       });
 
-      return reply.send({ qrCode: qrDataUrl, shortcutFileUrl });
+      return reply.send({ qrCode: qrDataUrl, shortcutFileUrl: toggleFileUrl });
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
@@ -234,7 +398,11 @@ export async function apiKeyRoutes(app: FastifyInstance) {
         name: existing.name,
         hint: `gl_...${existing.hint}`,
         apiEndpoint: `${config.apiBaseUrl}/api/generator/toggle`,
-        shortcutFileUrl: `${config.apiBaseUrl}/api/api-keys/${keyId}/shortcut-file`,
+        startEndpoint: `${config.apiBaseUrl}/api/generator/start`,
+        stopEndpoint: `${config.apiBaseUrl}/api/generator/stop`,
+        shortcutFileUrl: shortcutFileUrl(keyId, 'toggle'),
+        startShortcutFileUrl: shortcutFileUrl(keyId, 'start'),
+        stopShortcutFileUrl: shortcutFileUrl(keyId, 'stop'),
       });
     } catch (error) {
       app.log.error(error);
@@ -0,0 +1,108 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { eq, and, or, lt, desc, inArray, isNull } from 'drizzle-orm';
+import { AUDIT_ACTIONS } from '../services/audit.js';
+import { memberGeneratorIds } from '../services/membership.js';
+
+const listAuditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  cursor: z.string().optional(),
+  generatorId: z.coerce.number().int().positive().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+});
+
+// Cursors are opaque to clients: the id of the last event on the previous page
+function encodeCursor(eventId: number): string {
+  return Buffer.from(String(eventId)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | null {
+  const eventId = parseInt(Buffer.from(cursor, 'base64url').toString(), 10);
+  return isNaN(eventId) ? null : eventId;
+}
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+export async function auditRoutes(app: FastifyInstance) {
+  // Newest first, paged with the X-Next-Cursor header like the usage log listing
+  app.get('/api/audit', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const validation = listAuditQuerySchema.safeParse(request.query);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const { limit, cursor, generatorId, action } = validation.data;
+
+    const before = cursor ? decodeCursor(cursor) : null;
+    if (cursor && before === null) return reply.status(400).send({ error: 'Invalid cursor' });
+
+    const db = getDb();
+
+    try {
+      const rows = await db
+        .select({
+          event: schema.auditEvents,
+          actorName: schema.users.name,
+          actorEmail: schema.users.email,
+          apiKeyName: schema.apiKeys.name,
+          apiKeyHint: schema.apiKeys.hint,
+          generatorName: schema.generators.name,
+        })
+        .from(schema.auditEvents)
+        .leftJoin(schema.users, eq(schema.users.id, schema.auditEvents.actorUserId))
+        .leftJoin(schema.apiKeys, eq(schema.apiKeys.id, schema.auditEvents.actorApiKeyId))
+        .leftJoin(schema.generators, eq(schema.generators.id, schema.auditEvents.generatorId))
+        .where(and(
+          // Everything on generators the user is currently a member of, so removed members lose
+          // access, plus their own events not tied to an existing generator
+          or(
+            inArray(schema.auditEvents.generatorId, memberGeneratorIds(db, userId)),
+            and(isNull(schema.generators.id), eq(schema.auditEvents.userId, userId))
+          ),
+          generatorId !== undefined ? eq(schema.auditEvents.generatorId, generatorId) : undefined,
+          action ? eq(schema.auditEvents.action, action) : undefined,
+          before !== null ? lt(schema.auditEvents.id, before) : undefined
+        ))
+        .orderBy(desc(schema.auditEvents.id))
+        // One extra row tells us whether there is a next page
+        .limit(limit + 1);
+
+      const page = rows.slice(0, limit);
+      if (rows.length > limit) {
+        reply.header('X-Next-Cursor', encodeCursor(page[page.length - 1].event.id));
+      }
+
+      return reply.send(page.map(({ event: e, ...joined }) => ({
+        id: e.id,
+        action: e.action,
+        targetType: e.targetType,
+        targetId: e.targetId,
+        generatorId: e.generatorId,
+        // Null once the generator has been removed
+        generatorName: joined.generatorName,
+        actor: {
+          type: e.actorType,
+          userId: e.actorUserId,
+          name: e.actorUserId !== null ? (joined.actorName ?? joined.actorEmail) : null,
+          apiKeyId: e.actorApiKeyId,
+          // Null once the key has been deleted
+          apiKeyName: joined.apiKeyHint !== null ? (joined.apiKeyName ?? `gl_...${joined.apiKeyHint}`) : null,
+        },
+        before: e.before,
+        after: e.after,
+        ip: e.ip,
+        createdAt: e.createdAt,
+      })));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,92 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { getApiKey, requireApiKey } from '../middleware/api-key-auth.js';
+import {
+  createExport,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+} from '../services/export.js';
+import { resolveGeneratorAccess } from '../services/membership.js';
+
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).optional().default('csv'),
+  dataset: z.enum(EXPORT_DATASETS).optional().default('usage-logs'),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+}).refine(data => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+  message: 'to must be after from',
+  path: ['to'],
+}).refine(data => !(data.format === 'csv' && data.dataset === 'all'), {
+  message: 'CSV exports one dataset at a time; use json or xlsx for all',
+  path: ['dataset'],
+});
+
+type ExportQuery = z.infer<typeof exportQuerySchema>;
+type Generator = typeof schema.generators.$inferSelect;
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+function exportFilename(generator: Generator, query: ExportQuery): string {
+  const name = generator.name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'generator';
+  const date = new Date().toISOString().slice(0, 10);
+  return `${name}-${query.dataset}-${date}.${query.format}`;
+}
+
+export async function exportRoutes(app: FastifyInstance) {
+  const sendExport = async (reply: FastifyReply, generator: Generator, query: ExportQuery) => {
+    const body = await createExport(generator, query.format, query.dataset, {
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+    });
+
+    return reply
+      .header('Content-Type', EXPORT_CONTENT_TYPES[query.format])
+      .header('Content-Disposition', `attachment; filename="${exportFilename(generator, query)}"`)
+      .send(body);
+  };
+
+  app.get('/api/generators/:id/export', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = exportQuerySchema.safeParse(request.query);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    const { generator } = access;
+
+    try {
+      return await sendExport(reply, generator, validation.data);
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Same export for scripts, authenticated with an API key for the key's generator
+  app.get('/api/generator/export', { preHandler: requireApiKey('logs:read') }, async (request, reply) => {
+    const validation = exportQuerySchema.safeParse(request.query);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    try {
+      return await sendExport(reply, getApiKey(request).generator, validation.data);
+    } catch (error) {
+      app.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+}
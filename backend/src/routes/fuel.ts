@@ -0,0 +1,298 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { estimateFuelRemaining } from '../services/fuel.js';
+import { priceAt } from '../services/costs.js';
+import { forbiddenMessage, hasRole, resolveGeneratorAccess } from '../services/membership.js';
+
+const createRefuelSchema = z.object({
+  gallons: z.number().positive(),
+  filledToFull: z.boolean().optional().default(false),
+  refueledAt: z.string().datetime().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+const createFuelPriceSchema = z.object({
+  pricePerGallon: z.number().positive(),
+  effectiveFrom: z.string().datetime().optional(),
+});
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+type RefuelEvent = typeof schema.refuelEvents.$inferSelect;
+type FuelPrice = typeof schema.fuelPrices.$inferSelect;
+
+function toRefuelResponse(r: RefuelEvent) {
+  return {
+    id: r.id,
+    generatorId: r.generatorId,
+    gallons: r.gallons,
+    filledToFull: r.filledToFull,
+    refueledAt: r.refueledAt,
+    notes: r.notes,
+    createdAt: r.createdAt,
+  };
+}
+
+function toFuelPriceResponse(p: FuelPrice) {
+  return {
+    id: p.id,
+    generatorId: p.generatorId,
+    pricePerGallon: p.pricePerGallon,
+    effectiveFrom: p.effectiveFrom,
+    createdAt: p.createdAt,
+  };
+}
+
+export async function fuelRoutes(app: FastifyInstance) {
+  app.get('/api/generators/:id/fuel', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    const { generator } = access;
+
+    try {
+      const [refuels, runs, prices] = await Promise.all([
+        db
+          .select()
+          .from(schema.refuelEvents)
+          .where(eq(schema.refuelEvents.generatorId, generatorId))
+          .orderBy(desc(schema.refuelEvents.refueledAt)),
+        db
+          .select({ startTime: schema.usageLogs.startTime, endTime: schema.usageLogs.endTime })
+          .from(schema.usageLogs)
+          .where(and(eq(schema.usageLogs.generatorId, generatorId), isNull(schema.usageLogs.deletedAt))),
+        db
+          .select()
+          .from(schema.fuelPrices)
+          .where(eq(schema.fuelPrices.generatorId, generatorId)),
+      ]);
+
+      const gallonsRemaining = estimateFuelRemaining(
+        generator.tankCapacityGallons,
+        generator.fuelBurnRate,
+        refuels,
+        runs
+      );
+
+      return reply.send({
+        tankCapacityGallons: generator.tankCapacityGallons,
+        fuelBurnRate: generator.fuelBurnRate,
+        estimatedGallonsRemaining: gallonsRemaining,
+        lastRefueledAt: refuels[0]?.refueledAt ?? null,
+        pricePerGallon: priceAt(prices, new Date()),
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/generators/:id/refuels', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+
+    try {
+      const refuels = await db
+        .select()
+        .from(schema.refuelEvents)
+        .where(eq(schema.refuelEvents.generatorId, generatorId))
+        .orderBy(desc(schema.refuelEvents.refueledAt));
+
+      return reply.send(refuels.map(toRefuelResponse));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/generators/:id/refuels', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = createRefuelSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const { gallons, filledToFull, refueledAt, notes } = validation.data;
+
+    try {
+      const [refuel] = await db
+        .insert(schema.refuelEvents)
+        .values({
+          generatorId,
+          gallons,
+          filledToFull,
+          refueledAt: refueledAt ? new Date(refueledAt) : new Date(),
+          notes: notes ?? null,
+        })
+        .returning();
+
+      return reply.status(201).send(toRefuelResponse(refuel));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/generators/:id/refuels/:refuelId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; refuelId: string };
+    const generatorId = parseInt(params.id, 10);
+    const refuelId = parseInt(params.refuelId, 10);
+
+    if (isNaN(generatorId) || isNaN(refuelId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const [existing] = await db
+      .select()
+      .from(schema.refuelEvents)
+      .where(and(
+        eq(schema.refuelEvents.id, refuelId),
+        eq(schema.refuelEvents.generatorId, generatorId)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Refuel entry not found' });
+
+    try {
+      await db.delete(schema.refuelEvents).where(eq(schema.refuelEvents.id, refuelId));
+      return reply.status(204).send();
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/generators/:id/fuel-prices', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+
+    try {
+      const prices = await db
+        .select()
+        .from(schema.fuelPrices)
+        .where(eq(schema.fuelPrices.generatorId, generatorId))
+        .orderBy(desc(schema.fuelPrices.effectiveFrom));
+
+      return reply.send(prices.map(toFuelPriceResponse));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/generators/:id/fuel-prices', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = createFuelPriceSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const { pricePerGallon, effectiveFrom } = validation.data;
+
+    try {
+      const [price] = await db
+        .insert(schema.fuelPrices)
+        .values({
+          generatorId,
+          pricePerGallon,
+          effectiveFrom: effectiveFrom ? new Date(effectiveFrom) : new Date(),
+        })
+        .returning();
+
+      return reply.status(201).send(toFuelPriceResponse(price));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/generators/:id/fuel-prices/:priceId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; priceId: string };
+    const generatorId = parseInt(params.id, 10);
+    const priceId = parseInt(params.priceId, 10);
+
+    if (isNaN(generatorId) || isNaN(priceId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const [existing] = await db
+      .select()
+      .from(schema.fuelPrices)
+      .where(and(
+        eq(schema.fuelPrices.id, priceId),
+        eq(schema.fuelPrices.generatorId, generatorId)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Fuel price not found' });
+
+    try {
+      await db.delete(schema.fuelPrices).where(eq(schema.fuelPrices.id, priceId));
+      return reply.status(204).send();
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -2,14 +2,28 @@ import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { getDb } from '../db/index.js';
 import * as schema from '../db/schema.js';
-import { eq, and } from 'drizzle-orm';
-import { toggleGenerator } from '../services/generator.js';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import {
+  archiveGenerator,
+  deleteGenerator,
+  lockGenerator,
+  startGenerator,
+  stopGenerator,
+  toggleGenerator,
+  unarchiveGenerator,
+} from '../services/generator.js';
+import { ensureOilChangeTask, shiftCompletionHours } from '../services/maintenance-tasks.js';
+import { recordAuditEvent, sessionActor } from '../services/audit.js';
+import { addOwnerMembership, forbiddenMessage, hasRole, resolveGeneratorAccess } from '../services/membership.js';
+import { canAssignSite } from '../services/sites.js';
 
 const createGeneratorSchema = z.object({
   name: z.string().min(1),
   oilChangeMonths: z.number().int().positive().optional().default(6),
   oilChangeHours: z.number().positive().optional().default(100),
   installedAt: z.coerce.date().nullable().optional(),
+  initialHours: z.number().min(0).optional().default(0),
+  siteId: z.number().int().positive().nullable().optional(),
 });
 
 const updateGeneratorSchema = z.object({
@@ -17,14 +31,46 @@ const updateGeneratorSchema = z.object({
   oilChangeMonths: z.number().int().positive().optional(),
   oilChangeHours: z.number().positive().optional(),
   installedAt: z.coerce.date().nullable().optional(),
+  initialHours: z.number().min(0).optional(),
+  maxRunHours: z.number().positive().nullable().optional(),
+  tankCapacityGallons: z.number().positive().nullable().optional(),
+  fuelBurnRate: z.number().positive().nullable().optional(),
+  siteId: z.number().int().positive().nullable().optional(),
 }).refine(data =>
   data.name !== undefined ||
   data.oilChangeMonths !== undefined ||
   data.oilChangeHours !== undefined ||
-  data.installedAt !== undefined, {
+  data.installedAt !== undefined ||
+  data.initialHours !== undefined ||
+  data.maxRunHours !== undefined ||
+  data.tankCapacityGallons !== undefined ||
+  data.fuelBurnRate !== undefined ||
+  data.siteId !== undefined, {
   message: 'At least one field must be provided',
 });
 
+const listGeneratorsQuerySchema = z.object({
+  includeArchived: z.enum(['true', 'false']).optional(),
+  siteId: z.coerce.number().int().positive().optional(),
+});
+
+type Generator = typeof schema.generators.$inferSelect;
+
+// The user-editable settings, as recorded in the audit log
+function settingsSnapshot(g: Generator) {
+  return {
+    name: g.name,
+    oilChangeMonths: g.oilChangeMonths,
+    oilChangeHours: g.oilChangeHours,
+    installedAt: g.installedAt,
+    initialHours: g.initialHours,
+    maxRunHours: g.maxRunHours,
+    tankCapacityGallons: g.tankCapacityGallons,
+    fuelBurnRate: g.fuelBurnRate,
+    siteId: g.siteId,
+  };
+}
+
 function getUserId(request: any): number | null {
   return (request.sessionUser?.id) ?? null;
 }
@@ -48,20 +94,46 @@ export async function generatorConfigRoutes(app: FastifyInstance) {
       });
     }
 
-    const { name, oilChangeMonths, oilChangeHours, installedAt } = validation.data;
+    const { name, oilChangeMonths, oilChangeHours, installedAt, initialHours, siteId } = validation.data;
     const db = getDb();
 
+    if (siteId != null && !(await canAssignSite(db, siteId, userId))) {
+      return reply.status(400).send({
+        error: 'Site not found',
+      });
+    }
+
     try {
-      const [newGenerator] = await db
-        .insert(schema.generators)
-        .values({
+      // The owner membership is what makes the generator visible, so it commits with the generator
+      const newGenerator = await db.transaction(async tx => {
+        const [created] = await tx
+          .insert(schema.generators)
+          .values({
+            userId,
+            name,
+            oilChangeMonths,
+            oilChangeHours,
+            installedAt: installedAt ?? null,
+            initialHours,
+            totalHours: initialHours,
+            siteId: siteId ?? null,
+          })
+          .returning();
+
+        await ensureOilChangeTask(tx, created);
+        await addOwnerMembership(tx, created.id, userId);
+
+        await recordAuditEvent(tx, sessionActor(request), {
           userId,
-          name,
-          oilChangeMonths,
-          oilChangeHours,
-          installedAt: installedAt ?? null,
-        })
-        .returning();
+          generatorId: created.id,
+          action: 'generator.create',
+          targetType: 'generator',
+          targetId: created.id,
+          after: settingsSnapshot(created),
+        });
+
+        return created;
+      });
 
       return reply.status(201).send({
         id: newGenerator.id,
@@ -69,10 +141,18 @@ export async function generatorConfigRoutes(app: FastifyInstance) {
         oilChangeMonths: newGenerator.oilChangeMonths,
         oilChangeHours: newGenerator.oilChangeHours,
         totalHours: newGenerator.totalHours,
+        initialHours: newGenerator.initialHours,
         lastOilChangeDate: newGenerator.lastOilChangeDate,
         lastOilChangeHours: newGenerator.lastOilChangeHours,
         installedAt: newGenerator.installedAt,
+        maxRunHours: newGenerator.maxRunHours,
+        tankCapacityGallons: newGenerator.tankCapacityGallons,
+        fuelBurnRate: newGenerator.fuelBurnRate,
+        meterAdjustmentHours: newGenerator.meterAdjustmentHours,
         isRunning: newGenerator.isRunning,
+        archivedAt: newGenerator.archivedAt,
+        siteId: newGenerator.siteId,
+        role: 'owner',
         createdAt: newGenerator.createdAt,
       });
     } catch (error) {
@@ -92,25 +172,51 @@ export async function generatorConfigRoutes(app: FastifyInstance) {
       });
     }
 
+    const validation = listGeneratorsQuerySchema.safeParse(request.query);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    // Archived generators are left out unless asked for, so the dashboard only sees active ones
+    const includeArchived = validation.data.includeArchived === 'true';
+    const { siteId } = validation.data;
     const db = getDb();
 
     try {
-      const generators = await db
-        .select()
-        .from(schema.generators)
-        .where(eq(schema.generators.userId, userId));
+      const rows = await db
+        .select({ generator: schema.generators, role: schema.generatorMembers.role })
+        .from(schema.generatorMembers)
+        .innerJoin(schema.generators, eq(schema.generators.id, schema.generatorMembers.generatorId))
+        .where(and(
+          eq(schema.generatorMembers.userId, userId),
+          includeArchived ? undefined : isNull(schema.generators.archivedAt),
+          siteId !== undefined ? eq(schema.generators.siteId, siteId) : undefined
+        ))
+        .orderBy(schema.generators.id);
 
-      return reply.send(generators.map(g => ({
+      return reply.send(rows.map(({ generator: g, role }) => ({
         id: g.id,
         name: g.name,
         oilChangeMonths: g.oilChangeMonths,
         oilChangeHours: g.oilChangeHours,
         totalHours: g.totalHours,
+        initialHours: g.initialHours,
         lastOilChangeDate: g.lastOilChangeDate,
         lastOilChangeHours: g.lastOilChangeHours,
         installedAt: g.installedAt,
+        maxRunHours: g.maxRunHours,
+        tankCapacityGallons: g.tankCapacityGallons,
+        fuelBurnRate: g.fuelBurnRate,
+        meterAdjustmentHours: g.meterAdjustmentHours,
         isRunning: g.isRunning,
         currentStartTime: g.currentStartTime,
+        archivedAt: g.archivedAt,
+        siteId: g.siteId,
+        role,
         createdAt: g.createdAt,
         updatedAt: g.updatedAt,
       })));
@@ -143,32 +249,35 @@ export async function generatorConfigRoutes(app: FastifyInstance) {
     const db = getDb();
 
     try {
-      const [generator] = await db
-        .select()
-        .from(schema.generators)
-        .where(and(
-          eq(schema.generators.id, generatorId),
-          eq(schema.generators.userId, userId)
-        ))
-        .limit(1);
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
 
-      if (!generator) {
+      if (!access) {
         return reply.status(404).send({
           error: 'Generator not found',
         });
       }
 
+      const { generator, role } = access;
+
       return reply.send({
         id: generator.id,
         name: generator.name,
         oilChangeMonths: generator.oilChangeMonths,
         oilChangeHours: generator.oilChangeHours,
         totalHours: generator.totalHours,
+        initialHours: generator.initialHours,
         lastOilChangeDate: generator.lastOilChangeDate,
         lastOilChangeHours: generator.lastOilChangeHours,
         installedAt: generator.installedAt,
+        maxRunHours: generator.maxRunHours,
+        tankCapacityGallons: generator.tankCapacityGallons,
+        fuelBurnRate: generator.fuelBurnRate,
+        meterAdjustmentHours: generator.meterAdjustmentHours,
         isRunning: generator.isRunning,
         currentStartTime: generator.currentStartTime,
+        archivedAt: generator.archivedAt,
+        siteId: generator.siteId,
+        role,
         createdAt: generator.createdAt,
         updatedAt: generator.updatedAt,
       });
@@ -207,38 +316,86 @@ export async function generatorConfigRoutes(app: FastifyInstance) {
       });
     }
 
-    const { name, oilChangeMonths, oilChangeHours, installedAt } = validation.data;
+    const { name, oilChangeMonths, oilChangeHours, installedAt, initialHours, maxRunHours, tankCapacityGallons, fuelBurnRate, siteId } = validation.data;
     const db = getDb();
 
     try {
-      // Check if generator exists and belongs to user
-      const [existing] = await db
-        .select()
-        .from(schema.generators)
-        .where(and(
-          eq(schema.generators.id, generatorId),
-          eq(schema.generators.userId, userId)
-        ))
-        .limit(1);
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
 
-      if (!existing) {
+      if (!access) {
         return reply.status(404).send({
           error: 'Generator not found',
         });
       }
 
+      if (!hasRole(access.role, 'owner')) {
+        return reply.status(403).send({
+          error: forbiddenMessage('owner'),
+        });
+      }
+
+      if (siteId != null && siteId !== access.generator.siteId && !(await canAssignSite(db, siteId, userId))) {
+        return reply.status(400).send({
+          error: 'Site not found',
+        });
+      }
+
+      const existing = access.generator;
+
       // Build update object
       const updateData: any = { updatedAt: new Date() };
       if (name !== undefined) updateData.name = name;
       if (oilChangeMonths !== undefined) updateData.oilChangeMonths = oilChangeMonths;
       if (oilChangeHours !== undefined) updateData.oilChangeHours = oilChangeHours;
       if (installedAt !== undefined) updateData.installedAt = installedAt;
+      if (initialHours !== undefined) {
+        updateData.initialHours = initialHours;
+        // Shift the total by the change in starting hours (the right side sees the old values)
+        updateData.totalHours = sql`${schema.generators.totalHours} + ${initialHours} - ${schema.generators.initialHours}`;
+      }
+      if (maxRunHours !== undefined) updateData.maxRunHours = maxRunHours;
+      if (tankCapacityGallons !== undefined) updateData.tankCapacityGallons = tankCapacityGallons;
+      if (fuelBurnRate !== undefined) updateData.fuelBurnRate = fuelBurnRate;
+      if (siteId !== undefined) updateData.siteId = siteId;
+
+      const updatedGenerator = await db.transaction(async tx => {
+        const current = await lockGenerator(tx, generatorId);
+
+        // totalHours moves with the starting hours, so move the hours of past services with it
+        if (initialHours !== undefined && initialHours !== current.initialHours) {
+          await shiftCompletionHours(tx, generatorId, initialHours - current.initialHours);
+        }
+
+        const [updated] = await tx
+          .update(schema.generators)
+          .set(updateData)
+          .where(eq(schema.generators.id, generatorId))
+          .returning();
+
+        await recordAuditEvent(tx, sessionActor(request), {
+          userId,
+          generatorId,
+          action: 'generator.update',
+          targetType: 'generator',
+          targetId: generatorId,
+          before: settingsSnapshot(existing),
+          after: settingsSnapshot(updated),
+        });
 
-      const [updatedGenerator] = await db
-        .update(schema.generators)
-        .set(updateData)
-        .where(eq(schema.generators.id, generatorId))
-        .returning();
+        return updated;
+      });
+
+      if (oilChangeMonths !== undefined || oilChangeHours !== undefined) {
+        const oilTask = await ensureOilChangeTask(db, updatedGenerator);
+        await db
+          .update(schema.maintenanceTasks)
+          .set({
+            intervalHours: updatedGenerator.oilChangeHours,
+            intervalMonths: updatedGenerator.oilChangeMonths,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.maintenanceTasks.id, oilTask.id));
+      }
 
       return reply.send({
         id: updatedGenerator.id,
@@ -246,11 +403,19 @@ export async function generatorConfigRoutes(app: FastifyInstance) {
         oilChangeMonths: updatedGenerator.oilChangeMonths,
         oilChangeHours: updatedGenerator.oilChangeHours,
         totalHours: updatedGenerator.totalHours,
+        initialHours: updatedGenerator.initialHours,
         lastOilChangeDate: updatedGenerator.lastOilChangeDate,
         lastOilChangeHours: updatedGenerator.lastOilChangeHours,
         installedAt: updatedGenerator.installedAt,
+        maxRunHours: updatedGenerator.maxRunHours,
+        tankCapacityGallons: updatedGenerator.tankCapacityGallons,
+        fuelBurnRate: updatedGenerator.fuelBurnRate,
+        meterAdjustmentHours: updatedGenerator.meterAdjustmentHours,
         isRunning: updatedGenerator.isRunning,
         currentStartTime: updatedGenerator.currentStartTime,
+        archivedAt: updatedGenerator.archivedAt,
+        siteId: updatedGenerator.siteId,
+        role: access.role,
         updatedAt: updatedGenerator.updatedAt,
       });
     } catch (error) {
@@ -261,7 +426,93 @@ export async function generatorConfigRoutes(app: FastifyInstance) {
     }
   });
 
-  app.post('/api/generators/:id/toggle', async (request, reply) => {
+  // Session-authenticated counterparts of the API-key toggle/start/stop endpoints
+  const actions = [
+    ['toggle', toggleGenerator],
+    ['start', startGenerator],
+    ['stop', stopGenerator],
+  ] as const;
+
+  for (const [name, action] of actions) {
+    app.post(`/api/generators/:id/${name}`, async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+      const generatorId = parseInt((request.params as { id: string }).id, 10);
+      if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+      const db = getDb();
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
+      if (!access) return reply.status(404).send({ error: 'Generator not found' });
+      if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+      try {
+        const result = await action(generatorId, sessionActor(request));
+        return reply.send(result);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Generator is archived') {
+          return reply.status(409).send({ error: 'Generator is archived. Unarchive it to use it again.' });
+        }
+        app.log.error(error);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    });
+  }
+
+  const archiveActions = [
+    ['archive', archiveGenerator],
+    ['unarchive', unarchiveGenerator],
+  ] as const;
+
+  for (const [name, action] of archiveActions) {
+    app.post(`/api/generators/:id/${name}`, async (request, reply) => {
+      const userId = getUserId(request);
+      if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+      const generatorId = parseInt((request.params as { id: string }).id, 10);
+      if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+      const db = getDb();
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
+      if (!access) return reply.status(404).send({ error: 'Generator not found' });
+      if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
+
+      try {
+        const updated = await action(generatorId, sessionActor(request));
+        return reply.send({
+          id: updated.id,
+          name: updated.name,
+          oilChangeMonths: updated.oilChangeMonths,
+          oilChangeHours: updated.oilChangeHours,
+          totalHours: updated.totalHours,
+          initialHours: updated.initialHours,
+          lastOilChangeDate: updated.lastOilChangeDate,
+          lastOilChangeHours: updated.lastOilChangeHours,
+          installedAt: updated.installedAt,
+          maxRunHours: updated.maxRunHours,
+          tankCapacityGallons: updated.tankCapacityGallons,
+          fuelBurnRate: updated.fuelBurnRate,
+          meterAdjustmentHours: updated.meterAdjustmentHours,
+          isRunning: updated.isRunning,
+          currentStartTime: updated.currentStartTime,
+          archivedAt: updated.archivedAt,
+          siteId: updated.siteId,
+          role: access.role,
+          createdAt: updated.createdAt,
+          updatedAt: updated.updatedAt,
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Generator is running') {
+          return reply.status(409).send({ error: 'Stop the generator before archiving it' });
+        }
+        app.log.error(error);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    });
+  }
+
+  // Permanent: removes the generator with its logs, maintenance history and bound API keys
+  app.delete('/api/generators/:id', async (request, reply) => {
     const userId = getUserId(request);
     if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
 
@@ -269,17 +520,13 @@ export async function generatorConfigRoutes(app: FastifyInstance) {
     if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
 
     const db = getDb();
-    const [generator] = await db
-      .select()
-      .from(schema.generators)
-      .where(and(eq(schema.generators.id, generatorId), eq(schema.generators.userId, userId)))
-      .limit(1);
-
-    if (!generator) return reply.status(404).send({ error: 'Generator not found' });
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
 
     try {
-      const result = await toggleGenerator(generatorId);
-      return reply.send(result);
+      await deleteGenerator(generatorId, sessionActor(request));
+      return reply.status(204).send();
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
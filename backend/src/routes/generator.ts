@@ -1,37 +1,104 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { getGeneratorByApiKey, toggleGenerator } from '../services/generator.js';
+import { asc, eq } from 'drizzle-orm';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import {
+  startGenerator,
+  stopGenerator,
+  toggleGenerator,
+} from '../services/generator.js';
+import { getMaintenanceStatus } from '../services/maintenance.js';
+import { withIdempotencyKey } from '../services/idempotency.js';
+import { apiKeyActor, type AuditActor } from '../services/audit.js';
+import { getApiKey, requireApiKey } from '../middleware/api-key-auth.js';
+import config from '../config.js';
 
-export function registerGeneratorRoutes(app: FastifyInstance) {
-  app.post('/api/generator/toggle', async (request: FastifyRequest, reply: FastifyReply) => {
-    const apiKey = request.headers['x-api-key'] as string;
-    if (!apiKey) {
-      return reply.code(401).send({ error: 'API key required' });
-    }
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>['transaction']>[0]>[0];
+type GeneratorAction = (generatorId: number, actor: AuditActor, db?: Transaction) => Promise<unknown>;
 
-    const clientId = request.ip;
-    const rateLimiter = (app as any).rateLimiter;
-    if (rateLimiter) {
-      const limitCheck = rateLimiter.checkLimit(clientId);
-      if (!limitCheck.allowed) {
-        return reply.code(429).send({
-          error: 'Too many requests - rate limit exceeded',
-          retryAfter: limitCheck.retryAfter,
-        });
-      }
+export function registerGeneratorRoutes(app: FastifyInstance) {
+  // Shared handler for the toggle/start/stop endpoints: runs the action against the key's
+  // generator, honoring an optional Idempotency-Key header so retried requests replay the
+  // original result.
+  const handle = (name: string, action: GeneratorAction) => async (request: FastifyRequest, reply: FastifyReply) => {
+    const idempotencyKey = request.headers['idempotency-key'];
+    if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || idempotencyKey.length === 0 || idempotencyKey.length > 255)) {
+      return reply.code(400).send({ error: 'Idempotency-Key must be between 1 and 255 characters' });
     }
 
     try {
-      const generator = await getGeneratorByApiKey(apiKey);
-      if (!generator) {
-        return reply.code(401).send({ error: 'Invalid API key' });
+      const { apiKeyId, generator } = getApiKey(request);
+      const actor = apiKeyActor(request, apiKeyId);
+
+      if (!idempotencyKey) {
+        return reply.send(await action(generator.id, actor));
       }
 
-      const result = await toggleGenerator(generator.id);
+      const { result, replayed } = await withIdempotencyKey(
+        generator.id,
+        idempotencyKey,
+        name,
+        config.idempotency.window,
+        tx => action(generator.id, actor, tx)
+      );
+      if (replayed) reply.header('Idempotent-Replayed', 'true');
       return reply.send(result);
     } catch (error) {
       if (error instanceof Error && error.message === 'Generator not found') {
         return reply.code(404).send({ error: 'Generator not found' });
       }
+      if (error instanceof Error && error.message === 'Generator is archived') {
+        return reply.code(409).send({ error: 'Generator is archived. Unarchive it on the Settings page to use it again.' });
+      }
+      if (error instanceof Error && error.message === 'Idempotency key reused for a different request') {
+        return reply.code(422).send({ error: 'Idempotency-Key was already used for a different endpoint' });
+      }
+      if (error instanceof Error && error.message === 'Idempotency key request in progress') {
+        return reply.code(409).send({ error: 'A request with this Idempotency-Key is still being processed' });
+      }
+      app.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  };
+
+  const toggleScope = { preHandler: requireApiKey('toggle') };
+  app.post('/api/generator/toggle', toggleScope, handle('toggle', toggleGenerator));
+  app.post('/api/generator/start', toggleScope, handle('start', startGenerator));
+  app.post('/api/generator/stop', toggleScope, handle('stop', stopGenerator));
+
+  // Running state and maintenance of the key's generator, e.g. for a home dashboard
+  app.get('/api/generator/status', { preHandler: requireApiKey('status:read') }, async (request, reply) => {
+    const { generator } = getApiKey(request);
+
+    try {
+      const tasks = await getDb()
+        .select()
+        .from(schema.maintenanceTasks)
+        .where(eq(schema.maintenanceTasks.generatorId, generator.id))
+        .orderBy(asc(schema.maintenanceTasks.id));
+
+      const now = new Date();
+      return reply.send({
+        id: generator.id,
+        name: generator.name,
+        isRunning: generator.isRunning,
+        currentStartTime: generator.currentStartTime,
+        totalHours: generator.totalHours,
+        archivedAt: generator.archivedAt,
+        maintenanceTasks: tasks.map(task => {
+          const status = getMaintenanceStatus(task, generator.totalHours, now, generator.installedAt, generator.initialHours);
+          return {
+            id: task.id,
+            kind: task.kind,
+            name: task.name,
+            lastCompletedAt: task.lastCompletedAt,
+            hoursSinceCompletion: status.hoursSinceCompletion,
+            monthsSinceCompletion: status.monthsSinceCompletion,
+            isDue: status.isDue,
+          };
+        }),
+      });
+    } catch (error) {
       app.log.error(error);
       return reply.code(500).send({ error: 'Internal server error' });
     }
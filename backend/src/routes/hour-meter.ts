@@ -0,0 +1,189 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { recordMeterReading } from '../services/hour-meter.js';
+import { forbiddenMessage, hasRole, resolveGeneratorAccess } from '../services/membership.js';
+
+const createReadingSchema = z.object({
+  meterHours: z.number().min(0),
+  readAt: z.string().datetime().optional(),
+  notes: z.string().max(500).optional(),
+  rebase: z.boolean().optional().default(false),
+}).refine(data => !data.readAt || new Date(data.readAt) <= new Date(), {
+  message: 'readAt must not be in the future',
+  path: ['readAt'],
+});
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+type HourMeterReading = typeof schema.hourMeterReadings.$inferSelect;
+type HourMeterAdjustment = typeof schema.hourMeterAdjustments.$inferSelect;
+
+function toReadingResponse(r: HourMeterReading, rebased: boolean) {
+  return {
+    id: r.id,
+    generatorId: r.generatorId,
+    meterHours: r.meterHours,
+    trackedHours: r.trackedHours,
+    // Positive when the meter is ahead of the tracked hours
+    driftHours: r.meterHours - r.trackedHours,
+    readAt: r.readAt,
+    notes: r.notes,
+    rebased,
+    createdAt: r.createdAt,
+  };
+}
+
+function toAdjustmentResponse(a: HourMeterAdjustment) {
+  return {
+    id: a.id,
+    generatorId: a.generatorId,
+    readingId: a.readingId,
+    userId: a.userId,
+    previousTotalHours: a.previousTotalHours,
+    newTotalHours: a.newTotalHours,
+    adjustmentHours: a.newTotalHours - a.previousTotalHours,
+    createdAt: a.createdAt,
+  };
+}
+
+export async function hourMeterRoutes(app: FastifyInstance) {
+  app.get('/api/generators/:id/meter-readings', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+
+    try {
+      const readings = await db
+        .select()
+        .from(schema.hourMeterReadings)
+        .where(eq(schema.hourMeterReadings.generatorId, generatorId))
+        .orderBy(desc(schema.hourMeterReadings.readAt), desc(schema.hourMeterReadings.id));
+
+      const rebasedIds = new Set<number>();
+      if (readings.length > 0) {
+        const adjustments = await db
+          .select({ readingId: schema.hourMeterAdjustments.readingId })
+          .from(schema.hourMeterAdjustments)
+          .where(inArray(schema.hourMeterAdjustments.readingId, readings.map(r => r.id)));
+        for (const a of adjustments) rebasedIds.add(a.readingId!);
+      }
+
+      return reply.send(readings.map(r => toReadingResponse(r, rebasedIds.has(r.id))));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Records a reading; with rebase: true the generator's totalHours is corrected to the meter
+  app.post('/api/generators/:id/meter-readings', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = createReadingSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const { meterHours, readAt, notes, rebase } = validation.data;
+
+    try {
+      const { reading, adjustment } = await recordMeterReading(generatorId, userId, {
+        meterHours,
+        readAt: readAt ? new Date(readAt) : new Date(),
+        notes,
+        rebase,
+      });
+
+      return reply.status(201).send({
+        ...toReadingResponse(reading, adjustment !== null),
+        adjustment: adjustment ? toAdjustmentResponse(adjustment) : null,
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Removing a reading keeps any rebase made from it; its adjustment stays in the history
+  app.delete('/api/generators/:id/meter-readings/:readingId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; readingId: string };
+    const generatorId = parseInt(params.id, 10);
+    const readingId = parseInt(params.readingId, 10);
+
+    if (isNaN(generatorId) || isNaN(readingId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const [existing] = await db
+      .select()
+      .from(schema.hourMeterReadings)
+      .where(and(
+        eq(schema.hourMeterReadings.id, readingId),
+        eq(schema.hourMeterReadings.generatorId, generatorId)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Meter reading not found' });
+
+    try {
+      await db.delete(schema.hourMeterReadings).where(eq(schema.hourMeterReadings.id, readingId));
+      return reply.status(204).send();
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/generators/:id/meter-adjustments', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+
+    try {
+      const adjustments = await db
+        .select()
+        .from(schema.hourMeterAdjustments)
+        .where(eq(schema.hourMeterAdjustments.generatorId, generatorId))
+        .orderBy(desc(schema.hourMeterAdjustments.createdAt), desc(schema.hourMeterAdjustments.id));
+
+      return reply.send(adjustments.map(toAdjustmentResponse));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,171 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { eq, and, desc } from 'drizzle-orm';
+import { forbiddenMessage, hasRole, resolveGeneratorAccess } from '../services/membership.js';
+
+const snoozeSchema = z.object({
+  days: z.number().int().min(1).max(365),
+});
+
+type MaintenanceNotification = typeof schema.maintenanceNotifications.$inferSelect;
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+function notificationStatus(n: MaintenanceNotification, now: Date): 'acknowledged' | 'snoozed' | 'open' {
+  if (n.acknowledgedAt) return 'acknowledged';
+  if (n.snoozedUntil && n.snoozedUntil > now) return 'snoozed';
+  return 'open';
+}
+
+async function getTaskName(db: ReturnType<typeof getDb>, taskId: number) {
+  const [task] = await db
+    .select({ name: schema.maintenanceTasks.name })
+    .from(schema.maintenanceTasks)
+    .where(eq(schema.maintenanceTasks.id, taskId))
+    .limit(1);
+  return task?.name ?? null;
+}
+
+function toResponse(n: MaintenanceNotification, taskName: string | null) {
+  return {
+    id: n.id,
+    generatorId: n.generatorId,
+    taskId: n.taskId,
+    taskName,
+    reason: n.reason,
+    hoursSinceChange: n.hoursSinceChange,
+    monthsSinceChange: n.monthsSinceChange,
+    recipient: n.recipient,
+    sentAt: n.sentAt,
+    snoozedUntil: n.snoozedUntil,
+    acknowledgedAt: n.acknowledgedAt,
+    status: notificationStatus(n, new Date()),
+  };
+}
+
+export async function maintenanceNotificationRoutes(app: FastifyInstance) {
+  app.get('/api/generators/:id/notifications', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+
+    try {
+      const rows = await db
+        .select({ notification: schema.maintenanceNotifications, taskName: schema.maintenanceTasks.name })
+        .from(schema.maintenanceNotifications)
+        .innerJoin(schema.maintenanceTasks, eq(schema.maintenanceNotifications.taskId, schema.maintenanceTasks.id))
+        .where(eq(schema.maintenanceNotifications.generatorId, generatorId))
+        .orderBy(desc(schema.maintenanceNotifications.sentAt));
+
+      return reply.send(rows.map(row => toResponse(row.notification, row.taskName)));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/generators/:id/notifications/:notificationId/snooze', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; notificationId: string };
+    const generatorId = parseInt(params.id, 10);
+    const notificationId = parseInt(params.notificationId, 10);
+
+    if (isNaN(generatorId) || isNaN(notificationId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const validation = snoozeSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const [existing] = await db
+      .select()
+      .from(schema.maintenanceNotifications)
+      .where(and(
+        eq(schema.maintenanceNotifications.id, notificationId),
+        eq(schema.maintenanceNotifications.generatorId, generatorId)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Notification not found' });
+    if (existing.acknowledgedAt) {
+      return reply.status(409).send({ error: 'Notification already acknowledged' });
+    }
+
+    const snoozedUntil = new Date(Date.now() + validation.data.days * 24 * 60 * 60 * 1000);
+
+    try {
+      const [updated] = await db
+        .update(schema.maintenanceNotifications)
+        .set({ snoozedUntil })
+        .where(eq(schema.maintenanceNotifications.id, notificationId))
+        .returning();
+
+      return reply.send(toResponse(updated, await getTaskName(db, updated.taskId)));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/generators/:id/notifications/:notificationId/acknowledge', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; notificationId: string };
+    const generatorId = parseInt(params.id, 10);
+    const notificationId = parseInt(params.notificationId, 10);
+
+    if (isNaN(generatorId) || isNaN(notificationId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const [existing] = await db
+      .select()
+      .from(schema.maintenanceNotifications)
+      .where(and(
+        eq(schema.maintenanceNotifications.id, notificationId),
+        eq(schema.maintenanceNotifications.generatorId, generatorId)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Notification not found' });
+
+    try {
+      // Acknowledging twice keeps the original timestamp
+      const [updated] = await db
+        .update(schema.maintenanceNotifications)
+        .set({ acknowledgedAt: existing.acknowledgedAt ?? new Date() })
+        .where(eq(schema.maintenanceNotifications.id, notificationId))
+        .returning();
+
+      return reply.send(toResponse(updated, await getTaskName(db, updated.taskId)));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,551 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { eq, and, asc, desc, isNull, isNotNull } from 'drizzle-orm';
+import { getMaintenanceStatus } from '../services/maintenance.js';
+import {
+  MAINTENANCE_TASK_KINDS,
+  ensureOilChangeTask,
+  syncTaskCompletionFields,
+} from '../services/maintenance-tasks.js';
+import { apiKeyActor, recordAuditEvent, sessionActor, type AuditActor } from '../services/audit.js';
+import { forbiddenMessage, hasRole, resolveGeneratorAccess } from '../services/membership.js';
+import { getApiKey, requireApiKey } from '../middleware/api-key-auth.js';
+
+const createTaskSchema = z.object({
+  kind: z.enum(MAINTENANCE_TASK_KINDS),
+  name: z.string().min(1).max(100),
+  intervalHours: z.number().positive().nullable().optional(),
+  intervalMonths: z.number().int().positive().nullable().optional(),
+}).refine(data => data.intervalHours != null || data.intervalMonths != null, {
+  message: 'At least one interval (hours or months) must be provided',
+});
+
+const updateTaskSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  intervalHours: z.number().positive().nullable().optional(),
+  intervalMonths: z.number().int().positive().nullable().optional(),
+}).refine(data =>
+  data.name !== undefined ||
+  data.intervalHours !== undefined ||
+  data.intervalMonths !== undefined, {
+  message: 'At least one field must be provided',
+});
+
+const createCompletionSchema = z.object({
+  performedAt: z.string().datetime().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+type Generator = typeof schema.generators.$inferSelect;
+type MaintenanceTask = typeof schema.maintenanceTasks.$inferSelect;
+type MaintenanceTaskCompletion = typeof schema.maintenanceTaskCompletions.$inferSelect;
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+async function resolveTask(
+  db: ReturnType<typeof getDb>,
+  generatorId: number,
+  taskId: number
+) {
+  const [task] = await db
+    .select()
+    .from(schema.maintenanceTasks)
+    .where(and(eq(schema.maintenanceTasks.id, taskId), eq(schema.maintenanceTasks.generatorId, generatorId)))
+    .limit(1);
+  return task ?? null;
+}
+
+function toTaskResponse(task: MaintenanceTask, generator: Generator) {
+  const status = getMaintenanceStatus(task, generator.totalHours, new Date(), generator.installedAt, generator.initialHours);
+  return {
+    id: task.id,
+    generatorId: task.generatorId,
+    kind: task.kind,
+    name: task.name,
+    intervalHours: task.intervalHours,
+    intervalMonths: task.intervalMonths,
+    lastCompletedAt: task.lastCompletedAt,
+    lastCompletedHours: task.lastCompletedHours,
+    hoursSinceCompletion: status.hoursSinceCompletion,
+    monthsSinceCompletion: status.monthsSinceCompletion,
+    isDue: status.isDue,
+    createdAt: task.createdAt,
+    updatedAt: task.updatedAt,
+  };
+}
+
+// Audit log views of a task and of a completion
+function taskSnapshot(t: MaintenanceTask) {
+  return { kind: t.kind, name: t.name, intervalHours: t.intervalHours, intervalMonths: t.intervalMonths };
+}
+
+function completionSnapshot(t: MaintenanceTask, c: MaintenanceTaskCompletion) {
+  return { taskId: t.id, kind: t.kind, name: t.name, performedAt: c.performedAt, hoursAtCompletion: c.hoursAtCompletion, notes: c.notes };
+}
+
+function toCompletionResponse(c: MaintenanceTaskCompletion) {
+  return {
+    id: c.id,
+    taskId: c.taskId,
+    performedAt: c.performedAt,
+    hoursAtCompletion: c.hoursAtCompletion,
+    notes: c.notes,
+    createdAt: c.createdAt,
+  };
+}
+
+// Records that a task was done at the generator's current hours, for the web UI and API keys
+async function createCompletion(
+  reply: FastifyReply,
+  generator: Generator,
+  task: MaintenanceTask,
+  data: z.infer<typeof createCompletionSchema>,
+  userId: number,
+  actor: AuditActor
+) {
+  // Archived generators are retired, so no new maintenance is recorded for them
+  if (generator.archivedAt) {
+    return reply.status(409).send({ error: 'Generator is archived. Unarchive it to use it again.' });
+  }
+
+  const db = getDb();
+  const [completion] = await db
+    .insert(schema.maintenanceTaskCompletions)
+    .values({
+      taskId: task.id,
+      performedAt: data.performedAt ? new Date(data.performedAt) : new Date(),
+      hoursAtCompletion: generator.totalHours,
+      notes: data.notes ?? null,
+    })
+    .returning();
+
+  await syncTaskCompletionFields(db, task);
+
+  await recordAuditEvent(db, actor, {
+    userId,
+    generatorId: generator.id,
+    action: 'maintenance_completion.create',
+    targetType: 'maintenance_completion',
+    targetId: completion.id,
+    after: completionSnapshot(task, completion),
+  });
+
+  return reply.status(201).send(toCompletionResponse(completion));
+}
+
+export async function maintenanceTaskRoutes(app: FastifyInstance) {
+  app.get('/api/generators/:id/maintenance-tasks', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    const { generator } = access;
+
+    try {
+      await ensureOilChangeTask(db, generator);
+      const tasks = await db
+        .select()
+        .from(schema.maintenanceTasks)
+        .where(eq(schema.maintenanceTasks.generatorId, generatorId))
+        .orderBy(asc(schema.maintenanceTasks.id));
+
+      return reply.send(tasks.map(t => toTaskResponse(t, generator)));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/generators/:id/maintenance-tasks', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = createTaskSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
+    const { generator } = access;
+
+    const { kind, name, intervalHours, intervalMonths } = validation.data;
+
+    // The oil change task is created with the generator and mirrors its oil change settings
+    if (kind === 'oil_change') {
+      return reply.status(409).send({ error: 'Generator already has an oil change task' });
+    }
+
+    try {
+      const [task] = await db
+        .insert(schema.maintenanceTasks)
+        .values({
+          generatorId,
+          kind,
+          name,
+          intervalHours: intervalHours ?? null,
+          intervalMonths: intervalMonths ?? null,
+        })
+        .returning();
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'maintenance_task.create',
+        targetType: 'maintenance_task',
+        targetId: task.id,
+        after: taskSnapshot(task),
+      });
+
+      return reply.status(201).send(toTaskResponse(task, generator));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/generators/:id/maintenance-tasks/:taskId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; taskId: string };
+    const generatorId = parseInt(params.id, 10);
+    const taskId = parseInt(params.taskId, 10);
+
+    if (isNaN(generatorId) || isNaN(taskId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const validation = updateTaskSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
+    const { generator } = access;
+
+    const existing = await resolveTask(db, generatorId, taskId);
+    if (!existing) return reply.status(404).send({ error: 'Maintenance task not found' });
+
+    const { name, intervalHours, intervalMonths } = validation.data;
+    const newIntervalHours = intervalHours !== undefined ? intervalHours : existing.intervalHours;
+    const newIntervalMonths = intervalMonths !== undefined ? intervalMonths : existing.intervalMonths;
+
+    if (newIntervalHours === null && newIntervalMonths === null) {
+      return reply.status(400).send({ error: 'At least one interval (hours or months) must be set' });
+    }
+    if (existing.kind === 'oil_change' && (newIntervalHours === null || newIntervalMonths === null)) {
+      return reply.status(400).send({ error: 'The oil change task requires both an hours and a months interval' });
+    }
+
+    try {
+      const now = new Date();
+      const [updated] = await db
+        .update(schema.maintenanceTasks)
+        .set({
+          ...(name !== undefined ? { name } : {}),
+          intervalHours: newIntervalHours,
+          intervalMonths: newIntervalMonths,
+          updatedAt: now,
+        })
+        .where(eq(schema.maintenanceTasks.id, taskId))
+        .returning();
+
+      if (updated.kind === 'oil_change') {
+        await db
+          .update(schema.generators)
+          .set({ oilChangeHours: newIntervalHours!, oilChangeMonths: newIntervalMonths!, updatedAt: now })
+          .where(eq(schema.generators.id, generatorId));
+      }
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'maintenance_task.update',
+        targetType: 'maintenance_task',
+        targetId: taskId,
+        before: taskSnapshot(existing),
+        after: taskSnapshot(updated),
+      });
+
+      return reply.send(toTaskResponse(updated, generator));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/generators/:id/maintenance-tasks/:taskId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; taskId: string };
+    const generatorId = parseInt(params.id, 10);
+    const taskId = parseInt(params.taskId, 10);
+
+    if (isNaN(generatorId) || isNaN(taskId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
+
+    const existing = await resolveTask(db, generatorId, taskId);
+    if (!existing) return reply.status(404).send({ error: 'Maintenance task not found' });
+
+    if (existing.kind === 'oil_change') {
+      return reply.status(409).send({ error: 'The oil change task cannot be deleted' });
+    }
+
+    try {
+      // Completions and notifications cascade with the task
+      await db.delete(schema.maintenanceTasks).where(eq(schema.maintenanceTasks.id, taskId));
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'maintenance_task.delete',
+        targetType: 'maintenance_task',
+        targetId: taskId,
+        before: taskSnapshot(existing),
+      });
+
+      return reply.status(204).send();
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/generators/:id/maintenance-tasks/:taskId/completions', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; taskId: string };
+    const generatorId = parseInt(params.id, 10);
+    const taskId = parseInt(params.taskId, 10);
+
+    if (isNaN(generatorId) || isNaN(taskId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+
+    const task = await resolveTask(db, generatorId, taskId);
+    if (!task) return reply.status(404).send({ error: 'Maintenance task not found' });
+
+    try {
+      const completions = await db
+        .select()
+        .from(schema.maintenanceTaskCompletions)
+        .where(and(
+          eq(schema.maintenanceTaskCompletions.taskId, taskId),
+          isNull(schema.maintenanceTaskCompletions.deletedAt)
+        ))
+        .orderBy(desc(schema.maintenanceTaskCompletions.performedAt));
+
+      return reply.send(completions.map(toCompletionResponse));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/generators/:id/maintenance-tasks/:taskId/completions', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; taskId: string };
+    const generatorId = parseInt(params.id, 10);
+    const taskId = parseInt(params.taskId, 10);
+
+    if (isNaN(generatorId) || isNaN(taskId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const validation = createCompletionSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+    const { generator } = access;
+
+    const task = await resolveTask(db, generatorId, taskId);
+    if (!task) return reply.status(404).send({ error: 'Maintenance task not found' });
+
+    try {
+      return await createCompletion(reply, generator, task, validation.data, userId, sessionActor(request));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Same for API keys, on the key's generator; task ids are listed by GET /api/generator/status
+  app.post(
+    '/api/generator/maintenance-tasks/:taskId/completions',
+    { preHandler: requireApiKey('maintenance:write') },
+    async (request, reply) => {
+      const taskId = parseInt((request.params as { taskId: string }).taskId, 10);
+      if (isNaN(taskId)) return reply.status(400).send({ error: 'Invalid ID' });
+
+      const validation = createCompletionSchema.safeParse(request.body ?? {});
+      if (!validation.success) {
+        return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+      }
+
+      const { apiKeyId, generator } = getApiKey(request);
+      const task = await resolveTask(getDb(), generator.id, taskId);
+      if (!task) return reply.status(404).send({ error: 'Maintenance task not found' });
+
+      try {
+        return await createCompletion(
+          reply, generator, task, validation.data, generator.userId, apiKeyActor(request, apiKeyId)
+        );
+      } catch (error) {
+        app.log.error(error);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  app.delete('/api/generators/:id/maintenance-tasks/:taskId/completions/:completionId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; taskId: string; completionId: string };
+    const generatorId = parseInt(params.id, 10);
+    const taskId = parseInt(params.taskId, 10);
+    const completionId = parseInt(params.completionId, 10);
+
+    if (isNaN(generatorId) || isNaN(taskId) || isNaN(completionId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const task = await resolveTask(db, generatorId, taskId);
+    if (!task) return reply.status(404).send({ error: 'Maintenance task not found' });
+
+    const [existing] = await db
+      .select()
+      .from(schema.maintenanceTaskCompletions)
+      .where(and(
+        eq(schema.maintenanceTaskCompletions.id, completionId),
+        eq(schema.maintenanceTaskCompletions.taskId, taskId),
+        isNull(schema.maintenanceTaskCompletions.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Completion not found' });
+
+    try {
+      // Moves the completion to the trash; it is purged after the retention period unless restored
+      await db
+        .update(schema.maintenanceTaskCompletions)
+        .set({ deletedAt: new Date() })
+        .where(eq(schema.maintenanceTaskCompletions.id, completionId));
+      await syncTaskCompletionFields(db, task);
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'maintenance_completion.delete',
+        targetType: 'maintenance_completion',
+        targetId: completionId,
+        before: completionSnapshot(task, existing),
+      });
+
+      return reply.status(204).send();
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/generators/:id/maintenance-tasks/:taskId/completions/:completionId/restore', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; taskId: string; completionId: string };
+    const generatorId = parseInt(params.id, 10);
+    const taskId = parseInt(params.taskId, 10);
+    const completionId = parseInt(params.completionId, 10);
+
+    if (isNaN(generatorId) || isNaN(taskId) || isNaN(completionId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    const task = await resolveTask(db, generatorId, taskId);
+    if (!task) return reply.status(404).send({ error: 'Maintenance task not found' });
+
+    const [existing] = await db
+      .select()
+      .from(schema.maintenanceTaskCompletions)
+      .where(and(
+        eq(schema.maintenanceTaskCompletions.id, completionId),
+        eq(schema.maintenanceTaskCompletions.taskId, taskId),
+        isNotNull(schema.maintenanceTaskCompletions.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Completion not found in trash' });
+
+    try {
+      const [restored] = await db
+        .update(schema.maintenanceTaskCompletions)
+        .set({ deletedAt: null })
+        .where(eq(schema.maintenanceTaskCompletions.id, completionId))
+        .returning();
+
+      await syncTaskCompletionFields(db, task);
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'maintenance_completion.restore',
+        targetType: 'maintenance_completion',
+        targetId: completionId,
+        after: completionSnapshot(task, restored),
+      });
+
+      return reply.send(toCompletionResponse(restored));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
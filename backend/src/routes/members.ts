@@ -0,0 +1,345 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { and, asc, eq, gt, isNull, sql } from 'drizzle-orm';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import config from '../config.js';
+import { recordAuditEvent, sessionActor } from '../services/audit.js';
+import type { MailTransport } from '../services/email.js';
+import {
+  GENERATOR_ROLES,
+  acceptInvite,
+  buildInviteEmail,
+  createInvite,
+  findInviteByToken,
+  forbiddenMessage,
+  hasRole,
+  inviteUrl,
+  removeMember,
+  resolveGeneratorAccess,
+  updateMemberRole,
+} from '../services/membership.js';
+
+const updateMemberSchema = z.object({
+  role: z.enum(GENERATOR_ROLES),
+});
+
+const createInviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(GENERATOR_ROLES).default('operator'),
+});
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+function inviteSnapshot(invite: typeof schema.generatorInvites.$inferSelect) {
+  return {
+    id: invite.id,
+    email: invite.email,
+    role: invite.role,
+    expiresAt: invite.expiresAt,
+    createdAt: invite.createdAt,
+  };
+}
+
+// Status codes for the errors thrown by acceptInvite
+const ACCEPT_ERROR_STATUS: Record<string, number> = {
+  'Invite not found': 404,
+  'Invite already used': 409,
+  'Already a member': 409,
+  'Invite expired': 410,
+  'Invite is for another email': 403,
+};
+
+// Sharing a generator: its members and their roles, and email invites for new members.
+// Invite emails are only sent when a transport is configured; the invite link is returned
+// to the owner either way so it can be passed on by hand.
+export async function memberRoutes(app: FastifyInstance, transport: MailTransport | null = null) {
+  app.get('/api/generators/:id/members', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+
+    try {
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
+      if (!access) return reply.status(404).send({ error: 'Generator not found' });
+
+      const members = await db
+        .select({
+          userId: schema.generatorMembers.userId,
+          role: schema.generatorMembers.role,
+          createdAt: schema.generatorMembers.createdAt,
+          name: schema.users.name,
+          email: schema.users.email,
+        })
+        .from(schema.generatorMembers)
+        .innerJoin(schema.users, eq(schema.users.id, schema.generatorMembers.userId))
+        .where(eq(schema.generatorMembers.generatorId, generatorId))
+        .orderBy(asc(schema.generatorMembers.createdAt), asc(schema.generatorMembers.id));
+
+      return reply.send(members);
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/generators/:id/members/:userId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; userId: string };
+    const generatorId = parseInt(params.id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+    const memberUserId = parseInt(params.userId, 10);
+    if (isNaN(memberUserId)) return reply.status(400).send({ error: 'Invalid user ID' });
+
+    const validation = updateMemberSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+
+    try {
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
+      if (!access) return reply.status(404).send({ error: 'Generator not found' });
+      if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
+
+      const member = await updateMemberRole(access.generator, memberUserId, validation.data.role, sessionActor(request));
+      return reply.send({ userId: member.userId, role: member.role, createdAt: member.createdAt });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Member not found') {
+        return reply.status(404).send({ error: error.message });
+      }
+      if (error instanceof Error && error.message === 'Generator needs an owner') {
+        return reply.status(409).send({ error: 'A generator needs at least one owner' });
+      }
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Owners can remove anyone; any member can remove themselves to leave the generator
+  app.delete('/api/generators/:id/members/:userId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; userId: string };
+    const generatorId = parseInt(params.id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+    const memberUserId = parseInt(params.userId, 10);
+    if (isNaN(memberUserId)) return reply.status(400).send({ error: 'Invalid user ID' });
+
+    const db = getDb();
+
+    try {
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
+      if (!access) return reply.status(404).send({ error: 'Generator not found' });
+      if (memberUserId !== userId && !hasRole(access.role, 'owner')) {
+        return reply.status(403).send({ error: forbiddenMessage('owner') });
+      }
+
+      await removeMember(access.generator, memberUserId, sessionActor(request));
+      return reply.status(204).send();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Member not found') {
+        return reply.status(404).send({ error: error.message });
+      }
+      if (error instanceof Error && error.message === 'Generator needs an owner') {
+        return reply.status(409).send({ error: 'A generator needs at least one owner' });
+      }
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/generators/:id/invites', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = createInviteSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+
+    try {
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
+      if (!access) return reply.status(404).send({ error: 'Generator not found' });
+      if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
+
+      const email = validation.data.email.toLowerCase();
+      const [existingMember] = await db
+        .select({ id: schema.generatorMembers.id })
+        .from(schema.generatorMembers)
+        .innerJoin(schema.users, eq(schema.users.id, schema.generatorMembers.userId))
+        .where(and(eq(schema.generatorMembers.generatorId, generatorId), sql`lower(${schema.users.email}) = ${email}`))
+        .limit(1);
+      if (existingMember) return reply.status(409).send({ error: 'Already a member' });
+
+      const { invite, token } = await createInvite(
+        access.generator,
+        email,
+        validation.data.role,
+        config.invites.ttl,
+        sessionActor(request)
+      );
+      const url = inviteUrl(config.appUrl, token);
+
+      let emailSent = false;
+      if (transport) {
+        const [inviter] = await db
+          .select({ name: schema.users.name, email: schema.users.email })
+          .from(schema.users)
+          .where(eq(schema.users.id, userId));
+        try {
+          await transport.send(buildInviteEmail(invite, access.generator, inviter.name || inviter.email, url));
+          emailSent = true;
+        } catch (error) {
+          app.log.error(error, `Failed to email invite ${invite.id}`);
+        }
+      }
+
+      // Return the token exactly once — only its hash is stored
+      return reply.status(201).send({ ...inviteSnapshot(invite), token, inviteUrl: url, emailSent });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Pending invites only: accepted and expired ones drop off the list
+  app.get('/api/generators/:id/invites', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+
+    try {
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
+      if (!access) return reply.status(404).send({ error: 'Generator not found' });
+      if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
+
+      const invites = await db
+        .select()
+        .from(schema.generatorInvites)
+        .where(and(
+          eq(schema.generatorInvites.generatorId, generatorId),
+          isNull(schema.generatorInvites.acceptedAt),
+          gt(schema.generatorInvites.expiresAt, new Date())
+        ))
+        .orderBy(asc(schema.generatorInvites.createdAt), asc(schema.generatorInvites.id));
+
+      return reply.send(invites.map(inviteSnapshot));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/generators/:id/invites/:inviteId', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; inviteId: string };
+    const generatorId = parseInt(params.id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+    const inviteId = parseInt(params.inviteId, 10);
+    if (isNaN(inviteId)) return reply.status(400).send({ error: 'Invalid invite ID' });
+
+    const db = getDb();
+
+    try {
+      const access = await resolveGeneratorAccess(db, generatorId, userId);
+      if (!access) return reply.status(404).send({ error: 'Generator not found' });
+      if (!hasRole(access.role, 'owner')) return reply.status(403).send({ error: forbiddenMessage('owner') });
+
+      const revoked = await db.transaction(async (tx) => {
+        const [invite] = await tx
+          .delete(schema.generatorInvites)
+          .where(and(
+            eq(schema.generatorInvites.id, inviteId),
+            eq(schema.generatorInvites.generatorId, generatorId),
+            isNull(schema.generatorInvites.acceptedAt)
+          ))
+          .returning();
+        if (!invite) return null;
+
+        const actor = sessionActor(request);
+        await recordAuditEvent(tx, actor, {
+          userId: actor.userId ?? access.generator.userId,
+          generatorId,
+          action: 'generator_invite.revoke',
+          targetType: 'generator_invite',
+          targetId: invite.id,
+          before: { email: invite.email, role: invite.role },
+        });
+        return invite;
+      });
+
+      if (!revoked) return reply.status(404).send({ error: 'Invite not found' });
+      return reply.status(204).send();
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // What an invite link is for, shown before accepting it
+  app.get('/api/invites/:token', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    try {
+      const found = await findInviteByToken((request.params as { token: string }).token);
+      if (!found) return reply.status(404).send({ error: 'Invite not found' });
+
+      const { invite, generator, inviterName } = found;
+      return reply.send({
+        generatorId: generator.id,
+        generatorName: generator.name,
+        email: invite.email,
+        role: invite.role,
+        invitedBy: inviterName,
+        expiresAt: invite.expiresAt,
+        accepted: invite.acceptedAt !== null,
+        expired: invite.expiresAt <= new Date(),
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/invites/:token/accept', async (request, reply) => {
+    const sessionUser = (request as any).sessionUser as { id: number; email: string } | undefined;
+    if (!sessionUser) return reply.status(401).send({ error: 'Not authenticated' });
+
+    try {
+      const { generator, role } = await acceptInvite(
+        (request.params as { token: string }).token,
+        sessionUser,
+        sessionActor(request)
+      );
+      return reply.send({ generatorId: generator.id, generatorName: generator.name, role });
+    } catch (error) {
+      const status = error instanceof Error ? ACCEPT_ERROR_STATUS[error.message] : undefined;
+      if (status) return reply.status(status).send({ error: (error as Error).message });
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -2,7 +2,10 @@ import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { getDb } from '../db/index.js';
 import * as schema from '../db/schema.js';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, desc, isNull, isNotNull } from 'drizzle-orm';
+import { ensureOilChangeTask, syncTaskCompletionFields } from '../services/maintenance-tasks.js';
+import { recordAuditEvent, sessionActor } from '../services/audit.js';
+import { forbiddenMessage, hasRole, resolveGeneratorAccess } from '../services/membership.js';
 
 const createOilChangeSchema = z.object({
   performedAt: z.string().datetime().optional(),
@@ -13,38 +16,25 @@ function getUserId(request: any): number | null {
   return (request.sessionUser?.id) ?? null;
 }
 
-async function resolveOwnerGenerator(
-  db: ReturnType<typeof getDb>,
-  generatorId: number,
-  userId: number
-) {
-  const [generator] = await db
-    .select()
-    .from(schema.generators)
-    .where(and(eq(schema.generators.id, generatorId), eq(schema.generators.userId, userId)))
-    .limit(1);
-  return generator ?? null;
+type MaintenanceTask = typeof schema.maintenanceTasks.$inferSelect;
+type OilChangeCompletion = typeof schema.maintenanceTaskCompletions.$inferSelect;
+
+// Same audit log view as completions recorded through the maintenance task routes
+function completionSnapshot(t: MaintenanceTask, c: OilChangeCompletion) {
+  return { taskId: t.id, kind: t.kind, name: t.name, performedAt: c.performedAt, hoursAtCompletion: c.hoursAtCompletion, notes: c.notes };
 }
 
-async function syncGeneratorOilChangeFields(
-  db: ReturnType<typeof getDb>,
-  generatorId: number
-): Promise<void> {
-  const [latest] = await db
-    .select()
-    .from(schema.oilChangeHistory)
-    .where(eq(schema.oilChangeHistory.generatorId, generatorId))
-    .orderBy(desc(schema.oilChangeHistory.performedAt))
-    .limit(1);
-
-  await db
-    .update(schema.generators)
-    .set({
-      lastOilChangeDate: latest?.performedAt ?? null,
-      lastOilChangeHours: latest?.hoursAtChange ?? null,
-      updatedAt: new Date(),
-    })
-    .where(eq(schema.generators.id, generatorId));
+// Oil changes are the completions of the generator's 'oil_change' maintenance task; these
+// routes keep the original oil change API shape on top of that model.
+function toOilChangeEntry(generatorId: number, c: OilChangeCompletion) {
+  return {
+    id: c.id,
+    generatorId,
+    performedAt: c.performedAt,
+    hoursAtChange: c.hoursAtCompletion,
+    notes: c.notes,
+    createdAt: c.createdAt,
+  };
 }
 
 export async function oilChangeHistoryRoutes(app: FastifyInstance) {
@@ -56,24 +46,22 @@ export async function oilChangeHistoryRoutes(app: FastifyInstance) {
     if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
 
     const db = getDb();
-    const generator = await resolveOwnerGenerator(db, generatorId, userId);
-    if (!generator) return reply.status(404).send({ error: 'Generator not found' });
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    const { generator } = access;
 
     try {
+      const task = await ensureOilChangeTask(db, generator);
       const entries = await db
         .select()
-        .from(schema.oilChangeHistory)
-        .where(eq(schema.oilChangeHistory.generatorId, generatorId))
-        .orderBy(desc(schema.oilChangeHistory.performedAt));
-
-      return reply.send(entries.map(e => ({
-        id: e.id,
-        generatorId: e.generatorId,
-        performedAt: e.performedAt,
-        hoursAtChange: e.hoursAtChange,
-        notes: e.notes,
-        createdAt: e.createdAt,
-      })));
+        .from(schema.maintenanceTaskCompletions)
+        .where(and(
+          eq(schema.maintenanceTaskCompletions.taskId, task.id),
+          isNull(schema.maintenanceTaskCompletions.deletedAt)
+        ))
+        .orderBy(desc(schema.maintenanceTaskCompletions.performedAt));
+
+      return reply.send(entries.map(e => toOilChangeEntry(generatorId, e)));
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
@@ -93,32 +81,40 @@ export async function oilChangeHistoryRoutes(app: FastifyInstance) {
     }
 
     const db = getDb();
-    const generator = await resolveOwnerGenerator(db, generatorId, userId);
-    if (!generator) return reply.status(404).send({ error: 'Generator not found' });
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+    const { generator } = access;
+    if (generator.archivedAt) {
+      return reply.status(409).send({ error: 'Generator is archived. Unarchive it to use it again.' });
+    }
 
     const { performedAt, notes } = validation.data;
 
     try {
+      const task = await ensureOilChangeTask(db, generator);
       const [entry] = await db
-        .insert(schema.oilChangeHistory)
+        .insert(schema.maintenanceTaskCompletions)
         .values({
-          generatorId,
+          taskId: task.id,
           performedAt: performedAt ? new Date(performedAt) : new Date(),
-          hoursAtChange: generator.totalHours,
+          hoursAtCompletion: generator.totalHours,
           notes: notes ?? null,
         })
         .returning();
 
-      await syncGeneratorOilChangeFields(db, generatorId);
+      await syncTaskCompletionFields(db, task);
 
-      return reply.status(201).send({
-        id: entry.id,
-        generatorId: entry.generatorId,
-        performedAt: entry.performedAt,
-        hoursAtChange: entry.hoursAtChange,
-        notes: entry.notes,
-        createdAt: entry.createdAt,
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'maintenance_completion.create',
+        targetType: 'maintenance_completion',
+        targetId: entry.id,
+        after: completionSnapshot(task, entry),
       });
+
+      return reply.status(201).send(toOilChangeEntry(generatorId, entry));
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
@@ -138,27 +134,102 @@ export async function oilChangeHistoryRoutes(app: FastifyInstance) {
     }
 
     const db = getDb();
-    const generator = await resolveOwnerGenerator(db, generatorId, userId);
-    if (!generator) return reply.status(404).send({ error: 'Generator not found' });
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+    const { generator } = access;
 
+    const task = await ensureOilChangeTask(db, generator);
     const [existing] = await db
       .select()
-      .from(schema.oilChangeHistory)
+      .from(schema.maintenanceTaskCompletions)
       .where(and(
-        eq(schema.oilChangeHistory.id, changeId),
-        eq(schema.oilChangeHistory.generatorId, generatorId)
+        eq(schema.maintenanceTaskCompletions.id, changeId),
+        eq(schema.maintenanceTaskCompletions.taskId, task.id),
+        isNull(schema.maintenanceTaskCompletions.deletedAt)
       ))
       .limit(1);
 
     if (!existing) return reply.status(404).send({ error: 'Oil change entry not found' });
 
     try {
-      await db.delete(schema.oilChangeHistory).where(eq(schema.oilChangeHistory.id, changeId));
-      await syncGeneratorOilChangeFields(db, generatorId);
+      // Moves the entry to the trash; it is purged after the retention period unless restored
+      await db
+        .update(schema.maintenanceTaskCompletions)
+        .set({ deletedAt: new Date() })
+        .where(eq(schema.maintenanceTaskCompletions.id, changeId));
+      await syncTaskCompletionFields(db, task);
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'maintenance_completion.delete',
+        targetType: 'maintenance_completion',
+        targetId: changeId,
+        before: completionSnapshot(task, existing),
+      });
+
       return reply.status(204).send();
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
     }
   });
+
+  app.post('/api/generators/:id/oil-changes/:changeId/restore', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; changeId: string };
+    const generatorId = parseInt(params.id, 10);
+    const changeId = parseInt(params.changeId, 10);
+
+    if (isNaN(generatorId) || isNaN(changeId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+    const { generator } = access;
+
+    const task = await ensureOilChangeTask(db, generator);
+    const [existing] = await db
+      .select()
+      .from(schema.maintenanceTaskCompletions)
+      .where(and(
+        eq(schema.maintenanceTaskCompletions.id, changeId),
+        eq(schema.maintenanceTaskCompletions.taskId, task.id),
+        isNotNull(schema.maintenanceTaskCompletions.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Oil change entry not found in trash' });
+
+    try {
+      const [restored] = await db
+        .update(schema.maintenanceTaskCompletions)
+        .set({ deletedAt: null })
+        .where(eq(schema.maintenanceTaskCompletions.id, changeId))
+        .returning();
+
+      // The restored entry may be the latest oil change again
+      await syncTaskCompletionFields(db, task);
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'maintenance_completion.restore',
+        targetType: 'maintenance_completion',
+        targetId: changeId,
+        after: completionSnapshot(task, restored),
+      });
+
+      return reply.send(toOilChangeEntry(generatorId, restored));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
 }
@@ -0,0 +1,124 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { eq, and, gte, lt, isNotNull, isNull } from 'drizzle-orm';
+import { buildCostReport } from '../services/costs.js';
+import { getRunStats, STATS_BUCKETS } from '../services/stats.js';
+import { resolveGeneratorAccess } from '../services/membership.js';
+
+const costReportQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+}).refine(data => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+  message: 'to must be after from',
+  path: ['to'],
+});
+
+const statsQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  bucket: z.enum(STATS_BUCKETS).optional().default('month'),
+}).refine(data => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+  message: 'to must be after from',
+  path: ['to'],
+});
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+export async function reportRoutes(app: FastifyInstance) {
+  // Monthly fuel cost of completed runs that started within [from, to)
+  app.get('/api/generators/:id/reports/costs', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = costReportQuerySchema.safeParse(request.query);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    const { generator } = access;
+
+    const { from, to } = validation.data;
+
+    try {
+      const [runs, prices] = await Promise.all([
+        db
+          .select({ startTime: schema.usageLogs.startTime, durationHours: schema.usageLogs.durationHours })
+          .from(schema.usageLogs)
+          .where(and(
+            eq(schema.usageLogs.generatorId, generatorId),
+            isNotNull(schema.usageLogs.durationHours),
+            isNull(schema.usageLogs.deletedAt),
+            from ? gte(schema.usageLogs.startTime, new Date(from)) : undefined,
+            to ? lt(schema.usageLogs.startTime, new Date(to)) : undefined
+          )),
+        db
+          .select()
+          .from(schema.fuelPrices)
+          .where(eq(schema.fuelPrices.generatorId, generatorId)),
+      ]);
+
+      const report = buildCostReport(runs, prices, generator.fuelBurnRate);
+
+      return reply.send({
+        generatorId,
+        fuelBurnRate: generator.fuelBurnRate,
+        from: from ?? null,
+        to: to ?? null,
+        ...report,
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Run count, total/longest/average run length per bucket, aggregated in SQL
+  app.get('/api/generators/:id/stats', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = statsQuerySchema.safeParse(request.query);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+
+    const { from, to, bucket } = validation.data;
+
+    try {
+      const stats = await getRunStats(
+        generatorId,
+        bucket,
+        from ? new Date(from) : undefined,
+        to ? new Date(to) : undefined
+      );
+
+      return reply.send({
+        generatorId,
+        bucket,
+        from: from ?? null,
+        to: to ?? null,
+        ...stats,
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
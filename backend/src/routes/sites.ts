@@ -0,0 +1,318 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { recordAuditEvent, sessionActor } from '../services/audit.js';
+import { getRunStats, getRunStatsByGenerator, STATS_BUCKETS, type RunStats } from '../services/stats.js';
+import { listSites, overdueTasks, resolveSiteAccess, siteGenerators, type SiteGenerator } from '../services/sites.js';
+
+const createSiteSchema = z.object({
+  name: z.string().min(1).max(255),
+  address: z.string().max(500).nullable().optional(),
+});
+
+const updateSiteSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  address: z.string().max(500).nullable().optional(),
+}).refine(data => data.name !== undefined || data.address !== undefined, {
+  message: 'At least one field must be provided',
+});
+
+const statsQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  bucket: z.enum(STATS_BUCKETS).optional().default('month'),
+}).refine(data => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+  message: 'to must be after from',
+  path: ['to'],
+});
+
+type Site = typeof schema.sites.$inferSelect;
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+function siteSnapshot(site: Site) {
+  return { name: site.name, address: site.address };
+}
+
+function toSiteResponse(site: Site, isOwner: boolean) {
+  return {
+    id: site.id,
+    name: site.name,
+    address: site.address,
+    isOwner,
+    createdAt: site.createdAt,
+    updatedAt: site.updatedAt,
+  };
+}
+
+// Running state and due maintenance at a glance, for site lists and dashboards
+function toGeneratorSummary({ generator, role }: SiteGenerator, dueTaskCount: number) {
+  return {
+    id: generator.id,
+    name: generator.name,
+    isRunning: generator.isRunning,
+    currentStartTime: generator.currentStartTime,
+    totalHours: generator.totalHours,
+    role,
+    dueTaskCount,
+  };
+}
+
+const NO_RUNS: RunStats = { runs: 0, totalHours: 0, longestRunHours: null, averageRunHours: null };
+
+const FORBIDDEN_SITE = 'Only the user who created this site can change it';
+
+// Sites group generators by property. Everyone who can see a generator in a site sees the site,
+// but its dashboards only include the generators they have access to themselves.
+export async function siteRoutes(app: FastifyInstance) {
+  app.post('/api/sites', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const validation = createSiteSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+
+    try {
+      const site = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(schema.sites)
+          .values({ userId, name: validation.data.name, address: validation.data.address ?? null })
+          .returning();
+
+        await recordAuditEvent(tx, sessionActor(request), {
+          userId,
+          generatorId: null,
+          action: 'site.create',
+          targetType: 'site',
+          targetId: created.id,
+          after: siteSnapshot(created),
+        });
+        return created;
+      });
+
+      return reply.status(201).send(toSiteResponse(site, true));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/sites', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const db = getDb();
+
+    try {
+      const sites = await listSites(db, userId);
+      const generators = await siteGenerators(db, sites.map(s => s.site.id), userId);
+      const overdue = await overdueTasks(db, generators.map(g => g.generator));
+
+      return reply.send(sites.map(({ site, isOwner }) => {
+        const inSite = generators.filter(g => g.generator.siteId === site.id);
+        const ids = new Set(inSite.map(g => g.generator.id));
+        const siteOverdue = overdue.filter(t => ids.has(t.generatorId));
+        return {
+          ...toSiteResponse(site, isOwner),
+          generatorCount: inSite.length,
+          runningCount: inSite.filter(g => g.generator.isRunning).length,
+          overdueTaskCount: siteOverdue.length,
+          generatorsNeedingMaintenance: new Set(siteOverdue.map(t => t.generatorId)).size,
+        };
+      }));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Site dashboard: its generators with their running state and due maintenance
+  app.get('/api/sites/:id', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const siteId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(siteId)) return reply.status(400).send({ error: 'Invalid site ID' });
+
+    const db = getDb();
+
+    try {
+      const access = await resolveSiteAccess(db, siteId, userId);
+      if (!access) return reply.status(404).send({ error: 'Site not found' });
+
+      const generators = await siteGenerators(db, [siteId], userId);
+      const overdue = await overdueTasks(db, generators.map(g => g.generator));
+
+      return reply.send({
+        ...toSiteResponse(access.site, access.isOwner),
+        generators: generators.map(g =>
+          toGeneratorSummary(g, overdue.filter(t => t.generatorId === g.generator.id).length)
+        ),
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/sites/:id', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const siteId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(siteId)) return reply.status(400).send({ error: 'Invalid site ID' });
+
+    const validation = updateSiteSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+
+    try {
+      const access = await resolveSiteAccess(db, siteId, userId);
+      if (!access) return reply.status(404).send({ error: 'Site not found' });
+      if (!access.isOwner) return reply.status(403).send({ error: FORBIDDEN_SITE });
+
+      const { name, address } = validation.data;
+      const updateData: Partial<typeof schema.sites.$inferInsert> = { updatedAt: new Date() };
+      if (name !== undefined) updateData.name = name;
+      if (address !== undefined) updateData.address = address;
+
+      const site = await db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(schema.sites)
+          .set(updateData)
+          .where(eq(schema.sites.id, siteId))
+          .returning();
+
+        await recordAuditEvent(tx, sessionActor(request), {
+          userId,
+          generatorId: null,
+          action: 'site.update',
+          targetType: 'site',
+          targetId: siteId,
+          before: siteSnapshot(access.site),
+          after: siteSnapshot(updated),
+        });
+        return updated;
+      });
+
+      return reply.send(toSiteResponse(site, true));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Its generators are kept and become unassigned
+  app.delete('/api/sites/:id', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const siteId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(siteId)) return reply.status(400).send({ error: 'Invalid site ID' });
+
+    const db = getDb();
+
+    try {
+      const access = await resolveSiteAccess(db, siteId, userId);
+      if (!access) return reply.status(404).send({ error: 'Site not found' });
+      if (!access.isOwner) return reply.status(403).send({ error: FORBIDDEN_SITE });
+
+      await db.transaction(async (tx) => {
+        await tx.delete(schema.sites).where(eq(schema.sites.id, siteId));
+        await recordAuditEvent(tx, sessionActor(request), {
+          userId,
+          generatorId: null,
+          action: 'site.delete',
+          targetType: 'site',
+          targetId: siteId,
+          before: siteSnapshot(access.site),
+        });
+      });
+
+      return reply.status(204).send();
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Run statistics of the site's generators together, plus totals per generator
+  app.get('/api/sites/:id/stats', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const siteId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(siteId)) return reply.status(400).send({ error: 'Invalid site ID' });
+
+    const validation = statsQuerySchema.safeParse(request.query);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+
+    try {
+      const access = await resolveSiteAccess(db, siteId, userId);
+      if (!access) return reply.status(404).send({ error: 'Site not found' });
+
+      const { from, to, bucket } = validation.data;
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      const generators = await siteGenerators(db, [siteId], userId);
+      const ids = generators.map(g => g.generator.id);
+
+      const [stats, perGenerator] = ids.length > 0
+        ? await Promise.all([getRunStats(ids, bucket, fromDate, toDate), getRunStatsByGenerator(ids, fromDate, toDate)])
+        : [{ buckets: [], totals: NO_RUNS }, []];
+
+      return reply.send({
+        siteId,
+        bucket,
+        from: from ?? null,
+        to: to ?? null,
+        ...stats,
+        generators: generators.map(({ generator }) => ({
+          generatorId: generator.id,
+          generatorName: generator.name,
+          ...(perGenerator.find(s => s.generatorId === generator.id) ?? NO_RUNS),
+        })),
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Maintenance due across the site's generators
+  app.get('/api/sites/:id/maintenance', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const siteId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(siteId)) return reply.status(400).send({ error: 'Invalid site ID' });
+
+    const db = getDb();
+
+    try {
+      const access = await resolveSiteAccess(db, siteId, userId);
+      if (!access) return reply.status(404).send({ error: 'Site not found' });
+
+      const generators = await siteGenerators(db, [siteId], userId);
+      return reply.send(await overdueTasks(db, generators.map(g => g.generator)));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
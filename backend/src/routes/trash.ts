@@ -0,0 +1,77 @@
+import type { FastifyInstance } from 'fastify';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { eq, and, isNotNull, desc } from 'drizzle-orm';
+import config from '../config.js';
+import { estimateFuelUsed } from '../services/fuel.js';
+import { purgeAt } from '../services/trash.js';
+import { resolveGeneratorAccess } from '../services/membership.js';
+
+function getUserId(request: any): number | null {
+  return (request.sessionUser?.id) ?? null;
+}
+
+export async function trashRoutes(app: FastifyInstance) {
+  // Deleted usage logs and maintenance entries that can still be restored, most recently deleted first
+  app.get('/api/generators/:id/trash', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    const { generator } = access;
+
+    const { retentionDays } = config.trash;
+
+    try {
+      const logs = await db
+        .select()
+        .from(schema.usageLogs)
+        .where(and(eq(schema.usageLogs.generatorId, generatorId), isNotNull(schema.usageLogs.deletedAt)))
+        .orderBy(desc(schema.usageLogs.deletedAt));
+
+      const completions = await db
+        .select({ completion: schema.maintenanceTaskCompletions, task: schema.maintenanceTasks })
+        .from(schema.maintenanceTaskCompletions)
+        .innerJoin(schema.maintenanceTasks, eq(schema.maintenanceTasks.id, schema.maintenanceTaskCompletions.taskId))
+        .where(and(
+          eq(schema.maintenanceTasks.generatorId, generatorId),
+          isNotNull(schema.maintenanceTaskCompletions.deletedAt)
+        ))
+        .orderBy(desc(schema.maintenanceTaskCompletions.deletedAt));
+
+      return reply.send({
+        retentionDays,
+        logs: logs.map(l => ({
+          id: l.id,
+          generatorId: l.generatorId,
+          startTime: l.startTime,
+          endTime: l.endTime,
+          durationHours: l.durationHours,
+          estimatedFuelGallons: estimateFuelUsed(l.durationHours, generator.fuelBurnRate),
+          autoClosed: l.autoClosed,
+          deletedAt: l.deletedAt,
+          purgeAt: purgeAt(l.deletedAt!, retentionDays),
+        })),
+        maintenanceCompletions: completions.map(({ completion: c, task: t }) => ({
+          id: c.id,
+          taskId: t.id,
+          taskKind: t.kind,
+          taskName: t.name,
+          performedAt: c.performedAt,
+          hoursAtCompletion: c.hoursAtCompletion,
+          notes: c.notes,
+          deletedAt: c.deletedAt,
+          purgeAt: purgeAt(c.deletedAt!, retentionDays),
+        })),
+      });
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -1,8 +1,19 @@
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { getDb } from '../db/index.js';
 import * as schema from '../db/schema.js';
-import { eq, and, sum } from 'drizzle-orm';
+import { eq, ne, and, or, gt, gte, lt, lte, isNull, isNotNull, asc, desc, sum, sql } from 'drizzle-orm';
+import { estimateFuelUsed } from '../services/fuel.js';
+import { buildImportRows, isValidTimeZone, type TimeRange } from '../services/log-import.js';
+import { checkLogTimes, findOverlaps, type ExistingLog } from '../services/log-validation.js';
+import { apiKeyActor, recordAuditEvent, sessionActor, type AuditActor } from '../services/audit.js';
+import { forbiddenMessage, hasRole, resolveGeneratorAccess } from '../services/membership.js';
+import { lockGenerator } from '../services/generator.js';
+import { getApiKey, requireApiKey } from '../middleware/api-key-auth.js';
+
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>['transaction']>[0]>[0];
+
+const MAX_IMPORT_ROWS = 5000;
 
 const createLogSchema = z.object({
   startTime: z.string().datetime(),
@@ -25,44 +36,192 @@ const updateLogSchema = z.object({
   path: ['endTime'],
 });
 
+const listLogsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  cursor: z.string().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  minDuration: z.coerce.number().min(0).optional(),
+  maxDuration: z.coerce.number().min(0).optional(),
+  order: z.enum(['asc', 'desc']).optional().default('asc'),
+  autoClosedUnreviewed: z.enum(['true', 'false']).optional(),
+}).refine(data => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+  message: 'to must be after from',
+  path: ['to'],
+}).refine(data => data.minDuration === undefined || data.maxDuration === undefined || data.maxDuration >= data.minDuration, {
+  message: 'maxDuration must not be less than minDuration',
+  path: ['maxDuration'],
+});
+
+const recentLogsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional().default(20),
+});
+
+const importLogsSchema = z.object({
+  csv: z.string().min(1),
+  timezone: z.string().optional().default('UTC').refine(isValidTimeZone, { message: 'Unknown time zone' }),
+  dryRun: z.boolean().optional().default(false),
+  skipOverlaps: z.boolean().optional().default(false),
+});
+
+// Cursors are opaque to clients: the (startTime, id) of the last row on the previous page
+function encodeCursor(log: { startTime: Date; id: number }): string {
+  return Buffer.from(`${log.startTime.toISOString()}|${log.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { startTime: Date; id: number } | null {
+  const [time, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const startTime = new Date(time);
+  const logId = parseInt(id, 10);
+  if (isNaN(startTime.getTime()) || isNaN(logId)) return null;
+  return { startTime, id: logId };
+}
+
+type UsageLog = typeof schema.usageLogs.$inferSelect;
+type Generator = typeof schema.generators.$inferSelect;
+
+function toLogResponse(l: UsageLog, generator: Generator) {
+  return {
+    id: l.id,
+    generatorId: l.generatorId,
+    startTime: l.startTime,
+    endTime: l.endTime,
+    durationHours: l.durationHours,
+    estimatedFuelGallons: estimateFuelUsed(l.durationHours, generator.fuelBurnRate),
+    autoClosed: l.autoClosed,
+    autoCloseReviewedAt: l.autoCloseReviewedAt,
+    createdAt: l.createdAt,
+    updatedAt: l.updatedAt,
+  };
+}
+
+// Audit log view of a usage log
+function logSnapshot(l: UsageLog) {
+  return {
+    startTime: l.startTime,
+    endTime: l.endTime,
+    durationHours: l.durationHours,
+    autoClosed: l.autoClosed,
+    autoCloseReviewedAt: l.autoCloseReviewedAt,
+  };
+}
+
 function getUserId(request: any): number | null {
   return (request.sessionUser?.id) ?? null;
 }
 
-async function recalculateTotalHours(db: ReturnType<typeof getDb>, generatorId: number): Promise<void> {
+async function recalculateTotalHours(db: ReturnType<typeof getDb> | Transaction, generatorId: number): Promise<void> {
   const result = await db
     .select({ total: sum(schema.usageLogs.durationHours) })
     .from(schema.usageLogs)
-    .where(eq(schema.usageLogs.generatorId, generatorId));
+    .where(and(eq(schema.usageLogs.generatorId, generatorId), isNull(schema.usageLogs.deletedAt)));
 
-  const totalHours = Number(result[0]?.total ?? 0);
+  const loggedHours = Number(result[0]?.total ?? 0);
 
+  // Keep the generator's starting hours and any correction made by rebasing to the hour meter
   await db
     .update(schema.generators)
-    .set({ totalHours, updatedAt: new Date() })
+    .set({
+      totalHours: sql`${loggedHours} + ${schema.generators.initialHours} + ${schema.generators.meterAdjustmentHours}`,
+      updatedAt: new Date(),
+    })
     .where(eq(schema.generators.id, generatorId));
 }
 
-async function resolveOwnerGenerator(
-  db: ReturnType<typeof getDb>,
+// Logs of the generator whose time range intersects `range`, open logs included
+async function findIntersectingLogs(
+  db: ReturnType<typeof getDb> | Transaction,
   generatorId: number,
-  userId: number
-) {
-  const [generator] = await db
-    .select()
-    .from(schema.generators)
+  range: TimeRange,
+  excludeLogId?: number
+): Promise<ExistingLog[]> {
+  return db
+    .select({ id: schema.usageLogs.id, startTime: schema.usageLogs.startTime, endTime: schema.usageLogs.endTime })
+    .from(schema.usageLogs)
     .where(and(
-      eq(schema.generators.id, generatorId),
-      eq(schema.generators.userId, userId)
+      eq(schema.usageLogs.generatorId, generatorId),
+      isNull(schema.usageLogs.deletedAt),
+      excludeLogId !== undefined ? ne(schema.usageLogs.id, excludeLogId) : undefined,
+      range.endTime ? lt(schema.usageLogs.startTime, range.endTime) : undefined,
+      or(isNull(schema.usageLogs.endTime), gt(schema.usageLogs.endTime, range.startTime))
     ))
-    .limit(1);
-  return generator ?? null;
+    .orderBy(asc(schema.usageLogs.startTime));
+}
+
+// The open log a toggle start created for the generator's current run
+function isCurrentRun(
+  generator: typeof schema.generators.$inferSelect,
+  log: typeof schema.usageLogs.$inferSelect
+): boolean {
+  return generator.isRunning
+    && log.endTime === null
+    && generator.currentStartTime?.getTime() === log.startTime.getTime();
 }
 
 function calcDurationHours(startTime: string, endTime: string): number {
   return (new Date(endTime).getTime() - new Date(startTime).getTime()) / 3_600_000;
 }
 
+// Adds a run after the same time and overlap checks for the web UI and API keys, replying with
+// the new log or the reason it was rejected. Archived generators take no new runs, like toggles.
+async function createLog(
+  reply: FastifyReply,
+  generator: Generator,
+  data: z.infer<typeof createLogSchema>,
+  userId: number,
+  actor: AuditActor
+) {
+  if (generator.archivedAt) {
+    return reply.status(409).send({ error: 'Generator is archived. Unarchive it to use it again.' });
+  }
+
+  const db = getDb();
+  const { startTime, endTime } = data;
+  const durationHours = endTime ? calcDurationHours(startTime, endTime) : null;
+  const range = { startTime: new Date(startTime), endTime: endTime ? new Date(endTime) : null };
+
+  const invalid = checkLogTimes(range);
+  if (invalid.length > 0) {
+    return reply.status(400).send({ error: 'Invalid request', details: invalid });
+  }
+
+  // Check and insert under the generator lock, so concurrent requests can't both store overlapping runs
+  const result = await db.transaction(async tx => {
+    const locked = await lockGenerator(tx, generator.id);
+    const liveRunStart = locked.isRunning ? locked.currentStartTime : null;
+    const overlaps = findOverlaps(range, await findIntersectingLogs(tx, generator.id, range), liveRunStart);
+    if (overlaps.length > 0) return { overlaps };
+
+    const [log] = await tx
+      .insert(schema.usageLogs)
+      .values({
+        generatorId: generator.id,
+        startTime: range.startTime,
+        endTime: range.endTime,
+        durationHours,
+      })
+      .returning();
+
+    await recalculateTotalHours(tx, generator.id);
+
+    await recordAuditEvent(tx, actor, {
+      userId,
+      generatorId: generator.id,
+      action: 'usage_log.create',
+      targetType: 'usage_log',
+      targetId: log.id,
+      after: logSnapshot(log),
+    });
+
+    return { log };
+  });
+
+  if ('overlaps' in result) {
+    return reply.status(409).send({ error: 'Log entry overlaps other runs', details: result.overlaps });
+  }
+  return reply.status(201).send(toLogResponse(result.log, generator));
+}
+
 export async function usageLogsRoutes(app: FastifyInstance) {
   app.get('/api/generators/:id/logs', async (request, reply) => {
     const userId = getUserId(request);
@@ -71,27 +230,60 @@ export async function usageLogsRoutes(app: FastifyInstance) {
     const generatorId = parseInt((request.params as { id: string }).id, 10);
     if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
 
+    const validation = listLogsQuerySchema.safeParse(request.query);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
     const db = getDb();
 
-    const generator = await resolveOwnerGenerator(db, generatorId, userId);
-    if (!generator) return reply.status(404).send({ error: 'Generator not found' });
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    const { generator } = access;
+
+    const { limit, cursor, from, to, minDuration, maxDuration, order } = validation.data;
+    const autoClosedUnreviewed = validation.data.autoClosedUnreviewed === 'true';
+
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) return reply.status(400).send({ error: 'Invalid cursor' });
+
+    // Keyset pagination on (startTime, id), so rows sharing a start time are neither skipped nor repeated
+    const past = order === 'asc' ? gt : lt;
+    const direction = order === 'asc' ? asc : desc;
 
     try {
-      const logs = await db
+      const query = db
         .select()
         .from(schema.usageLogs)
-        .where(eq(schema.usageLogs.generatorId, generatorId))
-        .orderBy(schema.usageLogs.startTime);
-
-      return reply.send(logs.map(l => ({
-        id: l.id,
-        generatorId: l.generatorId,
-        startTime: l.startTime,
-        endTime: l.endTime,
-        durationHours: l.durationHours,
-        createdAt: l.createdAt,
-        updatedAt: l.updatedAt,
-      })));
+        .where(and(
+          eq(schema.usageLogs.generatorId, generatorId),
+          isNull(schema.usageLogs.deletedAt),
+          from ? gte(schema.usageLogs.startTime, new Date(from)) : undefined,
+          to ? lt(schema.usageLogs.startTime, new Date(to)) : undefined,
+          minDuration !== undefined ? gte(schema.usageLogs.durationHours, minDuration) : undefined,
+          maxDuration !== undefined ? lte(schema.usageLogs.durationHours, maxDuration) : undefined,
+          // Runs the auto-stop sweeper closed that nobody has confirmed or corrected yet
+          autoClosedUnreviewed
+            ? and(eq(schema.usageLogs.autoClosed, true), isNull(schema.usageLogs.autoCloseReviewedAt))
+            : undefined,
+          after
+            ? or(
+                past(schema.usageLogs.startTime, after.startTime),
+                and(eq(schema.usageLogs.startTime, after.startTime), past(schema.usageLogs.id, after.id))
+              )
+            : undefined
+        ))
+        .orderBy(direction(schema.usageLogs.startTime), direction(schema.usageLogs.id));
+
+      // One extra row tells us whether there is a next page
+      const rows = limit !== undefined ? await query.limit(limit + 1) : await query;
+
+      const logs = limit !== undefined ? rows.slice(0, limit) : rows;
+      if (limit !== undefined && rows.length > limit) {
+        reply.header('X-Next-Cursor', encodeCursor(logs[logs.length - 1]));
+      }
+
+      return reply.send(logs.map(l => toLogResponse(l, generator)));
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
@@ -111,34 +303,151 @@ export async function usageLogsRoutes(app: FastifyInstance) {
     }
 
     const db = getDb();
-    const generator = await resolveOwnerGenerator(db, generatorId, userId);
-    if (!generator) return reply.status(404).send({ error: 'Generator not found' });
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+
+    try {
+      return await createLog(reply, access.generator, validation.data, userId, sessionActor(request));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Most recent runs of an API key's generator, newest first
+  app.get('/api/generator/logs', { preHandler: requireApiKey('logs:read') }, async (request, reply) => {
+    const validation = recentLogsQuerySchema.safeParse(request.query);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
 
-    const { startTime, endTime } = validation.data;
-    const durationHours = endTime ? calcDurationHours(startTime, endTime) : null;
+    const { generator } = getApiKey(request);
 
     try {
-      const [log] = await db
-        .insert(schema.usageLogs)
-        .values({
-          generatorId,
-          startTime: new Date(startTime),
-          endTime: endTime ? new Date(endTime) : null,
-          durationHours,
-        })
-        .returning();
+      const logs = await getDb()
+        .select()
+        .from(schema.usageLogs)
+        .where(and(eq(schema.usageLogs.generatorId, generator.id), isNull(schema.usageLogs.deletedAt)))
+        .orderBy(desc(schema.usageLogs.startTime), desc(schema.usageLogs.id))
+        .limit(validation.data.limit);
 
-      await recalculateTotalHours(db, generatorId);
+      return reply.send(logs.map(l => toLogResponse(l, generator)));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Logs a run on an API key's generator, e.g. from a transfer switch or a script
+  app.post('/api/generator/logs', { preHandler: requireApiKey('logs:write') }, async (request, reply) => {
+    const validation = createLogSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const { apiKeyId, generator } = getApiKey(request);
+
+    try {
+      return await createLog(reply, generator, validation.data, generator.userId, apiKeyActor(request, apiKeyId));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Bulk import of completed runs from CSV. With dryRun the parsed rows are returned as a
+  // preview; otherwise every valid row is inserted in one transaction. Invalid rows reject
+  // the import, and rows overlapping existing runs do too unless skipOverlaps is set.
+  app.post('/api/generators/:id/logs/import', { bodyLimit: 5 * 1024 * 1024 }, async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const generatorId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(generatorId)) return reply.status(400).send({ error: 'Invalid generator ID' });
+
+    const validation = importLogsSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: validation.error.issues });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+    if (access.generator.archivedAt) {
+      return reply.status(409).send({ error: 'Generator is archived. Unarchive it to use it again.' });
+    }
+
+    const { csv, timezone, dryRun, skipOverlaps } = validation.data;
 
-      return reply.status(201).send({
-        id: log.id,
-        generatorId: log.generatorId,
-        startTime: log.startTime,
-        endTime: log.endTime,
-        durationHours: log.durationHours,
-        createdAt: log.createdAt,
-        updatedAt: log.updatedAt,
+    try {
+      // Read the existing runs, check the rows and insert them under the generator lock, so runs
+      // added or started meanwhile can't end up overlapping the imported ones
+      const result = await db.transaction(async tx => {
+        const locked = await lockGenerator(tx, generatorId);
+        const existing = await tx
+          .select({ startTime: schema.usageLogs.startTime, endTime: schema.usageLogs.endTime })
+          .from(schema.usageLogs)
+          .where(and(eq(schema.usageLogs.generatorId, generatorId), isNull(schema.usageLogs.deletedAt)));
+
+        let rows;
+        try {
+          rows = buildImportRows(csv, timezone, existing, locked.isRunning ? locked.currentStartTime : null);
+        } catch (error) {
+          return { error: (error as Error).message };
+        }
+
+        if (rows.length > MAX_IMPORT_ROWS) {
+          return { error: `CSV has more than ${MAX_IMPORT_ROWS} rows; split it into smaller files` };
+        }
+
+        const toInsert = rows.filter(r => r.status === 'ok');
+        const summary = {
+          total: rows.length,
+          valid: toInsert.length,
+          invalid: rows.filter(r => r.status === 'invalid').length,
+          overlapping: rows.filter(r => r.status === 'overlap').length,
+          rows,
+        };
+
+        if (dryRun || summary.invalid > 0 || (summary.overlapping > 0 && !skipOverlaps)) {
+          return { summary };
+        }
+
+        for (let i = 0; i < toInsert.length; i += 1000) {
+          await tx.insert(schema.usageLogs).values(toInsert.slice(i, i + 1000).map(r => ({
+            generatorId,
+            startTime: r.startTime!,
+            endTime: r.endTime!,
+            durationHours: r.durationHours!,
+          })));
+        }
+        await recalculateTotalHours(tx, generatorId);
+
+        await recordAuditEvent(tx, sessionActor(request), {
+          userId,
+          generatorId,
+          action: 'usage_log.import',
+          targetType: 'usage_log',
+          targetId: null,
+          after: { imported: toInsert.length, skipped: summary.overlapping, timezone },
+        });
+
+        return { summary, imported: toInsert.length };
       });
+
+      if ('error' in result) return reply.status(400).send({ error: result.error });
+      const { summary } = result;
+      if ('imported' in result) {
+        return reply.status(201).send({ imported: result.imported, skipped: summary.overlapping });
+      }
+
+      if (dryRun) return reply.send(summary);
+      if (summary.invalid > 0) {
+        return reply.status(400).send({ error: 'CSV contains invalid rows', ...summary });
+      }
+      return reply.status(409).send({ error: 'Some rows overlap existing runs', ...summary });
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
@@ -163,15 +472,18 @@ export async function usageLogsRoutes(app: FastifyInstance) {
     }
 
     const db = getDb();
-    const generator = await resolveOwnerGenerator(db, generatorId, userId);
-    if (!generator) return reply.status(404).send({ error: 'Generator not found' });
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+    const { generator } = access;
 
     const [existing] = await db
       .select()
       .from(schema.usageLogs)
       .where(and(
         eq(schema.usageLogs.id, logId),
-        eq(schema.usageLogs.generatorId, generatorId)
+        eq(schema.usageLogs.generatorId, generatorId),
+        isNull(schema.usageLogs.deletedAt)
       ))
       .limit(1);
 
@@ -190,30 +502,129 @@ export async function usageLogsRoutes(app: FastifyInstance) {
     const newDurationHours = newEnd
       ? calcDurationHours(newStart.toISOString(), newEnd.toISOString())
       : null;
+    const range = { startTime: newStart, endTime: newEnd };
+
+    const invalid = checkLogTimes(range);
+    if (invalid.length > 0) {
+      return reply.status(400).send({ error: 'Invalid request', details: invalid });
+    }
+
+    try {
+      // Check and update under the generator lock, so concurrent edits can't both store overlapping runs
+      const result = await db.transaction(async tx => {
+        const locked = await lockGenerator(tx, generatorId);
+
+        // Only the live run may be left open; clearing the end time of any other run would reopen it
+        if (updateData.endTime === null && !isCurrentRun(locked, existing)) return { reopened: true };
+
+        // The run being edited can't conflict with itself, including when it is the live run
+        const liveRunStart = locked.isRunning && !isCurrentRun(locked, existing) ? locked.currentStartTime : null;
+        const overlaps = findOverlaps(range, await findIntersectingLogs(tx, generatorId, range, logId), liveRunStart);
+        if (overlaps.length > 0) return { overlaps };
+
+        const [updated] = await tx
+          .update(schema.usageLogs)
+          .set({
+            startTime: newStart,
+            endTime: newEnd,
+            durationHours: newDurationHours,
+            // Correcting an auto-closed run counts as reviewing it
+            ...(existing.autoClosed && !existing.autoCloseReviewedAt ? { autoCloseReviewedAt: new Date() } : {}),
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.usageLogs.id, logId))
+          .returning();
+
+        // Editing the current run moves the live start time; giving it an end time stops the generator
+        if (isCurrentRun(locked, existing)) {
+          await tx
+            .update(schema.generators)
+            .set(newEnd
+              ? { isRunning: false, currentStartTime: null, updatedAt: new Date() }
+              : { currentStartTime: newStart, updatedAt: new Date() })
+            .where(eq(schema.generators.id, generatorId));
+        }
+
+        await recalculateTotalHours(tx, generatorId);
+
+        await recordAuditEvent(tx, sessionActor(request), {
+          userId,
+          generatorId,
+          action: 'usage_log.update',
+          targetType: 'usage_log',
+          targetId: logId,
+          before: logSnapshot(existing),
+          after: logSnapshot(updated),
+        });
+
+        return { updated };
+      });
+
+      if ('reopened' in result) {
+        return reply.status(409).send({ error: 'Only the current run can be left without an end time' });
+      }
+      if ('overlaps' in result) {
+        return reply.status(409).send({ error: 'Log entry overlaps other runs', details: result.overlaps });
+      }
+      return reply.send(toLogResponse(result.updated, generator));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Confirms that the end time the auto-stop sweeper chose for a run is correct
+  app.post('/api/generators/:id/logs/:logId/confirm', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; logId: string };
+    const generatorId = parseInt(params.id, 10);
+    const logId = parseInt(params.logId, 10);
+
+    if (isNaN(generatorId) || isNaN(logId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+    const { generator } = access;
+
+    const [existing] = await db
+      .select()
+      .from(schema.usageLogs)
+      .where(and(
+        eq(schema.usageLogs.id, logId),
+        eq(schema.usageLogs.generatorId, generatorId),
+        isNull(schema.usageLogs.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Log entry not found' });
+    if (!existing.autoClosed) return reply.status(400).send({ error: 'Log entry was not auto-closed' });
 
     try {
       const [updated] = await db
         .update(schema.usageLogs)
-        .set({
-          startTime: newStart,
-          endTime: newEnd,
-          durationHours: newDurationHours,
-          updatedAt: new Date(),
-        })
+        .set({ autoCloseReviewedAt: existing.autoCloseReviewedAt ?? new Date() })
         .where(eq(schema.usageLogs.id, logId))
         .returning();
 
-      await recalculateTotalHours(db, generatorId);
-
-      return reply.send({
-        id: updated.id,
-        generatorId: updated.generatorId,
-        startTime: updated.startTime,
-        endTime: updated.endTime,
-        durationHours: updated.durationHours,
-        createdAt: updated.createdAt,
-        updatedAt: updated.updatedAt,
-      });
+      if (!existing.autoCloseReviewedAt) {
+        await recordAuditEvent(db, sessionActor(request), {
+          userId,
+          generatorId,
+          action: 'usage_log.confirm',
+          targetType: 'usage_log',
+          targetId: logId,
+          before: logSnapshot(existing),
+          after: logSnapshot(updated),
+        });
+      }
+
+      return reply.send(toLogResponse(updated, generator));
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
@@ -233,31 +644,113 @@ export async function usageLogsRoutes(app: FastifyInstance) {
     }
 
     const db = getDb();
-    const generator = await resolveOwnerGenerator(db, generatorId, userId);
-    if (!generator) return reply.status(404).send({ error: 'Generator not found' });
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
 
     const [existing] = await db
       .select()
       .from(schema.usageLogs)
       .where(and(
         eq(schema.usageLogs.id, logId),
-        eq(schema.usageLogs.generatorId, generatorId)
+        eq(schema.usageLogs.generatorId, generatorId),
+        isNull(schema.usageLogs.deletedAt)
       ))
       .limit(1);
 
     if (!existing) return reply.status(404).send({ error: 'Log entry not found' });
 
     try {
+      // Moves the log to the trash; it is purged after the retention period unless restored
       await db
-        .delete(schema.usageLogs)
+        .update(schema.usageLogs)
+        .set({ deletedAt: new Date() })
         .where(eq(schema.usageLogs.id, logId));
 
       await recalculateTotalHours(db, generatorId);
 
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'usage_log.delete',
+        targetType: 'usage_log',
+        targetId: logId,
+        before: logSnapshot(existing),
+      });
+
       return reply.status(204).send();
     } catch (error) {
       app.log.error(error);
       return reply.status(500).send({ error: 'Internal server error' });
     }
   });
+
+  // Brings a log back from the trash. The runs around it may have changed since it was deleted,
+  // so it is checked for overlaps like a new entry.
+  app.post('/api/generators/:id/logs/:logId/restore', async (request, reply) => {
+    const userId = getUserId(request);
+    if (!userId) return reply.status(401).send({ error: 'Not authenticated' });
+
+    const params = request.params as { id: string; logId: string };
+    const generatorId = parseInt(params.id, 10);
+    const logId = parseInt(params.logId, 10);
+
+    if (isNaN(generatorId) || isNaN(logId)) {
+      return reply.status(400).send({ error: 'Invalid ID' });
+    }
+
+    const db = getDb();
+    const access = await resolveGeneratorAccess(db, generatorId, userId);
+    if (!access) return reply.status(404).send({ error: 'Generator not found' });
+    if (!hasRole(access.role, 'operator')) return reply.status(403).send({ error: forbiddenMessage('operator') });
+    const { generator } = access;
+
+    const [existing] = await db
+      .select()
+      .from(schema.usageLogs)
+      .where(and(
+        eq(schema.usageLogs.id, logId),
+        eq(schema.usageLogs.generatorId, generatorId),
+        isNotNull(schema.usageLogs.deletedAt)
+      ))
+      .limit(1);
+
+    if (!existing) return reply.status(404).send({ error: 'Log entry not found in trash' });
+
+    // An open log only makes sense while its run is still going
+    if (existing.endTime === null && !isCurrentRun(generator, existing)) {
+      return reply.status(409).send({ error: 'This run has since ended; add it again with an end time instead' });
+    }
+
+    try {
+      const range = { startTime: existing.startTime, endTime: existing.endTime };
+      const liveRunStart = generator.isRunning && !isCurrentRun(generator, existing) ? generator.currentStartTime : null;
+      const overlaps = findOverlaps(range, await findIntersectingLogs(db, generatorId, range, logId), liveRunStart);
+      if (overlaps.length > 0) {
+        return reply.status(409).send({ error: 'Log entry overlaps other runs', details: overlaps });
+      }
+
+      const [restored] = await db
+        .update(schema.usageLogs)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(eq(schema.usageLogs.id, logId))
+        .returning();
+
+      await recalculateTotalHours(db, generatorId);
+
+      await recordAuditEvent(db, sessionActor(request), {
+        userId,
+        generatorId,
+        action: 'usage_log.restore',
+        targetType: 'usage_log',
+        targetId: logId,
+        after: logSnapshot(restored),
+      });
+
+      return reply.send(toLogResponse(restored, generator));
+    } catch (error) {
+      app.log.error(error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
 }
@@ -0,0 +1,28 @@
+import type { GeneratorRole } from './membership.js';
+
+// What an API key may do with its generator: start and stop it, read its status, read or add
+// run logs, and record maintenance. Keys created before scopes existed have toggle and logs:read.
+export const API_KEY_SCOPES = ['toggle', 'status:read', 'logs:read', 'logs:write', 'maintenance:write'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const DEFAULT_API_KEY_SCOPES: ApiKeyScope[] = ['toggle'];
+
+// Role the key's user needs on the generator for the key to use a scope
+export const SCOPE_ROLES: Record<ApiKeyScope, GeneratorRole> = {
+  'toggle': 'operator',
+  'status:read': 'viewer',
+  'logs:read': 'viewer',
+  'logs:write': 'operator',
+  'maintenance:write': 'operator',
+};
+
+// Role needed to bind a key with these scopes to a generator
+export function requiredRole(scopes: readonly ApiKeyScope[]): GeneratorRole {
+  return scopes.some(scope => SCOPE_ROLES[scope] === 'operator') ? 'operator' : 'viewer';
+}
+
+// Known scopes in their canonical order, without duplicates
+export function normalizeScopes(scopes: readonly string[]): ApiKeyScope[] {
+  return API_KEY_SCOPES.filter(scope => scopes.includes(scope));
+}
@@ -0,0 +1,92 @@
+import type { FastifyRequest } from 'fastify';
+import { getDb, schema } from '../db/index.js';
+
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>['transaction']>[0]>[0];
+
+export const AUDIT_ACTIONS = [
+  'generator.create',
+  'generator.update',
+  'generator.archive',
+  'generator.unarchive',
+  'generator.delete',
+  'generator.start',
+  'generator.stop',
+  'usage_log.create',
+  'usage_log.update',
+  'usage_log.delete',
+  'usage_log.restore',
+  'usage_log.confirm',
+  'usage_log.import',
+  'maintenance_task.create',
+  'maintenance_task.update',
+  'maintenance_task.delete',
+  'maintenance_completion.create',
+  'maintenance_completion.delete',
+  'maintenance_completion.restore',
+  'api_key.create',
+  'api_key.update',
+  'api_key.delete',
+  'api_key.reset',
+  'generator_invite.create',
+  'generator_invite.revoke',
+  'generator_member.add',
+  'generator_member.update',
+  'generator_member.remove',
+  'site.create',
+  'site.update',
+  'site.delete',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export interface AuditActor {
+  type: 'user' | 'api_key' | 'system';
+  userId: number | null;
+  apiKeyId: number | null;
+  ip: string | null;
+}
+
+export interface AuditEvent {
+  // Account the event is listed under while it isn't tied to a generator (sites, unbound keys)
+  // or the generator has been deleted. Events on an existing generator are listed for its
+  // current members instead.
+  userId: number;
+  generatorId: number | null;
+  action: AuditAction;
+  targetType: string;
+  targetId: number | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Changes made by the server itself, such as the auto-stop sweeper ending a forgotten run
+export const SYSTEM_ACTOR: AuditActor = { type: 'system', userId: null, apiKeyId: null, ip: null };
+
+export function sessionActor(request: FastifyRequest): AuditActor {
+  return { type: 'user', userId: (request as any).sessionUser?.id ?? null, apiKeyId: null, ip: request.ip };
+}
+
+export function apiKeyActor(request: FastifyRequest, apiKeyId: number): AuditActor {
+  return { type: 'api_key', userId: null, apiKeyId, ip: request.ip };
+}
+
+// Pass the transaction making the change where there is one, so the event commits with it
+export async function recordAuditEvent(
+  db: ReturnType<typeof getDb> | Transaction,
+  actor: AuditActor,
+  event: AuditEvent
+): Promise<void> {
+  await db.insert(schema.auditEvents).values({
+    userId: event.userId,
+    actorType: actor.type,
+    actorUserId: actor.userId,
+    actorApiKeyId: actor.apiKeyId,
+    generatorId: event.generatorId,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId,
+    before: event.before ?? null,
+    after: event.after ?? null,
+    ip: actor.ip,
+  });
+}
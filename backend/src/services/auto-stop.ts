@@ -0,0 +1,76 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+import { autoStopGenerator } from './generator.js';
+
+// Stops every running generator whose run has exceeded its maxRunHours. Each generator is
+// stopped in its own transaction, so one failure does not hold up the rest.
+export async function stopForgottenRuns(
+  now: Date = new Date(),
+  onError?: (error: unknown, generatorId: number) => void
+): Promise<number> {
+  const db = getDb();
+  const candidates = await db
+    .select({
+      id: schema.generators.id,
+      currentStartTime: schema.generators.currentStartTime,
+      maxRunHours: schema.generators.maxRunHours,
+    })
+    .from(schema.generators)
+    .where(and(
+      eq(schema.generators.isRunning, true),
+      isNotNull(schema.generators.maxRunHours)
+    ));
+
+  let stopped = 0;
+  for (const generator of candidates) {
+    if (!generator.currentStartTime) continue;
+    const limit = generator.currentStartTime.getTime() + generator.maxRunHours! * 60 * 60 * 1000;
+    if (limit > now.getTime()) continue;
+
+    try {
+      if (await autoStopGenerator(generator.id, now)) stopped++;
+    } catch (error) {
+      onError?.(error, generator.id);
+    }
+  }
+
+  return stopped;
+}
+
+export class AutoStopScheduler {
+  private log: FastifyBaseLogger;
+  private timer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(intervalMs: number, log: FastifyBaseLogger) {
+    this.log = log;
+    this.timer = setInterval(() => {
+      void this.run();
+    }, intervalMs);
+  }
+
+  async run(): Promise<number | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const stopped = await stopForgottenRuns(new Date(), (error, generatorId) => {
+        this.log.error({ err: error, generatorId }, 'Failed to auto-stop generator');
+      });
+      if (stopped > 0) {
+        this.log.info(`Auto-stopped ${stopped} generator(s) that exceeded their maximum run length`);
+      }
+      return stopped;
+    } catch (error) {
+      this.log.error(error);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  destroy() {
+    clearInterval(this.timer);
+  }
+}
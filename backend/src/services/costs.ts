@@ -0,0 +1,84 @@
+import { estimateFuelUsed } from './fuel.js';
+
+export interface FuelPrice {
+  pricePerGallon: number;
+  effectiveFrom: Date;
+}
+
+export interface CostedRun {
+  startTime: Date;
+  durationHours: number | null;
+}
+
+export interface CostSummary {
+  runs: number;
+  hours: number;
+  gallons: number | null;
+  cost: number | null;
+  // Runs that started before the first recorded price and so are left out of `cost`
+  unpricedRuns: number;
+}
+
+export interface MonthlyCost extends CostSummary {
+  month: string; // YYYY-MM (UTC)
+}
+
+export interface CostReport {
+  months: MonthlyCost[];
+  totals: CostSummary;
+}
+
+// The price in effect at `at`: the latest entry whose effectiveFrom is not after it
+export function priceAt(prices: FuelPrice[], at: Date): number | null {
+  let match: FuelPrice | null = null;
+  for (const price of prices) {
+    if (price.effectiveFrom <= at && (!match || price.effectiveFrom > match.effectiveFrom)) {
+      match = price;
+    }
+  }
+  return match?.pricePerGallon ?? null;
+}
+
+function emptySummary(burnRate: number | null): CostSummary {
+  return { runs: 0, hours: 0, gallons: burnRate === null ? null : 0, cost: burnRate === null ? null : 0, unpricedRuns: 0 };
+}
+
+function addRun(summary: CostSummary, hours: number, gallons: number | null, price: number | null) {
+  summary.runs++;
+  summary.hours += hours;
+  if (gallons === null || summary.gallons === null) return;
+  summary.gallons += gallons;
+  if (price === null) {
+    summary.unpricedRuns++;
+  } else {
+    summary.cost! += gallons * price;
+  }
+}
+
+// Costs each completed run as duration × burn rate × the price at its start, grouped by the
+// UTC month the run started in. Without a burn rate only run counts and hours are reported.
+export function buildCostReport(runs: CostedRun[], prices: FuelPrice[], burnRate: number | null): CostReport {
+  const months = new Map<string, MonthlyCost>();
+  const totals = emptySummary(burnRate);
+
+  for (const run of runs) {
+    if (run.durationHours === null) continue;
+
+    const month = run.startTime.toISOString().slice(0, 7);
+    let bucket = months.get(month);
+    if (!bucket) {
+      bucket = { month, ...emptySummary(burnRate) };
+      months.set(month, bucket);
+    }
+
+    const gallons = estimateFuelUsed(run.durationHours, burnRate);
+    const price = priceAt(prices, run.startTime);
+    addRun(bucket, run.durationHours, gallons, price);
+    addRun(totals, run.durationHours, gallons, price);
+  }
+
+  return {
+    months: [...months.values()].sort((a, b) => a.month.localeCompare(b.month)),
+    totals,
+  };
+}
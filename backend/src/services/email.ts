@@ -0,0 +1,43 @@
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message. The SMTP transport below is used in production;
+// tests and alternative providers only need to implement send().
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  from: string;
+  secure: boolean;
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    // Relays on a trusted network (or a local SMTP sink) may not require credentials
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    async send(message: MailMessage): Promise<void> {
+      await transporter.sendMail({
+        from: options.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      });
+    },
+  };
+}
@@ -0,0 +1,273 @@
+import { Readable } from 'stream';
+import { and, asc, desc, eq, gt, gte, isNull, lt, or } from 'drizzle-orm';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+import { estimateFuelUsed } from './fuel.js';
+import { ensureOilChangeTask } from './maintenance-tasks.js';
+import { buildXlsx, type XlsxCell } from './xlsx.js';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_DATASETS = ['usage-logs', 'oil-changes', 'generator', 'all'] as const;
+export type ExportDataset = typeof EXPORT_DATASETS[number];
+
+type Generator = typeof schema.generators.$inferSelect;
+type Cell = string | number | boolean | null;
+
+export interface ExportRange {
+  from?: Date;
+  to?: Date;
+}
+
+interface Column {
+  key: string;
+  label: string;
+}
+
+// One exportable dataset. `single` datasets have exactly one row and export to JSON as an
+// object rather than an array.
+interface Table {
+  name: string;
+  jsonKey: string;
+  columns: Column[];
+  single?: boolean;
+  rows: () => AsyncIterable<Cell[]>;
+}
+
+const BATCH_SIZE = 1000;
+
+function iso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+// Usage logs are read in keyset-paginated batches so large histories never sit in memory at once
+async function* usageLogRows(generator: Generator, range: ExportRange): AsyncIterable<Cell[]> {
+  const db = getDb();
+  let after: { startTime: Date; id: number } | null = null;
+
+  for (;;) {
+    const batch: (typeof schema.usageLogs.$inferSelect)[] = await db
+      .select()
+      .from(schema.usageLogs)
+      .where(and(
+        eq(schema.usageLogs.generatorId, generator.id),
+        isNull(schema.usageLogs.deletedAt),
+        range.from ? gte(schema.usageLogs.startTime, range.from) : undefined,
+        range.to ? lt(schema.usageLogs.startTime, range.to) : undefined,
+        after
+          ? or(
+              gt(schema.usageLogs.startTime, after.startTime),
+              and(eq(schema.usageLogs.startTime, after.startTime), gt(schema.usageLogs.id, after.id))
+            )
+          : undefined
+      ))
+      .orderBy(asc(schema.usageLogs.startTime), asc(schema.usageLogs.id))
+      .limit(BATCH_SIZE);
+
+    for (const l of batch) {
+      yield [
+        l.id,
+        iso(l.startTime),
+        iso(l.endTime),
+        l.durationHours,
+        estimateFuelUsed(l.durationHours, generator.fuelBurnRate),
+        l.autoClosed,
+        iso(l.createdAt),
+        iso(l.updatedAt),
+      ];
+    }
+
+    if (batch.length < BATCH_SIZE) return;
+    after = batch[batch.length - 1];
+  }
+}
+
+async function* oilChangeRows(generator: Generator, range: ExportRange): AsyncIterable<Cell[]> {
+  const db = getDb();
+  const task = await ensureOilChangeTask(db, generator);
+  const entries = await db
+    .select()
+    .from(schema.maintenanceTaskCompletions)
+    .where(and(
+      eq(schema.maintenanceTaskCompletions.taskId, task.id),
+      isNull(schema.maintenanceTaskCompletions.deletedAt),
+      range.from ? gte(schema.maintenanceTaskCompletions.performedAt, range.from) : undefined,
+      range.to ? lt(schema.maintenanceTaskCompletions.performedAt, range.to) : undefined
+    ))
+    .orderBy(desc(schema.maintenanceTaskCompletions.performedAt));
+
+  for (const e of entries) {
+    yield [e.id, iso(e.performedAt), e.hoursAtCompletion, e.notes, iso(e.createdAt)];
+  }
+}
+
+async function* generatorRows(generator: Generator): AsyncIterable<Cell[]> {
+  yield [
+    generator.id,
+    generator.name,
+    generator.totalHours,
+    generator.initialHours,
+    generator.isRunning,
+    iso(generator.currentStartTime),
+    generator.oilChangeHours,
+    generator.oilChangeMonths,
+    iso(generator.lastOilChangeDate),
+    generator.lastOilChangeHours,
+    generator.maxRunHours,
+    generator.tankCapacityGallons,
+    generator.fuelBurnRate,
+    iso(generator.installedAt),
+    iso(generator.createdAt),
+    iso(generator.updatedAt),
+  ];
+}
+
+function tablesFor(generator: Generator, dataset: ExportDataset, range: ExportRange): Table[] {
+  const tables: Record<Exclude<ExportDataset, 'all'>, Table> = {
+    'usage-logs': {
+      name: 'Usage Logs',
+      jsonKey: 'usageLogs',
+      columns: [
+        { key: 'id', label: 'ID' },
+        { key: 'startTime', label: 'Start Time' },
+        { key: 'endTime', label: 'End Time' },
+        { key: 'durationHours', label: 'Duration (hours)' },
+        { key: 'estimatedFuelGallons', label: 'Estimated Fuel (gallons)' },
+        { key: 'autoClosed', label: 'Auto-closed' },
+        { key: 'createdAt', label: 'Created At' },
+        { key: 'updatedAt', label: 'Updated At' },
+      ],
+      rows: () => usageLogRows(generator, range),
+    },
+    'oil-changes': {
+      name: 'Oil Changes',
+      jsonKey: 'oilChanges',
+      columns: [
+        { key: 'id', label: 'ID' },
+        { key: 'performedAt', label: 'Performed At' },
+        { key: 'hoursAtChange', label: 'Hours at Change' },
+        { key: 'notes', label: 'Notes' },
+        { key: 'createdAt', label: 'Created At' },
+      ],
+      rows: () => oilChangeRows(generator, range),
+    },
+    generator: {
+      name: 'Generator',
+      jsonKey: 'generator',
+      single: true,
+      columns: [
+        { key: 'id', label: 'ID' },
+        { key: 'name', label: 'Name' },
+        { key: 'totalHours', label: 'Total Hours' },
+        { key: 'initialHours', label: 'Initial Hours' },
+        { key: 'isRunning', label: 'Running' },
+        { key: 'currentStartTime', label: 'Current Start Time' },
+        { key: 'oilChangeHours', label: 'Oil Change Interval (hours)' },
+        { key: 'oilChangeMonths', label: 'Oil Change Interval (months)' },
+        { key: 'lastOilChangeDate', label: 'Last Oil Change Date' },
+        { key: 'lastOilChangeHours', label: 'Last Oil Change Hours' },
+        { key: 'maxRunHours', label: 'Max Run Hours' },
+        { key: 'tankCapacityGallons', label: 'Tank Capacity (gallons)' },
+        { key: 'fuelBurnRate', label: 'Fuel Burn Rate (gallons/hour)' },
+        { key: 'installedAt', label: 'Installed At' },
+        { key: 'createdAt', label: 'Created At' },
+        { key: 'updatedAt', label: 'Updated At' },
+      ],
+      rows: () => generatorRows(generator),
+    },
+  };
+
+  return dataset === 'all'
+    ? [tables.generator, tables['usage-logs'], tables['oil-changes']]
+    : [tables[dataset]];
+}
+
+// RFC 4180: quote fields containing a delimiter, quote or line break, doubling embedded quotes
+export function toCsvField(value: Cell): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* csvChunks(table: Table): AsyncIterable<string> {
+  yield table.columns.map(c => toCsvField(c.label)).join(',') + '\r\n';
+  for await (const row of table.rows()) {
+    yield row.map(toCsvField).join(',') + '\r\n';
+  }
+}
+
+function toJsonObject(table: Table, row: Cell[]): string {
+  return JSON.stringify(Object.fromEntries(table.columns.map((c, i) => [c.key, row[i]])));
+}
+
+async function* jsonTableChunks(table: Table): AsyncIterable<string> {
+  if (table.single) {
+    for await (const row of table.rows()) {
+      yield toJsonObject(table, row);
+      return;
+    }
+    yield 'null';
+    return;
+  }
+
+  yield '[';
+  let first = true;
+  for await (const row of table.rows()) {
+    yield (first ? '' : ',') + toJsonObject(table, row);
+    first = false;
+  }
+  yield ']';
+}
+
+// A single dataset exports as its array (or object); 'all' wraps them in one object
+async function* jsonChunks(tables: Table[], wrap: boolean): AsyncIterable<string> {
+  if (!wrap) {
+    yield* jsonTableChunks(tables[0]);
+    return;
+  }
+
+  yield '{';
+  for (const [i, table] of tables.entries()) {
+    yield `${i > 0 ? ',' : ''}${JSON.stringify(table.jsonKey)}:`;
+    yield* jsonTableChunks(table);
+  }
+  yield '}';
+}
+
+async function xlsxBuffer(tables: Table[]): Promise<Buffer> {
+  const sheets = [];
+  for (const table of tables) {
+    const rows: XlsxCell[][] = [table.columns.map(c => c.label)];
+    for await (const row of table.rows()) rows.push(row);
+    sheets.push({ name: table.name, rows });
+  }
+  return buildXlsx(sheets);
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// CSV and JSON are streamed row by row; XLSX is a zip archive and is assembled in memory.
+// CSV holds a single table, so the 'all' dataset is only available as JSON or XLSX.
+export async function createExport(
+  generator: Generator,
+  format: ExportFormat,
+  dataset: ExportDataset,
+  range: ExportRange
+): Promise<Readable | Buffer> {
+  const tables = tablesFor(generator, dataset, range);
+
+  switch (format) {
+    case 'csv':
+      if (dataset === 'all') throw new Error('CSV exports one dataset at a time');
+      return Readable.from(csvChunks(tables[0]));
+    case 'json':
+      return Readable.from(jsonChunks(tables, dataset === 'all'));
+    case 'xlsx':
+      return xlsxBuffer(tables);
+  }
+}
@@ -0,0 +1,56 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface Refuel {
+  gallons: number;
+  filledToFull: boolean;
+  refueledAt: Date;
+}
+
+export interface Run {
+  startTime: Date;
+  endTime: Date | null;
+}
+
+export function estimateFuelUsed(durationHours: number | null, burnRate: number | null): number | null {
+  if (durationHours === null || burnRate === null) return null;
+  return durationHours * burnRate;
+}
+
+// Running hours between `from` and `to`, counting an open run as running until `now`
+function runningHoursBetween(runs: Run[], from: Date, to: Date, now: Date): number {
+  let ms = 0;
+  for (const run of runs) {
+    const start = Math.max(run.startTime.getTime(), from.getTime());
+    const end = Math.min((run.endTime ?? now).getTime(), to.getTime());
+    if (end > start) ms += end - start;
+  }
+  return ms / HOUR_MS;
+}
+
+// Replays refuels and runs in order: each refuel adds its gallons (or fills the tank), each
+// stretch of running burns `burnRate` gallons per hour, and the level is kept between empty
+// and the tank capacity. Returns null until a capacity, a burn rate and at least one refuel
+// are known, since there is no starting level to work from before that.
+export function estimateFuelRemaining(
+  tankCapacityGallons: number | null,
+  burnRate: number | null,
+  refuels: Refuel[],
+  runs: Run[],
+  now: Date = new Date()
+): number | null {
+  if (tankCapacityGallons === null || burnRate === null || refuels.length === 0) {
+    return null;
+  }
+
+  const ordered = [...refuels].sort((a, b) => a.refueledAt.getTime() - b.refueledAt.getTime());
+  let level = 0;
+  let since = ordered[0].refueledAt;
+
+  for (const refuel of ordered) {
+    level = Math.max(0, level - runningHoursBetween(runs, since, refuel.refueledAt, now) * burnRate);
+    level = refuel.filledToFull ? tankCapacityGallons : Math.min(tankCapacityGallons, level + refuel.gallons);
+    since = refuel.refueledAt;
+  }
+
+  return Math.max(0, level - runningHoursBetween(runs, since, now, now) * burnRate);
+}
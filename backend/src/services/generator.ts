@@ -1,6 +1,8 @@
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
 import { getDb, schema } from '../db/index.js';
 import { hashApiKey } from '../utils/auth.js';
+import { recordAuditEvent, SYSTEM_ACTOR, type AuditActor } from './audit.js';
+import { memberGeneratorIds, type GeneratorRole } from './membership.js';
 
 export interface StartGeneratorResult {
   status: 'started';
@@ -16,77 +18,317 @@ export interface StopGeneratorResult {
   totalHours: number;
 }
 
+export interface AlreadyRunningResult {
+  status: 'already_running';
+  isRunning: true;
+  startTime: Date;
+  totalHours: number;
+}
+
+export interface AlreadyStoppedResult {
+  status: 'already_stopped';
+  isRunning: false;
+  totalHours: number;
+}
+
 export type ToggleResult = StartGeneratorResult | StopGeneratorResult;
+export type StartResult = StartGeneratorResult | AlreadyRunningResult;
+export type StopResult = StopGeneratorResult | AlreadyStoppedResult;
 
-export async function toggleGenerator(generatorId: number): Promise<ToggleResult> {
-  const db = getDb();
+type Generator = typeof schema.generators.$inferSelect;
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>['transaction']>[0]>[0];
 
-  // Get the current generator state
-  const [generator] = await db
+// Locks the generator row for the rest of the transaction. Concurrent toggles (web button
+// and Shortcut at the same moment) queue on this lock, so the second one sees the state the
+// first one wrote instead of both stopping the same run.
+export async function lockGenerator(tx: Transaction, generatorId: number): Promise<Generator> {
+  const [generator] = await tx
     .select()
     .from(schema.generators)
     .where(eq(schema.generators.id, generatorId))
+    .for('update')
     .limit(1);
 
   if (!generator) {
     throw new Error('Generator not found');
   }
+  return generator;
+}
 
-  const now = new Date();
+// Archived generators keep their history but can't be started again until unarchived
+function assertNotArchived(generator: Generator) {
+  if (generator.archivedAt) {
+    throw new Error('Generator is archived');
+  }
+}
 
-  if (!generator.isRunning) {
-    // Start the generator
-    await db
-      .update(schema.generators)
-      .set({
-        isRunning: true,
-        currentStartTime: now,
-        updatedAt: now,
-      })
-      .where(eq(schema.generators.id, generatorId));
-
-    return {
-      status: 'started',
+async function beginRun(tx: Transaction, generator: Generator, now: Date, actor: AuditActor): Promise<StartGeneratorResult> {
+  await tx
+    .update(schema.generators)
+    .set({
       isRunning: true,
-      startTime: now,
-      totalHours: generator.totalHours,
-    };
-  } else {
-    // Stop the generator
-    const startTime = generator.currentStartTime!;
-    const durationMs = now.getTime() - startTime.getTime();
-    const durationHours = durationMs / (1000 * 60 * 60);
-    const newTotalHours = generator.totalHours + durationHours;
-
-    // Update generator state
-    await db
-      .update(schema.generators)
-      .set({
-        isRunning: false,
-        currentStartTime: null,
-        totalHours: newTotalHours,
-        updatedAt: now,
-      })
-      .where(eq(schema.generators.id, generatorId));
-
-    // Create usage log entry
-    await db.insert(schema.usageLogs).values({
-      generatorId,
+      currentStartTime: now,
+      updatedAt: now,
+    })
+    .where(eq(schema.generators.id, generator.id));
+
+  // Open log for the run; endRun closes it
+  await tx.insert(schema.usageLogs).values({
+    generatorId: generator.id,
+    startTime: now,
+  });
+
+  await recordAuditEvent(tx, actor, {
+    userId: generator.userId,
+    generatorId: generator.id,
+    action: 'generator.start',
+    targetType: 'generator',
+    targetId: generator.id,
+    before: { isRunning: false },
+    after: { isRunning: true, currentStartTime: now },
+  });
+
+  return {
+    status: 'started',
+    isRunning: true,
+    startTime: now,
+    totalHours: generator.totalHours,
+  };
+}
+
+async function endRun(
+  tx: Transaction,
+  generator: Generator,
+  now: Date,
+  actor: AuditActor,
+  autoClosed = false
+): Promise<StopGeneratorResult> {
+  const startTime = generator.currentStartTime!;
+  const durationMs = now.getTime() - startTime.getTime();
+  const durationHours = durationMs / (1000 * 60 * 60);
+  const newTotalHours = generator.totalHours + durationHours;
+
+  // Update generator state
+  await tx
+    .update(schema.generators)
+    .set({
+      isRunning: false,
+      currentStartTime: null,
+      totalHours: newTotalHours,
+      updatedAt: now,
+    })
+    .where(eq(schema.generators.id, generator.id));
+
+  // Close the open log beginRun created
+  const [closed] = await tx
+    .update(schema.usageLogs)
+    .set({ endTime: now, durationHours, autoClosed, updatedAt: now })
+    .where(and(
+      eq(schema.usageLogs.generatorId, generator.id),
+      eq(schema.usageLogs.startTime, startTime),
+      isNull(schema.usageLogs.endTime),
+      isNull(schema.usageLogs.deletedAt)
+    ))
+    .returning({ id: schema.usageLogs.id });
+
+  // The open log can be missing if it was deleted (or is in the trash) mid-run
+  if (!closed) {
+    await tx.insert(schema.usageLogs).values({
+      generatorId: generator.id,
       startTime,
       endTime: now,
       durationHours,
+      autoClosed,
     });
-
-    return {
-      status: 'stopped',
-      isRunning: false,
-      durationHours,
-      totalHours: newTotalHours,
-    };
   }
+
+  await recordAuditEvent(tx, actor, {
+    userId: generator.userId,
+    generatorId: generator.id,
+    action: 'generator.stop',
+    targetType: 'generator',
+    targetId: generator.id,
+    before: { isRunning: true, currentStartTime: startTime, totalHours: generator.totalHours },
+    after: { isRunning: false, endTime: now, durationHours, totalHours: newTotalHours, autoClosed },
+  });
+
+  return {
+    status: 'stopped',
+    isRunning: false,
+    durationHours,
+    totalHours: newTotalHours,
+  };
+}
+
+// `actor` is recorded in the audit log for the start or stop; requests pass who made them.
+// Passing `db` runs the action inside a caller's transaction, as idempotent requests do.
+export async function toggleGenerator(
+  generatorId: number,
+  actor: AuditActor = SYSTEM_ACTOR,
+  db: ReturnType<typeof getDb> | Transaction = getDb()
+): Promise<ToggleResult> {
+  return db.transaction(async (tx) => {
+    const generator = await lockGenerator(tx, generatorId);
+    // Timestamp taken after acquiring the lock so queued toggles stay in order
+    const now = new Date();
+    if (generator.isRunning) return endRun(tx, generator, now, actor);
+    assertNotArchived(generator);
+    return beginRun(tx, generator, now, actor);
+  });
+}
+
+// Unlike toggleGenerator, start and stop are idempotent: a repeated request (double-tapped
+// shortcut, client retry) reports the current state instead of flipping it.
+export async function startGenerator(
+  generatorId: number,
+  actor: AuditActor = SYSTEM_ACTOR,
+  db: ReturnType<typeof getDb> | Transaction = getDb()
+): Promise<StartResult> {
+  return db.transaction(async (tx) => {
+    const generator = await lockGenerator(tx, generatorId);
+    if (generator.isRunning) {
+      return {
+        status: 'already_running' as const,
+        isRunning: true as const,
+        startTime: generator.currentStartTime!,
+        totalHours: generator.totalHours,
+      };
+    }
+    assertNotArchived(generator);
+    return beginRun(tx, generator, new Date(), actor);
+  });
+}
+
+export async function stopGenerator(
+  generatorId: number,
+  actor: AuditActor = SYSTEM_ACTOR,
+  db: ReturnType<typeof getDb> | Transaction = getDb()
+): Promise<StopResult> {
+  return db.transaction(async (tx) => {
+    const generator = await lockGenerator(tx, generatorId);
+    if (!generator.isRunning) {
+      return {
+        status: 'already_stopped' as const,
+        isRunning: false as const,
+        totalHours: generator.totalHours,
+      };
+    }
+    return endRun(tx, generator, new Date(), actor);
+  });
 }
 
-export async function getGeneratorByApiKey(apiKey: string) {
+// Stops a run that has exceeded the generator's maxRunHours, ending it at the limit rather
+// than now so a forgotten run does not inflate totalHours. Returns null when the run has
+// since been stopped or is still within its limit.
+export async function autoStopGenerator(generatorId: number, now: Date = new Date()): Promise<StopGeneratorResult | null> {
+  return getDb().transaction(async (tx) => {
+    const generator = await lockGenerator(tx, generatorId);
+    if (!generator.isRunning || !generator.currentStartTime || generator.maxRunHours === null) {
+      return null;
+    }
+
+    const limit = new Date(generator.currentStartTime.getTime() + generator.maxRunHours * 60 * 60 * 1000);
+    if (limit > now) return null;
+
+    return endRun(tx, generator, limit, SYSTEM_ACTOR, true);
+  });
+}
+
+// Retires a generator: hidden from the dashboard and toggling, with its history kept. A running
+// generator has to be stopped first so its open run isn't left dangling. Archiving an archived
+// generator is a no-op.
+export async function archiveGenerator(generatorId: number, actor: AuditActor): Promise<Generator> {
+  return getDb().transaction(async (tx) => {
+    const generator = await lockGenerator(tx, generatorId);
+    if (generator.archivedAt) return generator;
+    if (generator.isRunning) {
+      throw new Error('Generator is running');
+    }
+
+    const now = new Date();
+    const [archived] = await tx
+      .update(schema.generators)
+      .set({ archivedAt: now, updatedAt: now })
+      .where(eq(schema.generators.id, generatorId))
+      .returning();
+
+    await recordAuditEvent(tx, actor, {
+      userId: generator.userId,
+      generatorId,
+      action: 'generator.archive',
+      targetType: 'generator',
+      targetId: generatorId,
+      before: { archivedAt: null },
+      after: { archivedAt: now },
+    });
+
+    return archived;
+  });
+}
+
+export async function unarchiveGenerator(generatorId: number, actor: AuditActor): Promise<Generator> {
+  return getDb().transaction(async (tx) => {
+    const generator = await lockGenerator(tx, generatorId);
+    if (!generator.archivedAt) return generator;
+
+    const [restored] = await tx
+      .update(schema.generators)
+      .set({ archivedAt: null, updatedAt: new Date() })
+      .where(eq(schema.generators.id, generatorId))
+      .returning();
+
+    await recordAuditEvent(tx, actor, {
+      userId: generator.userId,
+      generatorId,
+      action: 'generator.unarchive',
+      targetType: 'generator',
+      targetId: generatorId,
+      before: { archivedAt: generator.archivedAt },
+      after: { archivedAt: null },
+    });
+
+    return restored;
+  });
+}
+
+// Permanently removes a generator. Its usage logs, maintenance history, refuels, meter
+// readings and alerts go with it through the foreign key cascades. API keys bound to it are
+// revoked rather than unbound, so a Shortcut set up for this generator can't silently start
+// toggling a different one. Returns the number of keys revoked.
+export async function deleteGenerator(generatorId: number, actor: AuditActor): Promise<{ revokedApiKeys: number }> {
+  return getDb().transaction(async (tx) => {
+    const generator = await lockGenerator(tx, generatorId);
+
+    const revoked = await tx
+      .delete(schema.apiKeys)
+      .where(eq(schema.apiKeys.generatorId, generatorId))
+      .returning({ id: schema.apiKeys.id });
+
+    await tx.delete(schema.generators).where(eq(schema.generators.id, generatorId));
+
+    // Listed under the member who deleted it, who keeps seeing the event once memberships are gone
+    await recordAuditEvent(tx, actor, {
+      userId: actor.userId ?? generator.userId,
+      generatorId,
+      action: 'generator.delete',
+      targetType: 'generator',
+      targetId: generatorId,
+      before: {
+        name: generator.name,
+        totalHours: generator.totalHours,
+        archivedAt: generator.archivedAt,
+        revokedApiKeys: revoked.length,
+      },
+    });
+
+    return { revokedApiKeys: revoked.length };
+  });
+}
+
+type ApiKey = typeof schema.apiKeys.$inferSelect;
+
+// The API key with this raw value, or null for an unknown key. Marks the key as used.
+export async function findApiKey(apiKey: string): Promise<ApiKey | null> {
   const db = getDb();
   const keyHash = hashApiKey(apiKey);
 
@@ -106,12 +348,37 @@ export async function getGeneratorByApiKey(apiKey: string) {
     .set({ lastUsedAt: new Date() })
     .where(eq(schema.apiKeys.id, apiKeyRecord.id));
 
-  // Get the user's generator (assuming one generator per user for MVP)
-  const [generator] = await db
+  return apiKeyRecord;
+}
+
+// The generator a key acts on, if its user still has at least `required` role on it. Keys act
+// with their user's role, so a key stops working on a generator its user can no longer use.
+export async function resolveApiKeyGenerator(
+  apiKeyRecord: ApiKey,
+  required: GeneratorRole = 'operator'
+): Promise<Generator | undefined> {
+  const db = getDb();
+  const accessible = memberGeneratorIds(db, apiKeyRecord.userId, required);
+
+  if (apiKeyRecord.generatorId !== null) {
+    const [bound] = await db
+      .select()
+      .from(schema.generators)
+      .where(and(eq(schema.generators.id, apiKeyRecord.generatorId), inArray(schema.generators.id, accessible)))
+      .limit(1);
+    return bound;
+  }
+
+  // Unbound keys only resolve when the user has a single active generator with that role
+  const generators = await db
     .select()
     .from(schema.generators)
-    .where(eq(schema.generators.userId, apiKeyRecord.userId))
-    .limit(1);
+    .where(and(inArray(schema.generators.id, accessible), isNull(schema.generators.archivedAt)))
+    .limit(2);
 
-  return generator;
+  if (generators.length > 1) {
+    throw new Error('API key is not bound to a generator');
+  }
+
+  return generators[0];
 }
@@ -0,0 +1,101 @@
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+import { lockGenerator } from './generator.js';
+
+type Generator = typeof schema.generators.$inferSelect;
+type HourMeterReading = typeof schema.hourMeterReadings.$inferSelect;
+type HourMeterAdjustment = typeof schema.hourMeterAdjustments.$inferSelect;
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>['transaction']>[0]>[0];
+
+export interface MeterReadingInput {
+  meterHours: number;
+  readAt: Date;
+  notes?: string;
+  rebase: boolean;
+}
+
+export interface RecordedMeterReading {
+  reading: HourMeterReading;
+  adjustment: HourMeterAdjustment | null;
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+
+// Hours tracked as of `at`: totalHours without the part of completed runs after `at`, plus the
+// live run up to `at` (totalHours only includes a run once it stops).
+export async function trackedHoursAt(tx: Transaction, generator: Generator, at: Date): Promise<number> {
+  const later = await tx
+    .select({ startTime: schema.usageLogs.startTime, endTime: schema.usageLogs.endTime })
+    .from(schema.usageLogs)
+    .where(and(
+      eq(schema.usageLogs.generatorId, generator.id),
+      gt(schema.usageLogs.endTime, at),
+      isNull(schema.usageLogs.deletedAt)
+    ));
+
+  const hoursAfter = later.reduce((total, log) => {
+    const from = Math.max(log.startTime.getTime(), at.getTime());
+    return total + (log.endTime!.getTime() - from) / HOUR_MS;
+  }, 0);
+
+  const liveStart = generator.isRunning ? generator.currentStartTime : null;
+  const liveHours = liveStart && liveStart < at ? (at.getTime() - liveStart.getTime()) / HOUR_MS : 0;
+
+  return generator.totalHours - hoursAfter + liveHours;
+}
+
+// Records a meter reading against the tracked hours at its time. With rebase, the generator's
+// meter adjustment absorbs the drift so the tracked hours at readAt equal the meter; runs after
+// readAt, and the rest of a live run, still add on top.
+export async function recordMeterReading(
+  generatorId: number,
+  userId: number,
+  input: MeterReadingInput
+): Promise<RecordedMeterReading> {
+  return getDb().transaction(async (tx) => {
+    // Same lock as toggles so a stop can't land between reading totalHours and rebasing it
+    const generator = await lockGenerator(tx, generatorId);
+
+    const trackedHours = await trackedHoursAt(tx, generator, input.readAt);
+
+    const [reading] = await tx
+      .insert(schema.hourMeterReadings)
+      .values({
+        generatorId,
+        meterHours: input.meterHours,
+        trackedHours,
+        readAt: input.readAt,
+        notes: input.notes ?? null,
+      })
+      .returning();
+
+    if (!input.rebase) {
+      return { reading, adjustment: null };
+    }
+
+    const drift = input.meterHours - trackedHours;
+    const newTotalHours = generator.totalHours + drift;
+
+    await tx
+      .update(schema.generators)
+      .set({
+        totalHours: newTotalHours,
+        meterAdjustmentHours: generator.meterAdjustmentHours + drift,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.generators.id, generatorId));
+
+    const [adjustment] = await tx
+      .insert(schema.hourMeterAdjustments)
+      .values({
+        generatorId,
+        readingId: reading.id,
+        userId,
+        previousTotalHours: generator.totalHours,
+        newTotalHours,
+      })
+      .returning();
+
+    return { reading, adjustment };
+  });
+}
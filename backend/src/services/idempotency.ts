@@ -0,0 +1,93 @@
+import { and, eq, isNull, lt } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+
+// How long a reservation without a stored response counts as in progress. A request that
+// crashed or was cut off by a restart never stores its response, so after this its key is
+// taken over by the next retry instead of answering 409 for the rest of the window.
+export const RESERVATION_LEASE_MS = 60_000;
+
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>['transaction']>[0]>[0];
+
+export interface IdempotentResult<T> {
+  result: T;
+  replayed: boolean;
+}
+
+// Runs `run` at most once per (generator, Idempotency-Key) within `windowMs`. The key is
+// reserved before running so concurrent retries cannot both toggle; a replay returns the
+// stored result. `run` gets the transaction the response is stored in, so either both the
+// action and its response commit or neither does; a failed run releases the key so the
+// client can retry, and abandoned reservations are taken over after RESERVATION_LEASE_MS.
+export async function withIdempotencyKey<T>(
+  generatorId: number,
+  key: string,
+  action: string,
+  windowMs: number,
+  run: (tx: Transaction) => Promise<T>,
+  now: Date = new Date()
+): Promise<IdempotentResult<T>> {
+  const db = getDb();
+
+  // Expired keys are purged lazily so the table stays small without a background job
+  await db
+    .delete(schema.idempotencyKeys)
+    .where(lt(schema.idempotencyKeys.createdAt, new Date(now.getTime() - windowMs)));
+
+  let [reserved] = await db
+    .insert(schema.idempotencyKeys)
+    .values({ generatorId, key, action, createdAt: now })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!reserved) {
+    const [existing] = await db
+      .select()
+      .from(schema.idempotencyKeys)
+      .where(and(eq(schema.idempotencyKeys.generatorId, generatorId), eq(schema.idempotencyKeys.key, key)))
+      .limit(1);
+
+    if (existing && existing.action !== action) {
+      throw new Error('Idempotency key reused for a different request');
+    }
+    if (existing && existing.response !== null) {
+      return { result: existing.response as T, replayed: true };
+    }
+
+    if (existing && existing.createdAt < new Date(now.getTime() - RESERVATION_LEASE_MS)) {
+      // Only one retry wins the takeover: the row must still be the abandoned reservation
+      [reserved] = await db
+        .update(schema.idempotencyKeys)
+        .set({ createdAt: now })
+        .where(and(
+          eq(schema.idempotencyKeys.id, existing.id),
+          eq(schema.idempotencyKeys.createdAt, existing.createdAt),
+          isNull(schema.idempotencyKeys.response)
+        ))
+        .returning();
+    }
+    if (!reserved) {
+      throw new Error('Idempotency key request in progress');
+    }
+  }
+
+  let result: T;
+  try {
+    result = await db.transaction(async tx => {
+      const ran = await run(tx);
+
+      // Stored as JSON, so a replay returns exactly what the original response serialized to
+      await tx
+        .update(schema.idempotencyKeys)
+        .set({ response: JSON.parse(JSON.stringify(ran)) })
+        .where(eq(schema.idempotencyKeys.id, reserved.id));
+
+      return ran;
+    });
+  } catch (error) {
+    // The action rolled back with the response, so nothing happened and the key can be retried
+    await db.delete(schema.idempotencyKeys).where(eq(schema.idempotencyKeys.id, reserved.id));
+    throw error;
+  }
+
+  return { result, replayed: false };
+}
@@ -0,0 +1,201 @@
+// Parsing and validation for importing historical usage logs from CSV (paper or spreadsheet
+// logs kept before GeneratorLog). Nothing here touches the database; the route checks the
+// parsed rows against existing logs and inserts them.
+
+import { checkLogTimes } from './log-validation.js';
+
+export interface ImportRow {
+  line: number;
+  startTime: Date | null;
+  endTime: Date | null;
+  durationHours: number | null;
+  status: 'ok' | 'invalid' | 'overlap';
+  message: string | null;
+}
+
+export interface TimeRange {
+  startTime: Date;
+  endTime: Date | null;
+}
+
+// RFC 4180 parser: quoted fields may contain commas, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// Converts a wall-clock time in `timeZone` to a UTC instant. The offset is re-read at the
+// first guess so times on the far side of a DST change resolve correctly.
+function fromWallClock(fields: number[], timeZone: string): Date {
+  const [year, month, day, hour, minute, second] = fields;
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  return new Date(wallClock - zoneOffset(guess, timeZone));
+}
+
+const ISO_WITH_ZONE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+const YEAR_FIRST = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+const MONTH_FIRST = /^(\d{1,2})\/(\d{1,2})\/(\d{4}) (\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AP]M))?$/i;
+
+// Accepts ISO 8601 timestamps with an offset (used as-is), or wall-clock times in `timeZone`
+// as "YYYY-MM-DD HH:MM[:SS]" or US-style "M/D/YYYY H:MM[:SS] [AM|PM]". Returns null when the
+// value matches none of these or names an impossible date.
+export function parseDateTime(value: string, timeZone: string): Date | null {
+  const text = value.trim();
+
+  if (ISO_WITH_ZONE.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  let fields: number[];
+  const yearFirst = YEAR_FIRST.exec(text);
+  const monthFirst = MONTH_FIRST.exec(text);
+  if (yearFirst) {
+    fields = yearFirst.slice(1, 7).map(v => Number(v ?? 0));
+  } else if (monthFirst) {
+    const [, month, day, year, hour, minute, second, meridiem] = monthFirst;
+    let h = Number(hour);
+    if (meridiem) {
+      if (h < 1 || h > 12) return null;
+      h = (h % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+    }
+    fields = [Number(year), Number(month), Number(day), h, Number(minute), Number(second ?? 0)];
+  } else {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = fields;
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day
+    || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  return fromWallClock(fields, timeZone);
+}
+
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  const aEnd = a.endTime?.getTime() ?? Infinity;
+  const bEnd = b.endTime?.getTime() ?? Infinity;
+  return a.startTime.getTime() < bEnd && b.startTime.getTime() < aEnd;
+}
+
+function findColumn(header: string[], name: 'start' | 'end'): number {
+  // "Start Time", "start_time", "startTime" and "Started" all match
+  return header.findIndex(h => h.toLowerCase().replace(/[^a-z]/g, '').startsWith(name));
+}
+
+// Turns CSV text into import rows. The header must have a start and an end column (e.g.
+// "Start Time" / "End Time", as written by the export); other columns are ignored. Rows get the
+// same time checks as manually added runs, and are checked against each other, against
+// `existing` and against the live run that started at `liveRunStart` for overlaps.
+export function buildImportRows(
+  csv: string,
+  timeZone: string,
+  existing: TimeRange[],
+  liveRunStart: Date | null = null
+): ImportRow[] {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) throw new Error('CSV is empty');
+
+  const startIndex = findColumn(header, 'start');
+  const endIndex = findColumn(header, 'end');
+  if (startIndex === -1 || endIndex === -1) {
+    throw new Error('CSV header must include start and end time columns');
+  }
+
+  const accepted: TimeRange[] = [];
+
+  return records.map((record, i): ImportRow => {
+    const line = i + 2;
+    const invalid = (message: string): ImportRow => ({
+      line, startTime: null, endTime: null, durationHours: null, status: 'invalid', message,
+    });
+
+    const startTime = parseDateTime(record[startIndex] ?? '', timeZone);
+    if (!startTime) return invalid(`Unrecognized start time "${record[startIndex] ?? ''}"`);
+    const endTime = parseDateTime(record[endIndex] ?? '', timeZone);
+    if (!endTime) return invalid(`Unrecognized end time "${record[endIndex] ?? ''}"`);
+    if (endTime <= startTime) return invalid('End time must be after start time');
+
+    const durationHours = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60);
+    const range = { startTime, endTime };
+
+    const issues = checkLogTimes(range);
+    if (issues.length > 0) return invalid(issues.map(issue => issue.message).join('; '));
+
+    // Checked first so a row over the live run says so, whether or not the run has an open log
+    if (liveRunStart && rangesOverlap(range, { startTime: liveRunStart, endTime: null })) {
+      return { line, startTime, endTime, durationHours, status: 'overlap', message: 'Overlaps the run in progress' };
+    }
+    if (existing.some(e => rangesOverlap(range, e))) {
+      return { line, startTime, endTime, durationHours, status: 'overlap', message: 'Overlaps an existing run' };
+    }
+    if (accepted.some(a => rangesOverlap(range, a))) {
+      return { line, startTime, endTime, durationHours, status: 'overlap', message: 'Overlaps an earlier row in this file' };
+    }
+
+    accepted.push(range);
+    return { line, startTime, endTime, durationHours, status: 'ok', message: null };
+  });
+}
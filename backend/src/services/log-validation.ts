@@ -0,0 +1,86 @@
+// Sanity and overlap checks for manually created or edited usage logs. Overlapping runs,
+// runs in the future and runs alongside the live run would all be counted in totalHours.
+
+import { rangesOverlap, type TimeRange } from './log-import.js';
+
+// Long outages can keep a generator going for days; anything past two weeks is a typo
+export const MAX_LOG_DURATION_HOURS = 24 * 14;
+
+// Allows for a browser or phone clock running slightly ahead of the server
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface ExistingLog extends TimeRange {
+  id: number;
+}
+
+export interface LogValidationIssue {
+  code: 'future' | 'too_long' | 'overlap' | 'live_run';
+  path: ['startTime' | 'endTime'];
+  message: string;
+  conflictingLog?: { id: number | null; startTime: Date; endTime: Date | null };
+}
+
+export function checkLogTimes(range: TimeRange, now: Date = new Date()): LogValidationIssue[] {
+  const issues: LogValidationIssue[] = [];
+  const latest = now.getTime() + FUTURE_TOLERANCE_MS;
+
+  if (range.startTime.getTime() > latest) {
+    issues.push({ code: 'future', path: ['startTime'], message: 'Start time is in the future' });
+  }
+  if (range.endTime && range.endTime.getTime() > latest) {
+    issues.push({ code: 'future', path: ['endTime'], message: 'End time is in the future' });
+  }
+  if (range.endTime) {
+    const hours = (range.endTime.getTime() - range.startTime.getTime()) / (1000 * 60 * 60);
+    if (hours > MAX_LOG_DURATION_HOURS) {
+      issues.push({
+        code: 'too_long',
+        path: ['endTime'],
+        message: `Runs longer than ${MAX_LOG_DURATION_HOURS} hours are not accepted`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Reports each of `others` that `range` overlaps, plus the live run that started at
+// `liveRunStart` (null when the generator is stopped or the log being edited is the live run).
+// The live run normally has an open log among `others`; generators started before open logs
+// existed may not, so it is checked on its own as well.
+export function findOverlaps(
+  range: TimeRange,
+  others: ExistingLog[],
+  liveRunStart: Date | null
+): LogValidationIssue[] {
+  const issues: LogValidationIssue[] = [];
+  const pathFor = (other: TimeRange): ['startTime' | 'endTime'] =>
+    [range.startTime >= other.startTime ? 'startTime' : 'endTime'];
+  const isLiveRun = (other: TimeRange) =>
+    liveRunStart !== null && other.endTime === null && other.startTime.getTime() === liveRunStart.getTime();
+
+  for (const other of others) {
+    if (!rangesOverlap(range, other)) continue;
+    const live = isLiveRun(other);
+    issues.push({
+      code: live ? 'live_run' : 'overlap',
+      path: pathFor(other),
+      message: live ? 'Overlaps the run in progress' : 'Overlaps another run',
+      conflictingLog: { id: other.id, startTime: other.startTime, endTime: other.endTime },
+    });
+  }
+
+  if (liveRunStart && !others.some(isLiveRun)) {
+    const live = { startTime: liveRunStart, endTime: null };
+    if (rangesOverlap(range, live)) {
+      issues.push({
+        code: 'live_run',
+        path: pathFor(live),
+        message: 'Overlaps the run in progress',
+        conflictingLog: { id: null, ...live },
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,124 @@
+import { and, desc, eq, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+
+export const MAINTENANCE_TASK_KINDS = [
+  'oil_change',
+  'air_filter',
+  'spark_plug',
+  'fuel_stabilizer',
+  'valve_clearance',
+  'custom',
+] as const;
+
+export type MaintenanceTaskKind = typeof MAINTENANCE_TASK_KINDS[number];
+
+type Generator = typeof schema.generators.$inferSelect;
+type MaintenanceTask = typeof schema.maintenanceTasks.$inferSelect;
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>['transaction']>[0]>[0];
+
+// Returns the generator's oil change task, creating it from the generator's oil change
+// columns if it does not exist yet.
+export async function ensureOilChangeTask(
+  db: ReturnType<typeof getDb> | Transaction,
+  generator: Generator
+): Promise<MaintenanceTask> {
+  const [existing] = await db
+    .select()
+    .from(schema.maintenanceTasks)
+    .where(and(
+      eq(schema.maintenanceTasks.generatorId, generator.id),
+      eq(schema.maintenanceTasks.kind, 'oil_change')
+    ))
+    .limit(1);
+  if (existing) return existing;
+
+  await db
+    .insert(schema.maintenanceTasks)
+    .values({
+      generatorId: generator.id,
+      kind: 'oil_change',
+      name: 'Oil Change',
+      intervalHours: generator.oilChangeHours,
+      intervalMonths: generator.oilChangeMonths,
+      lastCompletedAt: generator.lastOilChangeDate,
+      lastCompletedHours: generator.lastOilChangeHours,
+    })
+    .onConflictDoNothing();
+
+  // Re-read so a concurrent insert that won the unique index is returned instead
+  const [task] = await db
+    .select()
+    .from(schema.maintenanceTasks)
+    .where(and(
+      eq(schema.maintenanceTasks.generatorId, generator.id),
+      eq(schema.maintenanceTasks.kind, 'oil_change')
+    ))
+    .limit(1);
+  return task;
+}
+
+// Recomputes the task's last completion from its history. For the oil change task the
+// result is mirrored onto the generator's last_oil_change_* columns.
+export async function syncTaskCompletionFields(
+  db: ReturnType<typeof getDb>,
+  task: MaintenanceTask
+): Promise<void> {
+  const [latest] = await db
+    .select()
+    .from(schema.maintenanceTaskCompletions)
+    .where(and(
+      eq(schema.maintenanceTaskCompletions.taskId, task.id),
+      isNull(schema.maintenanceTaskCompletions.deletedAt)
+    ))
+    .orderBy(desc(schema.maintenanceTaskCompletions.performedAt))
+    .limit(1);
+
+  const now = new Date();
+  const lastCompletedAt = latest?.performedAt ?? null;
+  const lastCompletedHours = latest?.hoursAtCompletion ?? null;
+
+  await db
+    .update(schema.maintenanceTasks)
+    .set({ lastCompletedAt, lastCompletedHours, updatedAt: now })
+    .where(eq(schema.maintenanceTasks.id, task.id));
+
+  if (task.kind === 'oil_change') {
+    await db
+      .update(schema.generators)
+      .set({ lastOilChangeDate: lastCompletedAt, lastOilChangeHours: lastCompletedHours, updatedAt: now })
+      .where(eq(schema.generators.id, task.generatorId));
+  }
+}
+
+// Moves the hours recorded at every completion of the generator's tasks by `delta`. Used when
+// the generator's initial hours change, which moves totalHours by the same amount, so hours
+// since each service stay the same instead of going negative or jumping.
+export async function shiftCompletionHours(
+  db: ReturnType<typeof getDb> | Transaction,
+  generatorId: number,
+  delta: number
+): Promise<void> {
+  const taskIds = db
+    .select({ id: schema.maintenanceTasks.id })
+    .from(schema.maintenanceTasks)
+    .where(eq(schema.maintenanceTasks.generatorId, generatorId));
+
+  await db
+    .update(schema.maintenanceTaskCompletions)
+    .set({ hoursAtCompletion: sql`${schema.maintenanceTaskCompletions.hoursAtCompletion} + ${delta}` })
+    .where(inArray(schema.maintenanceTaskCompletions.taskId, taskIds));
+
+  await db
+    .update(schema.maintenanceTasks)
+    .set({ lastCompletedHours: sql`${schema.maintenanceTasks.lastCompletedHours} + ${delta}` })
+    .where(and(
+      eq(schema.maintenanceTasks.generatorId, generatorId),
+      isNotNull(schema.maintenanceTasks.lastCompletedHours)
+    ));
+
+  // Only a recorded oil change has hours to move; the column is 0 when there was none
+  await db
+    .update(schema.generators)
+    .set({ lastOilChangeHours: sql`${schema.generators.lastOilChangeHours} + ${delta}` })
+    .where(and(eq(schema.generators.id, generatorId), isNotNull(schema.generators.lastOilChangeDate)));
+}
@@ -1,23 +1,23 @@
-export function calculateHoursSinceOilChange(
+// Service done before the generator was added isn't known, so hours are never counted from
+// below its initialHours; a generator added with 300 h is not treated as 300 h overdue.
+export function calculateHoursSinceCompletion(
   totalHours: number,
-  lastOilChangeHours: number | null | undefined
+  lastCompletedHours: number | null | undefined,
+  initialHours = 0
 ): number {
-  if (lastOilChangeHours === null || lastOilChangeHours === undefined) {
-    return totalHours;
-  }
-  return totalHours - lastOilChangeHours;
+  return totalHours - Math.max(lastCompletedHours ?? 0, initialHours);
 }
 
-// When lastOilChangeDate is null, falls back to installedAt as the reference date.
-// If both are null, returns 999 to signal "never changed, unknown install date".
-export function calculateMonthsSinceOilChange(
-  lastOilChangeDate: Date | null,
+// When lastCompletedAt is null, falls back to installedAt as the reference date.
+// If both are null, returns 999 to signal "never done, unknown install date".
+export function calculateMonthsSinceCompletion(
+  lastCompletedAt: Date | null,
   now: Date = new Date(),
   installedAt: Date | null = null
 ): number {
-  const referenceDate = lastOilChangeDate ?? installedAt;
+  const referenceDate = lastCompletedAt ?? installedAt;
   if (!referenceDate) {
-    // Return a very large number to indicate never changed
+    // Return a very large number to indicate never done
     return 999;
   }
 
@@ -27,6 +27,22 @@ export function calculateMonthsSinceOilChange(
   return yearDiff * 12 + monthDiff;
 }
 
+export function calculateHoursSinceOilChange(
+  totalHours: number,
+  lastOilChangeHours: number | null | undefined,
+  initialHours = 0
+): number {
+  return calculateHoursSinceCompletion(totalHours, lastOilChangeHours, initialHours);
+}
+
+export function calculateMonthsSinceOilChange(
+  lastOilChangeDate: Date | null,
+  now: Date = new Date(),
+  installedAt: Date | null = null
+): number {
+  return calculateMonthsSinceCompletion(lastOilChangeDate, now, installedAt);
+}
+
 export function shouldSendMaintenanceReminder(
   totalHours: number,
   lastOilChangeHours: number | null | undefined,
@@ -34,10 +50,49 @@ export function shouldSendMaintenanceReminder(
   lastOilChangeDate: Date | null,
   monthsThreshold: number,
   now: Date = new Date(),
-  installedAt: Date | null = null
+  installedAt: Date | null = null,
+  initialHours = 0
 ): boolean {
-  const hoursSinceChange = calculateHoursSinceOilChange(totalHours, lastOilChangeHours);
+  const hoursSinceChange = calculateHoursSinceOilChange(totalHours, lastOilChangeHours, initialHours);
   const monthsSinceChange = calculateMonthsSinceOilChange(lastOilChangeDate, now, installedAt);
 
   return hoursSinceChange >= hoursThreshold || monthsSinceChange >= monthsThreshold;
 }
+
+export interface MaintenanceInterval {
+  intervalHours: number | null;
+  intervalMonths: number | null;
+  lastCompletedAt: Date | null;
+  lastCompletedHours: number | null;
+}
+
+export interface MaintenanceStatus {
+  hoursSinceCompletion: number;
+  monthsSinceCompletion: number;
+  hoursDue: boolean;
+  monthsDue: boolean;
+  isDue: boolean;
+}
+
+// Generalization of shouldSendMaintenanceReminder for tasks that may only have an hour
+// interval (e.g. valve clearance) or only a month interval (e.g. fuel stabilizer).
+export function getMaintenanceStatus(
+  task: MaintenanceInterval,
+  totalHours: number,
+  now: Date = new Date(),
+  installedAt: Date | null = null,
+  initialHours = 0
+): MaintenanceStatus {
+  const hoursSinceCompletion = calculateHoursSinceCompletion(totalHours, task.lastCompletedHours, initialHours);
+  const monthsSinceCompletion = calculateMonthsSinceCompletion(task.lastCompletedAt, now, installedAt);
+  const hoursDue = task.intervalHours !== null && hoursSinceCompletion >= task.intervalHours;
+  const monthsDue = task.intervalMonths !== null && monthsSinceCompletion >= task.intervalMonths;
+
+  return {
+    hoursSinceCompletion,
+    monthsSinceCompletion,
+    hoursDue,
+    monthsDue,
+    isDue: hoursDue || monthsDue,
+  };
+}
@@ -0,0 +1,300 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+import { generateInviteToken, hashInviteToken } from '../utils/auth.js';
+import { recordAuditEvent, type AuditActor } from './audit.js';
+import { lockGenerator } from './generator.js';
+import type { MailMessage } from './email.js';
+
+type Db = ReturnType<typeof getDb>;
+type Transaction = Parameters<Parameters<Db['transaction']>[0]>[0];
+type Generator = typeof schema.generators.$inferSelect;
+type GeneratorInvite = typeof schema.generatorInvites.$inferSelect;
+
+// Viewers can see a generator, operators can also start/stop it and log runs and maintenance,
+// owners can also change its settings, archive or delete it and manage who has access.
+export const GENERATOR_ROLES = ['owner', 'operator', 'viewer'] as const;
+
+export type GeneratorRole = typeof GENERATOR_ROLES[number];
+
+const ROLE_RANK: Record<GeneratorRole, number> = { viewer: 0, operator: 1, owner: 2 };
+
+export interface GeneratorAccess {
+  generator: Generator;
+  role: GeneratorRole;
+}
+
+export function hasRole(role: GeneratorRole, required: GeneratorRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// Roles that satisfy `required`, for filtering membership queries
+export function rolesAtLeast(required: GeneratorRole): GeneratorRole[] {
+  return GENERATOR_ROLES.filter(role => hasRole(role, required));
+}
+
+// Error body for a member whose role is too low for the request
+export function forbiddenMessage(required: GeneratorRole): string {
+  return required === 'owner'
+    ? 'Only an owner of this generator can do this'
+    : 'Viewers can only look at this generator';
+}
+
+// The generator and the user's role on it, or null when the user has no access to it
+export async function resolveGeneratorAccess(
+  db: Db,
+  generatorId: number,
+  userId: number
+): Promise<GeneratorAccess | null> {
+  const [row] = await db
+    .select({ generator: schema.generators, role: schema.generatorMembers.role })
+    .from(schema.generatorMembers)
+    .innerJoin(schema.generators, eq(schema.generators.id, schema.generatorMembers.generatorId))
+    .where(and(
+      eq(schema.generatorMembers.generatorId, generatorId),
+      eq(schema.generatorMembers.userId, userId)
+    ))
+    .limit(1);
+  return row ? { generator: row.generator, role: row.role as GeneratorRole } : null;
+}
+
+// Ids of the generators the user can act on with at least the given role
+export function memberGeneratorIds(db: Db | Transaction, userId: number, required: GeneratorRole = 'viewer') {
+  return db
+    .select({ id: schema.generatorMembers.generatorId })
+    .from(schema.generatorMembers)
+    .where(and(
+      eq(schema.generatorMembers.userId, userId),
+      inArray(schema.generatorMembers.role, rolesAtLeast(required))
+    ));
+}
+
+export async function addOwnerMembership(db: Db | Transaction, generatorId: number, userId: number): Promise<void> {
+  await db
+    .insert(schema.generatorMembers)
+    .values({ generatorId, userId, role: 'owner' })
+    .onConflictDoNothing();
+}
+
+async function countOwners(db: Db | Transaction, generatorId: number): Promise<number> {
+  const owners = await db
+    .select({ id: schema.generatorMembers.id })
+    .from(schema.generatorMembers)
+    .where(and(eq(schema.generatorMembers.generatorId, generatorId), eq(schema.generatorMembers.role, 'owner')));
+  return owners.length;
+}
+
+export async function updateMemberRole(
+  generator: Generator,
+  memberUserId: number,
+  role: GeneratorRole,
+  actor: AuditActor
+) {
+  const db = getDb();
+  const generatorId = generator.id;
+  return db.transaction(async (tx) => {
+    // Serializes role changes on the generator, so two owners demoting each other can't both
+    // see the other one as the remaining owner
+    await lockGenerator(tx, generatorId);
+
+    const [member] = await tx
+      .select()
+      .from(schema.generatorMembers)
+      .where(and(
+        eq(schema.generatorMembers.generatorId, generatorId),
+        eq(schema.generatorMembers.userId, memberUserId)
+      ))
+      .for('update');
+
+    if (!member) throw new Error('Member not found');
+    if (member.role === 'owner' && role !== 'owner' && await countOwners(tx, generatorId) <= 1) {
+      throw new Error('Generator needs an owner');
+    }
+
+    const [updated] = await tx
+      .update(schema.generatorMembers)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(schema.generatorMembers.id, member.id))
+      .returning();
+
+    await recordAuditEvent(tx, actor, {
+      userId: actor.userId ?? generator.userId,
+      generatorId,
+      action: 'generator_member.update',
+      targetType: 'user',
+      targetId: memberUserId,
+      before: { role: member.role },
+      after: { role: updated.role },
+    });
+
+    return updated;
+  });
+}
+
+// Removes a user's access. Their API keys bound to the generator are revoked so they stop
+// toggling it; the last owner can't be removed.
+export async function removeMember(
+  generator: Generator,
+  memberUserId: number,
+  actor: AuditActor
+): Promise<void> {
+  const db = getDb();
+  const generatorId = generator.id;
+  await db.transaction(async (tx) => {
+    // Same lock as role changes, for the last-owner check
+    await lockGenerator(tx, generatorId);
+
+    const [member] = await tx
+      .select()
+      .from(schema.generatorMembers)
+      .where(and(
+        eq(schema.generatorMembers.generatorId, generatorId),
+        eq(schema.generatorMembers.userId, memberUserId)
+      ))
+      .for('update');
+
+    if (!member) throw new Error('Member not found');
+    if (member.role === 'owner' && await countOwners(tx, generatorId) <= 1) {
+      throw new Error('Generator needs an owner');
+    }
+
+    await tx.delete(schema.generatorMembers).where(eq(schema.generatorMembers.id, member.id));
+    await tx
+      .delete(schema.apiKeys)
+      .where(and(eq(schema.apiKeys.userId, memberUserId), eq(schema.apiKeys.generatorId, generatorId)));
+
+    await recordAuditEvent(tx, actor, {
+      userId: actor.userId ?? generator.userId,
+      generatorId,
+      action: 'generator_member.remove',
+      targetType: 'user',
+      targetId: memberUserId,
+      before: { role: member.role },
+    });
+  });
+}
+
+export function inviteUrl(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/invites/${token}`;
+}
+
+export function buildInviteEmail(
+  invite: GeneratorInvite,
+  generator: Generator,
+  inviterName: string,
+  url: string
+): MailMessage {
+  const lines = [
+    `${inviterName} has invited you to the generator "${generator.name}" on GeneratorLog as ${invite.role === 'operator' ? 'an' : 'a'} ${invite.role}.`,
+    '',
+    `Accept the invitation here: ${url}`,
+    '',
+    `The link expires on ${invite.expiresAt.toUTCString()}. Sign in or create an account with ${invite.email} to accept it.`,
+  ];
+
+  return {
+    to: invite.email,
+    subject: `Invitation to ${generator.name} on GeneratorLog`,
+    text: lines.join('\n'),
+  };
+}
+
+// A new invite and its raw token, which is only available here
+export async function createInvite(
+  generator: Generator,
+  email: string,
+  role: GeneratorRole,
+  ttlMs: number,
+  actor: AuditActor
+): Promise<{ invite: GeneratorInvite; token: string }> {
+  const db = getDb();
+  const generatorId = generator.id;
+  const { raw, hash } = generateInviteToken();
+
+  return db.transaction(async (tx) => {
+    const [invite] = await tx
+      .insert(schema.generatorInvites)
+      .values({
+        generatorId,
+        email: email.toLowerCase(),
+        role,
+        tokenHash: hash,
+        invitedByUserId: actor.userId,
+        expiresAt: new Date(Date.now() + ttlMs),
+      })
+      .returning();
+
+    await recordAuditEvent(tx, actor, {
+      userId: actor.userId ?? generator.userId,
+      generatorId,
+      action: 'generator_invite.create',
+      targetType: 'generator_invite',
+      targetId: invite.id,
+      after: { email: invite.email, role: invite.role },
+    });
+
+    return { invite, token: raw };
+  });
+}
+
+export async function findInviteByToken(token: string) {
+  const db = getDb();
+  const [row] = await db
+    .select({ invite: schema.generatorInvites, generator: schema.generators, inviterName: schema.users.name })
+    .from(schema.generatorInvites)
+    .innerJoin(schema.generators, eq(schema.generators.id, schema.generatorInvites.generatorId))
+    .leftJoin(schema.users, eq(schema.users.id, schema.generatorInvites.invitedByUserId))
+    .where(eq(schema.generatorInvites.tokenHash, hashInviteToken(token)))
+    .limit(1);
+  return row ?? null;
+}
+
+// Joins the user to the invite's generator. Invites are single use, expire, and can only be
+// accepted by an account with the email address they were sent to.
+export async function acceptInvite(
+  token: string,
+  user: { id: number; email: string },
+  actor: AuditActor,
+  now: Date = new Date()
+) {
+  const db = getDb();
+  return db.transaction(async (tx) => {
+    const [invite] = await tx
+      .select()
+      .from(schema.generatorInvites)
+      .where(eq(schema.generatorInvites.tokenHash, hashInviteToken(token)))
+      .for('update');
+
+    if (!invite) throw new Error('Invite not found');
+    if (invite.acceptedAt) throw new Error('Invite already used');
+    if (invite.expiresAt <= now) throw new Error('Invite expired');
+    if (invite.email !== user.email.toLowerCase()) throw new Error('Invite is for another email');
+
+    const [member] = await tx
+      .insert(schema.generatorMembers)
+      .values({ generatorId: invite.generatorId, userId: user.id, role: invite.role })
+      .onConflictDoNothing()
+      .returning();
+    if (!member) throw new Error('Already a member');
+
+    await tx
+      .update(schema.generatorInvites)
+      .set({ acceptedAt: now, acceptedByUserId: user.id })
+      .where(eq(schema.generatorInvites.id, invite.id));
+
+    const [generator] = await tx
+      .select()
+      .from(schema.generators)
+      .where(eq(schema.generators.id, invite.generatorId));
+
+    await recordAuditEvent(tx, actor, {
+      userId: actor.userId ?? generator.userId,
+      generatorId: generator.id,
+      action: 'generator_member.add',
+      targetType: 'user',
+      targetId: user.id,
+      after: { role: member.role, inviteId: invite.id },
+    });
+
+    return { generator, role: member.role as GeneratorRole };
+  });
+}
@@ -0,0 +1,164 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { and, asc, desc, eq, isNull } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+import type { MailMessage, MailTransport } from './email.js';
+import { getMaintenanceStatus, type MaintenanceStatus } from './maintenance.js';
+
+export type ReminderReason = 'hours' | 'months' | 'hours_and_months';
+
+export interface DispatchResult {
+  sent: number;
+  failed: number;
+}
+
+type Generator = typeof schema.generators.$inferSelect;
+type MaintenanceTask = typeof schema.maintenanceTasks.$inferSelect;
+type MaintenanceNotification = typeof schema.maintenanceNotifications.$inferSelect;
+
+// An alert stays quiet while it is open or acknowledged; a snoozed alert fires again once
+// its snooze runs out.
+function isSnoozeExpired(notification: MaintenanceNotification, now: Date): boolean {
+  if (notification.acknowledgedAt) return false;
+  return notification.snoozedUntil !== null && notification.snoozedUntil <= now;
+}
+
+export function getReminderReason(status: MaintenanceStatus): ReminderReason {
+  if (status.hoursDue && status.monthsDue) return 'hours_and_months';
+  return status.hoursDue ? 'hours' : 'months';
+}
+
+export function buildMaintenanceReminder(
+  to: string,
+  generator: Generator,
+  task: MaintenanceTask,
+  status: MaintenanceStatus
+): MailMessage {
+  const label = task.name.toLowerCase();
+  const lines = [`Your generator "${generator.name}" is due for: ${task.name}.`, ''];
+
+  if (task.intervalHours !== null) {
+    lines.push(`Hours since last ${label}: ${status.hoursSinceCompletion.toFixed(1)} (interval: ${task.intervalHours})`);
+  }
+  if (task.intervalMonths !== null) {
+    // 999 is the "never done, unknown install date" sentinel from calculateMonthsSinceCompletion
+    lines.push(status.monthsSinceCompletion === 999
+      ? `No ${label} or installation date has been recorded.`
+      : `Months since last ${label}: ${status.monthsSinceCompletion} (interval: ${task.intervalMonths})`);
+  }
+
+  lines.push('', `Log the ${label} in GeneratorLog once it is done to reset this reminder.`);
+
+  return {
+    to,
+    subject: `${task.name} due: ${generator.name}`,
+    text: lines.join('\n'),
+  };
+}
+
+// Emails the current owners of every generator with a maintenance task that is due. Each
+// reminder is recorded in maintenance_notifications together with its recipient and the
+// completion it was computed from, so a task is emailed to each owner once per service cycle
+// (plus once per expired snooze) rather than on every run.
+export async function dispatchMaintenanceReminders(
+  transport: MailTransport,
+  now: Date = new Date(),
+  onError?: (error: unknown, generatorId: number) => void
+): Promise<DispatchResult> {
+  const db = getDb();
+  const result: DispatchResult = { sent: 0, failed: 0 };
+
+  const rows = await db
+    .select({ task: schema.maintenanceTasks, generator: schema.generators, user: schema.users })
+    .from(schema.maintenanceTasks)
+    .innerJoin(schema.generators, eq(schema.maintenanceTasks.generatorId, schema.generators.id))
+    .innerJoin(schema.generatorMembers, and(
+      eq(schema.generatorMembers.generatorId, schema.generators.id),
+      eq(schema.generatorMembers.role, 'owner')
+    ))
+    .innerJoin(schema.users, eq(schema.generatorMembers.userId, schema.users.id))
+    // Archived generators are retired; don't remind anyone to service them
+    .where(isNull(schema.generators.archivedAt))
+    .orderBy(asc(schema.maintenanceTasks.id), asc(schema.users.id));
+
+  for (const { task, generator, user } of rows) {
+    const status = getMaintenanceStatus(task, generator.totalHours, now, generator.installedAt, generator.initialHours);
+    if (!status.isDue) continue;
+
+    const [latest] = await db
+      .select()
+      .from(schema.maintenanceNotifications)
+      .where(and(
+        eq(schema.maintenanceNotifications.taskId, task.id),
+        eq(schema.maintenanceNotifications.recipient, user.email),
+        task.lastCompletedAt
+          ? eq(schema.maintenanceNotifications.lastCompletedAt, task.lastCompletedAt)
+          : isNull(schema.maintenanceNotifications.lastCompletedAt)
+      ))
+      .orderBy(desc(schema.maintenanceNotifications.sentAt))
+      .limit(1);
+    if (latest && !isSnoozeExpired(latest, now)) continue;
+
+    try {
+      await transport.send(buildMaintenanceReminder(user.email, generator, task, status));
+    } catch (error) {
+      // Not recorded, so the next run retries this task
+      result.failed++;
+      onError?.(error, generator.id);
+      continue;
+    }
+
+    await db.insert(schema.maintenanceNotifications).values({
+      generatorId: generator.id,
+      taskId: task.id,
+      reason: getReminderReason(status),
+      hoursSinceChange: status.hoursSinceCompletion,
+      monthsSinceChange: status.monthsSinceCompletion,
+      lastCompletedAt: task.lastCompletedAt,
+      recipient: user.email,
+      sentAt: now,
+    });
+    result.sent++;
+  }
+
+  return result;
+}
+
+export class MaintenanceReminderScheduler {
+  private transport: MailTransport;
+  private log: FastifyBaseLogger;
+  private timer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(transport: MailTransport, intervalMs: number, log: FastifyBaseLogger) {
+    this.transport = transport;
+    this.log = log;
+    this.timer = setInterval(() => {
+      void this.run();
+    }, intervalMs);
+  }
+
+  async run(): Promise<DispatchResult | null> {
+    // Skip if the previous run is still waiting on a slow SMTP server
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const result = await dispatchMaintenanceReminders(this.transport, new Date(), (error, generatorId) => {
+        this.log.error({ err: error, generatorId }, 'Failed to send maintenance reminder');
+      });
+      if (result.sent > 0) {
+        this.log.info(`Sent ${result.sent} maintenance reminder(s)`);
+      }
+      return result;
+    } catch (error) {
+      this.log.error(error);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  destroy() {
+    clearInterval(this.timer);
+  }
+}
@@ -0,0 +1,127 @@
+import { and, asc, eq, inArray, isNull, or } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+import { getMaintenanceStatus } from './maintenance.js';
+import { memberGeneratorIds, type GeneratorRole } from './membership.js';
+
+type Db = ReturnType<typeof getDb>;
+type Site = typeof schema.sites.$inferSelect;
+type Generator = typeof schema.generators.$inferSelect;
+
+export interface SiteAccess {
+  site: Site;
+  // Only the user who created a site can rename or delete it and assign generators to it
+  isOwner: boolean;
+}
+
+export interface SiteGenerator {
+  generator: Generator;
+  role: GeneratorRole;
+}
+
+export interface OverdueTask {
+  taskId: number;
+  generatorId: number;
+  generatorName: string;
+  kind: string;
+  name: string;
+  intervalHours: number | null;
+  intervalMonths: number | null;
+  lastCompletedAt: Date | null;
+  hoursSinceCompletion: number;
+  monthsSinceCompletion: number;
+  hoursDue: boolean;
+  monthsDue: boolean;
+}
+
+// Sites the user created, and sites holding generators shared with them
+function visibleSites(db: Db, userId: number) {
+  return or(
+    eq(schema.sites.userId, userId),
+    inArray(
+      schema.sites.id,
+      db
+        .select({ id: schema.generators.siteId })
+        .from(schema.generators)
+        .where(inArray(schema.generators.id, memberGeneratorIds(db, userId)))
+    )
+  );
+}
+
+export async function listSites(db: Db, userId: number): Promise<SiteAccess[]> {
+  const sites = await db
+    .select()
+    .from(schema.sites)
+    .where(visibleSites(db, userId))
+    .orderBy(asc(schema.sites.name), asc(schema.sites.id));
+  return sites.map(site => ({ site, isOwner: site.userId === userId }));
+}
+
+// The site if the user can see it, or null
+export async function resolveSiteAccess(db: Db, siteId: number, userId: number): Promise<SiteAccess | null> {
+  const [site] = await db
+    .select()
+    .from(schema.sites)
+    .where(and(eq(schema.sites.id, siteId), visibleSites(db, userId)))
+    .limit(1);
+  return site ? { site, isOwner: site.userId === userId } : null;
+}
+
+// Generators can only be put in sites their owner created
+export async function canAssignSite(db: Db, siteId: number, userId: number): Promise<boolean> {
+  const [site] = await db
+    .select({ id: schema.sites.id })
+    .from(schema.sites)
+    .where(and(eq(schema.sites.id, siteId), eq(schema.sites.userId, userId)))
+    .limit(1);
+  return site !== undefined;
+}
+
+// Active generators in the given sites that the user is a member of, with their role
+export async function siteGenerators(db: Db, siteIds: number[], userId: number): Promise<SiteGenerator[]> {
+  if (siteIds.length === 0) return [];
+  const rows = await db
+    .select({ generator: schema.generators, role: schema.generatorMembers.role })
+    .from(schema.generatorMembers)
+    .innerJoin(schema.generators, eq(schema.generators.id, schema.generatorMembers.generatorId))
+    .where(and(
+      eq(schema.generatorMembers.userId, userId),
+      inArray(schema.generators.siteId, siteIds),
+      isNull(schema.generators.archivedAt)
+    ))
+    .orderBy(asc(schema.generators.name), asc(schema.generators.id));
+  return rows.map(row => ({ generator: row.generator, role: row.role as GeneratorRole }));
+}
+
+// Maintenance tasks that are due on any of the generators, grouped by generator name
+export async function overdueTasks(db: Db, generators: Generator[], now: Date = new Date()): Promise<OverdueTask[]> {
+  if (generators.length === 0) return [];
+  const byId = new Map(generators.map(g => [g.id, g]));
+  const tasks = await db
+    .select()
+    .from(schema.maintenanceTasks)
+    .where(inArray(schema.maintenanceTasks.generatorId, [...byId.keys()]))
+    .orderBy(asc(schema.maintenanceTasks.generatorId), asc(schema.maintenanceTasks.id));
+
+  const overdue: OverdueTask[] = [];
+  for (const task of tasks) {
+    const generator = byId.get(task.generatorId)!;
+    const status = getMaintenanceStatus(task, generator.totalHours, now, generator.installedAt, generator.initialHours);
+    if (!status.isDue) continue;
+    overdue.push({
+      taskId: task.id,
+      generatorId: generator.id,
+      generatorName: generator.name,
+      kind: task.kind,
+      name: task.name,
+      intervalHours: task.intervalHours,
+      intervalMonths: task.intervalMonths,
+      lastCompletedAt: task.lastCompletedAt,
+      hoursSinceCompletion: status.hoursSinceCompletion,
+      monthsSinceCompletion: status.monthsSinceCompletion,
+      hoursDue: status.hoursDue,
+      monthsDue: status.monthsDue,
+    });
+  }
+
+  return overdue.sort((a, b) => a.generatorName.localeCompare(b.generatorName) || a.generatorId - b.generatorId);
+}
@@ -0,0 +1,88 @@
+import { and, eq, gte, inArray, lt, isNotNull, isNull, sql } from 'drizzle-orm';
+import { getDb } from '../db/index.js';
+import * as schema from '../db/schema.js';
+
+export const STATS_BUCKETS = ['day', 'week', 'month'] as const;
+export type StatsBucket = typeof STATS_BUCKETS[number];
+
+export interface RunStats {
+  runs: number;
+  totalHours: number;
+  longestRunHours: number | null;
+  averageRunHours: number | null;
+}
+
+export interface BucketStats extends RunStats {
+  periodStart: Date;
+}
+
+const aggregates = {
+  runs: sql<number>`count(*)`.mapWith(Number),
+  totalHours: sql<number>`coalesce(sum(${schema.usageLogs.durationHours}), 0)`.mapWith(Number),
+  longestRunHours: sql<number | null>`max(${schema.usageLogs.durationHours})`,
+  averageRunHours: sql<number | null>`avg(${schema.usageLogs.durationHours})`,
+};
+
+export interface GeneratorRunStats extends RunStats {
+  generatorId: number;
+}
+
+// Completed, not deleted runs of one or several generators that started within [from, to)
+function completedRuns(generatorIds: number | number[], from?: Date, to?: Date) {
+  return and(
+    Array.isArray(generatorIds)
+      ? inArray(schema.usageLogs.generatorId, generatorIds)
+      : eq(schema.usageLogs.generatorId, generatorIds),
+    isNotNull(schema.usageLogs.durationHours),
+    isNull(schema.usageLogs.deletedAt),
+    from ? gte(schema.usageLogs.startTime, from) : undefined,
+    to ? lt(schema.usageLogs.startTime, to) : undefined
+  );
+}
+
+// Aggregates completed runs that started within [from, to), per UTC day, ISO week (starting
+// Monday) or month, plus totals over the whole range. Open runs are not counted. Given several
+// generators, their runs are aggregated together.
+export async function getRunStats(
+  generatorIds: number | number[],
+  bucket: StatsBucket,
+  from?: Date,
+  to?: Date
+): Promise<{ buckets: BucketStats[]; totals: RunStats }> {
+  const db = getDb();
+  const where = completedRuns(generatorIds, from, to);
+
+  // The unit is inlined rather than bound: Postgres only matches the grouped expression when the
+  // select and GROUP BY use the same literal. `bucket` is one of STATS_BUCKETS.
+  const periodStart = sql<Date>`date_trunc(${sql.raw(`'${bucket}'`)}, ${schema.usageLogs.startTime})`
+    .mapWith(schema.usageLogs.startTime);
+
+  const [buckets, [totals]] = await Promise.all([
+    db
+      .select({ periodStart, ...aggregates })
+      .from(schema.usageLogs)
+      .where(where)
+      .groupBy(periodStart)
+      .orderBy(periodStart),
+    db
+      .select(aggregates)
+      .from(schema.usageLogs)
+      .where(where),
+  ]);
+
+  return { buckets, totals };
+}
+
+// Totals over [from, to) for each of the given generators; generators without runs are left out
+export async function getRunStatsByGenerator(
+  generatorIds: number[],
+  from?: Date,
+  to?: Date
+): Promise<GeneratorRunStats[]> {
+  return getDb()
+    .select({ generatorId: schema.usageLogs.generatorId, ...aggregates })
+    .from(schema.usageLogs)
+    .where(completedRuns(generatorIds, from, to))
+    .groupBy(schema.usageLogs.generatorId)
+    .orderBy(schema.usageLogs.generatorId);
+}
@@ -0,0 +1,76 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { and, isNotNull, lt } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+
+export function purgeCutoff(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// When a trashed entry is removed for good
+export function purgeAt(deletedAt: Date, retentionDays: number): Date {
+  return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// Permanently removes usage logs and maintenance completions that have been in the trash for
+// longer than the retention period. Derived generator fields were already re-synced when the
+// entries were deleted, so nothing needs recalculating here.
+export async function purgeDeletedRecords(
+  retentionDays: number,
+  now: Date = new Date()
+): Promise<{ logs: number; maintenanceCompletions: number }> {
+  const db = getDb();
+  const cutoff = purgeCutoff(retentionDays, now);
+
+  const logs = await db
+    .delete(schema.usageLogs)
+    .where(and(isNotNull(schema.usageLogs.deletedAt), lt(schema.usageLogs.deletedAt, cutoff)))
+    .returning({ id: schema.usageLogs.id });
+
+  const completions = await db
+    .delete(schema.maintenanceTaskCompletions)
+    .where(and(
+      isNotNull(schema.maintenanceTaskCompletions.deletedAt),
+      lt(schema.maintenanceTaskCompletions.deletedAt, cutoff)
+    ))
+    .returning({ id: schema.maintenanceTaskCompletions.id });
+
+  return { logs: logs.length, maintenanceCompletions: completions.length };
+}
+
+export class TrashPurgeScheduler {
+  private retentionDays: number;
+  private log: FastifyBaseLogger;
+  private timer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(retentionDays: number, intervalMs: number, log: FastifyBaseLogger) {
+    this.retentionDays = retentionDays;
+    this.log = log;
+    this.timer = setInterval(() => {
+      void this.run();
+    }, intervalMs);
+  }
+
+  async run(): Promise<number | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const purged = await purgeDeletedRecords(this.retentionDays);
+      const total = purged.logs + purged.maintenanceCompletions;
+      if (total > 0) {
+        this.log.info(`Purged ${purged.logs} usage log(s) and ${purged.maintenanceCompletions} maintenance completion(s) from the trash`);
+      }
+      return total;
+    } catch (error) {
+      this.log.error(error);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  destroy() {
+    clearInterval(this.timer);
+  }
+}
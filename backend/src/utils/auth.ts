@@ -47,3 +47,13 @@ export function validateApiKey(provided: string, storedHash: string): boolean {
 export function generateSessionId(): string {
   return randomBytes(32).toString('hex');
 }
+
+// Generator invite tokens — emailed once and stored as SHA-256, like API keys
+export function generateInviteToken(): { raw: string; hash: string } {
+  const raw = randomBytes(32).toString('base64url');
+  return { raw, hash: hashInviteToken(raw) };
+}
+
+export function hashInviteToken(raw: string): string {
+  return createHash('sha256').update(raw).digest('hex');
+}
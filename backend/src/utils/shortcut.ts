@@ -1,9 +1,30 @@
 import { randomUUID } from 'crypto';
 
+// WFWorkflowIconStartColor values from the Shortcuts color palette
+const ICON_COLORS = {
+  toggle: 946986751, // dark blue
+  start: 4292093695, // green
+  stop: 4282601983, // red
+};
+
 // Generates an iOS .shortcut plist file (XML property list) for toggling the generator.
 // The shortcut uses a WFWorkflowImportQuestion to ask the user for their API key on import,
 // so the raw key never needs to be stored or transmitted by the server.
 export function generateToggleShortcut(toggleEndpoint: string, shortcutName: string): string {
+  return generateShortcut(toggleEndpoint, shortcutName, ICON_COLORS.toggle);
+}
+
+// Start-only and stop-only variants call the idempotent /start and /stop endpoints, so a
+// double-tapped shortcut cannot flip the generator back.
+export function generateStartShortcut(startEndpoint: string, shortcutName: string): string {
+  return generateShortcut(startEndpoint, shortcutName, ICON_COLORS.start);
+}
+
+export function generateStopShortcut(stopEndpoint: string, shortcutName: string): string {
+  return generateShortcut(stopEndpoint, shortcutName, ICON_COLORS.stop);
+}
+
+function generateShortcut(endpoint: string, shortcutName: string, iconColor: number): string {
   const textActionUUID = randomUUID().toUpperCase();
   const httpActionUUID = randomUUID().toUpperCase();
 
@@ -39,7 +60,7 @@ export function generateToggleShortcut(toggleEndpoint: string, shortcutName: str
 \t\t\t\t</dict>
 \t\t\t</dict>
 \t\t</dict>
-\t\t<!-- Action 1: POST request to toggle endpoint with x-api-key header -->
+\t\t<!-- Action 1: POST request to the generator endpoint with x-api-key header -->
 \t\t<dict>
 \t\t\t<key>WFWorkflowActionIdentifier</key>
 \t\t\t<string>is.workflow.actions.downloadurl</string>
@@ -50,7 +71,7 @@ export function generateToggleShortcut(toggleEndpoint: string, shortcutName: str
 \t\t\t\t<key>WFHTTPMethod</key>
 \t\t\t\t<string>POST</string>
 \t\t\t\t<key>WFURL</key>
-\t\t\t\t<string>${toggleEndpoint}</string>
+\t\t\t\t<string>${endpoint}</string>
 \t\t\t\t<key>WFHTTPHeaders</key>
 \t\t\t\t<dict>
 \t\t\t\t\t<key>Value</key>
@@ -140,7 +161,7 @@ export function generateToggleShortcut(toggleEndpoint: string, shortcutName: str
 \t<key>WFWorkflowIcon</key>
 \t<dict>
 \t\t<key>WFWorkflowIconStartColor</key>
-\t\t<integer>946986751</integer>
+\t\t<integer>${iconColor}</integer>
 \t\t<key>WFWorkflowIconGlyphNumber</key>
 \t\t<integer>59511</integer>
 \t</dict>
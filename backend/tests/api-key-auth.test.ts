@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { registerGeneratorRoutes } from '../src/routes/generator.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { maintenanceTaskRoutes } from '../src/routes/maintenance-tasks.js';
+import { memberRoutes } from '../src/routes/members.js';
+import { apiKeyRoutes } from '../src/routes/api-keys.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+describe('Scoped API keys', () => {
+  let app: FastifyInstance;
+  let cookie: string;
+  let generatorId: number;
+
+  async function enroll(email: string): Promise<string> {
+    const resp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email, name: 'Key User', password: TEST_PASSWORD },
+    });
+    return extractCookie(resp.headers['set-cookie']);
+  }
+
+  async function createKey(scopes: string[], payload: Record<string, unknown> = {}, asCookie = cookie) {
+    const resp = await app.inject({
+      method: 'POST',
+      url: '/api/api-keys',
+      headers: { cookie: asCookie },
+      payload: { name: 'Scoped Key', scopes, ...payload },
+    });
+    return JSON.parse(resp.body).key as string;
+  }
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await apiKeyRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await maintenanceTaskRoutes(app);
+    await memberRoutes(app);
+    registerGeneratorRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    cookie = await enroll('keys@example.com');
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie },
+      payload: { name: 'Home Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('requireApiKey', () => {
+    it('should require an API key', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/generator/status' });
+
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body).error).toBe('API key required');
+    });
+
+    it('should reject keys without the endpoint scope', async () => {
+      const readOnly = await createKey(['status:read', 'logs:read']);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/generator/toggle',
+        headers: { 'x-api-key': readOnly },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body).error).toBe('API key does not have the toggle scope');
+    });
+
+    it('should let a viewer use a read-only key but not a toggle key', async () => {
+      const viewerCookie = await enroll('viewer@example.com');
+      const inviteResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/invites`,
+        headers: { cookie },
+        payload: { email: 'viewer@example.com', role: 'viewer' },
+      });
+      await app.inject({
+        method: 'POST',
+        url: `/api/invites/${JSON.parse(inviteResp.body).token}/accept`,
+        headers: { cookie: viewerCookie },
+      });
+
+      const readOnly = await createKey(['status:read'], { generatorId }, viewerCookie);
+      const status = await app.inject({
+        method: 'GET',
+        url: '/api/generator/status',
+        headers: { 'x-api-key': readOnly },
+      });
+      expect(status.statusCode).toBe(200);
+
+      const toggleResp = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: viewerCookie },
+        payload: { name: 'Toggle', scopes: ['toggle'], generatorId },
+      });
+      expect(toggleResp.statusCode).toBe(400);
+    });
+
+    it('should forbid a toggle key once its user is only a viewer', async () => {
+      const operatorCookie = await enroll('operator@example.com');
+      const inviteResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/invites`,
+        headers: { cookie },
+        payload: { email: 'operator@example.com', role: 'operator' },
+      });
+      const acceptResp = await app.inject({
+        method: 'POST',
+        url: `/api/invites/${JSON.parse(inviteResp.body).token}/accept`,
+        headers: { cookie: operatorCookie },
+      });
+      expect(acceptResp.statusCode).toBe(200);
+      const key = await createKey(['toggle', 'status:read'], { generatorId }, operatorCookie);
+
+      const [operator] = await getDb().select().from(schema.users).where(eq(schema.users.email, 'operator@example.com'));
+      await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/members/${operator.id}`,
+        headers: { cookie },
+        payload: { role: 'viewer' },
+      });
+
+      const toggle = await app.inject({ method: 'POST', url: '/api/generator/toggle', headers: { 'x-api-key': key } });
+      expect(toggle.statusCode).toBe(403);
+      expect(JSON.parse(toggle.body).error).toBe('Viewers can only look at this generator');
+
+      const status = await app.inject({ method: 'GET', url: '/api/generator/status', headers: { 'x-api-key': key } });
+      expect(status.statusCode).toBe(200);
+    });
+  });
+
+  describe('GET /api/generator/status', () => {
+    it('should return the running state and maintenance of the key generator', async () => {
+      const key = await createKey(['status:read']);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/generator/status',
+        headers: { 'x-api-key': key },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body).toMatchObject({ id: generatorId, name: 'Home Generator', isRunning: false, totalHours: 0 });
+      expect(body.maintenanceTasks).toMatchObject([{ kind: 'oil_change' }]);
+    });
+  });
+
+  describe('/api/generator/logs', () => {
+    it('should add runs with logs:write and list them newest first with logs:read', async () => {
+      const writer = await createKey(['logs:write']);
+      const reader = await createKey(['logs:read']);
+
+      for (const [start, end] of [
+        ['2026-01-01T10:00:00Z', '2026-01-01T12:00:00Z'],
+        ['2026-01-02T10:00:00Z', '2026-01-02T11:00:00Z'],
+      ]) {
+        const created = await app.inject({
+          method: 'POST',
+          url: '/api/generator/logs',
+          headers: { 'x-api-key': writer },
+          payload: { startTime: start, endTime: end },
+        });
+        expect(created.statusCode).toBe(201);
+      }
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/generator/logs?limit=1',
+        headers: { 'x-api-key': reader },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const logs = JSON.parse(response.body);
+      expect(logs).toHaveLength(1);
+      expect(logs[0]).toMatchObject({ startTime: '2026-01-02T10:00:00.000Z', durationHours: 1 });
+
+      const generator = await app.inject({ method: 'GET', url: `/api/generators/${generatorId}`, headers: { cookie } });
+      expect(JSON.parse(generator.body).totalHours).toBe(3);
+    });
+
+    it('should reject overlapping runs', async () => {
+      const writer = await createKey(['logs:write']);
+      const payload = { startTime: '2026-01-01T10:00:00Z', endTime: '2026-01-01T12:00:00Z' };
+      await app.inject({ method: 'POST', url: '/api/generator/logs', headers: { 'x-api-key': writer }, payload });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/generator/logs',
+        headers: { 'x-api-key': writer },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should not let a read-only key add runs', async () => {
+      const reader = await createKey(['logs:read']);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/generator/logs',
+        headers: { 'x-api-key': reader },
+        payload: { startTime: '2026-01-01T10:00:00Z', endTime: '2026-01-01T12:00:00Z' },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /api/generator/maintenance-tasks/:taskId/completions', () => {
+    it('should record a completion with maintenance:write', async () => {
+      const statusKey = await createKey(['status:read']);
+      const status = await app.inject({
+        method: 'GET',
+        url: '/api/generator/status',
+        headers: { 'x-api-key': statusKey },
+      });
+      const [oilTask] = JSON.parse(status.body).maintenanceTasks;
+
+      const key = await createKey(['maintenance:write']);
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generator/maintenance-tasks/${oilTask.id}/completions`,
+        headers: { 'x-api-key': key },
+        payload: { notes: 'Synthetic oil' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body)).toMatchObject({ taskId: oilTask.id, notes: 'Synthetic oil' });
+
+      const after = await app.inject({
+        method: 'GET',
+        url: '/api/generator/status',
+        headers: { 'x-api-key': statusKey },
+      });
+      expect(JSON.parse(after.body).maintenanceTasks[0].isDue).toBe(false);
+    });
+
+    it('should reject runs and completions on an archived generator', async () => {
+      const statusKey = await createKey(['status:read']);
+      const status = await app.inject({
+        method: 'GET',
+        url: '/api/generator/status',
+        headers: { 'x-api-key': statusKey },
+      });
+      const [oilTask] = JSON.parse(status.body).maintenanceTasks;
+      await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/archive`, headers: { cookie } });
+
+      const key = await createKey(['logs:write', 'maintenance:write'], { generatorId });
+      const log = await app.inject({
+        method: 'POST',
+        url: '/api/generator/logs',
+        headers: { 'x-api-key': key },
+        payload: { startTime: '2026-01-01T10:00:00Z', endTime: '2026-01-01T12:00:00Z' },
+      });
+      const completion = await app.inject({
+        method: 'POST',
+        url: `/api/generator/maintenance-tasks/${oilTask.id}/completions`,
+        headers: { 'x-api-key': key },
+      });
+
+      expect(log.statusCode).toBe(409);
+      expect(completion.statusCode).toBe(409);
+    });
+
+    it('should return 404 for a task of another generator', async () => {
+      const key = await createKey(['maintenance:write']);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/generator/maintenance-tasks/999999/completions',
+        headers: { 'x-api-key': key },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
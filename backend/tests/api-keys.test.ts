@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Fastify, { FastifyInstance } from 'fastify';
 import { apiKeyRoutes } from '../src/routes/api-keys.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
 import { authRoutes } from '../src/routes/auth.js';
 import { registerSessionMiddleware } from '../src/services/session.js';
 import { getDb } from '../src/db/index.js';
@@ -31,6 +32,7 @@ describe('API Key Routes', () => {
     registerSessionMiddleware(app);
     await authRoutes(app);
     await apiKeyRoutes(app);
+    await generatorConfigRoutes(app);
     await app.ready();
 
     const db = getDb();
@@ -145,6 +147,170 @@ describe('API Key Routes', () => {
     });
   });
 
+  describe('generator binding', () => {
+    async function createGenerator(cookie: string): Promise<number> {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie },
+        payload: { name: 'Bound Generator', oilChangeHours: 100, oilChangeMonths: 6 },
+      });
+      return JSON.parse(response.body).id;
+    }
+
+    it('should create a key bound to a generator', async () => {
+      const generatorId = await createGenerator(testCookie);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+        payload: { name: 'Bound Key', generatorId },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body).generatorId).toBe(generatorId);
+
+      const list = await app.inject({
+        method: 'GET',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(list.body)[0].generatorId).toBe(generatorId);
+    });
+
+    it('should reject binding to another users generator', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/api/auth/enroll',
+        payload: { email: 'other@example.com', password: TEST_PASSWORD },
+      });
+      const otherCookie = await loginAs(app, 'other@example.com');
+      const otherGeneratorId = await createGenerator(otherCookie);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+        payload: { name: 'Sneaky Key', generatorId: otherGeneratorId },
+      });
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should change and clear the binding of an existing key', async () => {
+      const generatorId = await createGenerator(testCookie);
+      const createResp = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+        payload: { name: 'Key' },
+      });
+      const keyId = JSON.parse(createResp.body).id;
+
+      const bound = await app.inject({
+        method: 'PUT',
+        url: `/api/api-keys/${keyId}`,
+        headers: { cookie: testCookie },
+        payload: { generatorId },
+      });
+      expect(bound.statusCode).toBe(200);
+      expect(JSON.parse(bound.body).generatorId).toBe(generatorId);
+
+      const cleared = await app.inject({
+        method: 'PUT',
+        url: `/api/api-keys/${keyId}`,
+        headers: { cookie: testCookie },
+        payload: { generatorId: null },
+      });
+      expect(cleared.statusCode).toBe(200);
+      expect(JSON.parse(cleared.body).generatorId).toBeNull();
+    });
+
+    it('should return 404 when updating another users key', async () => {
+      const createResp = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+        payload: { name: 'Key' },
+      });
+      const keyId = JSON.parse(createResp.body).id;
+
+      await app.inject({
+        method: 'POST',
+        url: '/api/auth/enroll',
+        payload: { email: 'other@example.com', password: TEST_PASSWORD },
+      });
+      const otherCookie = await loginAs(app, 'other@example.com');
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/api-keys/${keyId}`,
+        headers: { cookie: otherCookie },
+        payload: { name: 'Mine now' },
+      });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('scopes', () => {
+    it('should default new keys to the toggle scope', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+        payload: { name: 'Shortcut' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body).scopes).toEqual(['toggle']);
+    });
+
+    it('should store chosen scopes in canonical order without duplicates', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+        payload: { name: 'Dashboard', scopes: ['logs:read', 'status:read', 'logs:read'] },
+      });
+      expect(JSON.parse(response.body).scopes).toEqual(['status:read', 'logs:read']);
+
+      const list = await app.inject({ method: 'GET', url: '/api/api-keys', headers: { cookie: testCookie } });
+      expect(JSON.parse(list.body)[0].scopes).toEqual(['status:read', 'logs:read']);
+    });
+
+    it('should reject unknown or empty scopes', async () => {
+      for (const scopes of [['admin'], []]) {
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/api-keys',
+          headers: { cookie: testCookie },
+          payload: { name: 'Bad', scopes },
+        });
+        expect(response.statusCode).toBe(400);
+      }
+    });
+
+    it('should change the scopes of an existing key', async () => {
+      const createResp = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+        payload: { name: 'Key' },
+      });
+      const keyId = JSON.parse(createResp.body).id;
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/api-keys/${keyId}`,
+        headers: { cookie: testCookie },
+        payload: { scopes: ['status:read'] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).scopes).toEqual(['status:read']);
+    });
+  });
+
   describe('DELETE /api/api-keys/:id', () => {
     it('should delete an API key', async () => {
       const createResponse = await app.inject({
@@ -328,6 +494,47 @@ describe('API Key Routes', () => {
     });
   });
 
+  describe('GET /api/api-keys/:id/shortcut-file', () => {
+    async function createKey(): Promise<number> {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: testCookie },
+        payload: { name: 'Phone' },
+      });
+      return JSON.parse(response.body).id;
+    }
+
+    it('should serve the toggle shortcut by default', async () => {
+      const keyId = await createKey();
+
+      const response = await app.inject({ method: 'GET', url: `/api/api-keys/${keyId}/shortcut-file` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-disposition']).toContain('Phone Toggle.shortcut');
+      expect(response.body).toContain('/api/generator/toggle');
+    });
+
+    it('should serve start-only and stop-only variants', async () => {
+      const keyId = await createKey();
+
+      const start = await app.inject({ method: 'GET', url: `/api/api-keys/${keyId}/shortcut-file?action=start` });
+      expect(start.headers['content-disposition']).toContain('Phone Start.shortcut');
+      expect(start.body).toContain('/api/generator/start');
+
+      const stop = await app.inject({ method: 'GET', url: `/api/api-keys/${keyId}/shortcut-file?action=stop` });
+      expect(stop.headers['content-disposition']).toContain('Phone Stop.shortcut');
+      expect(stop.body).toContain('/api/generator/stop');
+    });
+
+    it('should reject an unknown action', async () => {
+      const keyId = await createKey();
+
+      const response = await app.inject({ method: 'GET', url: `/api/api-keys/${keyId}/shortcut-file?action=restart` });
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
   describe('GET /api/api-keys/:id/shortcut-info', () => {
     it('should return shortcut setup information without exposing raw key', async () => {
       const createResponse = await app.inject({
@@ -351,6 +558,10 @@ describe('API Key Routes', () => {
       expect(body.hint).toMatch(/^gl_\.\.\./);
       expect(body.apiEndpoint).toBeDefined();
       expect(body.apiEndpoint).toContain('/api/generator/toggle');
+      expect(body.startEndpoint).toContain('/api/generator/start');
+      expect(body.stopEndpoint).toContain('/api/generator/stop');
+      expect(body.startShortcutFileUrl).toContain(`/api/api-keys/${apiKey.id}/shortcut-file?action=start`);
+      expect(body.stopShortcutFileUrl).toContain(`/api/api-keys/${apiKey.id}/shortcut-file?action=stop`);
       // Ensure raw key is not exposed
       expect(body.key).toBeUndefined();
     });
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { auditRoutes } from '../src/routes/audit.js';
+import { registerGeneratorRoutes } from '../src/routes/generator.js';
+import { apiKeyRoutes } from '../src/routes/api-keys.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { oilChangeHistoryRoutes } from '../src/routes/oil-change-history.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { autoStopGenerator } from '../src/services/generator.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+describe('Audit Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await apiKeyRoutes(app);
+    await usageLogsRoutes(app);
+    await oilChangeHistoryRoutes(app);
+    registerGeneratorRoutes(app);
+    await auditRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'audit@example.com', name: 'Audit User', password: TEST_PASSWORD },
+    });
+    testCookie = extractCookie(enrollResp.headers['set-cookie']);
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function listEvents(query = '', cookie = testCookie) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/audit${query}`,
+      headers: { cookie },
+    });
+  }
+
+  it('records the generator being created', async () => {
+    const events = JSON.parse((await listEvents()).body);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      action: 'generator.create',
+      targetType: 'generator',
+      targetId: generatorId,
+      generatorName: 'Test Generator',
+      actor: { type: 'user', name: 'Audit User', apiKeyId: null },
+      before: null,
+    });
+    expect(events[0].after.name).toBe('Test Generator');
+  });
+
+  it('records who stopped the generator through an API key', async () => {
+    const keyResp = await app.inject({
+      method: 'POST',
+      url: '/api/api-keys',
+      headers: { cookie: testCookie },
+      payload: { name: 'Kitchen iPhone' },
+    });
+    const apiKey = JSON.parse(keyResp.body);
+
+    await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/start`, headers: { cookie: testCookie } });
+    await app.inject({ method: 'POST', url: '/api/generator/stop', headers: { 'x-api-key': apiKey.key } });
+
+    const [stop, start] = JSON.parse((await listEvents()).body);
+    expect(stop).toMatchObject({
+      action: 'generator.stop',
+      actor: { type: 'api_key', userId: null, apiKeyId: apiKey.id, apiKeyName: 'Kitchen iPhone' },
+      before: { isRunning: true },
+      after: { isRunning: false, autoClosed: false },
+      ip: '127.0.0.1',
+    });
+    expect(start).toMatchObject({ action: 'generator.start', actor: { type: 'user', name: 'Audit User' } });
+  });
+
+  it('does not record a start when the generator is already running', async () => {
+    await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/start`, headers: { cookie: testCookie } });
+    await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/start`, headers: { cookie: testCookie } });
+
+    const events = JSON.parse((await listEvents('?action=generator.start')).body);
+    expect(events).toHaveLength(1);
+  });
+
+  it('records auto-stops as made by the system', async () => {
+    await app.inject({
+      method: 'PUT',
+      url: `/api/generators/${generatorId}`,
+      headers: { cookie: testCookie },
+      payload: { maxRunHours: 1 },
+    });
+    await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/start`, headers: { cookie: testCookie } });
+    await autoStopGenerator(generatorId, new Date(Date.now() + 2 * 60 * 60 * 1000));
+
+    const [stop] = JSON.parse((await listEvents('?action=generator.stop')).body);
+    expect(stop.actor).toMatchObject({ type: 'system', userId: null, apiKeyId: null });
+    expect(stop.after.autoClosed).toBe(true);
+    expect(stop.ip).toBeNull();
+  });
+
+  it('records log edits with before and after snapshots', async () => {
+    const createResp = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: { startTime: '2026-01-01T10:00:00.000Z', endTime: '2026-01-01T12:00:00.000Z' },
+    });
+    const logId = JSON.parse(createResp.body).id;
+
+    await app.inject({
+      method: 'PUT',
+      url: `/api/generators/${generatorId}/logs/${logId}`,
+      headers: { cookie: testCookie },
+      payload: { endTime: '2026-01-01T13:00:00.000Z' },
+    });
+
+    const [update, create] = JSON.parse((await listEvents()).body);
+    expect(create).toMatchObject({ action: 'usage_log.create', targetId: logId, before: null });
+    expect(update).toMatchObject({
+      action: 'usage_log.update',
+      targetId: logId,
+      before: { endTime: '2026-01-01T12:00:00.000Z', durationHours: 2 },
+      after: { endTime: '2026-01-01T13:00:00.000Z', durationHours: 3 },
+    });
+  });
+
+  it('records a deleted oil change', async () => {
+    const changeResp = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/oil-changes`,
+      headers: { cookie: testCookie },
+      payload: { notes: '10W-30' },
+    });
+    const changeId = JSON.parse(changeResp.body).id;
+
+    await app.inject({
+      method: 'DELETE',
+      url: `/api/generators/${generatorId}/oil-changes/${changeId}`,
+      headers: { cookie: testCookie },
+    });
+
+    const [deleted] = JSON.parse((await listEvents()).body);
+    expect(deleted).toMatchObject({
+      action: 'maintenance_completion.delete',
+      targetId: changeId,
+      before: { kind: 'oil_change', notes: '10W-30' },
+      after: null,
+    });
+  });
+
+  it('records generator settings before and after an update', async () => {
+    await app.inject({
+      method: 'PUT',
+      url: `/api/generators/${generatorId}`,
+      headers: { cookie: testCookie },
+      payload: { name: 'Garage Generator', oilChangeHours: 50 },
+    });
+
+    const [update] = JSON.parse((await listEvents('?action=generator.update')).body);
+    expect(update.before).toMatchObject({ name: 'Test Generator', oilChangeHours: 100 });
+    expect(update.after).toMatchObject({ name: 'Garage Generator', oilChangeHours: 50 });
+  });
+
+  it('records key management without the key hash', async () => {
+    const keyResp = await app.inject({
+      method: 'POST',
+      url: '/api/api-keys',
+      headers: { cookie: testCookie },
+      payload: { name: 'Old Phone' },
+    });
+    const keyId = JSON.parse(keyResp.body).id;
+
+    await app.inject({ method: 'DELETE', url: `/api/api-keys/${keyId}`, headers: { cookie: testCookie } });
+
+    const [deleted, created] = JSON.parse((await listEvents()).body);
+    expect(created).toMatchObject({ action: 'api_key.create', targetId: keyId, after: { name: 'Old Phone' } });
+    expect(deleted).toMatchObject({ action: 'api_key.delete', targetId: keyId, before: { name: 'Old Phone' } });
+    expect(deleted.before).not.toHaveProperty('keyHash');
+  });
+
+  it('pages through events with a cursor', async () => {
+    for (const name of ['A', 'B', 'C']) {
+      await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: testCookie },
+        payload: { name },
+      });
+    }
+
+    const first = await listEvents('?limit=2');
+    expect(JSON.parse(first.body).map((e: { after: { name: string } }) => e.after.name)).toEqual(['C', 'B']);
+
+    const cursor = first.headers['x-next-cursor'] as string;
+    const second = await listEvents(`?limit=2&cursor=${cursor}`);
+    expect(JSON.parse(second.body).map((e: { after: { name: string } }) => e.after.name)).toEqual(['A', 'Test Generator']);
+    expect(second.headers['x-next-cursor']).toBeUndefined();
+  });
+
+  it('rejects an invalid cursor', async () => {
+    const response = await listEvents('?cursor=not-a-cursor');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('only lists events of the signed in account', async () => {
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'other-audit@example.com', password: TEST_PASSWORD },
+    });
+
+    const response = await listEvents('', extractCookie(enrollResp.headers['set-cookie']));
+
+    expect(JSON.parse(response.body)).toEqual([]);
+  });
+
+  it('returns 401 without authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/audit' });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { stopForgottenRuns } from '../src/services/auto-stop.js';
+import { startGenerator, stopGenerator } from '../src/services/generator.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Auto-stop sweeper', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    const db = getDb();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const [user] = await db
+      .insert(schema.users)
+      .values({ email: 'autostop@example.com', passwordHash: 'unused' })
+      .returning();
+    userId = user.id;
+  });
+
+  async function createRunningGenerator(maxRunHours: number | null, totalHours = 10) {
+    const db = getDb();
+    const [generator] = await db
+      .insert(schema.generators)
+      .values({ userId, name: 'Shed Generator', maxRunHours, totalHours })
+      .returning();
+    const started = await startGenerator(generator.id);
+    return { generator, startTime: started.startTime };
+  }
+
+  async function loadState(generatorId: number) {
+    const db = getDb();
+    const [generator] = await db
+      .select()
+      .from(schema.generators)
+      .where(eq(schema.generators.id, generatorId));
+    const logs = await db
+      .select()
+      .from(schema.usageLogs)
+      .where(eq(schema.usageLogs.generatorId, generatorId));
+    return { generator, logs };
+  }
+
+  it('closes a run that exceeded the maximum run length at the limit', async () => {
+    const { generator, startTime } = await createRunningGenerator(12);
+
+    const stopped = await stopForgottenRuns(new Date(startTime.getTime() + 72 * HOUR));
+
+    expect(stopped).toBe(1);
+    const state = await loadState(generator.id);
+    expect(state.generator.isRunning).toBe(false);
+    expect(state.generator.currentStartTime).toBeNull();
+    expect(state.generator.totalHours).toBeCloseTo(22, 5);
+    expect(state.logs).toHaveLength(1);
+    expect(state.logs[0].endTime!.getTime()).toBe(startTime.getTime() + 12 * HOUR);
+    expect(state.logs[0].durationHours).toBeCloseTo(12, 5);
+    expect(state.logs[0].autoClosed).toBe(true);
+    expect(state.logs[0].autoCloseReviewedAt).toBeNull();
+  });
+
+  it('leaves runs within their limit running', async () => {
+    const { generator, startTime } = await createRunningGenerator(12);
+
+    const stopped = await stopForgottenRuns(new Date(startTime.getTime() + 11 * HOUR));
+
+    expect(stopped).toBe(0);
+    const state = await loadState(generator.id);
+    expect(state.generator.isRunning).toBe(true);
+    expect(state.logs[0].endTime).toBeNull();
+  });
+
+  it('ignores generators without a maximum run length', async () => {
+    const { generator, startTime } = await createRunningGenerator(null);
+
+    const stopped = await stopForgottenRuns(new Date(startTime.getTime() + 500 * HOUR));
+
+    expect(stopped).toBe(0);
+    expect((await loadState(generator.id)).generator.isRunning).toBe(true);
+  });
+
+  it('does not flag runs stopped by hand', async () => {
+    const { generator } = await createRunningGenerator(12);
+
+    await stopGenerator(generator.id);
+    const stopped = await stopForgottenRuns(new Date(Date.now() + 24 * HOUR));
+
+    expect(stopped).toBe(0);
+    const { logs } = await loadState(generator.id);
+    expect(logs).toHaveLength(1);
+    expect(logs[0].autoClosed).toBe(false);
+  });
+});
@@ -27,6 +27,16 @@ describe('config', () => {
     delete process.env.API_RATE_LIMIT;
     delete process.env.DB_SSL;
     delete process.env.SESSION_SECRET;
+    delete process.env.SMTP_HOST;
+    delete process.env.SMTP_PORT;
+    delete process.env.REMINDER_CHECK_INTERVAL;
+    delete process.env.IDEMPOTENCY_WINDOW;
+    delete process.env.AUTO_STOP_CHECK_INTERVAL;
+    delete process.env.TRASH_RETENTION_DAYS;
+    delete process.env.TRASH_PURGE_INTERVAL;
+    delete process.env.INVITE_TTL;
+    delete process.env.APP_URL;
+    delete process.env.CORS_ORIGIN;
 
     const config = await loadConfig();
 
@@ -36,6 +46,15 @@ describe('config', () => {
     expect(config.apiRateLimit).toBe(1);
     expect(config.session.secret).toBe('change-this-secret');
     expect(config.database.ssl).toBe(false);
+    expect(config.smtp.host).toBe('');
+    expect(config.smtp.port).toBe(587);
+    expect(config.reminders.checkInterval).toBe(3600000);
+    expect(config.idempotency.window).toBe(86400000);
+    expect(config.autoStop.checkInterval).toBe(300000);
+    expect(config.trash.retentionDays).toBe(30);
+    expect(config.trash.purgeInterval).toBe(3600000);
+    expect(config.invites.ttl).toBe(604800000);
+    expect(config.appUrl).toBe('http://localhost:5173');
   });
 
   it('reads all configuration values from the environment', async () => {
@@ -46,6 +65,16 @@ describe('config', () => {
     process.env.DATABASE_URL = 'postgresql://tester:secret@db:5432/app';
     process.env.DB_SSL = 'true';
     process.env.SESSION_SECRET = 'super-secret';
+    process.env.SMTP_HOST = 'smtp-relay.brevo.com';
+    process.env.SMTP_PORT = '465';
+    process.env.SMTP_SECURE = 'true';
+    process.env.REMINDER_CHECK_INTERVAL = '60000';
+    process.env.IDEMPOTENCY_WINDOW = '600000';
+    process.env.AUTO_STOP_CHECK_INTERVAL = '30000';
+    process.env.TRASH_RETENTION_DAYS = '7';
+    process.env.TRASH_PURGE_INTERVAL = '600000';
+    process.env.INVITE_TTL = '86400000';
+    process.env.APP_URL = 'https://generators.example.com';
 
     const config = await loadConfig();
 
@@ -56,5 +85,15 @@ describe('config', () => {
     expect(config.database.url).toBe('postgresql://tester:secret@db:5432/app');
     expect(config.database.ssl).toBe(true);
     expect(config.session.secret).toBe('super-secret');
+    expect(config.smtp.host).toBe('smtp-relay.brevo.com');
+    expect(config.smtp.port).toBe(465);
+    expect(config.smtp.secure).toBe(true);
+    expect(config.reminders.checkInterval).toBe(60000);
+    expect(config.idempotency.window).toBe(600000);
+    expect(config.autoStop.checkInterval).toBe(30000);
+    expect(config.trash.retentionDays).toBe(7);
+    expect(config.trash.purgeInterval).toBe(600000);
+    expect(config.invites.ttl).toBe(86400000);
+    expect(config.appUrl).toBe('https://generators.example.com');
   });
 });
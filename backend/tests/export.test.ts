@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import Fastify, { FastifyInstance } from 'fastify';
+import { exportRoutes } from '../src/routes/export.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { oilChangeHistoryRoutes } from '../src/routes/oil-change-history.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { apiKeyRoutes } from '../src/routes/api-keys.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { toCsvField } from '../src/services/export.js';
+import { buildXlsx } from '../src/services/xlsx.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+function hour(h: number): Date {
+  return new Date(Date.UTC(2026, 0, 1, h, 0, 0));
+}
+
+// Reads the entries of a zip written by buildXlsx (local headers only, deflated data)
+function unzip(buffer: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    files[name] = inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+    offset = dataStart + compressedSize;
+  }
+  return files;
+}
+
+describe('toCsvField', () => {
+  it('leaves plain values unquoted', () => {
+    expect(toCsvField('Honda')).toBe('Honda');
+    expect(toCsvField(2.5)).toBe('2.5');
+    expect(toCsvField(true)).toBe('true');
+    expect(toCsvField(null)).toBe('');
+  });
+
+  it('quotes delimiters, quotes and line breaks', () => {
+    expect(toCsvField('Oil, filter')).toBe('"Oil, filter"');
+    expect(toCsvField('The "good" oil')).toBe('"The ""good"" oil"');
+    expect(toCsvField('line one\nline two')).toBe('"line one\nline two"');
+  });
+});
+
+describe('buildXlsx', () => {
+  it('writes a workbook with one sheet per table', () => {
+    const files = unzip(buildXlsx([
+      { name: 'Usage Logs', rows: [['ID', 'Notes'], [1, 'a < b & c'], [2, null]] },
+      { name: 'Generator', rows: [['Running'], [true]] },
+    ]));
+
+    expect(Object.keys(files)).toContain('[Content_Types].xml');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Usage Logs" sheetId="1" r:id="rId1"/>');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Generator" sheetId="2" r:id="rId2"/>');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('<c r="A2"><v>1</v></c>');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('a &lt; b &amp; c');
+    expect(files['xl/worksheets/sheet1.xml']).not.toContain('r="B3"');
+    expect(files['xl/worksheets/sheet2.xml']).toContain('<c r="A2" t="b"><v>1</v></c>');
+  });
+});
+
+describe('Export Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let testApiKey: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await apiKeyRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await oilChangeHistoryRoutes(app);
+    await exportRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.maintenanceTaskCompletions).execute();
+    await db.delete(schema.maintenanceTasks).execute();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'export@example.com', name: 'Export User', password: TEST_PASSWORD },
+    });
+    testCookie = extractCookie(enrollResp.headers['set-cookie']);
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Honda EU2200i' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+
+    const keyResp = await app.inject({
+      method: 'POST',
+      url: '/api/api-keys',
+      headers: { cookie: testCookie },
+      payload: { name: 'Export Key', scopes: ['logs:read'] },
+    });
+    testApiKey = JSON.parse(keyResp.body).key;
+
+    for (const [start, end] of [[1, 3], [10, 11]]) {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: { startTime: hour(start).toISOString(), endTime: hour(end).toISOString() },
+      });
+    }
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/oil-changes`,
+      headers: { cookie: testCookie },
+      payload: { performedAt: hour(12).toISOString(), notes: 'Castrol 10W-30, "synthetic"' },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function exportAs(query: string) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/export${query}`,
+      headers: { cookie: testCookie },
+    });
+  }
+
+  it('exports usage logs as CSV by default', async () => {
+    const response = await exportAs('');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(response.headers['content-disposition']).toMatch(/^attachment; filename="Honda-EU2200i-usage-logs-\d{4}-\d{2}-\d{2}\.csv"$/);
+    const lines = response.body.trim().split('\r\n');
+    expect(lines[0]).toBe('ID,Start Time,End Time,Duration (hours),Estimated Fuel (gallons),Auto-closed,Created At,Updated At');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain(`${hour(1).toISOString()},${hour(3).toISOString()},2,`);
+  });
+
+  it('escapes oil change notes in CSV', async () => {
+    const response = await exportAs('?dataset=oil-changes');
+
+    const lines = response.body.trim().split('\r\n');
+    expect(lines[0]).toBe('ID,Performed At,Hours at Change,Notes,Created At');
+    expect(lines[1]).toContain('"Castrol 10W-30, ""synthetic"""');
+  });
+
+  it('limits exports to the requested range', async () => {
+    const response = await exportAs(`?format=json&from=${hour(5).toISOString()}&to=${hour(20).toISOString()}`);
+
+    const body = JSON.parse(response.body);
+    expect(body).toHaveLength(1);
+    expect(body[0].startTime).toBe(hour(10).toISOString());
+    expect(body[0].durationHours).toBeCloseTo(1, 5);
+  });
+
+  it('exports every dataset as JSON', async () => {
+    const response = await exportAs('?format=json&dataset=all');
+
+    expect(response.headers['content-type']).toBe('application/json; charset=utf-8');
+    const body = JSON.parse(response.body);
+    expect(body.generator.name).toBe('Honda EU2200i');
+    expect(body.generator.totalHours).toBeCloseTo(3, 5);
+    expect(body.usageLogs).toHaveLength(2);
+    expect(body.oilChanges).toHaveLength(1);
+    expect(body.oilChanges[0].notes).toBe('Castrol 10W-30, "synthetic"');
+  });
+
+  it('exports every dataset as an XLSX workbook', async () => {
+    const response = await exportAs('?format=xlsx&dataset=all');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    const files = unzip(response.rawPayload);
+    expect(files['xl/workbook.xml']).toContain('name="Usage Logs"');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('Honda EU2200i');
+    expect(files['xl/worksheets/sheet2.xml']).toContain('<row r="3">');
+    expect(files['xl/worksheets/sheet3.xml']).toContain('Castrol 10W-30');
+  });
+
+  it('rejects CSV for all datasets', async () => {
+    const response = await exportAs('?format=csv&dataset=all');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('rejects an unknown format', async () => {
+    const response = await exportAs('?format=pdf');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('exports with an API key', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/generator/export?format=json',
+      headers: { 'x-api-key': testApiKey },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toHaveLength(2);
+  });
+
+  it('requires the logs:read scope', async () => {
+    const keyResp = await app.inject({
+      method: 'POST',
+      url: '/api/api-keys',
+      headers: { cookie: testCookie },
+      payload: { name: 'Toggle Key', scopes: ['toggle'] },
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/generator/export',
+      headers: { 'x-api-key': JSON.parse(keyResp.body).key },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(JSON.parse(response.body).error).toBe('API key does not have the logs:read scope');
+  });
+
+  it('returns 401 for an invalid API key', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/generator/export',
+      headers: { 'x-api-key': 'gl_invalid_key_that_does_not_exist' },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('returns 401 without authentication', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/export`,
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
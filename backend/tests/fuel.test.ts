@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { fuelRoutes } from '../src/routes/fuel.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { estimateFuelRemaining, estimateFuelUsed } from '../src/services/fuel.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+function at(hour: number): Date {
+  return new Date(Date.UTC(2026, 0, 1, hour, 0, 0));
+}
+
+describe('estimateFuelUsed', () => {
+  it('multiplies the run length by the burn rate', () => {
+    expect(estimateFuelUsed(2.5, 0.4)).toBeCloseTo(1, 5);
+  });
+
+  it('returns null for open runs or an unknown burn rate', () => {
+    expect(estimateFuelUsed(null, 0.4)).toBeNull();
+    expect(estimateFuelUsed(2, null)).toBeNull();
+  });
+});
+
+describe('estimateFuelRemaining', () => {
+  it('returns null without a capacity, burn rate or refuel', () => {
+    const refuels = [{ gallons: 5, filledToFull: true, refueledAt: at(0) }];
+    expect(estimateFuelRemaining(null, 0.5, refuels, [], at(10))).toBeNull();
+    expect(estimateFuelRemaining(5, null, refuels, [], at(10))).toBeNull();
+    expect(estimateFuelRemaining(5, 0.5, [], [], at(10))).toBeNull();
+  });
+
+  it('subtracts fuel burned by runs since the last refuel', () => {
+    const remaining = estimateFuelRemaining(
+      5,
+      0.5,
+      [{ gallons: 5, filledToFull: true, refueledAt: at(0) }],
+      [{ startTime: at(1), endTime: at(3) }, { startTime: at(4), endTime: at(5) }],
+      at(10)
+    );
+    expect(remaining).toBeCloseTo(3.5, 5);
+  });
+
+  it('counts an open run up to now', () => {
+    const remaining = estimateFuelRemaining(
+      5,
+      0.5,
+      [{ gallons: 5, filledToFull: true, refueledAt: at(0) }],
+      [{ startTime: at(2), endTime: null }],
+      at(4)
+    );
+    expect(remaining).toBeCloseTo(4, 5);
+  });
+
+  it('caps top-ups at the tank capacity and never goes below empty', () => {
+    const remaining = estimateFuelRemaining(
+      5,
+      1,
+      [
+        { gallons: 3, filledToFull: false, refueledAt: at(0) },
+        { gallons: 10, filledToFull: false, refueledAt: at(6) },
+      ],
+      [{ startTime: at(1), endTime: at(5) }, { startTime: at(7), endTime: at(8) }],
+      at(10)
+    );
+    // 3 gal burned down to 0 (not -1), topped up to the 5 gal cap, then 1 h of running
+    expect(remaining).toBeCloseTo(4, 5);
+  });
+
+  it('splits a run that spans a refuel', () => {
+    const remaining = estimateFuelRemaining(
+      4,
+      1,
+      [
+        { gallons: 4, filledToFull: true, refueledAt: at(0) },
+        { gallons: 2, filledToFull: false, refueledAt: at(3) },
+      ],
+      [{ startTime: at(1), endTime: at(5) }],
+      at(10)
+    );
+    // 4 - 2 h = 2, +2 = 4, - 2 h = 2
+    expect(remaining).toBeCloseTo(2, 5);
+  });
+});
+
+describe('Fuel Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await fuelRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.refuelEvents).execute();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'fuel@example.com', name: 'Fuel User', password: TEST_PASSWORD },
+    });
+    testCookie = extractCookie(enrollResp.headers['set-cookie']);
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+
+    await app.inject({
+      method: 'PUT',
+      url: `/api/generators/${generatorId}`,
+      headers: { cookie: testCookie },
+      payload: { tankCapacityGallons: 4, fuelBurnRate: 0.5 },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('records a refuel and lists it newest first', async () => {
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/refuels`,
+      headers: { cookie: testCookie },
+      payload: { gallons: 4, filledToFull: true, refueledAt: at(0).toISOString() },
+    });
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/refuels`,
+      headers: { cookie: testCookie },
+      payload: { gallons: 1.5, refueledAt: at(6).toISOString(), notes: 'Top-up' },
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).filledToFull).toBe(false);
+
+    const listResp = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/refuels`,
+      headers: { cookie: testCookie },
+    });
+    const refuels = JSON.parse(listResp.body);
+    expect(refuels).toHaveLength(2);
+    expect(refuels[0].notes).toBe('Top-up');
+  });
+
+  it('rejects a non-positive amount', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/refuels`,
+      headers: { cookie: testCookie },
+      payload: { gallons: 0 },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('estimates the fuel remaining from refuels and runs', async () => {
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/refuels`,
+      headers: { cookie: testCookie },
+      payload: { gallons: 4, filledToFull: true, refueledAt: at(0).toISOString() },
+    });
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: { startTime: at(1).toISOString(), endTime: at(3).toISOString() },
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/fuel`,
+      headers: { cookie: testCookie },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.tankCapacityGallons).toBe(4);
+    expect(body.fuelBurnRate).toBe(0.5);
+    expect(body.estimatedGallonsRemaining).toBeCloseTo(3, 5);
+    expect(body.lastRefueledAt).toBe(at(0).toISOString());
+  });
+
+  it('adds the estimated fuel used to usage logs', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: { startTime: at(1).toISOString(), endTime: at(4).toISOString() },
+    });
+
+    expect(JSON.parse(response.body).estimatedFuelGallons).toBeCloseTo(1.5, 5);
+  });
+
+  it('deletes a refuel', async () => {
+    const createResp = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/refuels`,
+      headers: { cookie: testCookie },
+      payload: { gallons: 2 },
+    });
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/generators/${generatorId}/refuels/${JSON.parse(createResp.body).id}`,
+      headers: { cookie: testCookie },
+    });
+
+    expect(response.statusCode).toBe(204);
+    const fuelResp = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/fuel`,
+      headers: { cookie: testCookie },
+    });
+    expect(JSON.parse(fuelResp.body).estimatedGallonsRemaining).toBeNull();
+  });
+
+  it('returns 404 for another user generator', async () => {
+    await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'other-fuel@example.com', password: TEST_PASSWORD },
+    });
+    const loginResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/login',
+      payload: { email: 'other-fuel@example.com', password: TEST_PASSWORD },
+    });
+    const otherCookie = extractCookie(loginResp.headers['set-cookie']);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/fuel`,
+      headers: { cookie: otherCookie },
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('returns 401 without authentication', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/refuels`,
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
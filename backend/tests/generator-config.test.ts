@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Fastify, { FastifyInstance } from 'fastify';
+import { eq } from 'drizzle-orm';
 import { generatorConfigRoutes } from '../src/routes/generator-config.js';
 import { authRoutes } from '../src/routes/auth.js';
 import { registerSessionMiddleware } from '../src/services/session.js';
 import { getDb } from '../src/db/index.js';
 import * as schema from '../src/db/schema.js';
+import { syncTaskCompletionFields } from '../src/services/maintenance-tasks.js';
 
 const TEST_PASSWORD = 'TestPass123!';
 
@@ -88,6 +90,31 @@ describe('Generator Configuration Routes', () => {
       expect(body.oilChangeHours).toBe(100);
     });
 
+    it('should start total hours at the initial hours', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Used Generator', initialHours: 250 },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.initialHours).toBe(250);
+      expect(body.totalHours).toBe(250);
+    });
+
+    it('should reject negative initial hours', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Used Generator', initialHours: -5 },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
     it('should reject creation without name', async () => {
       const response = await app.inject({
         method: 'POST',
@@ -227,6 +254,119 @@ describe('Generator Configuration Routes', () => {
       expect(body.oilChangeHours).toBe(200);
     });
 
+    it('should set and clear the maximum run length', async () => {
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Generator' },
+      });
+      const generator = JSON.parse(createResponse.body);
+      expect(generator.maxRunHours).toBeNull();
+
+      const setResponse = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generator.id}`,
+        headers: { cookie: testCookie },
+        payload: { maxRunHours: 12 },
+      });
+      expect(JSON.parse(setResponse.body).maxRunHours).toBe(12);
+
+      const clearResponse = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generator.id}`,
+        headers: { cookie: testCookie },
+        payload: { maxRunHours: null },
+      });
+      expect(JSON.parse(clearResponse.body).maxRunHours).toBeNull();
+    });
+
+    it('should shift total hours when the initial hours change', async () => {
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Generator', initialHours: 100 },
+      });
+      const generator = JSON.parse(createResponse.body);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generator.id}`,
+        headers: { cookie: testCookie },
+        payload: { initialHours: 40 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.initialHours).toBe(40);
+      expect(body.totalHours).toBe(40);
+    });
+
+    it('should keep hours since the last service when the initial hours are lowered', async () => {
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Generator', initialHours: 310 },
+      });
+      const generator = JSON.parse(createResponse.body);
+
+      // An oil change logged at the generator's starting hours
+      const db = getDb();
+      const [task] = await db
+        .select()
+        .from(schema.maintenanceTasks)
+        .where(eq(schema.maintenanceTasks.generatorId, generator.id));
+      const [completion] = await db
+        .insert(schema.maintenanceTaskCompletions)
+        .values({ taskId: task.id, performedAt: new Date(), hoursAtCompletion: 310 })
+        .returning();
+      await syncTaskCompletionFields(db, task);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generator.id}`,
+        headers: { cookie: testCookie },
+        payload: { initialHours: 210 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.totalHours).toBe(210);
+      expect(body.lastOilChangeHours).toBe(210);
+
+      const [updatedTask] = await db
+        .select()
+        .from(schema.maintenanceTasks)
+        .where(eq(schema.maintenanceTasks.id, task.id));
+      expect(updatedTask.lastCompletedHours).toBe(210);
+      const [updatedCompletion] = await db
+        .select()
+        .from(schema.maintenanceTaskCompletions)
+        .where(eq(schema.maintenanceTaskCompletions.id, completion.id));
+      expect(updatedCompletion.hoursAtCompletion).toBe(210);
+    });
+
+    it('should reject a non-positive maximum run length', async () => {
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Generator' },
+      });
+      const generator = JSON.parse(createResponse.body);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generator.id}`,
+        headers: { cookie: testCookie },
+        payload: { maxRunHours: 0 },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
     it('should prevent user from updating another user generator', async () => {
       await app.inject({
         method: 'POST',
@@ -352,4 +492,258 @@ describe('Generator Configuration Routes', () => {
       expect(response.statusCode).toBe(404);
     });
   });
+
+  describe('POST /api/generators/:id/start and /stop', () => {
+    let generatorId: number;
+
+    beforeEach(async () => {
+      const resp = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Start Stop Generator' },
+      });
+      generatorId = JSON.parse(resp.body).id;
+    });
+
+    it('should return the current run when starting a running generator', async () => {
+      const first = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(first.body).status).toBe('started');
+
+      const second = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(second.statusCode).toBe(200);
+      const body = JSON.parse(second.body);
+      expect(body.status).toBe('already_running');
+      expect(body.isRunning).toBe(true);
+      expect(body.startTime).toBe(JSON.parse(first.body).startTime);
+    });
+
+    it('should stop a running generator only once', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+        headers: { cookie: testCookie },
+      });
+
+      const first = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/stop`,
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(first.body).status).toBe('stopped');
+
+      const second = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/stop`,
+        headers: { cookie: testCookie },
+      });
+      expect(second.statusCode).toBe(200);
+      expect(JSON.parse(second.body).status).toBe('already_stopped');
+
+      const db = getDb();
+      const logs = await db.select().from(schema.usageLogs);
+      expect(logs).toHaveLength(1);
+    });
+
+    it('should return 401 without authentication', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+      });
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('POST /api/generators/:id/archive and /unarchive', () => {
+    let generatorId: number;
+
+    beforeEach(async () => {
+      const resp = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Old Generator' },
+      });
+      generatorId = JSON.parse(resp.body).id;
+    });
+
+    it('should hide an archived generator from the default listing', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/archive`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).archivedAt).not.toBeNull();
+
+      const active = await app.inject({ method: 'GET', url: '/api/generators', headers: { cookie: testCookie } });
+      expect(JSON.parse(active.body)).toEqual([]);
+
+      const all = await app.inject({
+        method: 'GET',
+        url: '/api/generators?includeArchived=true',
+        headers: { cookie: testCookie },
+      });
+      const [archived] = JSON.parse(all.body);
+      expect(archived.id).toBe(generatorId);
+      expect(archived.archivedAt).not.toBeNull();
+    });
+
+    it('should not start an archived generator', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/archive`,
+        headers: { cookie: testCookie },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/toggle`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should refuse to archive a running generator', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+        headers: { cookie: testCookie },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/archive`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should make an unarchived generator usable again', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/archive`,
+        headers: { cookie: testCookie },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/unarchive`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).archivedAt).toBeNull();
+
+      const start = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(start.body).status).toBe('started');
+    });
+
+    it('should return 404 for another user generator', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/api/auth/enroll',
+        payload: { email: 'archive-other@example.com', password: TEST_PASSWORD },
+      });
+      const otherCookie = await loginAs(app, 'archive-other@example.com');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/archive`,
+        headers: { cookie: otherCookie },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/generators/:id', () => {
+    let generatorId: number;
+
+    beforeEach(async () => {
+      const resp = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Doomed Generator' },
+      });
+      generatorId = JSON.parse(resp.body).id;
+    });
+
+    it('should delete the generator with its logs and maintenance history', async () => {
+      await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/start`, headers: { cookie: testCookie } });
+      await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/stop`, headers: { cookie: testCookie } });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(204);
+
+      const db = getDb();
+      expect(await db.select().from(schema.generators)).toHaveLength(0);
+      expect(await db.select().from(schema.usageLogs)).toHaveLength(0);
+      expect(await db.select().from(schema.maintenanceTasks)).toHaveLength(0);
+    });
+
+    it('should revoke API keys bound to the generator and keep the others', async () => {
+      const db = getDb();
+      const [user] = await db.select().from(schema.users);
+      await db.insert(schema.apiKeys).values([
+        { userId: user.id, keyHash: 'a'.repeat(64), hint: 'aaaa', generatorId },
+        { userId: user.id, keyHash: 'b'.repeat(64), hint: 'bbbb', generatorId: null },
+      ]);
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: testCookie },
+      });
+
+      const keys = await db.select().from(schema.apiKeys);
+      expect(keys.map(k => k.hint)).toEqual(['bbbb']);
+    });
+
+    it('should return 404 for another user generator', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/api/auth/enroll',
+        payload: { email: 'delete-other@example.com', password: TEST_PASSWORD },
+      });
+      const otherCookie = await loginAs(app, 'delete-other@example.com');
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: otherCookie },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(await getDb().select().from(schema.generators)).toHaveLength(1);
+    });
+
+    it('should return 401 without authentication', async () => {
+      const response = await app.inject({ method: 'DELETE', url: `/api/generators/${generatorId}` });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
 import Fastify, { FastifyInstance } from 'fastify';
 import { registerGeneratorRoutes } from '../src/routes/generator.js';
 import { authRoutes } from '../src/routes/auth.js';
@@ -6,6 +7,7 @@ import { apiKeyRoutes } from '../src/routes/api-keys.js';
 import { generatorConfigRoutes } from '../src/routes/generator-config.js';
 import { registerSessionMiddleware } from '../src/services/session.js';
 import { RateLimiter } from '../src/middleware/rate-limiter.js';
+import { startGenerator, stopGenerator, toggleGenerator } from '../src/services/generator.js';
 import { getDb } from '../src/db/index.js';
 import * as schema from '../src/db/schema.js';
 
@@ -20,6 +22,8 @@ describe('Generator Toggle Endpoint', () => {
   let app: FastifyInstance;
   let rateLimiter: RateLimiter;
   let testApiKey: string;
+  let cookie: string;
+  let generatorId: number;
 
   beforeEach(async () => {
     app = Fastify();
@@ -46,7 +50,7 @@ describe('Generator Toggle Endpoint', () => {
       url: '/api/auth/enroll',
       payload: { email: 'toggle@example.com', name: 'Toggle User', password: TEST_PASSWORD },
     });
-    const cookie = extractCookie(enrollResp.headers['set-cookie']);
+    cookie = extractCookie(enrollResp.headers['set-cookie']);
 
     // Create an API key — raw key is returned only once
     const keyResp = await app.inject({
@@ -58,14 +62,25 @@ describe('Generator Toggle Endpoint', () => {
     testApiKey = JSON.parse(keyResp.body).key;
 
     // Create a generator for the user
-    await app.inject({
+    const genResp = await app.inject({
       method: 'POST',
       url: '/api/generators',
       headers: { cookie },
       payload: { name: 'Test Generator', oilChangeHours: 100, oilChangeMonths: 6 },
     });
+    generatorId = JSON.parse(genResp.body).id;
   });
 
+  async function createSecondGenerator(): Promise<number> {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie },
+      payload: { name: 'Backup Generator', oilChangeHours: 100, oilChangeMonths: 6 },
+    });
+    return JSON.parse(response.body).id;
+  }
+
   afterEach(async () => {
     rateLimiter.destroy();
     await app.close();
@@ -148,4 +163,295 @@ describe('Generator Toggle Endpoint', () => {
 
     expect(response.statusCode).toBe(401);
   });
+
+  it('toggles the generator a key is bound to', async () => {
+    const secondId = await createSecondGenerator();
+    const keyResp = await app.inject({
+      method: 'POST',
+      url: '/api/api-keys',
+      headers: { cookie },
+      payload: { name: 'Backup Key', generatorId: secondId },
+    });
+    const boundKey = JSON.parse(keyResp.body).key;
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/toggle',
+      headers: { 'x-api-key': boundKey },
+    });
+    expect(response.statusCode).toBe(200);
+
+    const db = getDb();
+    const generators = await db.select().from(schema.generators);
+    expect(generators.find(g => g.id === secondId)!.isRunning).toBe(true);
+    expect(generators.find(g => g.id === generatorId)!.isRunning).toBe(false);
+  });
+
+  it('returns 409 for an unbound key when the user has several generators', async () => {
+    await createSecondGenerator();
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/toggle',
+      headers: { 'x-api-key': testApiKey },
+    });
+
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body).error).toContain('not bound to a generator');
+  });
+
+  it('uses the only active generator for an unbound key when the other is archived', async () => {
+    const secondId = await createSecondGenerator();
+    await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/archive`, headers: { cookie } });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/toggle',
+      headers: { 'x-api-key': testApiKey },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const db = getDb();
+    const [second] = await db.select().from(schema.generators).where(eq(schema.generators.id, secondId));
+    expect(second.isRunning).toBe(true);
+  });
+
+  it('returns 409 when starting an archived generator', async () => {
+    await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/archive`, headers: { cookie } });
+    const keyResp = await app.inject({
+      method: 'POST',
+      url: '/api/api-keys',
+      headers: { cookie },
+      payload: { name: 'Bound Key', generatorId },
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/start',
+      headers: { 'x-api-key': JSON.parse(keyResp.body).key },
+    });
+
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body).error).toContain('archived');
+  });
+
+  it('starts a generator through the start endpoint', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/start',
+      headers: { 'x-api-key': testApiKey },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).status).toBe('started');
+  });
+
+  it('does not flip a stopped generator through the stop endpoint', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/stop',
+      headers: { 'x-api-key': testApiKey },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.status).toBe('already_stopped');
+    expect(body.isRunning).toBe(false);
+  });
+
+  it('rate limits the start and stop endpoints', async () => {
+    await app.inject({
+      method: 'POST',
+      url: '/api/generator/start',
+      headers: { 'x-api-key': testApiKey },
+    });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/stop',
+      headers: { 'x-api-key': testApiKey },
+    });
+
+    expect(response.statusCode).toBe(429);
+  });
+
+  it('replays the original result for a repeated Idempotency-Key', async () => {
+    const first = await app.inject({
+      method: 'POST',
+      url: '/api/generator/toggle',
+      headers: { 'x-api-key': testApiKey, 'idempotency-key': 'shortcut-run-1' },
+    });
+    expect(JSON.parse(first.body).status).toBe('started');
+
+    // Wait for rate limit to reset (1.1 seconds)
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    const retry = await app.inject({
+      method: 'POST',
+      url: '/api/generator/toggle',
+      headers: { 'x-api-key': testApiKey, 'idempotency-key': 'shortcut-run-1' },
+    });
+
+    expect(retry.statusCode).toBe(200);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(JSON.parse(retry.body)).toEqual(JSON.parse(first.body));
+
+    const db = getDb();
+    const [generator] = await db.select().from(schema.generators);
+    expect(generator.isRunning).toBe(true);
+  });
+
+  it('toggles again for a new Idempotency-Key', async () => {
+    await app.inject({
+      method: 'POST',
+      url: '/api/generator/toggle',
+      headers: { 'x-api-key': testApiKey, 'idempotency-key': 'shortcut-run-1' },
+    });
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/toggle',
+      headers: { 'x-api-key': testApiKey, 'idempotency-key': 'shortcut-run-2' },
+    });
+
+    expect(JSON.parse(response.body).status).toBe('stopped');
+    expect(response.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('returns 422 when an Idempotency-Key is reused on another endpoint', async () => {
+    await app.inject({
+      method: 'POST',
+      url: '/api/generator/start',
+      headers: { 'x-api-key': testApiKey, 'idempotency-key': 'shared-key' },
+    });
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/stop',
+      headers: { 'x-api-key': testApiKey, 'idempotency-key': 'shared-key' },
+    });
+
+    expect(response.statusCode).toBe(422);
+  });
+
+  it('rejects an overly long Idempotency-Key', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/generator/toggle',
+      headers: { 'x-api-key': testApiKey, 'idempotency-key': 'k'.repeat(256) },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  describe('usage logs', () => {
+    it('opens a log on start and closes the same log on stop', async () => {
+      const started = await startGenerator(generatorId);
+      const db = getDb();
+      const [open] = await db
+        .select()
+        .from(schema.usageLogs)
+        .where(eq(schema.usageLogs.generatorId, generatorId));
+      expect(open.endTime).toBeNull();
+      expect(open.durationHours).toBeNull();
+      expect(open.startTime.getTime()).toBe(started.startTime.getTime());
+
+      const stopped = await stopGenerator(generatorId);
+      const logs = await db
+        .select()
+        .from(schema.usageLogs)
+        .where(eq(schema.usageLogs.generatorId, generatorId));
+      expect(logs).toHaveLength(1);
+      expect(logs[0].id).toBe(open.id);
+      expect(logs[0].endTime).not.toBeNull();
+      expect(logs[0].durationHours).toBe(stopped.status === 'stopped' ? stopped.durationHours : null);
+    });
+
+    it('records the run when its open log was deleted mid-run', async () => {
+      await startGenerator(generatorId);
+      const db = getDb();
+      await db.delete(schema.usageLogs).where(eq(schema.usageLogs.generatorId, generatorId));
+
+      await stopGenerator(generatorId);
+
+      const logs = await db
+        .select()
+        .from(schema.usageLogs)
+        .where(eq(schema.usageLogs.generatorId, generatorId));
+      expect(logs).toHaveLength(1);
+      expect(logs[0].endTime).not.toBeNull();
+    });
+  });
+
+  describe('concurrent requests', () => {
+    // Puts the generator in a run that started an hour ago, so a double-counted stop
+    // would show up as two hours in totalHours
+    async function markRunningForAnHour() {
+      const startTime = new Date(Date.now() - 60 * 60 * 1000);
+      const db = getDb();
+      await db
+        .update(schema.generators)
+        .set({ isRunning: true, currentStartTime: startTime })
+        .where(eq(schema.generators.id, generatorId));
+      await db.insert(schema.usageLogs).values({ generatorId, startTime });
+    }
+
+    async function loadState() {
+      const db = getDb();
+      const [generator] = await db
+        .select()
+        .from(schema.generators)
+        .where(eq(schema.generators.id, generatorId));
+      const logs = await db
+        .select()
+        .from(schema.usageLogs)
+        .where(eq(schema.usageLogs.generatorId, generatorId));
+      return { generator, logs };
+    }
+
+    it('serializes parallel toggles on a running generator', async () => {
+      await markRunningForAnHour();
+
+      const results = await Promise.all([toggleGenerator(generatorId), toggleGenerator(generatorId)]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['started', 'stopped']);
+      const { generator, logs } = await loadState();
+      expect(logs.filter(l => l.endTime !== null)).toHaveLength(1);
+      expect(logs.filter(l => l.endTime === null)).toHaveLength(1);
+      expect(generator.totalHours).toBeCloseTo(1, 2);
+      expect(generator.isRunning).toBe(true);
+    });
+
+    it('alternates state across many parallel toggles', async () => {
+      const results = await Promise.all(Array.from({ length: 6 }, () => toggleGenerator(generatorId)));
+
+      expect(results.filter(r => r.status === 'started')).toHaveLength(3);
+      expect(results.filter(r => r.status === 'stopped')).toHaveLength(3);
+      const { generator, logs } = await loadState();
+      expect(logs).toHaveLength(3);
+      expect(generator.isRunning).toBe(false);
+    });
+
+    it('records a single run for parallel stops', async () => {
+      await markRunningForAnHour();
+
+      const results = await Promise.all(Array.from({ length: 4 }, () => stopGenerator(generatorId)));
+
+      expect(results.filter(r => r.status === 'stopped')).toHaveLength(1);
+      expect(results.filter(r => r.status === 'already_stopped')).toHaveLength(3);
+      const { generator, logs } = await loadState();
+      expect(logs).toHaveLength(1);
+      expect(generator.totalHours).toBeCloseTo(1, 2);
+    });
+
+    it('starts only once for parallel starts', async () => {
+      const results = await Promise.all(Array.from({ length: 4 }, () => startGenerator(generatorId)));
+
+      expect(results.filter(r => r.status === 'started')).toHaveLength(1);
+      expect(results.filter(r => r.status === 'already_running')).toHaveLength(3);
+      const startTimes = new Set(results.map(r => (r.isRunning ? r.startTime.getTime() : null)));
+      expect(startTimes.size).toBe(1);
+    });
+  });
 });
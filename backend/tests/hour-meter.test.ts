@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { hourMeterRoutes } from '../src/routes/hour-meter.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+function hour(h: number): string {
+  return new Date(Date.UTC(2026, 0, 1, h, 0, 0)).toISOString();
+}
+
+describe('Hour Meter Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await hourMeterRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'meter@example.com', name: 'Meter User', password: TEST_PASSWORD },
+    });
+    testCookie = extractCookie(enrollResp.headers['set-cookie']);
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+
+    // 3 h before the reading below, 1 h after it
+    for (const [start, end] of [[1, 4], [10, 11]]) {
+      await addLog(start, end);
+    }
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function addLog(start: number, end: number) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: { startTime: hour(start), endTime: hour(end) },
+    });
+  }
+
+  async function recordReading(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/meter-readings`,
+      headers: { cookie: testCookie },
+      payload,
+    });
+  }
+
+  async function getGenerator() {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}`,
+      headers: { cookie: testCookie },
+    });
+    return JSON.parse(response.body);
+  }
+
+  it('records a reading with its drift from the tracked hours at that time', async () => {
+    const response = await recordReading({ meterHours: 5.5, readAt: hour(6), notes: 'Checked after storm' });
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    expect(body.trackedHours).toBeCloseTo(3, 5);
+    expect(body.driftHours).toBeCloseTo(2.5, 5);
+    expect(body.rebased).toBe(false);
+    expect(body.adjustment).toBeNull();
+    expect((await getGenerator()).totalHours).toBeCloseTo(4, 5);
+  });
+
+  it('rebases the total to the meter and records an adjustment', async () => {
+    const response = await recordReading({ meterHours: 5.5, readAt: hour(6), rebase: true });
+
+    const body = JSON.parse(response.body);
+    expect(body.rebased).toBe(true);
+    expect(body.adjustment).toMatchObject({ previousTotalHours: 4, newTotalHours: 6.5, adjustmentHours: 2.5 });
+
+    const generator = await getGenerator();
+    // Meter reading plus the run after it
+    expect(generator.totalHours).toBeCloseTo(6.5, 5);
+    expect(generator.meterAdjustmentHours).toBeCloseTo(2.5, 5);
+
+    const adjustments = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/meter-adjustments`,
+      headers: { cookie: testCookie },
+    });
+    expect(JSON.parse(adjustments.body)).toHaveLength(1);
+  });
+
+  it('keeps the rebase when logs change', async () => {
+    await recordReading({ meterHours: 5.5, readAt: hour(6), rebase: true });
+
+    await addLog(12, 14);
+
+    expect((await getGenerator()).totalHours).toBeCloseTo(8.5, 5);
+  });
+
+  it('rebases below the tracked hours', async () => {
+    await recordReading({ meterHours: 2, readAt: hour(6), rebase: true });
+
+    expect((await getGenerator()).totalHours).toBeCloseTo(3, 5);
+  });
+
+  it('counts the live run up to the reading', async () => {
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/start`,
+      headers: { cookie: testCookie },
+    });
+    const response = await recordReading({ meterHours: 10, rebase: true });
+
+    const body = JSON.parse(response.body);
+    expect(body.trackedHours).toBeCloseTo(4, 3);
+    expect((await getGenerator()).totalHours).toBeCloseTo(10, 3);
+  });
+
+  it('lists readings newest first and deletes them', async () => {
+    await recordReading({ meterHours: 3, readAt: hour(5) });
+    await recordReading({ meterHours: 5, readAt: hour(12), rebase: true });
+
+    const listResp = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/meter-readings`,
+      headers: { cookie: testCookie },
+    });
+    const readings = JSON.parse(listResp.body);
+    expect(readings.map((r: { meterHours: number; rebased: boolean }) => [r.meterHours, r.rebased])).toEqual([[5, true], [3, false]]);
+
+    const deleteResp = await app.inject({
+      method: 'DELETE',
+      url: `/api/generators/${generatorId}/meter-readings/${readings[0].id}`,
+      headers: { cookie: testCookie },
+    });
+    expect(deleteResp.statusCode).toBe(204);
+    // The rebase stays
+    expect((await getGenerator()).totalHours).toBeCloseTo(5, 5);
+  });
+
+  it('rejects a reading in the future', async () => {
+    const response = await recordReading({ meterHours: 5, readAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('rejects a negative reading', async () => {
+    const response = await recordReading({ meterHours: -1 });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('returns 404 for another user generator', async () => {
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'other-meter@example.com', password: TEST_PASSWORD },
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/meter-readings`,
+      headers: { cookie: extractCookie(enrollResp.headers['set-cookie']) },
+      payload: { meterHours: 5 },
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('returns 401 without authentication', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/meter-readings`,
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { RESERVATION_LEASE_MS, withIdempotencyKey } from '../src/services/idempotency.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const WINDOW = 60_000;
+
+describe('withIdempotencyKey', () => {
+  let generatorId: number;
+
+  beforeEach(async () => {
+    const db = getDb();
+    await db.delete(schema.idempotencyKeys).execute();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const [user] = await db
+      .insert(schema.users)
+      .values({ email: 'idempotency@example.com', passwordHash: 'unused' })
+      .returning();
+    const [generator] = await db
+      .insert(schema.generators)
+      .values({ userId: user.id, name: 'Shed Generator' })
+      .returning();
+    generatorId = generator.id;
+  });
+
+  it('runs the action once and replays the stored result', async () => {
+    let calls = 0;
+    const run = async () => ({ status: 'started', call: ++calls });
+
+    const first = await withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, run);
+    const second = await withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, run);
+
+    expect(calls).toBe(1);
+    expect(first).toEqual({ result: { status: 'started', call: 1 }, replayed: false });
+    expect(second).toEqual({ result: { status: 'started', call: 1 }, replayed: true });
+  });
+
+  it('runs the action again once the window has passed', async () => {
+    let calls = 0;
+    const run = async () => ++calls;
+    const start = new Date();
+
+    await withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, run, start);
+    const later = await withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, run, new Date(start.getTime() + WINDOW + 1));
+
+    expect(calls).toBe(2);
+    expect(later.replayed).toBe(false);
+  });
+
+  it('rejects a concurrent retry while the original request is running', async () => {
+    let release!: () => void;
+    const pending = new Promise<void>(resolve => { release = resolve; });
+
+    const original = withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, async () => {
+      await pending;
+      return 'done';
+    });
+    // Let the original reserve the key before the retry arrives
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    await expect(withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, async () => 'again'))
+      .rejects.toThrow('Idempotency key request in progress');
+
+    release();
+    expect((await original).result).toBe('done');
+  });
+
+  it('rejects reusing a key for a different action', async () => {
+    await withIdempotencyKey(generatorId, 'abc', 'start', WINDOW, async () => 'started');
+
+    await expect(withIdempotencyKey(generatorId, 'abc', 'stop', WINDOW, async () => 'stopped'))
+      .rejects.toThrow('Idempotency key reused for a different request');
+  });
+
+  it('releases the key when the action fails', async () => {
+    await expect(withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    const retry = await withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, async () => 'ok');
+    expect(retry).toEqual({ result: 'ok', replayed: false });
+  });
+
+  it('rolls the action back when its response cannot be stored', async () => {
+    // BigInt values don't serialize to JSON, so storing this response fails after the action ran
+    await expect(withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, async tx => {
+      await tx.update(schema.generators).set({ name: 'Renamed' }).where(eq(schema.generators.id, generatorId));
+      return { count: 1n };
+    })).rejects.toThrow(TypeError);
+
+    const [generator] = await getDb().select().from(schema.generators).where(eq(schema.generators.id, generatorId));
+    expect(generator.name).toBe('Shed Generator');
+
+    const retry = await withIdempotencyKey(generatorId, 'abc', 'toggle', WINDOW, async () => 'ok');
+    expect(retry).toEqual({ result: 'ok', replayed: false });
+  });
+
+  it('takes over a reservation abandoned without a response', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = new Date();
+    // What a request that crashed after reserving the key leaves behind
+    await getDb().insert(schema.idempotencyKeys).values({
+      generatorId,
+      key: 'abc',
+      action: 'toggle',
+      createdAt: new Date(now.getTime() - RESERVATION_LEASE_MS - 1),
+    });
+
+    const retry = await withIdempotencyKey(generatorId, 'abc', 'toggle', day, async () => 'ok', now);
+    expect(retry).toEqual({ result: 'ok', replayed: false });
+
+    const replay = await withIdempotencyKey(generatorId, 'abc', 'toggle', day, async () => 'again', now);
+    expect(replay).toEqual({ result: 'ok', replayed: true });
+  });
+});
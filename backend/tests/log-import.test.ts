@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { buildImportRows, parseCsv, parseDateTime } from '../src/services/log-import.js';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes, CRLF and blank lines', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n\r\n"multi\nline",z\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"'],
+      ['multi\nline', 'z'],
+    ]);
+  });
+});
+
+describe('parseDateTime', () => {
+  it('uses the offset of ISO timestamps as given', () => {
+    expect(parseDateTime('2024-09-28T14:30:00-04:00', 'UTC')?.toISOString()).toBe('2024-09-28T18:30:00.000Z');
+    expect(parseDateTime('2024-09-28T14:30:00Z', 'America/New_York')?.toISOString()).toBe('2024-09-28T14:30:00.000Z');
+  });
+
+  it('reads wall-clock times in the selected time zone', () => {
+    expect(parseDateTime('2024-09-28 14:30', 'America/New_York')?.toISOString()).toBe('2024-09-28T18:30:00.000Z');
+    expect(parseDateTime('2024-01-15 14:30', 'America/New_York')?.toISOString()).toBe('2024-01-15T19:30:00.000Z');
+    expect(parseDateTime('9/28/2024 2:30 PM', 'America/Chicago')?.toISOString()).toBe('2024-09-28T19:30:00.000Z');
+    expect(parseDateTime('9/28/2024 12:05 AM', 'UTC')?.toISOString()).toBe('2024-09-28T00:05:00.000Z');
+  });
+
+  it('resolves times just after a DST change', () => {
+    // US clocks went forward at 2:00 on 2024-03-10
+    expect(parseDateTime('2024-03-10 03:30', 'America/New_York')?.toISOString()).toBe('2024-03-10T07:30:00.000Z');
+    expect(parseDateTime('2024-03-10 01:30', 'America/New_York')?.toISOString()).toBe('2024-03-10T06:30:00.000Z');
+  });
+
+  it('rejects unrecognized and impossible values', () => {
+    expect(parseDateTime('yesterday', 'UTC')).toBeNull();
+    expect(parseDateTime('2024-02-30 10:00', 'UTC')).toBeNull();
+    expect(parseDateTime('2024-02-10 25:00', 'UTC')).toBeNull();
+    expect(parseDateTime('2/10/2024 13:00 PM', 'UTC')).toBeNull();
+  });
+});
+
+describe('buildImportRows', () => {
+  const at = (h: number) => new Date(Date.UTC(2024, 8, 28, h, 0, 0));
+
+  it('finds the start and end columns by header', () => {
+    const rows = buildImportRows('Notes,Start Time,End Time\nStorm,2024-09-28 10:00,2024-09-28 12:30\n', 'UTC', []);
+
+    expect(rows).toEqual([{
+      line: 2, startTime: at(10), endTime: new Date(Date.UTC(2024, 8, 28, 12, 30)), durationHours: 2.5, status: 'ok', message: null,
+    }]);
+  });
+
+  it('requires start and end columns', () => {
+    expect(() => buildImportRows('Date,Hours\n2024-09-28,3\n', 'UTC', [])).toThrow('CSV header must include start and end time columns');
+  });
+
+  it('flags invalid rows and overlaps with existing runs and earlier rows', () => {
+    const rows = buildImportRows([
+      'start,end',
+      '2024-09-28 10:00,2024-09-28 09:00',
+      '2024-09-28 01:00,2024-09-28 03:00',
+      '2024-09-28 05:00,2024-09-28 07:00',
+      '2024-09-28 06:00,2024-09-28 08:00',
+      'soon,2024-09-28 08:00',
+    ].join('\n'), 'UTC', [{ startTime: at(2), endTime: at(4) }]);
+
+    expect(rows.map(r => [r.line, r.status])).toEqual([
+      [2, 'invalid'],
+      [3, 'overlap'],
+      [4, 'ok'],
+      [5, 'overlap'],
+      [6, 'invalid'],
+    ]);
+    expect(rows[3].message).toBe('Overlaps an earlier row in this file');
+  });
+
+  it('treats a running log as open-ended', () => {
+    const rows = buildImportRows('start,end\n2024-09-28 10:00,2024-09-28 11:00\n', 'UTC', [{ startTime: at(8), endTime: null }]);
+
+    expect(rows[0].status).toBe('overlap');
+  });
+
+  it('applies the time checks for manually added runs', () => {
+    const rows = buildImportRows([
+      'start,end',
+      '2099-01-01 10:00,2099-01-01 11:00',
+      '2024-09-01 10:00,2024-09-28 10:00',
+    ].join('\n'), 'UTC', []);
+
+    expect(rows.map(r => [r.status, r.message])).toEqual([
+      ['invalid', 'Start time is in the future; End time is in the future'],
+      ['invalid', 'Runs longer than 336 hours are not accepted'],
+    ]);
+  });
+
+  it('flags rows over the live run even without an open log', () => {
+    const rows = buildImportRows('start,end\n2024-09-28 10:00,2024-09-28 11:00\n', 'UTC', [], at(9));
+
+    expect(rows[0]).toMatchObject({ status: 'overlap', message: 'Overlaps the run in progress' });
+  });
+});
+
+describe('POST /api/generators/:id/logs/import', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'import@example.com', name: 'Import User', password: TEST_PASSWORD },
+    });
+    testCookie = extractCookie(enrollResp.headers['set-cookie']);
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: { startTime: '2024-09-28T20:00:00.000Z', endTime: '2024-09-28T22:00:00.000Z' },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const CSV = [
+    'Start Time,End Time',
+    '9/27/2024 8:00 AM,9/27/2024 11:00 AM',
+    '9/28/2024 5:00 PM,9/28/2024 7:00 PM',
+  ].join('\n');
+
+  async function importCsv(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs/import`,
+      headers: { cookie: testCookie },
+      payload,
+    });
+  }
+
+  async function totalHours() {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}`,
+      headers: { cookie: testCookie },
+    });
+    return JSON.parse(response.body).totalHours;
+  }
+
+  it('rejects importing into an archived generator', async () => {
+    await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/archive`, headers: { cookie: testCookie } });
+
+    const response = await importCsv({ csv: CSV, timezone: 'America/New_York', skipOverlaps: true });
+
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body).error).toContain('archived');
+    expect(await totalHours()).toBe(2);
+  });
+
+  it('previews rows without inserting on a dry run', async () => {
+    const response = await importCsv({ csv: CSV, timezone: 'America/New_York', dryRun: true });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body).toMatchObject({ total: 2, valid: 1, invalid: 0, overlapping: 1 });
+    expect(body.rows[0].startTime).toBe('2024-09-27T12:00:00.000Z');
+    expect(body.rows[1].status).toBe('overlap');
+    expect(await totalHours()).toBeCloseTo(2, 5);
+  });
+
+  it('rejects overlapping rows unless asked to skip them', async () => {
+    const rejected = await importCsv({ csv: CSV, timezone: 'America/New_York' });
+    expect(rejected.statusCode).toBe(409);
+
+    const response = await importCsv({ csv: CSV, timezone: 'America/New_York', skipOverlaps: true });
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body)).toEqual({ imported: 1, skipped: 1 });
+    expect(await totalHours()).toBeCloseTo(5, 5);
+  });
+
+  it('flags rows over the live run', async () => {
+    await getDb()
+      .update(schema.generators)
+      .set({ isRunning: true, currentStartTime: new Date('2024-09-27T14:00:00.000Z') })
+      .where(eq(schema.generators.id, generatorId));
+
+    const response = await importCsv({ csv: CSV, timezone: 'America/New_York', dryRun: true });
+
+    const body = JSON.parse(response.body);
+    expect(body).toMatchObject({ valid: 0, overlapping: 2 });
+    expect(body.rows[0].message).toBe('Overlaps the run in progress');
+  });
+
+  it('rejects a file with invalid rows', async () => {
+    const response = await importCsv({ csv: 'start,end\n2024-09-01 10:00,not a time\n' });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).invalid).toBe(1);
+  });
+
+  it('rejects a file without start and end columns', async () => {
+    const response = await importCsv({ csv: 'Date,Hours\n2024-09-01,3\n' });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toBe('CSV header must include start and end time columns');
+  });
+
+  it('rejects an unknown time zone', async () => {
+    const response = await importCsv({ csv: CSV, timezone: 'Mars/Olympus_Mons' });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('returns 401 without authentication', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs/import`,
+      payload: { csv: CSV },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { maintenanceNotificationRoutes } from '../src/routes/maintenance-notifications.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { dispatchMaintenanceReminders } from '../src/services/reminders.js';
+import type { MailTransport } from '../src/services/email.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+const noopTransport: MailTransport = { async send() {} };
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+async function loginAs(app: FastifyInstance, email: string): Promise<string> {
+  const resp = await app.inject({
+    method: 'POST',
+    url: '/api/auth/login',
+    payload: { email, password: TEST_PASSWORD },
+  });
+  return extractCookie(resp.headers['set-cookie']);
+}
+
+describe('Maintenance Notification Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+  let notificationId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await maintenanceNotificationRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.maintenanceNotifications).execute();
+    await db.delete(schema.maintenanceTaskCompletions).execute();
+    await db.delete(schema.maintenanceTasks).execute();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'alerts@example.com', name: 'Alert User', password: TEST_PASSWORD },
+    });
+    testCookie = await loginAs(app, 'alerts@example.com');
+
+    // Installed over a year ago with no oil change logged, so the months threshold has fired
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator', oilChangeHours: 100, oilChangeMonths: 6, installedAt: '2025-01-01' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+
+    await dispatchMaintenanceReminders(noopTransport);
+    const [notification] = await db.select().from(schema.maintenanceNotifications);
+    notificationId = notification.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('GET /api/generators/:id/notifications', () => {
+    it('should list fired alerts with their reason and status', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/notifications`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body).toHaveLength(1);
+      expect(body[0].reason).toBe('months');
+      expect(body[0].taskName).toBe('Oil Change');
+      expect(body[0].status).toBe('open');
+      expect(body[0].recipient).toBe('alerts@example.com');
+      expect(body[0].sentAt).toBeDefined();
+    });
+
+    it('should return 401 without authentication', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/notifications`,
+      });
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return 404 for another user generator', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/api/auth/enroll',
+        payload: { email: 'other@alerts.com', password: TEST_PASSWORD },
+      });
+      const otherCookie = await loginAs(app, 'other@alerts.com');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/notifications`,
+        headers: { cookie: otherCookie },
+      });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /api/generators/:id/notifications/:notificationId/snooze', () => {
+    it('should snooze an alert for the requested number of days', async () => {
+      const before = Date.now();
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/${notificationId}/snooze`,
+        headers: { cookie: testCookie },
+        payload: { days: 7 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.status).toBe('snoozed');
+      const snoozedFor = new Date(body.snoozedUntil).getTime() - before;
+      expect(snoozedFor).toBeGreaterThanOrEqual(7 * 24 * 3_600_000 - 1000);
+      expect(snoozedFor).toBeLessThanOrEqual(7 * 24 * 3_600_000 + 5000);
+    });
+
+    it('should re-send the reminder once the snooze expires', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/${notificationId}/snooze`,
+        headers: { cookie: testCookie },
+        payload: { days: 3 },
+      });
+
+      const duringSnooze = await dispatchMaintenanceReminders(noopTransport);
+      expect(duringSnooze.sent).toBe(0);
+
+      const afterSnooze = await dispatchMaintenanceReminders(noopTransport, new Date(Date.now() + 4 * 24 * 3_600_000));
+      expect(afterSnooze.sent).toBe(1);
+    });
+
+    it('should reject invalid day counts', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/${notificationId}/snooze`,
+        headers: { cookie: testCookie },
+        payload: { days: 0 },
+      });
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 409 for an acknowledged alert', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/${notificationId}/acknowledge`,
+        headers: { cookie: testCookie },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/${notificationId}/snooze`,
+        headers: { cookie: testCookie },
+        payload: { days: 7 },
+      });
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should return 404 for non-existent alert', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/99999/snooze`,
+        headers: { cookie: testCookie },
+        payload: { days: 7 },
+      });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /api/generators/:id/notifications/:notificationId/acknowledge', () => {
+    it('should acknowledge an alert', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/${notificationId}/acknowledge`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.status).toBe('acknowledged');
+      expect(body.acknowledgedAt).not.toBeNull();
+    });
+
+    it('should stop further reminders for the current service cycle', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/${notificationId}/acknowledge`,
+        headers: { cookie: testCookie },
+      });
+
+      const result = await dispatchMaintenanceReminders(noopTransport, new Date(Date.now() + 30 * 24 * 3_600_000));
+      expect(result.sent).toBe(0);
+    });
+
+    it('should return 401 without authentication', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/notifications/${notificationId}/acknowledge`,
+      });
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
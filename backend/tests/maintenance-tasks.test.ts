@@ -0,0 +1,373 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { eq } from 'drizzle-orm';
+import { maintenanceTaskRoutes } from '../src/routes/maintenance-tasks.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+async function loginAs(app: FastifyInstance, email: string): Promise<string> {
+  const resp = await app.inject({
+    method: 'POST',
+    url: '/api/auth/login',
+    payload: { email, password: TEST_PASSWORD },
+  });
+  return extractCookie(resp.headers['set-cookie']);
+}
+
+describe('Maintenance Task Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await maintenanceTaskRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.maintenanceNotifications).execute();
+    await db.delete(schema.maintenanceTaskCompletions).execute();
+    await db.delete(schema.maintenanceTasks).execute();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'tasks@example.com', name: 'Task User', password: TEST_PASSWORD },
+    });
+    testCookie = await loginAs(app, 'tasks@example.com');
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator', oilChangeHours: 100, oilChangeMonths: 6 },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function createTask(payload: Record<string, unknown>) {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/maintenance-tasks`,
+      headers: { cookie: testCookie },
+      payload,
+    });
+    return JSON.parse(response.body);
+  }
+
+  describe('GET /api/generators/:id/maintenance-tasks', () => {
+    it('should include the oil change task created with the generator', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body).toHaveLength(1);
+      expect(body[0].kind).toBe('oil_change');
+      expect(body[0].name).toBe('Oil Change');
+      expect(body[0].intervalHours).toBe(100);
+      expect(body[0].intervalMonths).toBe(6);
+    });
+
+    it('should return 401 without authentication', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+      });
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return 404 for another user generator', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/api/auth/enroll',
+        payload: { email: 'other@tasks.com', password: TEST_PASSWORD },
+      });
+      const otherCookie = await loginAs(app, 'other@tasks.com');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: otherCookie },
+      });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /api/generators/:id/maintenance-tasks', () => {
+    it('should create a task with only an hours interval', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+        payload: { kind: 'valve_clearance', name: 'Valve Clearance', intervalHours: 300 },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.kind).toBe('valve_clearance');
+      expect(body.intervalHours).toBe(300);
+      expect(body.intervalMonths).toBeNull();
+      expect(body.lastCompletedAt).toBeNull();
+    });
+
+    it('should reject a task without any interval', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+        payload: { kind: 'air_filter', name: 'Air Filter' },
+      });
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject an unknown kind', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+        payload: { kind: 'carburetor', name: 'Carburetor', intervalMonths: 12 },
+      });
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 409 for a second oil change task', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+        payload: { kind: 'oil_change', name: 'Another Oil Change', intervalHours: 50 },
+      });
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('PUT /api/generators/:id/maintenance-tasks/:taskId', () => {
+    it('should update a task interval', async () => {
+      const task = await createTask({ kind: 'spark_plug', name: 'Spark Plug', intervalHours: 100, intervalMonths: 12 });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}`,
+        headers: { cookie: testCookie },
+        payload: { intervalHours: null },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.intervalHours).toBeNull();
+      expect(body.intervalMonths).toBe(12);
+    });
+
+    it('should mirror oil change intervals onto the generator', async () => {
+      const list = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+      });
+      const oilTask = JSON.parse(list.body)[0];
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${oilTask.id}`,
+        headers: { cookie: testCookie },
+        payload: { intervalHours: 150, intervalMonths: 9 },
+      });
+      expect(response.statusCode).toBe(200);
+
+      const db = getDb();
+      const [gen] = await db.select().from(schema.generators).where(eq(schema.generators.id, generatorId));
+      expect(gen.oilChangeHours).toBe(150);
+      expect(gen.oilChangeMonths).toBe(9);
+    });
+
+    it('should reject clearing an oil change interval', async () => {
+      const list = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+      });
+      const oilTask = JSON.parse(list.body)[0];
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${oilTask.id}`,
+        headers: { cookie: testCookie },
+        payload: { intervalMonths: null },
+      });
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/generators/:id/maintenance-tasks/:taskId', () => {
+    it('should delete a task', async () => {
+      const task = await createTask({ kind: 'air_filter', name: 'Air Filter', intervalHours: 50 });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}`,
+        headers: { cookie: testCookie },
+      });
+      expect(response.statusCode).toBe(204);
+
+      const list = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(list.body)).toHaveLength(1);
+    });
+
+    it('should refuse to delete the oil change task', async () => {
+      const list = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+      });
+      const oilTask = JSON.parse(list.body)[0];
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${oilTask.id}`,
+        headers: { cookie: testCookie },
+      });
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('completions', () => {
+    it('should record a completion and reset the task', async () => {
+      const db = getDb();
+      await db.update(schema.generators).set({ totalHours: 80 }).where(eq(schema.generators.id, generatorId));
+      const task = await createTask({ kind: 'air_filter', name: 'Air Filter', intervalHours: 50 });
+      expect(task.isDue).toBe(true);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}/completions`,
+        headers: { cookie: testCookie },
+        payload: { notes: 'Replaced foam element' },
+      });
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body).hoursAtCompletion).toBe(80);
+
+      const list = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+      });
+      const updated = JSON.parse(list.body).find((t: { id: number }) => t.id === task.id);
+      expect(updated.lastCompletedHours).toBe(80);
+      expect(updated.hoursSinceCompletion).toBe(0);
+      expect(updated.isDue).toBe(false);
+    });
+
+    it('should not touch the generator oil change fields for other tasks', async () => {
+      const task = await createTask({ kind: 'spark_plug', name: 'Spark Plug', intervalMonths: 12 });
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}/completions`,
+        headers: { cookie: testCookie },
+        payload: {},
+      });
+
+      const db = getDb();
+      const [gen] = await db.select().from(schema.generators).where(eq(schema.generators.id, generatorId));
+      expect(gen.lastOilChangeDate).toBeNull();
+    });
+
+    it('should revert the task to the previous completion after delete', async () => {
+      const task = await createTask({ kind: 'spark_plug', name: 'Spark Plug', intervalMonths: 12 });
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}/completions`,
+        headers: { cookie: testCookie },
+        payload: { performedAt: '2025-06-01T00:00:00.000Z' },
+      });
+      const second = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}/completions`,
+        headers: { cookie: testCookie },
+        payload: { performedAt: '2026-01-01T00:00:00.000Z' },
+      });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}/completions/${JSON.parse(second.body).id}`,
+        headers: { cookie: testCookie },
+      });
+      expect(response.statusCode).toBe(204);
+
+      const history = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}/completions`,
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(history.body)).toHaveLength(1);
+
+      const db = getDb();
+      const [updated] = await db.select().from(schema.maintenanceTasks).where(eq(schema.maintenanceTasks.id, task.id));
+      expect(updated.lastCompletedAt?.toISOString()).toBe('2025-06-01T00:00:00.000Z');
+    });
+
+    it('should reject a completion on an archived generator', async () => {
+      const task = await createTask({ kind: 'air_filter', name: 'Air Filter', intervalHours: 50 });
+      await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/archive`, headers: { cookie: testCookie } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${task.id}/completions`,
+        headers: { cookie: testCookie },
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toContain('archived');
+    });
+
+    it('should return 404 for a task on another generator', async () => {
+      const genResp = await app.inject({
+        method: 'POST',
+        url: '/api/generators',
+        headers: { cookie: testCookie },
+        payload: { name: 'Second Generator', oilChangeHours: 100, oilChangeMonths: 6 },
+      });
+      const otherGeneratorId = JSON.parse(genResp.body).id;
+      const task = await createTask({ kind: 'air_filter', name: 'Air Filter', intervalHours: 50 });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${otherGeneratorId}/maintenance-tasks/${task.id}/completions`,
+        headers: { cookie: testCookie },
+      });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { calculateHoursSinceOilChange, calculateMonthsSinceOilChange, shouldSendMaintenanceReminder } from '../src/services/maintenance.js';
+import { calculateHoursSinceOilChange, calculateMonthsSinceOilChange, getMaintenanceStatus, shouldSendMaintenanceReminder } from '../src/services/maintenance.js';
 
 describe('Maintenance calculations', () => {
   describe('calculateHoursSinceOilChange', () => {
@@ -25,6 +25,15 @@ describe('Maintenance calculations', () => {
       const hoursSinceChange = calculateHoursSinceOilChange(100, undefined);
       expect(hoursSinceChange).toBe(100);
     });
+
+    it('counts from the initial hours when no oil change was recorded since', () => {
+      expect(calculateHoursSinceOilChange(330, 0, 300)).toBe(30);
+      expect(calculateHoursSinceOilChange(330, null, 300)).toBe(30);
+    });
+
+    it('prefers an oil change recorded after the initial hours', () => {
+      expect(calculateHoursSinceOilChange(330, 320, 300)).toBe(10);
+    });
   });
 
   describe('calculateMonthsSinceOilChange', () => {
@@ -187,4 +196,70 @@ describe('Maintenance calculations', () => {
       expect(shouldRemind).toBe(true); // 8 months > 6 month threshold
     });
   });
+
+  describe('getMaintenanceStatus', () => {
+    const now = new Date(Date.UTC(2026, 5, 1)); // Jun 1, 2026
+
+    it('is due by hours for an hours-only task', () => {
+      const status = getMaintenanceStatus(
+        { intervalHours: 300, intervalMonths: null, lastCompletedAt: null, lastCompletedHours: 100 },
+        450,
+        now
+      );
+
+      expect(status.hoursSinceCompletion).toBe(350);
+      expect(status.hoursDue).toBe(true);
+      expect(status.monthsDue).toBe(false);
+      expect(status.isDue).toBe(true);
+    });
+
+    it('never becomes due by months when the task has no month interval', () => {
+      // No completion and no install date yields the 999 months sentinel
+      const status = getMaintenanceStatus(
+        { intervalHours: 300, intervalMonths: null, lastCompletedAt: null, lastCompletedHours: null },
+        10,
+        now
+      );
+
+      expect(status.monthsSinceCompletion).toBe(999);
+      expect(status.isDue).toBe(false);
+    });
+
+    it('is due by months for a months-only task', () => {
+      const status = getMaintenanceStatus(
+        { intervalHours: null, intervalMonths: 3, lastCompletedAt: new Date(Date.UTC(2026, 1, 1)), lastCompletedHours: 0 },
+        5000,
+        now
+      );
+
+      expect(status.monthsSinceCompletion).toBe(4);
+      expect(status.hoursDue).toBe(false);
+      expect(status.monthsDue).toBe(true);
+    });
+
+    it('does not count initial hours towards a task never completed', () => {
+      const status = getMaintenanceStatus(
+        { intervalHours: 100, intervalMonths: null, lastCompletedAt: null, lastCompletedHours: null },
+        450,
+        now,
+        null,
+        400
+      );
+
+      expect(status.hoursSinceCompletion).toBe(50);
+      expect(status.isDue).toBe(false);
+    });
+
+    it('falls back to installedAt when the task was never completed', () => {
+      const status = getMaintenanceStatus(
+        { intervalHours: null, intervalMonths: 12, lastCompletedAt: null, lastCompletedHours: null },
+        0,
+        now,
+        new Date(Date.UTC(2026, 0, 1))
+      );
+
+      expect(status.monthsSinceCompletion).toBe(5);
+      expect(status.isDue).toBe(false);
+    });
+  });
 });
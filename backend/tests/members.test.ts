@@ -0,0 +1,416 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { eq, sql } from 'drizzle-orm';
+import { memberRoutes } from '../src/routes/members.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { apiKeyRoutes } from '../src/routes/api-keys.js';
+import { auditRoutes } from '../src/routes/audit.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import type { MailMessage, MailTransport } from '../src/services/email.js';
+import { dispatchMaintenanceReminders } from '../src/services/reminders.js';
+import { updateMemberRole } from '../src/services/membership.js';
+import { SYSTEM_ACTOR } from '../src/services/audit.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+async function enrollAndLogin(app: FastifyInstance, email: string, name: string): Promise<string> {
+  await app.inject({
+    method: 'POST',
+    url: '/api/auth/enroll',
+    payload: { email, name, password: TEST_PASSWORD },
+  });
+  const resp = await app.inject({
+    method: 'POST',
+    url: '/api/auth/login',
+    payload: { email, password: TEST_PASSWORD },
+  });
+  return extractCookie(resp.headers['set-cookie']);
+}
+
+describe('Generator Member Routes', () => {
+  let app: FastifyInstance;
+  let sent: MailMessage[];
+  let ownerCookie: string;
+  let partnerCookie: string;
+  let partnerId: number;
+  let generatorId: number;
+
+  async function invite(email: string, role: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/invites`,
+      headers: { cookie: ownerCookie },
+      payload: { email, role },
+    });
+  }
+
+  async function inviteAndAccept(role: string) {
+    const resp = await invite('partner@example.com', role);
+    const { token } = JSON.parse(resp.body);
+    return app.inject({
+      method: 'POST',
+      url: `/api/invites/${token}/accept`,
+      headers: { cookie: partnerCookie },
+    });
+  }
+
+  beforeEach(async () => {
+    sent = [];
+    const transport: MailTransport = { async send(message) { sent.push(message); } };
+
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await apiKeyRoutes(app);
+    await memberRoutes(app, transport);
+    await auditRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    ownerCookie = await enrollAndLogin(app, 'owner@example.com', 'Owner');
+    partnerCookie = await enrollAndLogin(app, 'partner@example.com', 'Partner');
+    const [partner] = await db.select().from(schema.users).where(eq(schema.users.email, 'partner@example.com'));
+    partnerId = partner.id;
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: ownerCookie },
+      payload: { name: 'House Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('POST /api/generators/:id/invites', () => {
+    it('should create an invite, email the link and return the token once', async () => {
+      const response = await invite('Partner@Example.com', 'operator');
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.email).toBe('partner@example.com');
+      expect(body.role).toBe('operator');
+      expect(body.token).toBeTruthy();
+      expect(body.inviteUrl).toMatch(new RegExp(`/invites/${body.token}$`));
+      expect(body.emailSent).toBe(true);
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('partner@example.com');
+      expect(sent[0].text).toContain(body.inviteUrl);
+
+      const list = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/invites`,
+        headers: { cookie: ownerCookie },
+      });
+      const invites = JSON.parse(list.body);
+      expect(invites).toHaveLength(1);
+      expect(invites[0].token).toBeUndefined();
+    });
+
+    it('should reject invites from users who are not owners', async () => {
+      await inviteAndAccept('operator');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/invites`,
+        headers: { cookie: partnerCookie },
+        payload: { email: 'someone@example.com', role: 'viewer' },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject inviting an existing member', async () => {
+      const response = await invite('owner@example.com', 'viewer');
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('POST /api/invites/:token/accept', () => {
+    it('should add the user as a member with the invited role', async () => {
+      const response = await inviteAndAccept('operator');
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ generatorId, role: 'operator' });
+
+      const list = await app.inject({ method: 'GET', url: '/api/generators', headers: { cookie: partnerCookie } });
+      const generators = JSON.parse(list.body);
+      expect(generators).toHaveLength(1);
+      expect(generators[0]).toMatchObject({ id: generatorId, role: 'operator' });
+    });
+
+    it('should only accept each invite once', async () => {
+      const resp = await invite('partner@example.com', 'viewer');
+      const { token } = JSON.parse(resp.body);
+      await app.inject({ method: 'POST', url: `/api/invites/${token}/accept`, headers: { cookie: partnerCookie } });
+
+      const again = await app.inject({ method: 'POST', url: `/api/invites/${token}/accept`, headers: { cookie: partnerCookie } });
+      expect(again.statusCode).toBe(409);
+    });
+
+    it('should reject an invite sent to another email', async () => {
+      const resp = await invite('someone@example.com', 'viewer');
+      const { token } = JSON.parse(resp.body);
+
+      const response = await app.inject({ method: 'POST', url: `/api/invites/${token}/accept`, headers: { cookie: partnerCookie } });
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject an expired invite', async () => {
+      const resp = await invite('partner@example.com', 'viewer');
+      const { id, token } = JSON.parse(resp.body);
+      await getDb()
+        .update(schema.generatorInvites)
+        .set({ expiresAt: new Date(Date.now() - 1000) })
+        .where(eq(schema.generatorInvites.id, id));
+
+      const response = await app.inject({ method: 'POST', url: `/api/invites/${token}/accept`, headers: { cookie: partnerCookie } });
+      expect(response.statusCode).toBe(410);
+    });
+
+    it('should return 404 for an unknown or revoked token', async () => {
+      const resp = await invite('partner@example.com', 'viewer');
+      const { id, token } = JSON.parse(resp.body);
+
+      const revoke = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/invites/${id}`,
+        headers: { cookie: ownerCookie },
+      });
+      expect(revoke.statusCode).toBe(204);
+
+      const response = await app.inject({ method: 'POST', url: `/api/invites/${token}/accept`, headers: { cookie: partnerCookie } });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /api/invites/:token', () => {
+    it('should describe the invite before it is accepted', async () => {
+      const resp = await invite('partner@example.com', 'viewer');
+      const { token } = JSON.parse(resp.body);
+
+      const response = await app.inject({ method: 'GET', url: `/api/invites/${token}`, headers: { cookie: partnerCookie } });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({
+        generatorName: 'House Generator',
+        role: 'viewer',
+        invitedBy: 'Owner',
+        accepted: false,
+        expired: false,
+      });
+    });
+  });
+
+  describe('role checks', () => {
+    it('should let viewers look but not toggle', async () => {
+      await inviteAndAccept('viewer');
+
+      const get = await app.inject({ method: 'GET', url: `/api/generators/${generatorId}`, headers: { cookie: partnerCookie } });
+      expect(get.statusCode).toBe(200);
+      expect(JSON.parse(get.body).role).toBe('viewer');
+
+      const toggle = await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/toggle`, headers: { cookie: partnerCookie } });
+      expect(toggle.statusCode).toBe(403);
+    });
+
+    it('should let operators toggle but not change settings', async () => {
+      await inviteAndAccept('operator');
+
+      const toggle = await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/toggle`, headers: { cookie: partnerCookie } });
+      expect(toggle.statusCode).toBe(200);
+
+      const update = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: partnerCookie },
+        payload: { name: 'Renamed' },
+      });
+      expect(update.statusCode).toBe(403);
+    });
+
+    it('should hide generators from users who are not members', async () => {
+      const response = await app.inject({ method: 'GET', url: `/api/generators/${generatorId}`, headers: { cookie: partnerCookie } });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('members', () => {
+    it('should list members with their roles', async () => {
+      await inviteAndAccept('viewer');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/members`,
+        headers: { cookie: partnerCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const members = JSON.parse(response.body);
+      expect(members.map((m: any) => [m.email, m.role])).toEqual([
+        ['owner@example.com', 'owner'],
+        ['partner@example.com', 'viewer'],
+      ]);
+    });
+
+    it('should let an owner change a member role', async () => {
+      await inviteAndAccept('viewer');
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/members/${partnerId}`,
+        headers: { cookie: ownerCookie },
+        payload: { role: 'owner' },
+      });
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).role).toBe('owner');
+
+      const update = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: partnerCookie },
+        payload: { name: 'Renamed' },
+      });
+      expect(update.statusCode).toBe(200);
+    });
+
+    it('should not let the last owner step down', async () => {
+      const db = getDb();
+      const [owner] = await db.select().from(schema.users).where(eq(schema.users.email, 'owner@example.com'));
+
+      const demote = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/members/${owner.id}`,
+        headers: { cookie: ownerCookie },
+        payload: { role: 'operator' },
+      });
+      expect(demote.statusCode).toBe(409);
+
+      const leave = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/members/${owner.id}`,
+        headers: { cookie: ownerCookie },
+      });
+      expect(leave.statusCode).toBe(409);
+    });
+
+    it('should keep an owner when two owners step each other down at once', async () => {
+      await inviteAndAccept('owner');
+      const db = getDb();
+      const [owner] = await db.select().from(schema.users).where(eq(schema.users.email, 'owner@example.com'));
+      const [generator] = await db.select().from(schema.generators).where(eq(schema.generators.id, generatorId));
+
+      // Open pool connections first so both transactions start together
+      await Promise.all([1, 2, 3].map(() => db.execute(sql`select pg_sleep(0.05)`)));
+      const results = await Promise.allSettled([
+        updateMemberRole(generator, partnerId, 'viewer', SYSTEM_ACTOR),
+        updateMemberRole(generator, owner.id, 'viewer', SYSTEM_ACTOR),
+      ]);
+
+      expect(results.filter(r => r.status === 'rejected')).toHaveLength(1);
+      const owners = await db
+        .select()
+        .from(schema.generatorMembers)
+        .where(eq(schema.generatorMembers.role, 'owner'));
+      expect(owners).toHaveLength(1);
+    });
+
+    it('should revoke a removed member\'s API keys for the generator', async () => {
+      await inviteAndAccept('operator');
+      const keyResp = await app.inject({
+        method: 'POST',
+        url: '/api/api-keys',
+        headers: { cookie: partnerCookie },
+        payload: { name: 'Partner Shortcut', generatorId },
+      });
+      expect(keyResp.statusCode).toBe(201);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/members/${partnerId}`,
+        headers: { cookie: ownerCookie },
+      });
+      expect(response.statusCode).toBe(204);
+
+      const keys = await getDb().select().from(schema.apiKeys).where(eq(schema.apiKeys.userId, partnerId));
+      expect(keys).toHaveLength(0);
+
+      const get = await app.inject({ method: 'GET', url: `/api/generators/${generatorId}`, headers: { cookie: partnerCookie } });
+      expect(get.statusCode).toBe(404);
+    });
+
+    it('should let a member leave but not remove others', async () => {
+      await inviteAndAccept('operator');
+      const db = getDb();
+      const [owner] = await db.select().from(schema.users).where(eq(schema.users.email, 'owner@example.com'));
+
+      const removeOwner = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/members/${owner.id}`,
+        headers: { cookie: partnerCookie },
+      });
+      expect(removeOwner.statusCode).toBe(403);
+
+      const leave = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/members/${partnerId}`,
+        headers: { cookie: partnerCookie },
+      });
+      expect(leave.statusCode).toBe(204);
+    });
+  });
+
+  describe('after the creator is removed', () => {
+    beforeEach(async () => {
+      await inviteAndAccept('owner');
+      const [owner] = await getDb().select().from(schema.users).where(eq(schema.users.email, 'owner@example.com'));
+
+      const remove = await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/members/${owner.id}`,
+        headers: { cookie: partnerCookie },
+      });
+      expect(remove.statusCode).toBe(204);
+    });
+
+    it('should show the generator\'s activity only to current members', async () => {
+      const creatorAudit = await app.inject({ method: 'GET', url: '/api/audit', headers: { cookie: ownerCookie } });
+      const partnerAudit = await app.inject({ method: 'GET', url: '/api/audit', headers: { cookie: partnerCookie } });
+
+      const forGenerator = (body: string) =>
+        JSON.parse(body).filter((e: { generatorId: number }) => e.generatorId === generatorId);
+      expect(forGenerator(creatorAudit.body)).toEqual([]);
+      expect(forGenerator(partnerAudit.body).map((e: { action: string }) => e.action)).toEqual(
+        expect.arrayContaining(['generator.create', 'generator_member.remove'])
+      );
+    });
+
+    it('should send maintenance reminders to the remaining owners', async () => {
+      const reminders: MailMessage[] = [];
+
+      // A generator without an oil change or install date is always due
+      await dispatchMaintenanceReminders({ async send(message) { reminders.push(message); } });
+
+      expect(reminders.map(m => m.to)).toEqual(['partner@example.com']);
+    });
+  });
+});
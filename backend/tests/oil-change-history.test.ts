@@ -37,7 +37,8 @@ describe('Oil Change History Routes', () => {
     await app.ready();
 
     const db = getDb();
-    await db.delete(schema.oilChangeHistory).execute();
+    await db.delete(schema.maintenanceTaskCompletions).execute();
+    await db.delete(schema.maintenanceTasks).execute();
     await db.delete(schema.usageLogs).execute();
     await db.delete(schema.apiKeys).execute();
     await db.delete(schema.generators).execute();
@@ -144,6 +145,19 @@ describe('Oil Change History Routes', () => {
       expect(body.notes).toBe('Used synthetic 5W-30');
     });
 
+    it('should reject an oil change on an archived generator', async () => {
+      await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/archive`, headers: { cookie: testCookie } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/oil-changes`,
+        headers: { cookie: testCookie },
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
     it('should create oil change with default performedAt (now)', async () => {
       const before = new Date();
 
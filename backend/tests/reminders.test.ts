@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:net';
+import { eq } from 'drizzle-orm';
+import { dispatchMaintenanceReminders } from '../src/services/reminders.js';
+import { createSmtpTransport, type MailMessage, type MailTransport } from '../src/services/email.js';
+import { ensureOilChangeTask } from '../src/services/maintenance-tasks.js';
+import { addOwnerMembership } from '../src/services/membership.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const NOW = new Date(Date.UTC(2026, 5, 1)); // Jun 1, 2026
+
+function createRecordingTransport(): MailTransport & { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    async send(message: MailMessage) {
+      sent.push(message);
+    },
+  };
+}
+
+// Minimal SMTP sink: accepts a single message and captures the DATA section
+function startSmtpSink(): Promise<{ server: Server; port: number; messages: string[] }> {
+  const messages: string[] = [];
+  const server = createServer(socket => {
+    let inData = false;
+    let buffer = '';
+    let data = '';
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let idx;
+      while ((idx = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data);
+            data = '';
+            socket.write('250 queued\r\n');
+          } else {
+            data += line + '\n';
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 sink\r\n');
+        } else if (/^DATA/i.test(line)) {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      resolve({ server, port: typeof address === 'object' && address ? address.port : 0, messages });
+    });
+  });
+}
+
+describe('Maintenance reminder dispatcher', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    const db = getDb();
+    await db.delete(schema.maintenanceNotifications).execute();
+    await db.delete(schema.maintenanceTaskCompletions).execute();
+    await db.delete(schema.maintenanceTasks).execute();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const [user] = await db
+      .insert(schema.users)
+      .values({ email: 'reminders@example.com', passwordHash: 'unused' })
+      .returning();
+    userId = user.id;
+  });
+
+  async function createGenerator(values: Partial<typeof schema.generators.$inferInsert>) {
+    const db = getDb();
+    const [generator] = await db
+      .insert(schema.generators)
+      .values({ userId, name: 'Shed Generator', oilChangeHours: 100, oilChangeMonths: 6, ...values })
+      .returning();
+    await addOwnerMembership(db, generator.id, userId);
+    await ensureOilChangeTask(db, generator);
+    return generator;
+  }
+
+  it('emails the owner when the hours threshold is reached', async () => {
+    const generator = await createGenerator({
+      totalHours: 150,
+      lastOilChangeHours: 40,
+      lastOilChangeDate: new Date(Date.UTC(2026, 3, 1)),
+    });
+    const transport = createRecordingTransport();
+
+    const result = await dispatchMaintenanceReminders(transport, NOW);
+
+    expect(result).toEqual({ sent: 1, failed: 0 });
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toBe('reminders@example.com');
+    expect(transport.sent[0].subject).toBe('Oil Change due: Shed Generator');
+    expect(transport.sent[0].text).toContain('110.0');
+
+    const db = getDb();
+    const [record] = await db
+      .select()
+      .from(schema.maintenanceNotifications)
+      .where(eq(schema.maintenanceNotifications.generatorId, generator.id));
+    expect(record.reason).toBe('hours');
+    expect(record.hoursSinceChange).toBe(110);
+    expect(record.monthsSinceChange).toBe(2);
+    expect(record.recipient).toBe('reminders@example.com');
+  });
+
+  it('records months as the reason when only the calendar interval has passed', async () => {
+    await createGenerator({
+      totalHours: 10,
+      lastOilChangeHours: 5,
+      lastOilChangeDate: new Date(Date.UTC(2025, 5, 1)),
+    });
+    const transport = createRecordingTransport();
+
+    await dispatchMaintenanceReminders(transport, NOW);
+
+    const db = getDb();
+    const [record] = await db.select().from(schema.maintenanceNotifications);
+    expect(record.reason).toBe('months');
+    expect(record.monthsSinceChange).toBe(12);
+  });
+
+  it('does not email generators that are not due', async () => {
+    await createGenerator({
+      totalHours: 20,
+      lastOilChangeHours: 10,
+      lastOilChangeDate: new Date(Date.UTC(2026, 3, 1)),
+    });
+    const transport = createRecordingTransport();
+
+    const result = await dispatchMaintenanceReminders(transport, NOW);
+
+    expect(result.sent).toBe(0);
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('does not email archived generators', async () => {
+    await createGenerator({
+      totalHours: 150,
+      lastOilChangeHours: 40,
+      lastOilChangeDate: new Date(Date.UTC(2026, 3, 1)),
+      archivedAt: new Date(Date.UTC(2026, 4, 1)),
+    });
+    const transport = createRecordingTransport();
+
+    const result = await dispatchMaintenanceReminders(transport, NOW);
+
+    expect(result.sent).toBe(0);
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('sends only one reminder per oil change cycle', async () => {
+    await createGenerator({ totalHours: 150, lastOilChangeHours: 0, installedAt: new Date(Date.UTC(2026, 4, 1)) });
+    const transport = createRecordingTransport();
+
+    await dispatchMaintenanceReminders(transport, NOW);
+    const second = await dispatchMaintenanceReminders(transport, new Date(NOW.getTime() + 3_600_000));
+
+    expect(second.sent).toBe(0);
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('sends a new reminder once an oil change has been logged and the generator is due again', async () => {
+    const generator = await createGenerator({
+      totalHours: 150,
+      lastOilChangeHours: 20,
+      lastOilChangeDate: new Date(Date.UTC(2026, 3, 1)),
+    });
+    const transport = createRecordingTransport();
+    await dispatchMaintenanceReminders(transport, NOW);
+
+    const db = getDb();
+    await db
+      .update(schema.maintenanceTasks)
+      .set({ lastCompletedHours: 150, lastCompletedAt: new Date(Date.UTC(2026, 4, 1)) })
+      .where(eq(schema.maintenanceTasks.generatorId, generator.id));
+    await db
+      .update(schema.generators)
+      .set({ totalHours: 300 })
+      .where(eq(schema.generators.id, generator.id));
+
+    const result = await dispatchMaintenanceReminders(transport, NOW);
+
+    expect(result.sent).toBe(1);
+    expect(transport.sent).toHaveLength(2);
+  });
+
+  it('emails each due task separately', async () => {
+    const generator = await createGenerator({
+      totalHours: 20,
+      lastOilChangeHours: 10,
+      lastOilChangeDate: new Date(Date.UTC(2026, 3, 1)),
+    });
+    const db = getDb();
+    const [task] = await db
+      .insert(schema.maintenanceTasks)
+      .values({
+        generatorId: generator.id,
+        kind: 'fuel_stabilizer',
+        name: 'Fuel Stabilizer',
+        intervalMonths: 3,
+        lastCompletedAt: new Date(Date.UTC(2026, 0, 15)),
+      })
+      .returning();
+    const transport = createRecordingTransport();
+
+    const result = await dispatchMaintenanceReminders(transport, NOW);
+
+    expect(result.sent).toBe(1);
+    expect(transport.sent[0].subject).toBe('Fuel Stabilizer due: Shed Generator');
+    expect(transport.sent[0].text).toContain('Months since last fuel stabilizer: 5 (interval: 3)');
+    expect(transport.sent[0].text).not.toContain('Hours since');
+
+    const [record] = await db.select().from(schema.maintenanceNotifications);
+    expect(record.taskId).toBe(task.id);
+    expect(record.reason).toBe('months');
+  });
+
+  it('retries on the next run when the transport fails', async () => {
+    await createGenerator({ totalHours: 150, lastOilChangeHours: 0, lastOilChangeDate: new Date(Date.UTC(2026, 3, 1)) });
+    const errors: number[] = [];
+    const failing: MailTransport = {
+      async send() {
+        throw new Error('SMTP unavailable');
+      },
+    };
+
+    const failed = await dispatchMaintenanceReminders(failing, NOW, (_error, generatorId) => errors.push(generatorId));
+    expect(failed).toEqual({ sent: 0, failed: 1 });
+    expect(errors).toHaveLength(1);
+
+    const transport = createRecordingTransport();
+    const retried = await dispatchMaintenanceReminders(transport, NOW);
+    expect(retried.sent).toBe(1);
+  });
+});
+
+describe('SMTP transport', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+
+  beforeEach(async () => {
+    sink = await startSmtpSink();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => sink.server.close(resolve));
+  });
+
+  it('delivers a message to the configured SMTP server', async () => {
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port: sink.port,
+      user: '',
+      password: '',
+      from: 'GeneratorLog <noreply@generatorlog.test>',
+      secure: false,
+    });
+
+    await transport.send({ to: 'owner@example.com', subject: 'Oil change due: Shed', text: 'Change the oil.' });
+
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0]).toContain('To: owner@example.com');
+    expect(sink.messages[0]).toContain('Subject: Oil change due: Shed');
+    expect(sink.messages[0]).toContain('Change the oil.');
+  });
+});
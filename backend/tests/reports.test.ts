@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { reportRoutes } from '../src/routes/reports.js';
+import { fuelRoutes } from '../src/routes/fuel.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { buildCostReport, priceAt } from '../src/services/costs.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+function day(month: number, date: number, hour = 0): Date {
+  return new Date(Date.UTC(2026, month - 1, date, hour, 0, 0));
+}
+
+describe('priceAt', () => {
+  const prices = [
+    { pricePerGallon: 3, effectiveFrom: day(1, 1) },
+    { pricePerGallon: 4, effectiveFrom: day(3, 1) },
+  ];
+
+  it('uses the latest price effective at the given time', () => {
+    expect(priceAt(prices, day(2, 15))).toBe(3);
+    expect(priceAt(prices, day(3, 1))).toBe(4);
+    expect(priceAt(prices, day(6, 1))).toBe(4);
+  });
+
+  it('returns null before the first price', () => {
+    expect(priceAt(prices, new Date(Date.UTC(2025, 11, 31)))).toBeNull();
+  });
+});
+
+describe('buildCostReport', () => {
+  const prices = [
+    { pricePerGallon: 3, effectiveFrom: day(1, 1) },
+    { pricePerGallon: 4, effectiveFrom: day(2, 1) },
+  ];
+
+  it('costs each run at the price in effect when it started, grouped by month', () => {
+    const report = buildCostReport([
+      { startTime: day(1, 10), durationHours: 2 },
+      { startTime: day(1, 20), durationHours: 4 },
+      { startTime: day(2, 5), durationHours: 1 },
+    ], prices, 0.5);
+
+    expect(report.months).toEqual([
+      { month: '2026-01', runs: 2, hours: 6, gallons: 3, cost: 9, unpricedRuns: 0 },
+      { month: '2026-02', runs: 1, hours: 1, gallons: 0.5, cost: 2, unpricedRuns: 0 },
+    ]);
+    expect(report.totals).toEqual({ runs: 3, hours: 7, gallons: 3.5, cost: 11, unpricedRuns: 0 });
+  });
+
+  it('counts runs before the first price as unpriced', () => {
+    const report = buildCostReport([{ startTime: new Date(Date.UTC(2025, 11, 20)), durationHours: 2 }], prices, 0.5);
+
+    expect(report.totals).toEqual({ runs: 1, hours: 2, gallons: 1, cost: 0, unpricedRuns: 1 });
+  });
+
+  it('reports only hours without a burn rate', () => {
+    const report = buildCostReport([{ startTime: day(1, 10), durationHours: 2 }], prices, null);
+
+    expect(report.totals).toEqual({ runs: 1, hours: 2, gallons: null, cost: null, unpricedRuns: 0 });
+  });
+
+  it('skips open runs', () => {
+    const report = buildCostReport([{ startTime: day(1, 10), durationHours: null }], prices, 0.5);
+
+    expect(report.months).toEqual([]);
+    expect(report.totals.runs).toBe(0);
+  });
+});
+
+describe('Report Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await fuelRoutes(app);
+    await reportRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.fuelPrices).execute();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'reports@example.com', name: 'Report User', password: TEST_PASSWORD },
+    });
+    testCookie = extractCookie(enrollResp.headers['set-cookie']);
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+
+    await app.inject({
+      method: 'PUT',
+      url: `/api/generators/${generatorId}`,
+      headers: { cookie: testCookie },
+      payload: { fuelBurnRate: 0.5 },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function addPrice(pricePerGallon: number, effectiveFrom: Date) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/fuel-prices`,
+      headers: { cookie: testCookie },
+      payload: { pricePerGallon, effectiveFrom: effectiveFrom.toISOString() },
+    });
+  }
+
+  async function addRun(start: Date, hours: number) {
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: {
+        startTime: start.toISOString(),
+        endTime: new Date(start.getTime() + hours * 60 * 60 * 1000).toISOString(),
+      },
+    });
+  }
+
+  it('records fuel prices and lists them newest first', async () => {
+    const created = await addPrice(3.25, day(1, 1));
+    await addPrice(3.75, day(3, 1));
+
+    expect(created.statusCode).toBe(201);
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/fuel-prices`,
+      headers: { cookie: testCookie },
+    });
+    expect(JSON.parse(response.body).map((p: { pricePerGallon: number }) => p.pricePerGallon)).toEqual([3.75, 3.25]);
+  });
+
+  it('deletes a fuel price', async () => {
+    const created = await addPrice(3.25, day(1, 1));
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/generators/${generatorId}/fuel-prices/${JSON.parse(created.body).id}`,
+      headers: { cookie: testCookie },
+    });
+
+    expect(response.statusCode).toBe(204);
+  });
+
+  it('rejects a non-positive price', async () => {
+    const response = await addPrice(0, day(1, 1));
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('returns the monthly cost report', async () => {
+    await addPrice(4, day(1, 1));
+    await addRun(day(1, 10), 2);
+    await addRun(day(2, 10), 3);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/reports/costs`,
+      headers: { cookie: testCookie },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.months.map((m: { month: string }) => m.month)).toEqual(['2026-01', '2026-02']);
+    expect(body.months[0].cost).toBeCloseTo(4, 5);
+    expect(body.totals.gallons).toBeCloseTo(2.5, 5);
+    expect(body.totals.cost).toBeCloseTo(10, 5);
+  });
+
+  it('limits the report to the requested range', async () => {
+    await addPrice(4, day(1, 1));
+    await addRun(day(1, 10), 2);
+    await addRun(day(2, 10), 3);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/reports/costs?from=${day(2, 1).toISOString()}&to=${day(3, 1).toISOString()}`,
+      headers: { cookie: testCookie },
+    });
+
+    const body = JSON.parse(response.body);
+    expect(body.months).toHaveLength(1);
+    expect(body.totals.hours).toBeCloseTo(3, 5);
+  });
+
+  it('rejects an inverted range', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/reports/costs?from=${day(3, 1).toISOString()}&to=${day(2, 1).toISOString()}`,
+      headers: { cookie: testCookie },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('returns 401 without authentication', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/reports/costs`,
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
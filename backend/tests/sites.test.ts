@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { siteRoutes } from '../src/routes/sites.js';
+import { memberRoutes } from '../src/routes/members.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+function day(month: number, date: number, hour = 0): Date {
+  return new Date(Date.UTC(2026, month - 1, date, hour, 0, 0));
+}
+
+// Generators without an install date or oil change count as never serviced, so due
+const INSTALLED_TODAY = { installedAt: new Date().toISOString().slice(0, 10) };
+const INSTALLED_LONG_AGO = { installedAt: '2020-01-01' };
+
+describe('Site Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let siteId: number;
+
+  async function enroll(email: string): Promise<string> {
+    const resp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email, name: 'Site User', password: TEST_PASSWORD },
+    });
+    return extractCookie(resp.headers['set-cookie']);
+  }
+
+  async function createGenerator(name: string, payload: Record<string, unknown> = {}, cookie = testCookie) {
+    const resp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie },
+      payload: { name, ...payload },
+    });
+    return JSON.parse(resp.body);
+  }
+
+  async function addRun(generatorId: number, start: Date, hours: number) {
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: {
+        startTime: start.toISOString(),
+        endTime: new Date(start.getTime() + hours * 60 * 60 * 1000).toISOString(),
+      },
+    });
+  }
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await memberRoutes(app);
+    await siteRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sites).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    testCookie = await enroll('sites@example.com');
+
+    const siteResp = await app.inject({
+      method: 'POST',
+      url: '/api/sites',
+      headers: { cookie: testCookie },
+      payload: { name: 'Lake House', address: '1 Shore Rd' },
+    });
+    siteId = JSON.parse(siteResp.body).id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('POST /api/sites', () => {
+    it('should create a site owned by the user', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sites',
+        headers: { cookie: testCookie },
+        payload: { name: 'Warehouse' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body)).toMatchObject({ name: 'Warehouse', address: null, isOwner: true });
+    });
+
+    it('should reject a site without a name', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sites',
+        headers: { cookie: testCookie },
+        payload: { name: '' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('assigning generators', () => {
+    it('should create a generator in a site and filter the generator list by site', async () => {
+      const inSite = await createGenerator('Boathouse', { siteId });
+      await createGenerator('Elsewhere');
+
+      expect(inSite.siteId).toBe(siteId);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/generators?siteId=${siteId}`,
+        headers: { cookie: testCookie },
+      });
+      const generators = JSON.parse(response.body);
+      expect(generators.map((g: any) => g.name)).toEqual(['Boathouse']);
+    });
+
+    it('should move a generator between sites with PUT /api/generators/:id', async () => {
+      const generator = await createGenerator('Cabin');
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generator.id}`,
+        headers: { cookie: testCookie },
+        payload: { siteId },
+      });
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).siteId).toBe(siteId);
+
+      const cleared = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generator.id}`,
+        headers: { cookie: testCookie },
+        payload: { siteId: null },
+      });
+      expect(JSON.parse(cleared.body).siteId).toBeNull();
+    });
+
+    it('should not assign a generator to another user\'s site', async () => {
+      const otherCookie = await enroll('other@example.com');
+      const generator = await createGenerator('Theirs', {}, otherCookie);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generator.id}`,
+        headers: { cookie: otherCookie },
+        payload: { siteId },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('Site not found');
+    });
+  });
+
+  describe('GET /api/sites', () => {
+    it('should summarize running generators and due maintenance per site', async () => {
+      const running = await createGenerator('Main', { siteId, ...INSTALLED_TODAY });
+      await createGenerator('Backup', { siteId, ...INSTALLED_LONG_AGO });
+      await app.inject({ method: 'POST', url: `/api/generators/${running.id}/start`, headers: { cookie: testCookie } });
+
+      const response = await app.inject({ method: 'GET', url: '/api/sites', headers: { cookie: testCookie } });
+
+      expect(response.statusCode).toBe(200);
+      const [site] = JSON.parse(response.body);
+      expect(site).toMatchObject({
+        id: siteId,
+        name: 'Lake House',
+        generatorCount: 2,
+        runningCount: 1,
+        overdueTaskCount: 1,
+        generatorsNeedingMaintenance: 1,
+      });
+    });
+
+    it('should show a site to members of its generators but only let its creator change it', async () => {
+      const generator = await createGenerator('Shared', { siteId });
+      const partnerCookie = await enroll('partner@example.com');
+      const inviteResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generator.id}/invites`,
+        headers: { cookie: testCookie },
+        payload: { email: 'partner@example.com', role: 'viewer' },
+      });
+      await app.inject({
+        method: 'POST',
+        url: `/api/invites/${JSON.parse(inviteResp.body).token}/accept`,
+        headers: { cookie: partnerCookie },
+      });
+
+      const list = await app.inject({ method: 'GET', url: '/api/sites', headers: { cookie: partnerCookie } });
+      expect(JSON.parse(list.body)).toMatchObject([{ id: siteId, isOwner: false, generatorCount: 1 }]);
+
+      const rename = await app.inject({
+        method: 'PUT',
+        url: `/api/sites/${siteId}`,
+        headers: { cookie: partnerCookie },
+        payload: { name: 'Mine Now' },
+      });
+      expect(rename.statusCode).toBe(403);
+    });
+
+    it('should hide other users\' sites', async () => {
+      const otherCookie = await enroll('other@example.com');
+
+      const list = await app.inject({ method: 'GET', url: '/api/sites', headers: { cookie: otherCookie } });
+      expect(JSON.parse(list.body)).toEqual([]);
+
+      const get = await app.inject({ method: 'GET', url: `/api/sites/${siteId}`, headers: { cookie: otherCookie } });
+      expect(get.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /api/sites/:id', () => {
+    it('should list the site generators with their due task counts', async () => {
+      await createGenerator('Backup', { siteId, ...INSTALLED_LONG_AGO });
+      await createGenerator('Main', { siteId, ...INSTALLED_TODAY });
+
+      const response = await app.inject({ method: 'GET', url: `/api/sites/${siteId}`, headers: { cookie: testCookie } });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.name).toBe('Lake House');
+      expect(body.generators.map((g: any) => [g.name, g.dueTaskCount])).toEqual([['Backup', 1], ['Main', 0]]);
+    });
+  });
+
+  describe('GET /api/sites/:id/stats', () => {
+    it('should aggregate runs across the site generators', async () => {
+      const a = await createGenerator('A', { siteId });
+      const b = await createGenerator('B', { siteId });
+      const outside = await createGenerator('Outside');
+      await addRun(a.id, day(1, 5), 2);
+      await addRun(b.id, day(1, 10), 4);
+      await addRun(b.id, day(2, 1), 1);
+      await addRun(outside.id, day(1, 6), 8);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/sites/${siteId}/stats?from=${day(1, 1).toISOString()}&to=${day(3, 1).toISOString()}`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.totals).toMatchObject({ runs: 3, totalHours: 7, longestRunHours: 4 });
+      expect(body.buckets.map((bucket: any) => bucket.runs)).toEqual([2, 1]);
+      expect(body.generators.map((g: any) => [g.generatorName, g.runs, g.totalHours])).toEqual([
+        ['A', 1, 2],
+        ['B', 2, 5],
+      ]);
+    });
+
+    it('should return empty stats for a site without generators', async () => {
+      const response = await app.inject({ method: 'GET', url: `/api/sites/${siteId}/stats`, headers: { cookie: testCookie } });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ buckets: [], totals: { runs: 0 }, generators: [] });
+    });
+  });
+
+  describe('GET /api/sites/:id/maintenance', () => {
+    it('should list overdue tasks across the site', async () => {
+      await createGenerator('Backup', { siteId, ...INSTALLED_LONG_AGO });
+      await createGenerator('Fresh', { siteId, ...INSTALLED_TODAY });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/sites/${siteId}/maintenance`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const tasks = JSON.parse(response.body);
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0]).toMatchObject({ generatorName: 'Backup', kind: 'oil_change', monthsDue: true });
+    });
+  });
+
+  describe('DELETE /api/sites/:id', () => {
+    it('should delete the site and keep its generators unassigned', async () => {
+      const generator = await createGenerator('Keeper', { siteId });
+
+      const response = await app.inject({ method: 'DELETE', url: `/api/sites/${siteId}`, headers: { cookie: testCookie } });
+      expect(response.statusCode).toBe(204);
+
+      const get = await app.inject({ method: 'GET', url: `/api/generators/${generator.id}`, headers: { cookie: testCookie } });
+      expect(get.statusCode).toBe(200);
+      expect(JSON.parse(get.body).siteId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { reportRoutes } from '../src/routes/reports.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+function day(month: number, date: number, hour = 0): Date {
+  return new Date(Date.UTC(2026, month - 1, date, hour, 0, 0));
+}
+
+describe('Stats Routes', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await reportRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'stats@example.com', name: 'Stats User', password: TEST_PASSWORD },
+    });
+    testCookie = extractCookie(enrollResp.headers['set-cookie']);
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function addRun(start: Date, hours?: number) {
+    await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: {
+        startTime: start.toISOString(),
+        ...(hours !== undefined
+          ? { endTime: new Date(start.getTime() + hours * 60 * 60 * 1000).toISOString() }
+          : {}),
+      },
+    });
+  }
+
+  async function getStats(query: string) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/stats${query}`,
+      headers: { cookie: testCookie },
+    });
+  }
+
+  it('aggregates runs per month by default', async () => {
+    await addRun(day(1, 5), 2);
+    await addRun(day(1, 20), 4);
+    await addRun(day(3, 1, 10), 1);
+
+    const response = await getStats('');
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.bucket).toBe('month');
+    expect(body.buckets).toEqual([
+      { periodStart: day(1, 1).toISOString(), runs: 2, totalHours: 6, longestRunHours: 4, averageRunHours: 3 },
+      { periodStart: day(3, 1).toISOString(), runs: 1, totalHours: 1, longestRunHours: 1, averageRunHours: 1 },
+    ]);
+    expect(body.totals).toEqual({ runs: 3, totalHours: 7, longestRunHours: 4, averageRunHours: 7 / 3 });
+  });
+
+  it('buckets by day and by ISO week', async () => {
+    // 2026-01-05 is a Monday
+    await addRun(day(1, 5, 8), 1);
+    await addRun(day(1, 5, 20), 2);
+    await addRun(day(1, 11, 8), 3);
+    await addRun(day(1, 12, 8), 1);
+
+    const daily = JSON.parse((await getStats('?bucket=day')).body);
+    expect(daily.buckets.map((b: { periodStart: string; runs: number }) => [b.periodStart, b.runs])).toEqual([
+      [day(1, 5).toISOString(), 2],
+      [day(1, 11).toISOString(), 1],
+      [day(1, 12).toISOString(), 1],
+    ]);
+
+    const weekly = JSON.parse((await getStats('?bucket=week')).body);
+    expect(weekly.buckets.map((b: { periodStart: string; totalHours: number }) => [b.periodStart, b.totalHours])).toEqual([
+      [day(1, 5).toISOString(), 6],
+      [day(1, 12).toISOString(), 1],
+    ]);
+  });
+
+  it('limits the stats to the requested range and ignores open runs', async () => {
+    await addRun(day(1, 5), 2);
+    await addRun(day(2, 5), 3);
+    await addRun(day(2, 20));
+
+    const response = await getStats(`?from=${day(2, 1).toISOString()}&to=${day(3, 1).toISOString()}`);
+
+    const body = JSON.parse(response.body);
+    expect(body.buckets).toHaveLength(1);
+    expect(body.totals.runs).toBe(1);
+    expect(body.totals.totalHours).toBeCloseTo(3, 5);
+  });
+
+  it('returns empty stats when there are no runs', async () => {
+    const response = await getStats('');
+
+    const body = JSON.parse(response.body);
+    expect(body.buckets).toEqual([]);
+    expect(body.totals).toEqual({ runs: 0, totalHours: 0, longestRunHours: null, averageRunHours: null });
+  });
+
+  it('rejects an unknown bucket', async () => {
+    const response = await getStats('?bucket=year');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('returns 401 without authentication', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/stats`,
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
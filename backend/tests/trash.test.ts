@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { eq } from 'drizzle-orm';
+import { trashRoutes } from '../src/routes/trash.js';
+import { usageLogsRoutes } from '../src/routes/usage-logs.js';
+import { oilChangeHistoryRoutes } from '../src/routes/oil-change-history.js';
+import { maintenanceTaskRoutes } from '../src/routes/maintenance-tasks.js';
+import { generatorConfigRoutes } from '../src/routes/generator-config.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { registerSessionMiddleware } from '../src/services/session.js';
+import { purgeDeletedRecords } from '../src/services/trash.js';
+import { getDb } from '../src/db/index.js';
+import * as schema from '../src/db/schema.js';
+
+const TEST_PASSWORD = 'TestPass123!';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function extractCookie(setCookieHeader: string | string[] | undefined): string {
+  const header = Array.isArray(setCookieHeader) ? setCookieHeader[0] : setCookieHeader;
+  return header ? header.split(';')[0] : '';
+}
+
+describe('Trash', () => {
+  let app: FastifyInstance;
+  let testCookie: string;
+  let generatorId: number;
+
+  beforeEach(async () => {
+    app = Fastify();
+    registerSessionMiddleware(app);
+    await authRoutes(app);
+    await generatorConfigRoutes(app);
+    await usageLogsRoutes(app);
+    await oilChangeHistoryRoutes(app);
+    await maintenanceTaskRoutes(app);
+    await trashRoutes(app);
+    await app.ready();
+
+    const db = getDb();
+    await db.delete(schema.maintenanceTaskCompletions).execute();
+    await db.delete(schema.maintenanceTasks).execute();
+    await db.delete(schema.usageLogs).execute();
+    await db.delete(schema.apiKeys).execute();
+    await db.delete(schema.generators).execute();
+    await db.delete(schema.sessions).execute();
+    await db.delete(schema.users).execute();
+
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'trash@example.com', name: 'Trash User', password: TEST_PASSWORD },
+    });
+    testCookie = extractCookie(enrollResp.headers['set-cookie']);
+
+    const genResp = await app.inject({
+      method: 'POST',
+      url: '/api/generators',
+      headers: { cookie: testCookie },
+      payload: { name: 'Test Generator' },
+    });
+    generatorId = JSON.parse(genResp.body).id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function createLog(startTime: string, endTime: string): Promise<number> {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/generators/${generatorId}/logs`,
+      headers: { cookie: testCookie },
+      payload: { startTime, endTime },
+    });
+    return JSON.parse(response.body).id;
+  }
+
+  async function getGenerator() {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}`,
+      headers: { cookie: testCookie },
+    });
+    return JSON.parse(response.body);
+  }
+
+  async function getTrash(cookie = testCookie) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/generators/${generatorId}/trash`,
+      headers: { cookie },
+    });
+  }
+
+  describe('usage logs', () => {
+    let logId: number;
+
+    beforeEach(async () => {
+      logId = await createLog('2026-01-01T08:00:00.000Z', '2026-01-01T10:00:00.000Z');
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/logs/${logId}`,
+        headers: { cookie: testCookie },
+      });
+    });
+
+    it('should keep a deleted log in the trash', async () => {
+      const response = await getTrash();
+
+      expect(response.statusCode).toBe(200);
+      const trash = JSON.parse(response.body);
+      expect(trash.retentionDays).toBe(30);
+      expect(trash.logs).toHaveLength(1);
+      expect(trash.logs[0]).toMatchObject({ id: logId, durationHours: 2 });
+
+      const deletedAt = new Date(trash.logs[0].deletedAt).getTime();
+      expect(new Date(trash.logs[0].purgeAt).getTime() - deletedAt).toBe(30 * DAY_MS);
+    });
+
+    it('should restore a log and re-sync totalHours', async () => {
+      expect((await getGenerator()).totalHours).toBe(0);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs/${logId}/restore`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ id: logId, durationHours: 2 });
+      expect((await getGenerator()).totalHours).toBe(2);
+      expect(JSON.parse((await getTrash()).body).logs).toHaveLength(0);
+
+      const listResp = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(listResp.body)).toHaveLength(1);
+    });
+
+    it('should reject restoring a log that overlaps a newer run', async () => {
+      await createLog('2026-01-01T09:00:00.000Z', '2026-01-01T11:00:00.000Z');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs/${logId}/restore`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse((await getTrash()).body).logs).toHaveLength(1);
+    });
+
+    it('should return 404 when the log is not in the trash', async () => {
+      const liveLogId = await createLog('2026-01-02T08:00:00.000Z', '2026-01-02T09:00:00.000Z');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs/${liveLogId}/restore`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should not edit a deleted log', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/logs/${logId}`,
+        headers: { cookie: testCookie },
+        payload: { endTime: '2026-01-01T11:00:00.000Z' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('oil changes', () => {
+    it('should restore an oil change and re-sync the last oil change', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/oil-changes`,
+        headers: { cookie: testCookie },
+        payload: { performedAt: '2026-01-01T00:00:00.000Z' },
+      });
+      const latestResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/oil-changes`,
+        headers: { cookie: testCookie },
+        payload: { performedAt: '2026-03-01T00:00:00.000Z', notes: 'Synthetic' },
+      });
+      const changeId = JSON.parse(latestResp.body).id;
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/oil-changes/${changeId}`,
+        headers: { cookie: testCookie },
+      });
+      expect((await getGenerator()).lastOilChangeDate).toBe('2026-01-01T00:00:00.000Z');
+
+      const trash = JSON.parse((await getTrash()).body);
+      expect(trash.maintenanceCompletions).toHaveLength(1);
+      expect(trash.maintenanceCompletions[0]).toMatchObject({ id: changeId, taskKind: 'oil_change', notes: 'Synthetic' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/oil-changes/${changeId}/restore`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ id: changeId, notes: 'Synthetic' });
+      expect((await getGenerator()).lastOilChangeDate).toBe('2026-03-01T00:00:00.000Z');
+    });
+
+    it('should restore a maintenance task completion', async () => {
+      const taskResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks`,
+        headers: { cookie: testCookie },
+        payload: { kind: 'air_filter', name: 'Air filter', intervalHours: 50 },
+      });
+      const taskId = JSON.parse(taskResp.body).id;
+
+      const completionResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${taskId}/completions`,
+        headers: { cookie: testCookie },
+        payload: { performedAt: '2026-02-01T00:00:00.000Z' },
+      });
+      const completionId = JSON.parse(completionResp.body).id;
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${taskId}/completions/${completionId}`,
+        headers: { cookie: testCookie },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/maintenance-tasks/${taskId}/completions/${completionId}/restore`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const [task] = await getDb()
+        .select()
+        .from(schema.maintenanceTasks)
+        .where(eq(schema.maintenanceTasks.id, taskId));
+      expect(task.lastCompletedAt?.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+    });
+  });
+
+  describe('purgeDeletedRecords', () => {
+    it('should only purge entries deleted before the retention period', async () => {
+      const oldLogId = await createLog('2026-01-01T08:00:00.000Z', '2026-01-01T10:00:00.000Z');
+      const recentLogId = await createLog('2026-01-02T08:00:00.000Z', '2026-01-02T10:00:00.000Z');
+      const keptLogId = await createLog('2026-01-03T08:00:00.000Z', '2026-01-03T10:00:00.000Z');
+
+      const now = new Date();
+      const db = getDb();
+      await db.update(schema.usageLogs)
+        .set({ deletedAt: new Date(now.getTime() - 31 * DAY_MS) })
+        .where(eq(schema.usageLogs.id, oldLogId));
+      await db.update(schema.usageLogs)
+        .set({ deletedAt: new Date(now.getTime() - 29 * DAY_MS) })
+        .where(eq(schema.usageLogs.id, recentLogId));
+
+      const purged = await purgeDeletedRecords(30, now);
+
+      expect(purged).toEqual({ logs: 1, maintenanceCompletions: 0 });
+      const remaining = await db.select({ id: schema.usageLogs.id }).from(schema.usageLogs);
+      expect(remaining.map(r => r.id).sort()).toEqual([recentLogId, keptLogId].sort());
+    });
+  });
+
+  it('should return 401 without authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: `/api/generators/${generatorId}/trash` });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should return 404 for another user generator', async () => {
+    const enrollResp = await app.inject({
+      method: 'POST',
+      url: '/api/auth/enroll',
+      payload: { email: 'other-trash@example.com', password: TEST_PASSWORD },
+    });
+
+    const response = await getTrash(extractCookie(enrollResp.headers['set-cookie']));
+
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Fastify, { FastifyInstance } from 'fastify';
+import { eq } from 'drizzle-orm';
 import { usageLogsRoutes } from '../src/routes/usage-logs.js';
 import { generatorConfigRoutes } from '../src/routes/generator-config.js';
 import { authRoutes } from '../src/routes/auth.js';
@@ -125,6 +126,89 @@ describe('Usage Logs Routes', () => {
     });
   });
 
+  describe('GET /api/generators/:id/logs paging and filters', () => {
+    const hour = (h: number) => new Date(Date.UTC(2026, 0, 1, h, 0, 0));
+
+    beforeEach(async () => {
+      // Runs of 1, 2, 3 and 4 hours starting at 00:00, 05:00, 10:00 and 15:00
+      for (let i = 0; i < 4; i++) {
+        await app.inject({
+          method: 'POST',
+          url: `/api/generators/${generatorId}/logs`,
+          headers: { cookie: testCookie },
+          payload: { startTime: hour(i * 5).toISOString(), endTime: hour(i * 6 + 1).toISOString() },
+        });
+      }
+    });
+
+    async function list(query: string) {
+      return app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/logs${query}`,
+        headers: { cookie: testCookie },
+      });
+    }
+
+    it('should page through logs with a cursor', async () => {
+      const first = await list('?limit=3');
+      expect(JSON.parse(first.body)).toHaveLength(3);
+      const cursor = first.headers['x-next-cursor'];
+      expect(cursor).toBeTruthy();
+
+      const second = await list(`?limit=3&cursor=${cursor}`);
+      const body = JSON.parse(second.body);
+      expect(body).toHaveLength(1);
+      expect(body[0].startTime).toBe(hour(15).toISOString());
+      expect(second.headers['x-next-cursor']).toBeUndefined();
+    });
+
+    it('should sort newest first when order is desc', async () => {
+      const first = await list('?limit=2&order=desc');
+      expect(JSON.parse(first.body).map((l: { durationHours: number }) => l.durationHours)).toEqual([4, 3]);
+
+      const second = await list(`?limit=2&order=desc&cursor=${first.headers['x-next-cursor']}`);
+      expect(JSON.parse(second.body).map((l: { durationHours: number }) => l.durationHours)).toEqual([2, 1]);
+    });
+
+    it('should filter by start time range', async () => {
+      const response = await list(`?from=${hour(5).toISOString()}&to=${hour(15).toISOString()}`);
+
+      expect(JSON.parse(response.body).map((l: { durationHours: number }) => l.durationHours)).toEqual([2, 3]);
+    });
+
+    it('should filter by duration', async () => {
+      const response = await list('?minDuration=2&maxDuration=3.5');
+
+      expect(JSON.parse(response.body).map((l: { durationHours: number }) => l.durationHours)).toEqual([2, 3]);
+    });
+
+    it('should list only auto-closed runs awaiting review', async () => {
+      const [pending] = await getDb()
+        .insert(schema.usageLogs)
+        .values([
+          { generatorId, startTime: hour(20), endTime: hour(21), durationHours: 1, autoClosed: true },
+          { generatorId, startTime: hour(22), endTime: hour(23), durationHours: 1, autoClosed: true, autoCloseReviewedAt: hour(23) },
+        ])
+        .returning();
+
+      const response = await list('?autoClosedUnreviewed=true');
+
+      expect(JSON.parse(response.body).map((l: { id: number }) => l.id)).toEqual([pending.id]);
+    });
+
+    it('should reject an invalid cursor', async () => {
+      const response = await list('?limit=2&cursor=not-a-cursor');
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject an out-of-range limit', async () => {
+      const response = await list('?limit=0');
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
   describe('POST /api/generators/:id/logs', () => {
     it('should create a log entry with startTime and endTime', async () => {
       const startTime = new Date(Date.UTC(2026, 0, 1, 8, 0, 0)).toISOString();
@@ -193,6 +277,138 @@ describe('Usage Logs Routes', () => {
       expect(response.statusCode).toBe(400);
     });
 
+    it('should reject a run overlapping an existing log', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.UTC(2026, 0, 1, 8, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2026, 0, 1, 10, 0, 0)).toISOString(),
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.UTC(2026, 0, 1, 9, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2026, 0, 1, 11, 0, 0)).toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(409);
+      const body = JSON.parse(response.body);
+      expect(body.details).toHaveLength(1);
+      expect(body.details[0]).toMatchObject({ code: 'overlap', path: ['startTime'] });
+      expect(body.details[0].conflictingLog.startTime).toBe(new Date(Date.UTC(2026, 0, 1, 8, 0, 0)).toISOString());
+    });
+
+    it('should store only one of several overlapping runs created at the same time', async () => {
+      // Separate sessions, like a phone and a laptop saving at the same moment
+      const cookies = await Promise.all(Array.from({ length: 4 }, () => loginAs(app, 'logs@example.com')));
+
+      const responses = await Promise.all(cookies.map((cookie, i) => app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie },
+        payload: {
+          startTime: new Date(Date.UTC(2026, 0, 1, 8, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2026, 0, 1, 10 + i, 0, 0)).toISOString(),
+        },
+      })));
+
+      expect(responses.filter(r => r.statusCode === 201)).toHaveLength(1);
+      const logs = await getDb().select().from(schema.usageLogs).where(eq(schema.usageLogs.generatorId, generatorId));
+      expect(logs).toHaveLength(1);
+    });
+
+    it('should allow a run that starts when another ends', async () => {
+      for (const [start, end] of [[8, 10], [10, 12]]) {
+        const response = await app.inject({
+          method: 'POST',
+          url: `/api/generators/${generatorId}/logs`,
+          headers: { cookie: testCookie },
+          payload: {
+            startTime: new Date(Date.UTC(2026, 0, 1, start, 0, 0)).toISOString(),
+            endTime: new Date(Date.UTC(2026, 0, 1, end, 0, 0)).toISOString(),
+          },
+        });
+        expect(response.statusCode).toBe(201);
+      }
+    });
+
+    it('should reject a run overlapping the run in progress', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+        headers: { cookie: testCookie },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+          endTime: new Date().toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).details[0]).toMatchObject({ code: 'live_run', path: ['endTime'] });
+    });
+
+    it('should reject a run on an archived generator', async () => {
+      await app.inject({ method: 'POST', url: `/api/generators/${generatorId}/archive`, headers: { cookie: testCookie } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.UTC(2026, 0, 1, 8, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2026, 0, 1, 10, 0, 0)).toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toContain('archived');
+    });
+
+    it('should reject a run in the future', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+          endTime: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).details).toEqual([
+        { code: 'future', path: ['endTime'], message: 'End time is in the future' },
+      ]);
+    });
+
+    it('should reject an implausibly long run', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.UTC(2025, 0, 1, 8, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2025, 1, 1, 8, 0, 0)).toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).details[0].code).toBe('too_long');
+    });
+
     it('should reject missing startTime', async () => {
       const response = await app.inject({
         method: 'POST',
@@ -297,6 +513,150 @@ describe('Usage Logs Routes', () => {
       expect(response.statusCode).toBe(400);
     });
 
+    it('should reject moving a log onto another run', async () => {
+      const otherResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.UTC(2025, 11, 31, 8, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2025, 11, 31, 10, 0, 0)).toISOString(),
+        },
+      });
+      expect(otherResp.statusCode).toBe(201);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/logs/${logId}`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.UTC(2025, 11, 31, 7, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2025, 11, 31, 9, 0, 0)).toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).details[0]).toMatchObject({
+        code: 'overlap',
+        path: ['endTime'],
+        conflictingLog: { id: JSON.parse(otherResp.body).id },
+      });
+    });
+
+    it('should move the running generator start time when editing the open run', async () => {
+      // The open entry from beforeEach would overlap the live run
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/logs/${logId}`,
+        headers: { cookie: testCookie },
+      });
+      await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+        headers: { cookie: testCookie },
+      });
+      const logsResp = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+      });
+      const openLog = JSON.parse(logsResp.body).find((l: { endTime: string | null; id: number }) => l.endTime === null && l.id !== logId);
+      const newStartTime = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+
+      await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/logs/${openLog.id}`,
+        headers: { cookie: testCookie },
+        payload: { startTime: newStartTime },
+      });
+
+      const genResp = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: testCookie },
+      });
+      const generator = JSON.parse(genResp.body);
+      expect(generator.isRunning).toBe(true);
+      expect(new Date(generator.currentStartTime).toISOString()).toBe(newStartTime);
+
+      const stopResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/stop`,
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(stopResp.body).durationHours).toBeCloseTo(2, 2);
+    });
+
+    it('should stop the generator when the open run is given an end time', async () => {
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/logs/${logId}`,
+        headers: { cookie: testCookie },
+      });
+      const startResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/start`,
+        headers: { cookie: testCookie },
+      });
+      const startTime = new Date(JSON.parse(startResp.body).startTime);
+      const logsResp = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+      });
+      const openLog = JSON.parse(logsResp.body).find((l: { endTime: string | null; id: number }) => l.endTime === null && l.id !== logId);
+
+      await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/logs/${openLog.id}`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(startTime.getTime() - 30 * 60 * 1000).toISOString(),
+          endTime: startTime.toISOString(),
+        },
+      });
+
+      const genResp = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: testCookie },
+      });
+      const generator = JSON.parse(genResp.body);
+      expect(generator.isRunning).toBe(false);
+      expect(generator.currentStartTime).toBeNull();
+      expect(generator.totalHours).toBeCloseTo(0.5, 5);
+    });
+
+    it('should not reopen a completed run', async () => {
+      const completedResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.UTC(2025, 11, 31, 8, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2025, 11, 31, 10, 0, 0)).toISOString(),
+        },
+      });
+      const completedId = JSON.parse(completedResp.body).id;
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/logs/${completedId}`,
+        headers: { cookie: testCookie },
+        payload: { endTime: null },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toBe('Only the current run can be left without an end time');
+
+      const genResp = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: testCookie },
+      });
+      expect(JSON.parse(genResp.body).totalHours).toBeCloseTo(2, 5);
+    });
+
     it('should return 404 for non-existent log', async () => {
       const response = await app.inject({
         method: 'PUT',
@@ -337,6 +697,84 @@ describe('Usage Logs Routes', () => {
     });
   });
 
+  describe('POST /api/generators/:id/logs/:logId/confirm', () => {
+    async function createAutoClosedLog() {
+      const [log] = await getDb()
+        .insert(schema.usageLogs)
+        .values({
+          generatorId,
+          startTime: new Date(Date.UTC(2026, 0, 1, 8, 0, 0)),
+          endTime: new Date(Date.UTC(2026, 0, 1, 20, 0, 0)),
+          durationHours: 12,
+          autoClosed: true,
+        })
+        .returning();
+      return log;
+    }
+
+    it('should mark an auto-closed log as reviewed', async () => {
+      const log = await createAutoClosedLog();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs/${log.id}/confirm`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.autoClosed).toBe(true);
+      expect(body.autoCloseReviewedAt).not.toBeNull();
+      expect(body.durationHours).toBe(12);
+    });
+
+    it('should mark an auto-closed log as reviewed when its end time is corrected', async () => {
+      const log = await createAutoClosedLog();
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}/logs/${log.id}`,
+        headers: { cookie: testCookie },
+        payload: { endTime: new Date(Date.UTC(2026, 0, 1, 11, 0, 0)).toISOString() },
+      });
+
+      const body = JSON.parse(response.body);
+      expect(body.durationHours).toBeCloseTo(3, 5);
+      expect(body.autoCloseReviewedAt).not.toBeNull();
+    });
+
+    it('should reject confirming a log that was not auto-closed', async () => {
+      const createResp = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs`,
+        headers: { cookie: testCookie },
+        payload: {
+          startTime: new Date(Date.UTC(2026, 0, 1, 8, 0, 0)).toISOString(),
+          endTime: new Date(Date.UTC(2026, 0, 1, 9, 0, 0)).toISOString(),
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs/${JSON.parse(createResp.body).id}/confirm`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 401 without authentication', async () => {
+      const log = await createAutoClosedLog();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/generators/${generatorId}/logs/${log.id}/confirm`,
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
   describe('DELETE /api/generators/:id/logs/:logId', () => {
     let logId: number;
 
@@ -385,6 +823,29 @@ describe('Usage Logs Routes', () => {
       expect(JSON.parse(genResp.body).totalHours).toBe(0);
     });
 
+    it('should keep the initial hours when recalculating totalHours', async () => {
+      await app.inject({
+        method: 'PUT',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: testCookie },
+        payload: { initialHours: 120 },
+      });
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/generators/${generatorId}/logs/${logId}`,
+        headers: { cookie: testCookie },
+      });
+
+      const genResp = await app.inject({
+        method: 'GET',
+        url: `/api/generators/${generatorId}`,
+        headers: { cookie: testCookie },
+      });
+
+      expect(JSON.parse(genResp.body).totalHours).toBe(120);
+    });
+
     it('should return 404 for non-existent log', async () => {
       const response = await app.inject({
         method: 'DELETE',
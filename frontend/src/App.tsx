@@ -7,6 +7,14 @@ import { ProfilePage } from './components/ProfilePage';
 import { ApiKeysPage } from './components/ApiKeysPage';
 import { GeneratorLogsPage } from './components/GeneratorLogsPage';
 import { DownloadsPage } from './components/DownloadsPage';
+import { ReportsPage } from './components/ReportsPage';
+import { AuditPage } from './components/AuditPage';
+import { TrashPage } from './components/TrashPage';
+import { OverviewPage } from './components/OverviewPage';
+import { SitesPage } from './components/SitesPage';
+import { SitePage } from './components/SitePage';
+import { GeneratorScope } from './components/GeneratorScope';
+import { InvitePage } from './components/InvitePage';
 import { ShortcutSetupPage } from './components/ShortcutSetupPage';
 import { Layout } from './components/Layout';
 import { api } from './utils/api';
@@ -37,11 +45,20 @@ function App() {
       <Routes>
         <Route path="/login" element={<LoginPage />} />
         <Route path="/enroll" element={<EnrollmentPage />} />
+        <Route path="/invites/:token" element={<InvitePage isAuthenticated={isAuthenticated} />} />
         <Route
           path="/"
           element={
             <ProtectedRoute isAuthenticated={isAuthenticated}>
-              <DashboardPage />
+              <OverviewPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/generators/:generatorId"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <GeneratorScope page="" render={id => <DashboardPage generatorId={id} />} />
             </ProtectedRoute>
           }
         />
@@ -57,7 +74,15 @@ function App() {
           path="/logs"
           element={
             <ProtectedRoute isAuthenticated={isAuthenticated}>
-              <GeneratorLogsPage />
+              <GeneratorScope page="logs" render={id => <GeneratorLogsPage generatorId={id} />} />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/generators/:generatorId/logs"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <GeneratorScope page="logs" render={id => <GeneratorLogsPage generatorId={id} />} />
             </ProtectedRoute>
           }
         />
@@ -69,11 +94,75 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/reports"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <GeneratorScope page="reports" render={id => <ReportsPage generatorId={id} />} />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/generators/:generatorId/reports"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <GeneratorScope page="reports" render={id => <ReportsPage generatorId={id} />} />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/downloads"
           element={
             <ProtectedRoute isAuthenticated={isAuthenticated}>
-              <DownloadsPage />
+              <GeneratorScope page="downloads" render={id => <DownloadsPage generatorId={id} />} />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/generators/:generatorId/downloads"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <GeneratorScope page="downloads" render={id => <DownloadsPage generatorId={id} />} />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/sites"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <SitesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/sites/:siteId"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <SitePage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/activity"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <AuditPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/trash"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <GeneratorScope page="trash" render={id => <TrashPage generatorId={id} />} />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/generators/:generatorId/trash"
+          element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <GeneratorScope page="trash" render={id => <TrashPage generatorId={id} />} />
             </ProtectedRoute>
           }
         />
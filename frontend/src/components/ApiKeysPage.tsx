@@ -1,15 +1,39 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { api } from '../utils/api';
-import type { ApiKey } from '../types';
+import type { ApiKey, ApiKeyScope, Generator } from '../types';
 import './ApiKeysPage.css';
 
+const SCOPE_OPTIONS: { scope: ApiKeyScope; label: string }[] = [
+  { scope: 'toggle', label: 'Start & stop' },
+  { scope: 'status:read', label: 'Read status' },
+  { scope: 'logs:read', label: 'Read logs' },
+  { scope: 'logs:write', label: 'Add logs' },
+  { scope: 'maintenance:write', label: 'Record maintenance' },
+];
+
+// Scopes that change the generator, which viewers aren't allowed to do
+const WRITE_SCOPES: ApiKeyScope[] = ['toggle', 'logs:write', 'maintenance:write'];
+
+function isReadOnly(scopes: ApiKeyScope[]) {
+  return !scopes.some(scope => WRITE_SCOPES.includes(scope));
+}
+
+// Adds or removes a scope, keeping the order the server uses
+function toggleScope(scopes: ApiKeyScope[], scope: ApiKeyScope): ApiKeyScope[] {
+  const next = scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope];
+  return SCOPE_OPTIONS.map(o => o.scope).filter(s => next.includes(s));
+}
+
 export function ApiKeysPage() {
   const navigate = useNavigate();
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [generators, setGenerators] = useState<Generator[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyGeneratorId, setNewKeyGeneratorId] = useState<number | null>(null);
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>(['toggle']);
   const [showNewKeyModal, setShowNewKeyModal] = useState(false);
   const [newKey, setNewKey] = useState<ApiKey | null>(null);
   const [qrCode, setQrCode] = useState<string>('');
@@ -24,8 +48,9 @@ export function ApiKeysPage() {
   const loadApiKeys = async () => {
     try {
       setLoading(true);
-      const keys = await api.getApiKeys();
+      const [keys, generatorList] = await Promise.all([api.getApiKeys(), api.getGenerators()]);
       setApiKeys(keys);
+      setGenerators(generatorList);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load API keys');
     } finally {
@@ -33,30 +58,74 @@ export function ApiKeysPage() {
     }
   };
 
+  // Generators a key with these scopes can be bound to
+  const generatorsFor = (scopes: ApiKeyScope[]) =>
+    isReadOnly(scopes) ? generators : generators.filter(g => g.role !== 'viewer');
+
+  const newKeyGenerators = generatorsFor(newKeyScopes);
+
+  const handleNewKeyScope = (scope: ApiKeyScope) => {
+    const scopes = toggleScope(newKeyScopes, scope);
+    setNewKeyScopes(scopes);
+    if (!generatorsFor(scopes).some(g => g.id === newKeyGeneratorId)) {
+      setNewKeyGeneratorId(null);
+    }
+  };
+
   const handleCreateKey = async () => {
     setError('');
     if (!newKeyName.trim()) {
       setError('Key name is required');
       return;
     }
+    if (newKeyScopes.length === 0) {
+      setError('Select at least one permission');
+      return;
+    }
     try {
-      const created = await api.createApiKey(newKeyName.trim());
+      const created = await api.createApiKey(newKeyName.trim(), newKeyGeneratorId, newKeyScopes);
       setNewKey(created);
 
-      // Fetch QR code for the new key
-      const qrData = await api.getApiKeyQRCode(created.id);
-      setQrCode(qrData.qrCode);
-      setShortcutFileUrl(qrData.shortcutFileUrl);
+      // Only keys that can start and stop the generator work with the Shortcut
+      if (created.scopes.includes('toggle')) {
+        const qrData = await api.getApiKeyQRCode(created.id);
+        setQrCode(qrData.qrCode);
+        setShortcutFileUrl(qrData.shortcutFileUrl);
+      } else {
+        setQrCode('');
+      }
       setSelectedKeyId(created.id);
 
       setShowNewKeyModal(true);
       setNewKeyName('');
+      setNewKeyGeneratorId(null);
+      setNewKeyScopes(['toggle']);
       await loadApiKeys();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create API key');
     }
   };
 
+  const handleChangeGenerator = async (id: number, generatorId: number | null) => {
+    setError('');
+    try {
+      const updated = await api.updateApiKey(id, { generatorId });
+      setApiKeys(prev => prev.map(k => (k.id === id ? { ...k, generatorId: updated.generatorId } : k)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update API key');
+    }
+  };
+
+  const handleChangeScopes = async (id: number, scopes: ApiKeyScope[]) => {
+    setError('');
+    try {
+      const updated = await api.updateApiKey(id, { scopes });
+      setApiKeys(prev => prev.map(k => (k.id === id ? { ...k, scopes: updated.scopes } : k)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update API key');
+    }
+  };
+
   const handleShowQR = async (keyId: number) => {
     try {
       const qrData = await api.getApiKeyQRCode(keyId);
@@ -130,10 +199,37 @@ export function ApiKeysPage() {
             className="key-name-input"
             required
           />
+          {newKeyGenerators.length > 0 && (
+            <select
+              value={newKeyGeneratorId ?? ''}
+              onChange={(e) => setNewKeyGeneratorId(e.target.value ? parseInt(e.target.value, 10) : null)}
+              className="key-generator-select"
+              aria-label="Generator used by this key"
+            >
+              <option value="">{newKeyGenerators.length === 1 ? 'My generator' : 'Select a generator…'}</option>
+              {newKeyGenerators.map(g => (
+                <option key={g.id} value={g.id}>{g.name}</option>
+              ))}
+            </select>
+          )}
           <button onClick={handleCreateKey} className="create-button">
             Create New API Key
           </button>
         </div>
+        <fieldset className="key-scopes create-key-scopes">
+          <legend>Permissions</legend>
+          {SCOPE_OPTIONS.map(({ scope, label }) => (
+            <label key={scope}>
+              <input
+                type="checkbox"
+                id={`scope-${scope.replace(':', '-')}`}
+                checked={newKeyScopes.includes(scope)}
+                onChange={() => handleNewKeyScope(scope)}
+              />
+              {label}
+            </label>
+          ))}
+        </fieldset>
 
         {apiKeys.length === 0 ? (
           <div className="empty-state">
@@ -141,37 +237,75 @@ export function ApiKeysPage() {
           </div>
         ) : (
           <div className="keys-list">
-            {apiKeys.map((key) => (
-              <div key={key.id} className="key-card">
-                <div className="key-header">
-                  <h3>{key.name || 'Unnamed Key'}</h3>
-                  <span className="key-id">ID: {key.id}</span>
-                </div>
-                <div className="key-preview">
-                  <code>{key.hint}</code>
-                </div>
-                <div className="key-meta">
-                  <span>Created: {new Date(key.createdAt).toLocaleDateString()}</span>
-                  {key.lastUsedAt && (
-                    <span>Last used: {new Date(key.lastUsedAt).toLocaleDateString()}</span>
+            {apiKeys.map((key) => {
+              const keyGenerators = generatorsFor(key.scopes);
+              return (
+                <div key={key.id} className="key-card">
+                  <div className="key-header">
+                    <h3>{key.name || 'Unnamed Key'}</h3>
+                    <span className="key-id">ID: {key.id}</span>
+                  </div>
+                  <div className="key-preview">
+                    <code>{key.hint}</code>
+                  </div>
+                  <div className="key-meta">
+                    <span>Created: {new Date(key.createdAt).toLocaleDateString()}</span>
+                    {key.lastUsedAt && (
+                      <span>Last used: {new Date(key.lastUsedAt).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                  <fieldset className="key-scopes">
+                    <legend>Permissions</legend>
+                    {SCOPE_OPTIONS.map(({ scope, label }) => (
+                      <label key={scope}>
+                        <input
+                          type="checkbox"
+                          checked={key.scopes.includes(scope)}
+                          disabled={key.scopes.length === 1 && key.scopes[0] === scope}
+                          onChange={() => handleChangeScopes(key.id, toggleScope(key.scopes, scope))}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </fieldset>
+                  {keyGenerators.length > 0 && (
+                    <label className="key-generator">
+                      Generator
+                      <select
+                        value={key.generatorId ?? ''}
+                        onChange={(e) => handleChangeGenerator(key.id, e.target.value ? parseInt(e.target.value, 10) : null)}
+                        className="key-generator-select"
+                      >
+                        <option value="">
+                          {keyGenerators.length === 1 ? 'My generator' : 'Not set — required with multiple generators'}
+                        </option>
+                        {keyGenerators.map(g => (
+                          <option key={g.id} value={g.id}>{g.name}</option>
+                        ))}
+                      </select>
+                    </label>
                   )}
+                  <div className="key-actions">
+                    {key.scopes.includes('toggle') && (
+                      <>
+                        <button onClick={() => handleShowQR(key.id)} className="qr-button">
+                          View QR Code
+                        </button>
+                        <button onClick={() => handleViewInstructions(key.id)} className="instructions-button">
+                          Setup Instructions
+                        </button>
+                      </>
+                    )}
+                    <button onClick={() => handleResetKey(key.id)} className="reset-button">
+                      Reset Key
+                    </button>
+                    <button onClick={() => handleDeleteKey(key.id)} className="delete-button">
+                      Delete
+                    </button>
+                  </div>
                 </div>
-                <div className="key-actions">
-                  <button onClick={() => handleShowQR(key.id)} className="qr-button">
-                    View QR Code
-                  </button>
-                  <button onClick={() => handleViewInstructions(key.id)} className="instructions-button">
-                    Setup Instructions
-                  </button>
-                  <button onClick={() => handleResetKey(key.id)} className="reset-button">
-                    Reset Key
-                  </button>
-                  <button onClick={() => handleDeleteKey(key.id)} className="delete-button">
-                    Delete
-                  </button>
-                </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
 
@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+import type { AuditAction, AuditEvent } from '../types';
+import './AuditPage.css';
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'generator.create': 'Added generator',
+  'generator.update': 'Changed generator settings',
+  'generator.archive': 'Archived generator',
+  'generator.unarchive': 'Unarchived generator',
+  'generator.delete': 'Deleted generator',
+  'generator.start': 'Started generator',
+  'generator.stop': 'Stopped generator',
+  'usage_log.create': 'Added run',
+  'usage_log.update': 'Edited run',
+  'usage_log.delete': 'Deleted run',
+  'usage_log.restore': 'Restored run',
+  'usage_log.confirm': 'Confirmed auto-stop',
+  'usage_log.import': 'Imported runs',
+  'maintenance_task.create': 'Added maintenance task',
+  'maintenance_task.update': 'Changed maintenance task',
+  'maintenance_task.delete': 'Deleted maintenance task',
+  'maintenance_completion.create': 'Logged maintenance',
+  'maintenance_completion.delete': 'Deleted maintenance entry',
+  'maintenance_completion.restore': 'Restored maintenance entry',
+  'api_key.create': 'Created API key',
+  'api_key.update': 'Changed API key',
+  'api_key.delete': 'Deleted API key',
+  'api_key.reset': 'Reset API key',
+  'generator_invite.create': 'Invited member',
+  'generator_invite.revoke': 'Revoked invite',
+  'generator_member.add': 'Member joined',
+  'generator_member.update': 'Changed member role',
+  'generator_member.remove': 'Removed member',
+  'site.create': 'Created site',
+  'site.update': 'Updated site',
+  'site.delete': 'Deleted site',
+};
+
+function describeAction(event: AuditEvent): string {
+  const snapshot = event.after ?? event.before;
+  if (event.action === 'maintenance_completion.create' && snapshot?.kind === 'oil_change') return 'Logged oil change';
+  if (event.action === 'maintenance_completion.delete' && snapshot?.kind === 'oil_change') return 'Deleted oil change';
+  if (event.action === 'maintenance_completion.restore' && snapshot?.kind === 'oil_change') return 'Restored oil change';
+  return ACTION_LABELS[event.action] ?? event.action;
+}
+
+function describeActor(event: AuditEvent): string {
+  const { actor } = event;
+  if (actor.type === 'system') return 'Automatic';
+  if (actor.type === 'api_key') {
+    return actor.apiKeyName ? `API key "${actor.apiKeyName}"` : `API key #${actor.apiKeyId} (deleted)`;
+  }
+  return actor.name ?? 'Deleted user';
+}
+
+const ISO_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  if (typeof value === 'string' && ISO_TIME.test(value)) return new Date(value).toLocaleString();
+  return String(value);
+}
+
+// Fields that differ between the snapshots; a created or deleted item lists all of its fields
+function changedFields(event: AuditEvent): { field: string; from?: string; to?: string }[] {
+  const { before, after } = event;
+  if (before && after) {
+    return Object.keys(after)
+      .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .map(field => ({ field, from: formatValue(before[field]), to: formatValue(after[field]) }));
+  }
+  const snapshot = after ?? before ?? {};
+  return Object.entries(snapshot)
+    .filter(([, value]) => value !== null)
+    .map(([field, value]) => (after ? { field, to: formatValue(value) } : { field, from: formatValue(value) }));
+}
+
+export function AuditPage() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  // Cursor of each page after the first; empty on page one
+  const [pageCursors, setPageCursors] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  const showPage = useCallback(async (filter: AuditAction | '', cursors: string[]) => {
+    setError('');
+    try {
+      setLoading(true);
+      const page = await api.getAuditEvents({
+        limit: PAGE_SIZE,
+        cursor: cursors[cursors.length - 1],
+        action: filter || undefined,
+      });
+      setEvents(page.events);
+      setNextCursor(page.nextCursor);
+      setPageCursors(cursors);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    showPage('', []);
+  }, [showPage]);
+
+  const handleFilterChange = (filter: AuditAction | '') => {
+    setAction(filter);
+    showPage(filter, []);
+  };
+
+  return (
+    <div className="audit-page">
+      <div className="audit-container">
+        <h1>Activity</h1>
+        <p className="subtitle">Who started, stopped and changed what, newest first</p>
+
+        {error && <div className="error-message" role="alert">{error}</div>}
+
+        <div className="audit-filter">
+          <label htmlFor="auditAction">Show</label>
+          <select
+            id="auditAction"
+            value={action}
+            onChange={e => handleFilterChange(e.target.value as AuditAction | '')}
+          >
+            <option value="">All activity</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map(a => (
+              <option key={a} value={a}>{ACTION_LABELS[a]}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="loading">Loading...</div>
+        ) : events.length === 0 ? (
+          <div className="empty-state">
+            <p>No activity recorded yet.</p>
+          </div>
+        ) : (
+          <ul className="audit-list">
+            {events.map(event => (
+              <li key={event.id} className="audit-entry">
+                <div className="audit-entry-header">
+                  <span className="audit-action">{describeAction(event)}</span>
+                  {event.generatorName && <span className="audit-generator">{event.generatorName}</span>}
+                  <span className="audit-time">{new Date(event.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="audit-actor">
+                  by {describeActor(event)}
+                  {event.ip && <span className="audit-ip"> from {event.ip}</span>}
+                </div>
+                {changedFields(event).length > 0 && (
+                  <ul className="audit-changes">
+                    {changedFields(event).map(change => (
+                      <li key={change.field}>
+                        <span className="audit-field">{change.field}</span>{' '}
+                        {change.from !== undefined && <span className="audit-from">{change.from}</span>}
+                        {change.from !== undefined && change.to !== undefined && ' → '}
+                        {change.to !== undefined && <span className="audit-to">{change.to}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {(pageCursors.length > 0 || nextCursor) && (
+          <div className="audit-pagination">
+            <button
+              className="page-button"
+              onClick={() => showPage(action, pageCursors.slice(0, -1))}
+              disabled={pageCursors.length === 0}
+            >
+              ← Newer
+            </button>
+            <span className="page-indicator">Page {pageCursors.length + 1}</span>
+            <button
+              className="page-button"
+              onClick={() => nextCursor && showPage(action, [...pageCursors, nextCursor])}
+              disabled={!nextCursor}
+            >
+              Older →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,12 @@
 import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
 import { api } from '../utils/api';
-import type { Generator, UsageLog, OilChangeEntry } from '../types';
+import { generatorPath } from '../utils/selected-generator';
+import type { Generator, UsageLog, UsageLogQuery, UsageStats, StatsBucket, RefuelEvent, HourMeterReading, FuelStatus, OilChangeEntry, MaintenanceTask, MaintenanceTaskKind, MaintenanceNotification } from '../types';
 import './DashboardPage.css';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
-function monthsSince(iso: string | null): number {
-  if (!iso) return 999;
-  const d = new Date(iso);
-  const now = new Date();
-  return (now.getFullYear() - d.getFullYear()) * 12 + (now.getMonth() - d.getMonth());
-}
-
 function gaugeColor(percent: number): string {
   if (percent >= 90) return '#e53e3e';
   if (percent >= 70) return '#d69e2e';
@@ -24,6 +19,43 @@ function formatDate(iso: string): string {
   });
 }
 
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+  });
+}
+
+function formatSignedHours(hours: number): string {
+  return `${hours >= 0 ? '+' : '−'}${Math.abs(hours).toFixed(1)} h`;
+}
+
+// Drift of a meter reading from the tracked hours at the time it was read
+function formatDrift(driftHours: number): string {
+  if (Math.abs(driftHours) < 0.05) return 'tracked hours match the meter.';
+  return `the meter is ${Math.abs(driftHours).toFixed(1)} h ${driftHours > 0 ? 'ahead of' : 'behind'} the tracked hours.`;
+}
+
+const REASON_LABELS: Record<MaintenanceNotification['reason'], string> = {
+  hours: 'Hours interval reached',
+  months: 'Months interval reached',
+  hours_and_months: 'Hours and months intervals reached',
+};
+
+const SNOOZE_OPTIONS = [1, 3, 7, 14, 30];
+
+// Suggested intervals when adding a task; every field stays editable in the form.
+const TASK_PRESETS: Record<Exclude<MaintenanceTaskKind, 'oil_change'>, {
+  name: string; intervalHours: string; intervalMonths: string;
+}> = {
+  air_filter: { name: 'Air Filter', intervalHours: '50', intervalMonths: '3' },
+  spark_plug: { name: 'Spark Plug', intervalHours: '100', intervalMonths: '12' },
+  fuel_stabilizer: { name: 'Fuel Stabilizer', intervalHours: '', intervalMonths: '3' },
+  valve_clearance: { name: 'Valve Clearance', intervalHours: '300', intervalMonths: '' },
+  custom: { name: '', intervalHours: '', intervalMonths: '' },
+};
+
+type TaskPresetKind = keyof typeof TASK_PRESETS;
+
 function formatElapsed(ms: number): string {
   if (ms <= 0) return '0m 0s';
   const totalSec = Math.floor(ms / 1000);
@@ -35,8 +67,8 @@ function formatElapsed(ms: number): string {
 
 // ── SVG Gauge ─────────────────────────────────────────────────────────────────
 
-function Gauge({ value, max, label, unit }: {
-  value: number; max: number; label: string; unit: string;
+function Gauge({ value, max, label, unit, overLabel = 'OVERDUE' }: {
+  value: number; max: number; label: string; unit: string; overLabel?: string;
 }) {
   const percent = max > 0 ? Math.min(100, (value / max) * 100) : 0;
   const color = gaugeColor(percent);
@@ -62,7 +94,7 @@ function Gauge({ value, max, label, unit }: {
         </text>
         <text x="100" y="113" textAnchor="middle" className="gauge-status-text"
           style={{ fill: color }}>
-          {overdue ? 'OVERDUE' : `${(max - value).toFixed(1)} left`}
+          {overdue ? overLabel : `${(max - value).toFixed(1)} left`}
         </text>
       </svg>
       <div className="gauge-label">{label}</div>
@@ -72,10 +104,16 @@ function Gauge({ value, max, label, unit }: {
 
 // ── Run Bar Chart ─────────────────────────────────────────────────────────────
 
+// The newest 12 runs, fetched newest first; minDuration leaves out the run in progress
+const RECENT_RUNS_QUERY: UsageLogQuery = { limit: 12, order: 'desc', minDuration: 0 };
+
+async function getRecentRuns(generatorId: number): Promise<UsageLog[]> {
+  const { logs } = await api.getUsageLogPage(generatorId, RECENT_RUNS_QUERY);
+  return logs.reverse();
+}
+
 function RunBarChart({ logs }: { logs: UsageLog[] }) {
-  const completed = logs
-    .filter(l => l.durationHours !== null && l.durationHours > 0)
-    .slice(-12);
+  const completed = logs.filter(l => l.durationHours !== null && l.durationHours > 0);
 
   if (completed.length === 0) {
     return <p className="chart-empty">No completed runs to display.</p>;
@@ -116,6 +154,77 @@ function RunBarChart({ logs }: { logs: UsageLog[] }) {
   );
 }
 
+// ── Run History Chart ─────────────────────────────────────────────────────────
+
+const HISTORY_RANGES: Record<StatsBucket, { label: string; from: (now: Date) => Date }> = {
+  day: {
+    label: 'Last 30 days',
+    from: now => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - 29)),
+  },
+  week: {
+    // Back to the Monday 11 weeks before this week's, matching the API's ISO weeks
+    label: 'Last 12 weeks',
+    from: now => new Date(Date.UTC(
+      now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - 77 - ((now.getUTCDay() + 6) % 7)
+    )),
+  },
+  month: {
+    label: 'Last 12 months',
+    from: now => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1)),
+  },
+};
+
+function formatPeriod(iso: string, bucket: StatsBucket): string {
+  return new Date(iso).toLocaleDateString(undefined, bucket === 'month'
+    ? { month: 'short', year: '2-digit', timeZone: 'UTC' }
+    : { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function RunHistoryChart({ stats }: { stats: UsageStats }) {
+  if (stats.buckets.length === 0) {
+    return <p className="chart-empty">No completed runs in this period.</p>;
+  }
+
+  const maxH = Math.max(...stats.buckets.map(b => b.totalHours), 0.1);
+  const barW = 28;
+  const gap = 8;
+  const chartH = 100;
+  const totalW = stats.buckets.length * (barW + gap) + gap;
+  const { totals } = stats;
+
+  return (
+    <>
+      <div className="run-chart-wrap">
+        <svg viewBox={`0 0 ${totalW} ${chartH + 28}`} className="run-chart-svg"
+          role="img" aria-label="Run history bar chart">
+          {stats.buckets.map((b, i) => {
+            const h = (b.totalHours / maxH) * chartH;
+            const x = gap + i * (barW + gap);
+            const y = chartH - h;
+            const label = formatPeriod(b.periodStart, stats.bucket);
+            const hrs = b.totalHours.toFixed(1);
+            return (
+              <g key={b.periodStart}>
+                <title>{label} — {b.runs} run{b.runs === 1 ? '' : 's'}, {hrs}h</title>
+                <rect x={x} y={y} width={barW} height={h} rx="3" fill="#667eea" />
+                <text x={x + barW / 2} y={chartH + 10} textAnchor="middle"
+                  className="chart-label">{label}</text>
+                <text x={x + barW / 2} y={y - 4} textAnchor="middle"
+                  className="chart-bar-val">{hrs}h</text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <p className="history-summary">
+        {totals.runs} run{totals.runs === 1 ? '' : 's'} · {totals.totalHours.toFixed(1)} h total
+        · longest {(totals.longestRunHours ?? 0).toFixed(1)} h
+        · average {(totals.averageRunHours ?? 0).toFixed(1)} h
+      </p>
+    </>
+  );
+}
+
 // ── Live runtime hook ─────────────────────────────────────────────────────────
 
 function useLiveElapsed(startTime: string | null, isRunning: boolean) {
@@ -134,10 +243,18 @@ function useLiveElapsed(startTime: string | null, isRunning: boolean) {
 
 // ── Main Component ────────────────────────────────────────────────────────────
 
-export function DashboardPage() {
+export function DashboardPage({ generatorId }: { generatorId: number | null }) {
   const [generator, setGenerator] = useState<Generator | null>(null);
-  const [logs, setLogs] = useState<UsageLog[]>([]);
+  const [recentRuns, setRecentRuns] = useState<UsageLog[]>([]);
+  const [autoClosedRuns, setAutoClosedRuns] = useState<UsageLog[]>([]);
   const [oilHistory, setOilHistory] = useState<OilChangeEntry[]>([]);
+  const [deletedOilChange, setDeletedOilChange] = useState<OilChangeEntry | null>(null);
+  const [fuel, setFuel] = useState<FuelStatus | null>(null);
+  const [refuels, setRefuels] = useState<RefuelEvent[]>([]);
+  const [meterReadings, setMeterReadings] = useState<HourMeterReading[]>([]);
+  const [tasks, setTasks] = useState<MaintenanceTask[]>([]);
+  const [notifications, setNotifications] = useState<MaintenanceNotification[]>([]);
+  const [snoozeDays, setSnoozeDays] = useState(7);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -145,48 +262,97 @@ export function DashboardPage() {
   const [oilDate, setOilDate] = useState('');
   const [oilNotes, setOilNotes] = useState('');
   const [oilSubmitting, setOilSubmitting] = useState(false);
+  const [showRefuelForm, setShowRefuelForm] = useState(false);
+  const [refuelGallons, setRefuelGallons] = useState('');
+  const [refuelFull, setRefuelFull] = useState(true);
+  const [refuelDate, setRefuelDate] = useState('');
+  const [refuelSubmitting, setRefuelSubmitting] = useState(false);
+  const [showMeterForm, setShowMeterForm] = useState(false);
+  const [meterHours, setMeterHours] = useState('');
+  const [meterDate, setMeterDate] = useState('');
+  const [meterRebase, setMeterRebase] = useState(false);
+  const [meterSubmitting, setMeterSubmitting] = useState(false);
+  const [showTaskForm, setShowTaskForm] = useState(false);
+  const [taskKind, setTaskKind] = useState<TaskPresetKind>('air_filter');
+  const [taskName, setTaskName] = useState(TASK_PRESETS.air_filter.name);
+  const [taskHours, setTaskHours] = useState(TASK_PRESETS.air_filter.intervalHours);
+  const [taskMonths, setTaskMonths] = useState(TASK_PRESETS.air_filter.intervalMonths);
+  const [taskSubmitting, setTaskSubmitting] = useState(false);
   const [toggling, setToggling] = useState(false);
   const [toggleError, setToggleError] = useState('');
+  const [correctedEnds, setCorrectedEnds] = useState<Record<number, string>>({});
+  const [historyBucket, setHistoryBucket] = useState<StatsBucket>('month');
+  const [history, setHistory] = useState<UsageStats | null>(null);
 
   const elapsed = useLiveElapsed(generator?.currentStartTime ?? null, generator?.isRunning ?? false);
 
   const loadData = useCallback(async () => {
     try {
-      const generators = await api.getGenerators();
-      if (generators.length === 0) { setLoading(false); return; }
-      const gen = generators[0];
+      if (generatorId === null) { setLoading(false); return; }
+      const gen = await api.getGenerator(generatorId);
       setGenerator(gen);
-      const [logList, oilList] = await Promise.all([
-        api.getUsageLogs(gen.id),
+      const [runList, autoClosedPage, oilList, taskList, notificationList, fuelStatus, refuelList, readingList] = await Promise.all([
+        getRecentRuns(gen.id),
+        api.getUsageLogPage(gen.id, { autoClosedUnreviewed: true }),
         api.getOilChangeHistory(gen.id),
+        api.getMaintenanceTasks(gen.id),
+        api.getMaintenanceNotifications(gen.id),
+        api.getFuelStatus(gen.id),
+        api.getRefuels(gen.id),
+        api.getMeterReadings(gen.id),
       ]);
-      setLogs(logList);
+      setRecentRuns(runList);
+      setAutoClosedRuns(autoClosedPage.logs);
       setOilHistory(oilList);
+      setFuel(fuelStatus);
+      setRefuels(refuelList);
+      setMeterReadings(readingList);
+      setTasks(taskList);
+      setNotifications(notificationList);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load dashboard');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [generatorId]);
 
   useEffect(() => { loadData(); }, [loadData]);
 
+  useEffect(() => {
+    if (generatorId === null) return;
+    api.getUsageStats(generatorId, {
+      bucket: historyBucket,
+      from: HISTORY_RANGES[historyBucket].from(new Date()).toISOString(),
+    })
+      .then(setHistory)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load run history'));
+  }, [generatorId, historyBucket]);
+
   const handleToggle = async () => {
     if (!generator || toggling) return;
     setToggling(true);
     setToggleError('');
     try {
-      const result = await api.toggleGenerator(generator.id);
+      // Explicit start/stop rather than toggle, so a double click cannot undo itself
+      const result = generator.isRunning
+        ? await api.stopGenerator(generator.id)
+        : await api.startGenerator(generator.id);
       setGenerator(prev => {
         if (!prev) return prev;
-        if (result.status === 'started') {
+        if (result.isRunning) {
           return { ...prev, isRunning: true, currentStartTime: result.startTime };
         }
         return { ...prev, isRunning: false, currentStartTime: null, totalHours: result.totalHours };
       });
       if (result.status === 'stopped') {
-        const updatedLogs = await api.getUsageLogs(generator.id);
-        setLogs(updatedLogs);
+        const [updatedRuns, updatedTasks, updatedFuel] = await Promise.all([
+          getRecentRuns(generator.id),
+          api.getMaintenanceTasks(generator.id),
+          api.getFuelStatus(generator.id),
+        ]);
+        setRecentRuns(updatedRuns);
+        setTasks(updatedTasks);
+        setFuel(updatedFuel);
       }
     } catch (err) {
       setToggleError(err instanceof Error ? err.message : 'Toggle failed');
@@ -215,17 +381,212 @@ export function DashboardPage() {
     }
   };
 
-  const handleDeleteOilChange = async (changeId: number) => {
+  const handleDeleteOilChange = async (entry: OilChangeEntry) => {
     if (!generator) return;
-    if (!confirm('Remove this oil change entry?')) return;
     try {
-      await api.deleteOilChange(generator.id, changeId);
+      await api.deleteOilChange(generator.id, entry.id);
+      setDeletedOilChange(entry);
       await loadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete oil change');
     }
   };
 
+  const handleUndoDeleteOilChange = async () => {
+    if (!generator || !deletedOilChange) return;
+    try {
+      await api.restoreOilChange(generator.id, deletedOilChange.id);
+      setDeletedOilChange(null);
+      await loadData();
+    } catch (err) {
+      setDeletedOilChange(null);
+      setError(err instanceof Error ? err.message : 'Failed to restore oil change');
+    }
+  };
+
+  const handleLogRefuel = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!generator) return;
+    setRefuelSubmitting(true);
+    try {
+      await api.createRefuel(generator.id, {
+        gallons: parseFloat(refuelGallons),
+        filledToFull: refuelFull,
+        ...(refuelDate ? { refueledAt: new Date(refuelDate).toISOString() } : {}),
+      });
+      setShowRefuelForm(false);
+      setRefuelGallons('');
+      setRefuelFull(true);
+      setRefuelDate('');
+      const [fuelStatus, refuelList] = await Promise.all([
+        api.getFuelStatus(generator.id),
+        api.getRefuels(generator.id),
+      ]);
+      setFuel(fuelStatus);
+      setRefuels(refuelList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log refuel');
+    } finally {
+      setRefuelSubmitting(false);
+    }
+  };
+
+  const handleDeleteRefuel = async (refuelId: number) => {
+    if (!generator) return;
+    if (!confirm('Remove this refuel entry?')) return;
+    try {
+      await api.deleteRefuel(generator.id, refuelId);
+      setRefuels(prev => prev.filter(r => r.id !== refuelId));
+      setFuel(await api.getFuelStatus(generator.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete refuel');
+    }
+  };
+
+  const resetMeterForm = () => {
+    setShowMeterForm(false);
+    setMeterHours('');
+    setMeterDate('');
+    setMeterRebase(false);
+  };
+
+  const handleRecordMeterReading = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!generator) return;
+    setMeterSubmitting(true);
+    try {
+      await api.createMeterReading(generator.id, {
+        meterHours: parseFloat(meterHours),
+        rebase: meterRebase,
+        ...(meterDate ? { readAt: new Date(meterDate).toISOString() } : {}),
+      });
+      resetMeterForm();
+      // A rebase changes the generator's total hours
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record meter reading');
+    } finally {
+      setMeterSubmitting(false);
+    }
+  };
+
+  const handleDeleteMeterReading = async (readingId: number) => {
+    if (!generator) return;
+    if (!confirm('Remove this meter reading? Any rebase made from it is kept.')) return;
+    try {
+      await api.deleteMeterReading(generator.id, readingId);
+      setMeterReadings(prev => prev.filter(r => r.id !== readingId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete meter reading');
+    }
+  };
+
+  const resetTaskForm = (kind: TaskPresetKind = 'air_filter') => {
+    setTaskKind(kind);
+    setTaskName(TASK_PRESETS[kind].name);
+    setTaskHours(TASK_PRESETS[kind].intervalHours);
+    setTaskMonths(TASK_PRESETS[kind].intervalMonths);
+  };
+
+  const handleAddTask = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!generator) return;
+    if (!taskHours && !taskMonths) {
+      setError('Set an hours or a months interval for the task');
+      return;
+    }
+    setTaskSubmitting(true);
+    try {
+      await api.createMaintenanceTask(generator.id, {
+        kind: taskKind,
+        name: taskName.trim(),
+        intervalHours: taskHours ? parseFloat(taskHours) : null,
+        intervalMonths: taskMonths ? parseInt(taskMonths, 10) : null,
+      });
+      setShowTaskForm(false);
+      resetTaskForm();
+      setTasks(await api.getMaintenanceTasks(generator.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add maintenance task');
+    } finally {
+      setTaskSubmitting(false);
+    }
+  };
+
+  const handleCompleteTask = async (task: MaintenanceTask) => {
+    if (!generator) return;
+    if (!confirm(`Mark "${task.name}" as done now?`)) return;
+    try {
+      await api.completeMaintenanceTask(generator.id, task.id, {});
+      setTasks(await api.getMaintenanceTasks(generator.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log maintenance');
+    }
+  };
+
+  const handleDeleteTask = async (task: MaintenanceTask) => {
+    if (!generator) return;
+    if (!confirm(`Remove "${task.name}" and its history?`)) return;
+    try {
+      await api.deleteMaintenanceTask(generator.id, task.id);
+      setTasks(prev => prev.filter(t => t.id !== task.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete maintenance task');
+    }
+  };
+
+  const handleSnooze = async (notificationId: number) => {
+    if (!generator) return;
+    try {
+      const updated = await api.snoozeMaintenanceNotification(generator.id, notificationId, snoozeDays);
+      setNotifications(prev => prev.map(n => (n.id === updated.id ? updated : n)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to snooze alert');
+    }
+  };
+
+  const handleAcknowledge = async (notificationId: number) => {
+    if (!generator) return;
+    try {
+      const updated = await api.acknowledgeMaintenanceNotification(generator.id, notificationId);
+      setNotifications(prev => prev.map(n => (n.id === updated.id ? updated : n)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge alert');
+    }
+  };
+
+  const handleConfirmAutoStop = async (logId: number) => {
+    if (!generator) return;
+    try {
+      await api.confirmUsageLog(generator.id, logId);
+      setAutoClosedRuns(prev => prev.filter(l => l.id !== logId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to confirm run');
+    }
+  };
+
+  const handleCorrectAutoStop = async (e: FormEvent, logId: number) => {
+    e.preventDefault();
+    if (!generator || !correctedEnds[logId]) return;
+    try {
+      await api.updateUsageLog(generator.id, logId, {
+        endTime: new Date(correctedEnds[logId]).toISOString(),
+      });
+      setAutoClosedRuns(prev => prev.filter(l => l.id !== logId));
+      // The corrected run changes totalHours and with it every hours-based task
+      const [updatedGenerator, updatedTasks, updatedRuns] = await Promise.all([
+        api.getGenerator(generator.id),
+        api.getMaintenanceTasks(generator.id),
+        getRecentRuns(generator.id),
+      ]);
+      setGenerator(updatedGenerator);
+      setTasks(updatedTasks);
+      setRecentRuns(updatedRuns);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to correct run');
+    }
+  };
+
   if (loading) {
     return <div className="dashboard-page"><div className="loading">Loading…</div></div>;
   }
@@ -235,6 +596,7 @@ export function DashboardPage() {
       <div className="dashboard-page">
         <div className="dashboard-container">
           <h1>Dashboard</h1>
+          {error && <div className="error-message" role="alert">{error}</div>}
           <div className="empty-state">
             <p>No generator configured yet.</p>
             <a href="/profile" className="setup-link">Go to Profile to set up your generator</a>
@@ -244,9 +606,10 @@ export function DashboardPage() {
     );
   }
 
-  const hoursSince = generator.totalHours - (generator.lastOilChangeHours ?? 0);
-  const monthsSinceOil = monthsSince(generator.lastOilChangeDate);
-  const clampedMonths = Math.min(monthsSinceOil, generator.oilChangeMonths);
+  // Viewers only see the dashboard; defining maintenance tasks is left to owners
+  const canOperate = generator.role !== 'viewer';
+  const isOwner = generator.role === 'owner';
+  const otherTasks = tasks.filter(t => t.kind !== 'oil_change');
 
   return (
     <div className="dashboard-page">
@@ -256,6 +619,32 @@ export function DashboardPage() {
 
         {error && <div className="error-message" role="alert">{error}</div>}
 
+        {/* ── Auto-stopped runs awaiting review ── */}
+        {autoClosedRuns.map(log => (
+          <div key={log.id} className="auto-stop-banner" role="status">
+            <p>
+              <strong>Run stopped automatically.</strong>{' '}
+              The run started {formatDateTime(log.startTime)} hit the {log.durationHours!.toFixed(1)} h
+              limit and was closed at {formatDateTime(log.endTime!)}. If the generator stopped
+              earlier, enter when it actually stopped.
+            </p>
+            {canOperate && <form className="auto-stop-actions" onSubmit={e => handleCorrectAutoStop(e, log.id)}>
+              <input
+                type="datetime-local"
+                aria-label="Actual stop time"
+                value={correctedEnds[log.id] ?? ''}
+                onChange={e => setCorrectedEnds(prev => ({ ...prev, [log.id]: e.target.value }))}
+              />
+              <button type="submit" className="cancel-button" disabled={!correctedEnds[log.id]}>
+                Correct Stop Time
+              </button>
+              <button type="button" className="primary-button" onClick={() => handleConfirmAutoStop(log.id)}>
+                Looks Right
+              </button>
+            </form>}
+          </div>
+        ))}
+
         {/* ── Stat Cards ── */}
         <div className="stat-cards">
           {/* Status */}
@@ -271,50 +660,330 @@ export function DashboardPage() {
               <p className="stat-detail">Current session: <strong>{formatElapsed(elapsed)}</strong></p>
             )}
             <p className="stat-detail">Total lifetime: <strong>{generator.totalHours.toFixed(1)} h</strong></p>
-            <button
-              className={`toggle-button ${generator.isRunning ? 'toggle-stop' : 'toggle-start'}`}
-              onClick={handleToggle}
-              disabled={toggling}
-            >
-              {toggling ? 'Please wait…' : generator.isRunning ? 'Stop Generator' : 'Start Generator'}
-            </button>
+            {generator.initialHours > 0 && (
+              <p className="stat-detail">Includes {generator.initialHours.toFixed(1)} h before tracking</p>
+            )}
+            {canOperate && (
+              <button
+                className={`toggle-button ${generator.isRunning ? 'toggle-stop' : 'toggle-start'}`}
+                onClick={handleToggle}
+                disabled={toggling}
+              >
+                {toggling ? 'Please wait…' : generator.isRunning ? 'Stop Generator' : 'Start Generator'}
+              </button>
+            )}
             {toggleError && <p className="toggle-error" role="alert">{toggleError}</p>}
           </div>
 
-          {/* Hours Gauge */}
-          <div className="stat-card">
-            <h2>Hours to Oil Change</h2>
-            <Gauge
-              value={hoursSince}
-              max={generator.oilChangeHours}
-              label="Hours since last change"
-              unit="h"
-            />
-          </div>
+          {/* Fuel used from the estimated tank level; only once the tank has a known starting level */}
+          {fuel && fuel.tankCapacityGallons !== null && fuel.estimatedGallonsRemaining !== null && (
+            <div className="stat-card">
+              <h2>Fuel</h2>
+              <Gauge
+                value={fuel.tankCapacityGallons - fuel.estimatedGallonsRemaining}
+                max={fuel.tankCapacityGallons}
+                label="Estimated gallons used"
+                unit="gal"
+                overLabel="EMPTY"
+              />
+            </div>
+          )}
 
-          {/* Months Gauge */}
-          <div className="stat-card">
-            <h2>Months to Oil Change</h2>
-            <Gauge
-              value={clampedMonths}
-              max={generator.oilChangeMonths}
-              label="Months since last change"
-              unit="mo"
-            />
-          </div>
+          {/* One hours and/or months gauge per maintenance task, oil change first */}
+          {tasks.flatMap(task => [
+            task.intervalHours !== null && (
+              <div className="stat-card" key={`${task.id}-hours`}>
+                <h2>Hours to {task.name}</h2>
+                <Gauge
+                  value={task.hoursSinceCompletion}
+                  max={task.intervalHours}
+                  label="Hours since last done"
+                  unit="h"
+                />
+              </div>
+            ),
+            task.intervalMonths !== null && (
+              <div className="stat-card" key={`${task.id}-months`}>
+                <h2>Months to {task.name}</h2>
+                <Gauge
+                  value={Math.min(task.monthsSinceCompletion, task.intervalMonths)}
+                  max={task.intervalMonths}
+                  label="Months since last done"
+                  unit="mo"
+                />
+              </div>
+            ),
+          ])}
         </div>
 
         {/* ── Recent Runs Chart ── */}
         <section className="dashboard-section">
           <h2>Recent Runs</h2>
-          <RunBarChart logs={logs} />
+          <RunBarChart logs={recentRuns} />
+        </section>
+
+        {/* ── Run History ── */}
+        <section className="dashboard-section history-section">
+          <div className="section-header">
+            <h2>Run History</h2>
+            <label className="snooze-select">
+              Show
+              <select
+                value={historyBucket}
+                onChange={e => setHistoryBucket(e.target.value as StatsBucket)}
+                aria-label="Run history period"
+              >
+                {(Object.keys(HISTORY_RANGES) as StatsBucket[]).map(b => (
+                  <option key={b} value={b}>{HISTORY_RANGES[b].label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {history && <RunHistoryChart stats={history} />}
+        </section>
+
+        {/* ── Maintenance Alerts ── */}
+        <section className="dashboard-section notifications-section">
+          <div className="section-header">
+            <h2>Maintenance Alerts</h2>
+            {notifications.some(n => n.status !== 'acknowledged') && (
+              <label className="snooze-select">
+                Snooze for
+                <select value={snoozeDays} onChange={e => setSnoozeDays(parseInt(e.target.value, 10))}>
+                  {SNOOZE_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days} {days === 1 ? 'day' : 'days'}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="empty-list">No maintenance alerts have been sent.</p>
+          ) : (
+            <ul className="notification-list">
+              {notifications.map(n => (
+                <li key={n.id} className={`notification-entry notification-${n.status}`}>
+                  <div className="notification-info">
+                    <strong>{n.taskName ?? 'Maintenance'} · {formatDate(n.sentAt)}</strong>
+                    <span className="notification-reason">{REASON_LABELS[n.reason]}</span>
+                    <span className="notification-detail">
+                      {n.hoursSinceChange.toFixed(1)} h
+                      {n.monthsSinceChange !== 999 && ` · ${n.monthsSinceChange} mo`} since last done
+                    </span>
+                    <span className={`notification-status status-${n.status}`}>
+                      {n.status === 'snoozed' && n.snoozedUntil
+                        ? `Snoozed until ${formatDate(n.snoozedUntil)}`
+                        : n.status === 'acknowledged' ? 'Acknowledged' : 'Open'}
+                    </span>
+                  </div>
+                  {canOperate && n.status !== 'acknowledged' && (
+                    <div className="notification-actions">
+                      <button className="cancel-button" onClick={() => handleSnooze(n.id)}>
+                        Snooze
+                      </button>
+                      <button className="primary-button" onClick={() => handleAcknowledge(n.id)}>
+                        Acknowledge
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* ── Refuels ── */}
+        <section className="dashboard-section refuel-section">
+          <div className="section-header">
+            <h2>Refuels</h2>
+            {canOperate && !showRefuelForm && (
+              <button className="primary-button" onClick={() => setShowRefuelForm(true)}>
+                Log Refuel
+              </button>
+            )}
+          </div>
+
+          {(generator.tankCapacityGallons === null || generator.fuelBurnRate === null) && (
+            <p className="empty-list">
+              Set the tank capacity and burn rate on the <a href="/profile">Profile</a> page to estimate fuel remaining.
+            </p>
+          )}
+
+          {showRefuelForm && (
+            <form onSubmit={handleLogRefuel} className="refuel-form">
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="refuelGallons">Gallons added</label>
+                  <input
+                    type="number"
+                    id="refuelGallons"
+                    value={refuelGallons}
+                    onChange={e => setRefuelGallons(e.target.value)}
+                    min="0.01"
+                    step="0.01"
+                    required
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="refuelDate">Date (optional — defaults to now)</label>
+                  <input
+                    type="datetime-local"
+                    id="refuelDate"
+                    value={refuelDate}
+                    onChange={e => setRefuelDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              <label className="refuel-full">
+                <input
+                  type="checkbox"
+                  checked={refuelFull}
+                  onChange={e => setRefuelFull(e.target.checked)}
+                />
+                Filled the tank to full
+              </label>
+              <div className="form-actions">
+                <button type="submit" className="primary-button" disabled={refuelSubmitting}>
+                  {refuelSubmitting ? 'Saving…' : 'Save Refuel'}
+                </button>
+                <button type="button" className="cancel-button"
+                  onClick={() => { setShowRefuelForm(false); setRefuelGallons(''); setRefuelFull(true); setRefuelDate(''); }}>
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {refuels.length === 0 ? (
+            <p className="empty-list">No refuels recorded yet.</p>
+          ) : (
+            <ul className="refuel-list">
+              {refuels.map(refuel => (
+                <li key={refuel.id} className="refuel-entry">
+                  <div className="refuel-info">
+                    <strong>{formatDate(refuel.refueledAt)}</strong>
+                    <span className="refuel-gallons">
+                      {refuel.gallons.toFixed(2)} gal{refuel.filledToFull && ' · filled to full'}
+                    </span>
+                    {refuel.notes && <span className="oil-notes">{refuel.notes}</span>}
+                  </div>
+                  {canOperate && (
+                    <button
+                      className="delete-oil-change-button"
+                      onClick={() => handleDeleteRefuel(refuel.id)}
+                      title="Remove entry"
+                    >
+                      ×
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* ── Hour Meter ── */}
+        <section className="dashboard-section meter-section">
+          <div className="section-header">
+            <h2>Hour Meter</h2>
+            {canOperate && !showMeterForm && (
+              <button className="primary-button" onClick={() => setShowMeterForm(true)}>
+                Record Reading
+              </button>
+            )}
+          </div>
+
+          {meterReadings.length > 0 && (
+            <p className="meter-summary">
+              Last reading {meterReadings[0].meterHours.toFixed(1)} h on {formatDate(meterReadings[0].readAt)}:{' '}
+              {formatDrift(meterReadings[0].driftHours)}
+              {generator.meterAdjustmentHours !== 0 && (
+                <> Total hours include a {formatSignedHours(generator.meterAdjustmentHours)} correction from the meter.</>
+              )}
+            </p>
+          )}
+
+          {showMeterForm && (
+            <form onSubmit={handleRecordMeterReading} className="meter-form">
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="meterHours">Meter reading (hours)</label>
+                  <input
+                    type="number"
+                    id="meterHours"
+                    value={meterHours}
+                    onChange={e => setMeterHours(e.target.value)}
+                    min="0"
+                    step="0.1"
+                    required
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="meterDate">Read at (optional — defaults to now)</label>
+                  <input
+                    type="datetime-local"
+                    id="meterDate"
+                    value={meterDate}
+                    onChange={e => setMeterDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              <label className="refuel-full">
+                <input
+                  type="checkbox"
+                  id="meterRebase"
+                  checked={meterRebase}
+                  onChange={e => setMeterRebase(e.target.checked)}
+                />
+                Set total hours to match the meter
+              </label>
+              <div className="form-actions">
+                <button type="submit" className="primary-button" disabled={meterSubmitting}>
+                  {meterSubmitting ? 'Saving…' : 'Save Reading'}
+                </button>
+                <button type="button" className="cancel-button" onClick={resetMeterForm}>
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {meterReadings.length === 0 ? (
+            <p className="empty-list">No meter readings recorded yet.</p>
+          ) : (
+            <ul className="meter-list">
+              {meterReadings.map(reading => (
+                <li key={reading.id} className="meter-entry">
+                  <div className="meter-info">
+                    <strong>{formatDate(reading.readAt)}</strong>
+                    <span className="meter-hours">
+                      {reading.meterHours.toFixed(1)} h on the meter · {reading.trackedHours.toFixed(1)} h tracked
+                    </span>
+                    <span className="meter-drift">
+                      {formatSignedHours(reading.driftHours)}{reading.rebased && ' · rebased'}
+                    </span>
+                  </div>
+                  {canOperate && (
+                    <button
+                      className="delete-oil-change-button"
+                      onClick={() => handleDeleteMeterReading(reading.id)}
+                      title="Remove reading"
+                    >
+                      ×
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </section>
 
         {/* ── Oil Change History ── */}
         <section className="dashboard-section oil-change-section">
           <div className="section-header">
             <h2>Oil Change History</h2>
-            {!showOilForm && (
+            {canOperate && !showOilForm && (
               <button className="primary-button" onClick={() => setShowOilForm(true)}>
                 Log Oil Change
               </button>
@@ -357,6 +1026,16 @@ export function DashboardPage() {
             </form>
           )}
 
+          {deletedOilChange && (
+            <div className="undo-banner" role="status">
+              <span>Removed the oil change from {formatDate(deletedOilChange.performedAt)}.</span>
+              <button type="button" onClick={handleUndoDeleteOilChange} className="undo-button">
+                Undo
+              </button>
+              <Link to={generatorPath(generator.id, 'trash')} className="trash-link">View trash</Link>
+            </div>
+          )}
+
           {oilHistory.length === 0 ? (
             <p className="empty-list">No oil changes recorded yet.</p>
           ) : (
@@ -368,13 +1047,132 @@ export function DashboardPage() {
                     <span className="oil-hours">at {entry.hoursAtChange.toFixed(1)} h</span>
                     {entry.notes && <span className="oil-notes">{entry.notes}</span>}
                   </div>
-                  <button
-                    className="delete-oil-change-button"
-                    onClick={() => handleDeleteOilChange(entry.id)}
-                    title="Remove entry"
+                  {canOperate && (
+                    <button
+                      className="delete-oil-change-button"
+                      onClick={() => handleDeleteOilChange(entry)}
+                      title="Remove entry"
+                    >
+                      ×
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* ── Other Maintenance Tasks ── */}
+        <section className="dashboard-section maintenance-tasks-section">
+          <div className="section-header">
+            <h2>Other Maintenance</h2>
+            {isOwner && !showTaskForm && (
+              <button className="primary-button" onClick={() => setShowTaskForm(true)}>
+                Add Task
+              </button>
+            )}
+          </div>
+
+          {showTaskForm && (
+            <form onSubmit={handleAddTask} className="maintenance-task-form">
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="taskKind">Type</label>
+                  <select
+                    id="taskKind"
+                    value={taskKind}
+                    onChange={e => resetTaskForm(e.target.value as TaskPresetKind)}
                   >
-                    ×
-                  </button>
+                    {(Object.keys(TASK_PRESETS) as TaskPresetKind[]).map(kind => (
+                      <option key={kind} value={kind}>{TASK_PRESETS[kind].name || 'Custom'}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="taskName">Name</label>
+                  <input
+                    type="text"
+                    id="taskName"
+                    value={taskName}
+                    onChange={e => setTaskName(e.target.value)}
+                    required
+                    maxLength={100}
+                  />
+                </div>
+              </div>
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="taskHours">Every (hours)</label>
+                  <input
+                    type="number"
+                    id="taskHours"
+                    value={taskHours}
+                    onChange={e => setTaskHours(e.target.value)}
+                    min="1"
+                    step="any"
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="taskMonths">Every (months)</label>
+                  <input
+                    type="number"
+                    id="taskMonths"
+                    value={taskMonths}
+                    onChange={e => setTaskMonths(e.target.value)}
+                    min="1"
+                    step="1"
+                  />
+                </div>
+              </div>
+              <div className="form-actions">
+                <button type="submit" className="primary-button" disabled={taskSubmitting}>
+                  {taskSubmitting ? 'Saving…' : 'Add Task'}
+                </button>
+                <button type="button" className="cancel-button"
+                  onClick={() => { setShowTaskForm(false); resetTaskForm(); }}>
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {otherTasks.length === 0 ? (
+            <p className="empty-list">No other maintenance tasks tracked.</p>
+          ) : (
+            <ul className="maintenance-task-list">
+              {otherTasks.map(task => (
+                <li key={task.id} className={`maintenance-task-entry ${task.isDue ? 'task-due' : ''}`}>
+                  <div className="maintenance-task-info">
+                    <strong>{task.name}</strong>
+                    <span className="task-interval">
+                      Every {[
+                        task.intervalHours !== null && `${task.intervalHours} h`,
+                        task.intervalMonths !== null && `${task.intervalMonths} mo`,
+                      ].filter(Boolean).join(' or ')}
+                    </span>
+                    <span className="task-last-done">
+                      {task.lastCompletedAt
+                        ? `Last done ${formatDate(task.lastCompletedAt)}`
+                        : 'Never done'}
+                    </span>
+                    {task.isDue && <span className="task-due-badge">Due</span>}
+                  </div>
+                  <div className="maintenance-task-actions">
+                    {canOperate && (
+                      <button className="primary-button" onClick={() => handleCompleteTask(task)}>
+                        Mark Done
+                      </button>
+                    )}
+                    {isOwner && (
+                      <button
+                        className="delete-oil-change-button"
+                        onClick={() => handleDeleteTask(task)}
+                        title="Remove task"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
                 </li>
               ))}
             </ul>
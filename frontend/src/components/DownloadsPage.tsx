@@ -1,22 +1,37 @@
-import { useState } from 'react';
+import { useState, type ChangeEvent } from 'react';
 import { api } from '../utils/api';
-import type { UsageLog } from '../types';
+import type { CostReport, ExportDataset, ExportFormat, ExportQuery, ImportPreview } from '../types';
 import './DownloadsPage.css';
 
-function logsToCSV(logs: UsageLog[]): string {
-  const header = ['ID', 'Start Time', 'End Time', 'Duration (hours)', 'Created At'];
-  const rows = logs.map(l => [
-    l.id,
-    new Date(l.startTime).toISOString(),
-    l.endTime ? new Date(l.endTime).toISOString() : '',
-    l.durationHours !== null ? l.durationHours.toFixed(4) : '',
-    new Date(l.createdAt).toISOString(),
+const DATASET_OPTIONS: { value: ExportDataset; label: string }[] = [
+  { value: 'usage-logs', label: 'Run log' },
+  { value: 'oil-changes', label: 'Oil change history' },
+  { value: 'generator', label: 'Generator settings' },
+  { value: 'all', label: 'Everything' },
+];
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+];
+
+function costReportToCSV(report: CostReport): string {
+  const header = ['Month', 'Runs', 'Hours', 'Fuel (gallons)', 'Cost'];
+  const format = (value: number | null, digits: number) => (value !== null ? value.toFixed(digits) : '');
+  const rows = report.months.map(m => [
+    m.month,
+    m.runs,
+    m.hours.toFixed(4),
+    format(m.gallons, 4),
+    format(m.cost, 2),
   ]);
+  const totals = report.totals;
+  rows.push(['Total', totals.runs, totals.hours.toFixed(4), format(totals.gallons, 4), format(totals.cost, 2)]);
   return [header, ...rows].map(row => row.join(',')).join('\n');
 }
 
-function downloadCSV(content: string, filename: string) {
-  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -25,35 +40,241 @@ function downloadCSV(content: string, filename: string) {
   URL.revokeObjectURL(url);
 }
 
-export function DownloadsPage() {
-  const [downloadingLogs, setDownloadingLogs] = useState(false);
+const IMPORT_STATUS_LABELS: Record<'ok' | 'invalid' | 'overlap', string> = {
+  ok: 'Ready',
+  invalid: 'Invalid',
+  overlap: 'Overlap',
+};
+
+function formatImportTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+// Upload flow for older paper/spreadsheet logs: pick a CSV and the time zone its times were
+// written in, preview how each row parses, then import the valid rows in one go.
+function LogImportCard({ generatorId }: { generatorId: number | null }) {
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [skipOverlaps, setSkipOverlaps] = useState(false);
+  const [busy, setBusy] = useState(false);
   const [error, setError] = useState('');
   const [message, setMessage] = useState('');
 
-  const handleDownloadLogs = async () => {
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    setMessage('');
+    setError('');
+    setCsv(file ? await file.text() : '');
+    setFileName(file?.name ?? '');
+  };
+
+  const withGenerator = async (action: (generatorId: number) => Promise<void>) => {
     setError('');
     setMessage('');
-    setDownloadingLogs(true);
+    setBusy(true);
     try {
-      const generators = await api.getGenerators();
-      if (generators.length === 0) {
+      if (generatorId === null) {
         setError('No generator found. Create one on the Profile page first.');
         return;
       }
-      const gen = generators[0];
-      const logs = await api.getUsageLogs(gen.id);
-      if (logs.length === 0) {
-        setMessage('No run log entries to download.');
+      await action(generatorId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePreview = () => withGenerator(async generatorId => {
+    setPreview(await api.previewUsageLogImport(generatorId, csv, timezone));
+  });
+
+  const handleImport = () => withGenerator(async generatorId => {
+    const result = await api.importUsageLogs(generatorId, csv, timezone, skipOverlaps);
+    setPreview(null);
+    setCsv('');
+    setFileName('');
+    setMessage(`Imported ${result.imported} run${result.imported === 1 ? '' : 's'}`
+      + (result.skipped > 0 ? `, skipped ${result.skipped} overlapping.` : '.'));
+  });
+
+  const canImport = preview !== null && preview.invalid === 0 && preview.valid > 0
+    && (preview.overlapping === 0 || skipOverlaps);
+
+  return (
+    <div className="download-card import-card">
+      <div className="download-card-icon">📥</div>
+      <div className="download-card-info">
+        <h2>Import Run Log (CSV)</h2>
+        <p>
+          Bring in older paper or spreadsheet logs. The file needs Start and End columns, with
+          times like <code>2024-09-28 14:30</code> or <code>9/28/2024 2:30 PM</code>.
+        </p>
+
+        {error && <div className="error-message" role="alert">{error}</div>}
+        {message && <div className="success-message">{message}</div>}
+
+        <div className="export-options">
+          <label>
+            CSV file
+            <input type="file" id="importFile" accept=".csv,text/csv" onChange={handleFileChange} />
+          </label>
+          <label>
+            Times are in
+            <select
+              id="importTimezone"
+              value={timezone}
+              onChange={e => { setTimezone(e.target.value); setPreview(null); }}
+            >
+              {Intl.supportedValuesOf('timeZone').map(tz => (
+                <option key={tz} value={tz}>{tz}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="import-actions">
+          <button className="download-button" onClick={handlePreview} disabled={!csv || busy}>
+            {busy && !preview ? 'Reading…' : 'Preview'}
+          </button>
+        </div>
+
+        {preview && (
+          <div className="import-preview">
+            <p className="import-summary">
+              {fileName}: {preview.valid} ready
+              {preview.overlapping > 0 && `, ${preview.overlapping} overlapping`}
+              {preview.invalid > 0 && `, ${preview.invalid} invalid`}
+            </p>
+            <div className="import-table-wrapper">
+              <table className="import-table">
+                <thead>
+                  <tr>
+                    <th>Line</th>
+                    <th>Start</th>
+                    <th>End</th>
+                    <th>Hours</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(row => (
+                    <tr key={row.line} className={`import-row import-row-${row.status}`}>
+                      <td>{row.line}</td>
+                      <td>{formatImportTime(row.startTime)}</td>
+                      <td>{formatImportTime(row.endTime)}</td>
+                      <td>{row.durationHours !== null ? row.durationHours.toFixed(2) : '—'}</td>
+                      <td title={row.message ?? undefined}>
+                        {IMPORT_STATUS_LABELS[row.status]}{row.message && ` — ${row.message}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.invalid > 0 && (
+              <p className="import-summary">Fix the invalid rows in the file and preview it again.</p>
+            )}
+            {preview.overlapping > 0 && (
+              <label className="import-skip">
+                <input
+                  type="checkbox"
+                  checked={skipOverlaps}
+                  onChange={e => setSkipOverlaps(e.target.checked)}
+                />
+                Skip rows that overlap existing runs
+              </label>
+            )}
+            <div className="import-actions">
+              <button className="download-button" onClick={handleImport} disabled={!canImport || busy}>
+                {busy ? 'Importing…' : `Import ${preview.valid} run${preview.valid === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function DownloadsPage({ generatorId }: { generatorId: number | null }) {
+  const [dataset, setDataset] = useState<ExportDataset>('usage-logs');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [downloadingCosts, setDownloadingCosts] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleDatasetChange = (value: ExportDataset) => {
+    setDataset(value);
+    // CSV holds a single table, so "Everything" needs JSON or XLSX
+    if (value === 'all' && format === 'csv') setFormat('xlsx');
+  };
+
+  const handleExport = async () => {
+    setError('');
+    setMessage('');
+    if (fromDate && toDate && toDate < fromDate) {
+      setError('End date must not be before start date');
+      return;
+    }
+    setExporting(true);
+    try {
+      if (generatorId === null) {
+        setError('No generator found. Create one on the Profile page first.');
         return;
       }
-      const csv = logsToCSV(logs);
+      const gen = await api.getGenerator(generatorId);
+      // Dates are local days; the end date is inclusive
+      const query: ExportQuery = { format, dataset };
+      if (fromDate) query.from = new Date(`${fromDate}T00:00`).toISOString();
+      if (toDate) {
+        const end = new Date(`${toDate}T00:00`);
+        end.setDate(end.getDate() + 1);
+        query.to = end.toISOString();
+      }
+      const blob = await api.downloadExport(gen.id, query);
       const date = new Date().toISOString().slice(0, 10);
-      downloadCSV(csv, `${gen.name.replace(/\s+/g, '-')}-run-log-${date}.csv`);
-      setMessage(`Downloaded ${logs.length} run log entries.`);
+      downloadBlob(blob, `${gen.name.replace(/\s+/g, '-')}-${dataset}-${date}.${format}`);
+      setMessage('Export downloaded.');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Download failed');
     } finally {
-      setDownloadingLogs(false);
+      setExporting(false);
+    }
+  };
+
+  const handleDownloadCosts = async () => {
+    setError('');
+    setMessage('');
+    setDownloadingCosts(true);
+    try {
+      if (generatorId === null) {
+        setError('No generator found. Create one on the Profile page first.');
+        return;
+      }
+      const gen = await api.getGenerator(generatorId);
+      const report = await api.getCostReport(gen.id);
+      if (report.months.length === 0) {
+        setMessage('No completed runs to report.');
+        return;
+      }
+      const csv = costReportToCSV(report);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(
+        new Blob([csv], { type: 'text/csv;charset=utf-8;' }),
+        `${gen.name.replace(/\s+/g, '-')}-cost-report-${date}.csv`
+      );
+      setMessage(`Downloaded cost report for ${report.months.length} month(s).`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setDownloadingCosts(false);
     }
   };
 
@@ -66,20 +287,88 @@ export function DownloadsPage() {
         {error && <div className="error-message" role="alert">{error}</div>}
         {message && <div className="success-message">{message}</div>}
 
-        <div className="download-card">
+        <div className="download-card export-card">
           <div className="download-card-icon">📋</div>
           <div className="download-card-info">
-            <h2>Run Log (CSV)</h2>
-            <p>Export your full generator run history with start/end times and duration.</p>
+            <h2>Generator Data</h2>
+            <p>Export your run log, oil change history or generator settings.</p>
+            <div className="export-options">
+              <label>
+                Data
+                <select
+                  id="exportDataset"
+                  value={dataset}
+                  onChange={e => handleDatasetChange(e.target.value as ExportDataset)}
+                >
+                  {DATASET_OPTIONS.map(o => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Format
+                <select
+                  id="exportFormat"
+                  value={format}
+                  onChange={e => setFormat(e.target.value as ExportFormat)}
+                >
+                  {FORMAT_OPTIONS.map(o => (
+                    <option key={o.value} value={o.value} disabled={o.value === 'csv' && dataset === 'all'}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                From
+                <input
+                  type="date"
+                  id="exportFrom"
+                  value={fromDate}
+                  onChange={e => setFromDate(e.target.value)}
+                />
+              </label>
+              <label>
+                To
+                <input
+                  type="date"
+                  id="exportTo"
+                  value={toDate}
+                  onChange={e => setToDate(e.target.value)}
+                />
+              </label>
+            </div>
           </div>
           <button
             className="download-button"
-            onClick={handleDownloadLogs}
-            disabled={downloadingLogs}
+            onClick={handleExport}
+            disabled={exporting}
           >
-            {downloadingLogs ? 'Preparing…' : 'Download CSV'}
+            {exporting ? 'Preparing…' : 'Download'}
           </button>
         </div>
+
+        <div className="download-card">
+          <div className="download-card-icon">⛽</div>
+          <div className="download-card-info">
+            <h2>Cost Report (CSV)</h2>
+            <p>Export monthly run hours, estimated fuel use and fuel cost.</p>
+          </div>
+          <button
+            className="download-button"
+            onClick={handleDownloadCosts}
+            disabled={downloadingCosts}
+          >
+            {downloadingCosts ? 'Preparing…' : 'Download CSV'}
+          </button>
+        </div>
+
+        <LogImportCard generatorId={generatorId} />
+
+        <p className="export-hint">
+          Scripts can download the same exports with an API key:
+          <code>GET /api/generator/export?format=csv&amp;dataset=usage-logs</code> with an <code>x-api-key</code> header.
+        </p>
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import { useState, type FormEvent } from 'react';
 import { Link } from 'react-router-dom';
 import { api } from '../utils/api';
+import { takePendingInvitePath } from '../utils/pending-invite';
 import './EnrollmentPage.css';
 
 export function EnrollmentPage() {
@@ -28,7 +29,7 @@ export function EnrollmentPage() {
 
     try {
       await api.enrollUser(email, password, name || undefined);
-      window.location.href = '/profile';
+      window.location.href = takePendingInvitePath() ?? '/profile';
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to enroll');
       setLoading(false);
@@ -1,6 +1,8 @@
-import { useState, useEffect, type FormEvent } from 'react';
-import { api } from '../utils/api';
-import type { Generator, UsageLog } from '../types';
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { api, RequestError } from '../utils/api';
+import { generatorPath } from '../utils/selected-generator';
+import type { Generator, LogField, LogValidationIssue, UsageLog, UsageLogQuery } from '../types';
 import './GeneratorLogsPage.css';
 
 function toDateTimeLocal(iso: string | null): string {
@@ -18,7 +20,37 @@ function formatDuration(hours: number | null): string {
   return hours.toFixed(2) + ' h';
 }
 
-export function GeneratorLogsPage() {
+const PAGE_SIZE = 25;
+
+// Field-level problems from a rejected save: the server's overlap/sanity checks, or schema errors on a field
+function fieldIssuesFrom(err: unknown): LogValidationIssue[] {
+  if (!(err instanceof RequestError) || !Array.isArray(err.details)) return [];
+  return (err.details as LogValidationIssue[]).filter(d => d.path?.[0] === 'startTime' || d.path?.[0] === 'endTime');
+}
+
+function describeIssue(issue: LogValidationIssue): string {
+  const other = issue.conflictingLog;
+  if (!other) return issue.message;
+  const end = other.endTime ? formatDateTime(other.endTime) : 'still running';
+  return `${issue.message} (${formatDateTime(other.startTime)} – ${end})`;
+}
+
+// Builds the list query from the filter inputs; dates are local days and the "to" day is inclusive
+function buildLogQuery(fromDate: string, toDate: string, minDuration: string, maxDuration: string,
+  order: 'asc' | 'desc'): UsageLogQuery {
+  const query: UsageLogQuery = { order };
+  if (fromDate) query.from = new Date(`${fromDate}T00:00`).toISOString();
+  if (toDate) {
+    const end = new Date(`${toDate}T00:00`);
+    end.setDate(end.getDate() + 1);
+    query.to = end.toISOString();
+  }
+  if (minDuration) query.minDuration = parseFloat(minDuration);
+  if (maxDuration) query.maxDuration = parseFloat(maxDuration);
+  return query;
+}
+
+export function GeneratorLogsPage({ generatorId }: { generatorId: number | null }) {
   const [generator, setGenerator] = useState<Generator | null>(null);
   const [logs, setLogs] = useState<UsageLog[]>([]);
   const [loading, setLoading] = useState(true);
@@ -26,35 +58,49 @@ export function GeneratorLogsPage() {
   const [editingLog, setEditingLog] = useState<UsageLog | null>(null);
   const [startTime, setStartTime] = useState('');
   const [endTime, setEndTime] = useState('');
+  const [fieldIssues, setFieldIssues] = useState<LogValidationIssue[]>([]);
+  const [filterFrom, setFilterFrom] = useState('');
+  const [filterTo, setFilterTo] = useState('');
+  const [filterMinDuration, setFilterMinDuration] = useState('');
+  const [filterMaxDuration, setFilterMaxDuration] = useState('');
+  const [filterOrder, setFilterOrder] = useState<'asc' | 'desc'>('desc');
+  const [query, setQuery] = useState<UsageLogQuery>({ order: 'desc' });
+  // Cursor of each page after the first; empty on page one
+  const [pageCursors, setPageCursors] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // Most recently deleted entry, offered for undo until the next delete or page load
+  const [deletedLog, setDeletedLog] = useState<UsageLog | null>(null);
 
-  useEffect(() => {
-    loadData();
+  const fetchPage = useCallback(async (generatorId: number, pageQuery: UsageLogQuery, cursor?: string) => {
+    const page = await api.getUsageLogPage(generatorId, { ...pageQuery, limit: PAGE_SIZE, cursor });
+    setLogs(page.logs);
+    setNextCursor(page.nextCursor);
   }, []);
 
-  const loadData = async () => {
+  const loadData = useCallback(async (pageQuery: UsageLogQuery, cursor?: string) => {
     try {
       setLoading(true);
-      const generators = await api.getGenerators();
-      if (generators.length === 0) {
-        setLoading(false);
-        return;
-      }
-      const gen = generators[0];
+      if (generatorId === null) return;
+      const gen = await api.getGenerator(generatorId);
       setGenerator(gen);
-      const logList = await api.getUsageLogs(gen.id);
-      setLogs(logList);
+      await fetchPage(gen.id, pageQuery, cursor);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data');
     } finally {
       setLoading(false);
     }
-  };
+  }, [generatorId, fetchPage]);
+
+  useEffect(() => {
+    loadData({ order: 'desc' });
+  }, [loadData]);
 
   const resetForm = () => {
     setEditingLog(null);
     setStartTime('');
     setEndTime('');
     setError('');
+    setFieldIssues([]);
   };
 
   const handleEditClick = (log: UsageLog) => {
@@ -62,11 +108,13 @@ export function GeneratorLogsPage() {
     setStartTime(toDateTimeLocal(log.startTime));
     setEndTime(toDateTimeLocal(log.endTime));
     setError('');
+    setFieldIssues([]);
   };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
+    setFieldIssues([]);
 
     if (!startTime) {
       setError('Start time is required');
@@ -96,24 +144,84 @@ export function GeneratorLogsPage() {
       }
 
       resetForm();
-      await loadData();
+      await loadData(query, pageCursors[pageCursors.length - 1]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save log entry');
+      const issues = fieldIssuesFrom(err);
+      if (issues.length > 0) {
+        setFieldIssues(issues);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save log entry');
+      }
     }
   };
 
   const handleDelete = async (log: UsageLog) => {
-    if (!confirm('Are you sure you want to delete this log entry?')) return;
     if (!generator) return;
 
     try {
       await api.deleteUsageLog(generator.id, log.id);
-      await loadData();
+      setDeletedLog(log);
+      await loadData(query, pageCursors[pageCursors.length - 1]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete log entry');
     }
   };
 
+  const handleUndoDelete = async () => {
+    if (!generator || !deletedLog) return;
+    setError('');
+
+    try {
+      await api.restoreUsageLog(generator.id, deletedLog.id);
+      setDeletedLog(null);
+      await loadData(query, pageCursors[pageCursors.length - 1]);
+    } catch (err) {
+      setDeletedLog(null);
+      setError(err instanceof Error ? err.message : 'Failed to restore log entry');
+    }
+  };
+
+  const showPage = async (pageQuery: UsageLogQuery, cursors: string[]) => {
+    if (!generator) return;
+    setError('');
+    try {
+      await fetchPage(generator.id, pageQuery, cursors[cursors.length - 1]);
+      setQuery(pageQuery);
+      setPageCursors(cursors);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load log entries');
+    }
+  };
+
+  const handleApplyFilters = async (e: FormEvent) => {
+    e.preventDefault();
+    if (filterFrom && filterTo && filterTo < filterFrom) {
+      setError('Filter end date must not be before the start date');
+      return;
+    }
+    await showPage(buildLogQuery(filterFrom, filterTo, filterMinDuration, filterMaxDuration, filterOrder), []);
+  };
+
+  const handleClearFilters = async () => {
+    setFilterFrom('');
+    setFilterTo('');
+    setFilterMinDuration('');
+    setFilterMaxDuration('');
+    setFilterOrder('desc');
+    await showPage({ order: 'desc' }, []);
+  };
+
+  const isFiltered = query.from !== undefined || query.to !== undefined
+    || query.minDuration !== undefined || query.maxDuration !== undefined;
+
+  const showFuel = generator !== null && generator.fuelBurnRate !== null;
+
+  const issuesFor = (field: LogField) => fieldIssues.filter(issue => issue.path[0] === field);
+
+  const renderIssues = (field: LogField) => issuesFor(field).map((issue, i) => (
+    <p key={i} className="field-error" role="alert">{describeIssue(issue)}</p>
+  ));
+
   if (loading) {
     return <div className="logs-page"><div className="loading">Loading...</div></div>;
   }
@@ -128,52 +236,132 @@ export function GeneratorLogsPage() {
 
         {error && <div className="error-message">{error}</div>}
 
+        {deletedLog && generator && (
+          <div className="undo-banner" role="status">
+            <span>Deleted the run from {formatDateTime(deletedLog.startTime)}.</span>
+            <button type="button" onClick={handleUndoDelete} className="undo-button">
+              Undo
+            </button>
+            <Link to={generatorPath(generator.id, 'trash')} className="trash-link">View trash</Link>
+          </div>
+        )}
+
         {!generator ? (
           <div className="empty-state">
             <p>No generator found. Please create a generator on the Profile page first.</p>
           </div>
         ) : (
           <>
-            <section className="log-form-section">
-              <h2>{editingLog ? 'Edit Entry' : 'Add Entry'}</h2>
-              <form onSubmit={handleSubmit} className="log-form">
-                <div className="form-row">
-                  <div className="form-group">
-                    <label htmlFor="startTime">Start Time</label>
-                    <input
-                      type="datetime-local"
-                      id="startTime"
-                      value={startTime}
-                      onChange={e => setStartTime(e.target.value)}
-                      required
-                    />
-                  </div>
-                  <div className="form-group">
-                    <label htmlFor="endTime">End Time (optional)</label>
-                    <input
-                      type="datetime-local"
-                      id="endTime"
-                      value={endTime}
-                      onChange={e => setEndTime(e.target.value)}
-                    />
+            {generator.role !== 'viewer' && (
+              <section className="log-form-section">
+                <h2>{editingLog ? 'Edit Entry' : 'Add Entry'}</h2>
+                <form onSubmit={handleSubmit} className="log-form">
+                  <div className="form-row">
+                    <div className="form-group">
+                      <label htmlFor="startTime">Start Time</label>
+                      <input
+                        type="datetime-local"
+                        id="startTime"
+                        value={startTime}
+                        onChange={e => setStartTime(e.target.value)}
+                        aria-invalid={issuesFor('startTime').length > 0}
+                        required
+                      />
+                      {renderIssues('startTime')}
+                    </div>
+                    <div className="form-group">
+                      <label htmlFor="endTime">End Time (optional)</label>
+                      <input
+                        type="datetime-local"
+                        id="endTime"
+                        value={endTime}
+                        onChange={e => setEndTime(e.target.value)}
+                        aria-invalid={issuesFor('endTime').length > 0}
+                      />
+                      {renderIssues('endTime')}
+                    </div>
                   </div>
-                </div>
-                <div className="form-actions">
-                  <button type="submit" className="submit-button">
-                    {editingLog ? 'Save Changes' : 'Add Entry'}
-                  </button>
-                  {editingLog && (
-                    <button type="button" onClick={resetForm} className="cancel-button">
-                      Cancel
+                  <div className="form-actions">
+                    <button type="submit" className="submit-button">
+                      {editingLog ? 'Save Changes' : 'Add Entry'}
                     </button>
-                  )}
-                </div>
-              </form>
-            </section>
+                    {editingLog && (
+                      <button type="button" onClick={resetForm} className="cancel-button">
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </form>
+              </section>
+            )}
+
+            <form onSubmit={handleApplyFilters} className="log-filters">
+              <div className="form-group">
+                <label htmlFor="filterFrom">From</label>
+                <input
+                  type="date"
+                  id="filterFrom"
+                  value={filterFrom}
+                  onChange={e => setFilterFrom(e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="filterTo">To</label>
+                <input
+                  type="date"
+                  id="filterTo"
+                  value={filterTo}
+                  onChange={e => setFilterTo(e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="filterMinDuration">Min hours</label>
+                <input
+                  type="number"
+                  id="filterMinDuration"
+                  min="0"
+                  step="0.1"
+                  value={filterMinDuration}
+                  onChange={e => setFilterMinDuration(e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="filterMaxDuration">Max hours</label>
+                <input
+                  type="number"
+                  id="filterMaxDuration"
+                  min="0"
+                  step="0.1"
+                  value={filterMaxDuration}
+                  onChange={e => setFilterMaxDuration(e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="filterOrder">Sort</label>
+                <select
+                  id="filterOrder"
+                  value={filterOrder}
+                  onChange={e => setFilterOrder(e.target.value as 'asc' | 'desc')}
+                >
+                  <option value="desc">Newest first</option>
+                  <option value="asc">Oldest first</option>
+                </select>
+              </div>
+              <div className="log-filter-actions">
+                <button type="submit" className="filter-button">Filter</button>
+                <button type="button" onClick={handleClearFilters} className="clear-filter-button">
+                  Clear
+                </button>
+              </div>
+            </form>
 
             {logs.length === 0 ? (
               <div className="empty-state">
-                <p>No run history yet. Add your first entry above.</p>
+                <p>
+                  {isFiltered || pageCursors.length > 0
+                    ? 'No log entries match these filters.'
+                    : 'No run history yet. Add your first entry above.'}
+                </p>
               </div>
             ) : (
               <div className="logs-table-wrapper">
@@ -183,6 +371,7 @@ export function GeneratorLogsPage() {
                       <th>Start</th>
                       <th>End</th>
                       <th>Duration</th>
+                      {showFuel && <th>Fuel (est.)</th>}
                       <th>Actions</th>
                     </tr>
                   </thead>
@@ -190,21 +379,32 @@ export function GeneratorLogsPage() {
                     {logs.map(log => (
                       <tr key={log.id} className="log-row">
                         <td>{formatDateTime(log.startTime)}</td>
-                        <td>{formatDateTime(log.endTime)}</td>
+                        <td>
+                          {log.endTime
+                            ? formatDateTime(log.endTime)
+                            : <span className="log-running-badge">Running</span>}
+                        </td>
                         <td>{formatDuration(log.durationHours)}</td>
+                        {showFuel && (
+                          <td>{log.estimatedFuelGallons !== null ? `${log.estimatedFuelGallons.toFixed(2)} gal` : '—'}</td>
+                        )}
                         <td className="log-row-actions">
-                          <button
-                            onClick={() => handleEditClick(log)}
-                            className="edit-log-button"
-                          >
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleDelete(log)}
-                            className="delete-log-button"
-                          >
-                            Delete
-                          </button>
+                          {generator.role !== 'viewer' && (
+                            <>
+                              <button
+                                onClick={() => handleEditClick(log)}
+                                className="edit-log-button"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleDelete(log)}
+                                className="delete-log-button"
+                              >
+                                Delete
+                              </button>
+                            </>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -212,6 +412,30 @@ export function GeneratorLogsPage() {
                 </table>
               </div>
             )}
+
+            {(pageCursors.length > 0 || nextCursor) && (
+              <div className="log-pagination">
+                <button
+                  className="page-button"
+                  onClick={() => showPage(query, pageCursors.slice(0, -1))}
+                  disabled={pageCursors.length === 0}
+                >
+                  ← Previous
+                </button>
+                <span className="page-indicator">Page {pageCursors.length + 1}</span>
+                <button
+                  className="page-button"
+                  onClick={() => nextCursor && showPage(query, [...pageCursors, nextCursor])}
+                  disabled={!nextCursor}
+                >
+                  Next →
+                </button>
+              </div>
+            )}
+
+            <p className="trash-note">
+              Deleted entries can be restored from the <Link to={generatorPath(generator.id, 'trash')}>trash</Link>.
+            </p>
           </>
         )}
       </div>
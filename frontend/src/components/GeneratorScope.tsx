@@ -0,0 +1,39 @@
+import { Fragment, useState, useEffect, type ReactNode } from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+import { api } from '../utils/api';
+import { generatorPath, pickGenerator, setSelectedGeneratorId } from '../utils/selected-generator';
+
+interface GeneratorScopeProps {
+  // Sub-path of the scoped route, e.g. 'logs' for /generators/:generatorId/logs
+  page: string;
+  render: (generatorId: number | null) => ReactNode;
+}
+
+// Resolves which generator a page works on. Scoped routes take it from :generatorId and remember
+// it as the selection; the unscoped routes (/logs, /reports, ...) redirect to the selected
+// generator, or render the page's empty state when there is no generator yet.
+export function GeneratorScope({ page, render }: GeneratorScopeProps) {
+  const params = useParams();
+  const scopedId = params.generatorId !== undefined ? parseInt(params.generatorId, 10) : null;
+  const [fallbackId, setFallbackId] = useState<number | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (scopedId !== null) {
+      if (!isNaN(scopedId)) setSelectedGeneratorId(scopedId);
+      return;
+    }
+    api.getGenerators()
+      .then(generators => setFallbackId(pickGenerator(generators)?.id ?? null))
+      .catch(() => setFallbackId(null));
+  }, [scopedId]);
+
+  if (scopedId !== null) {
+    if (isNaN(scopedId)) return <Navigate to={`/${page}`} replace />;
+    // Keyed so switching generators remounts the page instead of mixing in the previous one's state
+    return <Fragment key={scopedId}>{render(scopedId)}</Fragment>;
+  }
+
+  if (fallbackId === undefined) return null;
+  if (fallbackId === null) return <>{render(null)}</>;
+  return <Navigate to={generatorPath(fallbackId, page)} replace />;
+}
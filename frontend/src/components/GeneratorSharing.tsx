@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { api } from '../utils/api';
+import type { Generator, GeneratorRole, GeneratorMember, GeneratorInvite } from '../types';
+
+const ROLE_LABELS: Record<GeneratorRole, string> = {
+  owner: 'Owner',
+  operator: 'Operator',
+  viewer: 'Viewer',
+};
+
+const ROLE_HINTS: Record<GeneratorRole, string> = {
+  owner: 'Can change settings and sharing, archive or delete',
+  operator: 'Can start/stop and log runs and maintenance',
+  viewer: 'Can look but not change anything',
+};
+
+interface GeneratorSharingProps {
+  generator: Generator;
+  currentUserId: number;
+  // Called after the current user leaves the generator
+  onLeft: (generator: Generator) => void;
+}
+
+// Members of a generator and their roles. Owners can change roles, remove members and invite
+// new ones by email; everyone else can see who has access and leave.
+export function GeneratorSharing({ generator, currentUserId, onLeft }: GeneratorSharingProps) {
+  const isOwner = generator.role === 'owner';
+  const [members, setMembers] = useState<GeneratorMember[]>([]);
+  const [invites, setInvites] = useState<GeneratorInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<GeneratorRole>('operator');
+  // The invite just sent, with its link — only available right after creating it
+  const [createdInvite, setCreatedInvite] = useState<GeneratorInvite | null>(null);
+
+  const loadSharing = useCallback(async () => {
+    try {
+      const [memberList, inviteList] = await Promise.all([
+        api.getGeneratorMembers(generator.id),
+        isOwner ? api.getGeneratorInvites(generator.id) : Promise.resolve([]),
+      ]);
+      setMembers(memberList);
+      setInvites(inviteList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    } finally {
+      setLoading(false);
+    }
+  }, [generator.id, isOwner]);
+
+  useEffect(() => {
+    loadSharing();
+  }, [loadSharing]);
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const invite = await api.createGeneratorInvite(generator.id, inviteEmail, inviteRole);
+      setCreatedInvite(invite);
+      setInviteEmail('');
+      await loadSharing();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invite');
+    }
+  };
+
+  const handleRevoke = async (invite: GeneratorInvite) => {
+    setError('');
+    try {
+      await api.revokeGeneratorInvite(generator.id, invite.id);
+      if (createdInvite?.id === invite.id) setCreatedInvite(null);
+      await loadSharing();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invite');
+    }
+  };
+
+  const handleRoleChange = async (member: GeneratorMember, role: GeneratorRole) => {
+    setError('');
+    try {
+      await api.updateGeneratorMember(generator.id, member.userId, role);
+      // Stepping down from owner changes what this page may show, so reload it whole
+      if (member.userId === currentUserId) {
+        window.location.reload();
+        return;
+      }
+      await loadSharing();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (member: GeneratorMember) => {
+    const leaving = member.userId === currentUserId;
+    const prompt = leaving
+      ? `Leave "${generator.name}"? You will lose access until someone invites you again.`
+      : `Remove ${member.name || member.email} from "${generator.name}"? Their API keys for it stop working.`;
+    if (!confirm(prompt)) return;
+    setError('');
+
+    try {
+      await api.removeGeneratorMember(generator.id, member.userId);
+      if (leaving) {
+        onLeft(generator);
+        return;
+      }
+      await loadSharing();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    }
+  };
+
+  return (
+    <section className="profile-section sharing-section">
+      <h2>Sharing</h2>
+      <p className="retire-hint">
+        People with access to {generator.name}. Operators can start, stop and log it; viewers can only look.
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+      {loading && <p className="retire-hint">Loading members…</p>}
+
+      <ul className="member-list">
+        {members.map(member => (
+          <li key={member.userId} className="member-row" data-email={member.email}>
+            <div className="archived-info">
+              <strong>{member.name || member.email}{member.userId === currentUserId && ' (you)'}</strong>
+              <span>{member.email}</span>
+            </div>
+            <div className="retire-actions">
+              {isOwner ? (
+                <select
+                  className="member-role-select"
+                  aria-label={`Role for ${member.email}`}
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member, e.target.value as GeneratorRole)}
+                >
+                  {(Object.keys(ROLE_LABELS) as GeneratorRole[]).map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className={`role-badge ${member.role}`}>{ROLE_LABELS[member.role]}</span>
+              )}
+              {(isOwner || member.userId === currentUserId) && (
+                <button type="button" className="secondary-button remove-member-button" onClick={() => handleRemove(member)}>
+                  {member.userId === currentUserId ? 'Leave' : 'Remove'}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <>
+          <form onSubmit={handleInvite} className="profile-form invite-form">
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="inviteEmail">Invite by email</label>
+                <input
+                  type="email"
+                  id="inviteEmail"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  required
+                  placeholder="partner@example.com"
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="inviteRole">Role</label>
+                <select id="inviteRole" value={inviteRole} onChange={(e) => setInviteRole(e.target.value as GeneratorRole)}>
+                  {(Object.keys(ROLE_LABELS) as GeneratorRole[]).map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <small className="field-hint">{ROLE_HINTS[inviteRole]}</small>
+              </div>
+            </div>
+            <button type="submit" className="submit-button">Send Invite</button>
+          </form>
+
+          {createdInvite?.inviteUrl && (
+            <div className="invite-link">
+              <p>
+                {createdInvite.emailSent
+                  ? `Invite emailed to ${createdInvite.email}. You can also send them this link:`
+                  : `Email isn't set up on this server — send ${createdInvite.email} this link yourself:`}
+              </p>
+              <input type="text" readOnly value={createdInvite.inviteUrl} onFocus={(e) => e.target.select()} />
+            </div>
+          )}
+
+          {invites.length > 0 && (
+            <>
+              <h3>Pending invites</h3>
+              <ul className="member-list">
+                {invites.map(invite => (
+                  <li key={invite.id} className="member-row pending-invite">
+                    <div className="archived-info">
+                      <strong>{invite.email}</strong>
+                      <span>{ROLE_LABELS[invite.role]} · expires {new Date(invite.expiresAt).toLocaleDateString()}</span>
+                    </div>
+                    <button type="button" className="secondary-button" onClick={() => handleRevoke(invite)}>
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
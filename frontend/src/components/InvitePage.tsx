@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { api } from '../utils/api';
+import { setPendingInvite } from '../utils/pending-invite';
+import { generatorPath, setSelectedGeneratorId } from '../utils/selected-generator';
+import type { InvitePreview } from '../types';
+import './EnrollmentPage.css';
+
+const ROLE_DESCRIPTIONS = {
+  owner: 'an owner — you can change its settings and who has access',
+  operator: 'an operator — you can start and stop it and log runs and maintenance',
+  viewer: 'a viewer — you can see its status and history',
+} as const;
+
+// Landing page of an invite link. Signed-out visitors are sent to sign in or enroll first and
+// brought back here afterwards.
+export function InvitePage({ isAuthenticated }: { isAuthenticated: boolean }) {
+  const { token = '' } = useParams();
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [error, setError] = useState('');
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setPendingInvite(token);
+      return;
+    }
+    api.getInvite(token)
+      .then(setInvite)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load invite'));
+  }, [isAuthenticated, token]);
+
+  const handleAccept = async () => {
+    setError('');
+    setAccepting(true);
+
+    try {
+      const { generatorId } = await api.acceptInvite(token);
+      setSelectedGeneratorId(generatorId);
+      // Full reload so the navigation picks up the new generator
+      window.location.href = generatorPath(generatorId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invite');
+      setAccepting(false);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="enrollment-page">
+        <div className="enrollment-container invite-container">
+          <h1>You're Invited</h1>
+          <p className="subtitle">Sign in or create an account with the email address the invite was sent to, then you'll come back here to accept it.</p>
+          <Link to="/login" className="submit-button invite-signin-link">Sign In</Link>
+          <p style={{ textAlign: 'center', marginTop: '1.5rem', color: '#718096' }}>
+            No account yet?{' '}
+            <Link to="/enroll" style={{ color: '#667eea', fontWeight: 500 }}>
+              Create one
+            </Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const unavailable = invite && (invite.accepted ? 'This invite has already been used.' : invite.expired ? 'This invite has expired. Ask for a new one.' : null);
+
+  return (
+    <div className="enrollment-page">
+      <div className="enrollment-container invite-container">
+        <h1>{invite ? invite.generatorName : "You're Invited"}</h1>
+        {invite && (
+          <p className="subtitle">
+            {invite.invitedBy ?? 'Someone'} invited {invite.email} to join this generator as {ROLE_DESCRIPTIONS[invite.role]}.
+          </p>
+        )}
+
+        {error && <div className="error-message">{error}</div>}
+        {unavailable && <div className="error-message">{unavailable}</div>}
+
+        {invite && !unavailable && (
+          <button type="button" className="submit-button accept-invite-button" onClick={handleAccept} disabled={accepting}>
+            {accepting ? 'Joining...' : 'Accept Invite'}
+          </button>
+        )}
+
+        <p style={{ textAlign: 'center', marginTop: '1.5rem' }}>
+          <Link to="/" style={{ color: '#667eea', fontWeight: 500 }}>Go to dashboard</Link>
+        </p>
+      </div>
+    </div>
+  );
+}
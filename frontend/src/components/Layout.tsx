@@ -1,6 +1,8 @@
-import { type ReactNode } from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import { useState, useEffect, type ReactNode } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { api } from '../utils/api';
+import { generatorPath, getSelectedGeneratorId, setSelectedGeneratorId } from '../utils/selected-generator';
+import type { Generator } from '../types';
 import './Layout.css';
 
 interface LayoutProps {
@@ -9,11 +11,35 @@ interface LayoutProps {
 
 export function Layout({ children }: LayoutProps) {
   const location = useLocation();
+  const navigate = useNavigate();
+  const [generators, setGenerators] = useState<Generator[]>([]);
+
+  useEffect(() => {
+    api.getGenerators()
+      .then(setGenerators)
+      .catch(() => setGenerators([]));
+  }, [location.pathname]);
+
+  // The generator in the URL, else the remembered selection, else the first one
+  const scopedMatch = location.pathname.match(/^\/generators\/(\d+)(?:\/([^/]+))?/);
+  const scopedId = scopedMatch ? parseInt(scopedMatch[1], 10) : null;
+  const currentId = scopedId
+    ?? generators.find(g => g.id === getSelectedGeneratorId())?.id
+    ?? generators[0]?.id
+    ?? null;
+
+  const pagePath = (page: string) => currentId !== null ? generatorPath(currentId, page) : `/${page}`;
 
   const isActive = (path: string) => {
     return location.pathname === path ? 'active' : '';
   };
 
+  // Keeps the current page when switching between generators; other pages open its dashboard
+  const handleSwitchGenerator = (id: number) => {
+    setSelectedGeneratorId(id);
+    navigate(generatorPath(id, scopedMatch?.[2] ?? ''));
+  };
+
   const handleLogout = async () => {
     try {
       await api.logout();
@@ -31,18 +57,44 @@ export function Layout({ children }: LayoutProps) {
             GeneratorLog
           </Link>
           <div className="nav-links">
+            {generators.length > 1 && (
+              <select
+                className="generator-switcher"
+                aria-label="Generator"
+                value={currentId ?? ''}
+                onChange={e => handleSwitchGenerator(parseInt(e.target.value, 10))}
+              >
+                {generators.map(g => (
+                  <option key={g.id} value={g.id}>{g.name}</option>
+                ))}
+              </select>
+            )}
             <Link to="/" className={`nav-link ${isActive('/')}`}>
-              Dashboard
+              {generators.length > 1 ? 'Overview' : 'Dashboard'}
+            </Link>
+            {generators.length > 1 && currentId !== null && (
+              <Link to={generatorPath(currentId)} className={`nav-link ${isActive(generatorPath(currentId))}`}>
+                Dashboard
+              </Link>
+            )}
+            <Link to="/sites" className={`nav-link ${location.pathname.startsWith('/sites') ? 'active' : ''}`}>
+              Sites
             </Link>
-            <Link to="/logs" className={`nav-link ${isActive('/logs')}`}>
+            <Link to={pagePath('logs')} className={`nav-link ${isActive(pagePath('logs'))}`}>
               Run Log
             </Link>
             <Link to="/api-keys" className={`nav-link ${isActive('/api-keys')}`}>
               API Keys
             </Link>
-            <Link to="/downloads" className={`nav-link ${isActive('/downloads')}`}>
+            <Link to={pagePath('downloads')} className={`nav-link ${isActive(pagePath('downloads'))}`}>
               Downloads
             </Link>
+            <Link to={pagePath('reports')} className={`nav-link ${isActive(pagePath('reports'))}`}>
+              Reports
+            </Link>
+            <Link to="/activity" className={`nav-link ${isActive('/activity')}`}>
+              Activity
+            </Link>
             <Link to="/profile" className={`nav-link ${isActive('/profile')}`}>
               Settings
             </Link>
@@ -1,6 +1,7 @@
 import { useState, type FormEvent } from 'react';
 import { Link } from 'react-router-dom';
 import { api } from '../utils/api';
+import { takePendingInvitePath } from '../utils/pending-invite';
 import './EnrollmentPage.css';
 
 export function LoginPage() {
@@ -16,7 +17,7 @@ export function LoginPage() {
 
     try {
       await api.loginUser(email, password);
-      window.location.href = '/profile';
+      window.location.href = takePendingInvitePath() ?? '/profile';
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to sign in');
       setLoading(false);
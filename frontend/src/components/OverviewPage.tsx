@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../utils/api';
+import { generatorPath, setSelectedGeneratorId } from '../utils/selected-generator';
+import { DashboardPage } from './DashboardPage';
+import type { Generator, MaintenanceTask } from '../types';
+import './OverviewPage.css';
+
+interface GeneratorSummary {
+  generator: Generator;
+  dueTasks: MaintenanceTask[];
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+  });
+}
+
+// Home page. With several generators it shows all of them at once (running state and what
+// maintenance is due), each linking to its own dashboard; with one it is that dashboard.
+export function OverviewPage() {
+  const [summaries, setSummaries] = useState<GeneratorSummary[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const generators = await api.getGenerators();
+        const taskLists = generators.length > 1
+          ? await Promise.all(generators.map(g => api.getMaintenanceTasks(g.id)))
+          : [];
+        setSummaries(generators.map((generator, i) => ({
+          generator,
+          dueTasks: (taskLists[i] ?? []).filter(t => t.isDue),
+        })));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load generators');
+        setSummaries([]);
+      }
+    };
+    load();
+  }, []);
+
+  if (!summaries) {
+    return <div className="overview-page"><div className="loading">Loading…</div></div>;
+  }
+
+  if (summaries.length <= 1 && !error) {
+    return <DashboardPage generatorId={summaries[0]?.generator.id ?? null} />;
+  }
+
+  const runningCount = summaries.filter(s => s.generator.isRunning).length;
+  const dueCount = summaries.filter(s => s.dueTasks.length > 0).length;
+
+  return (
+    <div className="overview-page">
+      <div className="overview-container">
+        <h1>Overview</h1>
+        <p className="subtitle">
+          {runningCount} of {summaries.length} generators running · {dueCount} need maintenance
+        </p>
+
+        {error && <div className="error-message" role="alert">{error}</div>}
+
+        <div className="overview-grid">
+          {summaries.map(({ generator, dueTasks }) => (
+            <section key={generator.id} className="overview-card" data-generator-id={generator.id}>
+              <div className="overview-card-header">
+                <span className={`overview-dot ${generator.isRunning ? 'running' : 'stopped'}`} />
+                <h2>{generator.name}</h2>
+              </div>
+
+              <p className={`overview-status ${generator.isRunning ? 'running' : 'stopped'}`}>
+                {generator.isRunning && generator.currentStartTime
+                  ? `Running since ${formatDateTime(generator.currentStartTime)}`
+                  : 'Stopped'}
+              </p>
+              <p className="overview-hours">{generator.totalHours.toFixed(1)} total hours</p>
+
+              {dueTasks.length === 0 ? (
+                <p className="overview-maintenance ok">Maintenance up to date</p>
+              ) : (
+                <ul className="overview-due-list">
+                  {dueTasks.map(task => (
+                    <li key={task.id} className="overview-due-task">
+                      <span className="overview-due-badge">Due</span> {task.name}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <Link
+                to={generatorPath(generator.id)}
+                className="overview-open-link"
+                onClick={() => setSelectedGeneratorId(generator.id)}
+              >
+                Open dashboard →
+              </Link>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
-import { useState, useEffect, type FormEvent } from 'react';
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
 import { api } from '../utils/api';
-import type { User, Generator } from '../types';
+import { pickGenerator, setSelectedGeneratorId } from '../utils/selected-generator';
+import { GeneratorSharing } from './GeneratorSharing';
+import type { User, Generator, SiteSummary } from '../types';
 import './ProfilePage.css';
 
 export function ProfilePage() {
-  const [, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(null);
   const [generator, setGenerator] = useState<Generator | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -16,36 +18,68 @@ export function ProfilePage() {
   const [oilChangeMonths, setOilChangeMonths] = useState('6');
   const [oilChangeHours, setOilChangeHours] = useState('100');
   const [installedAt, setInstalledAt] = useState('');
+  const [initialHours, setInitialHours] = useState('0');
+  const [maxRunHours, setMaxRunHours] = useState('');
+  const [tankCapacity, setTankCapacity] = useState('');
+  const [fuelBurnRate, setFuelBurnRate] = useState('');
+  const [siteId, setSiteId] = useState('');
+  const [sites, setSites] = useState<SiteSummary[]>([]);
+  const [activeGenerators, setActiveGenerators] = useState<Generator[]>([]);
+  const [archivedGenerators, setArchivedGenerators] = useState<Generator[]>([]);
+  // Generator awaiting a typed-name confirmation before it is permanently deleted
+  const [deleteTarget, setDeleteTarget] = useState<Generator | null>(null);
+  const [deleteConfirmName, setDeleteConfirmName] = useState('');
 
-  useEffect(() => {
-    loadProfile();
+  // Edits the given generator, or switches the form to creating a new one when null
+  const fillGeneratorForm = useCallback((gen: Generator | null) => {
+    setGenerator(gen);
+    setGeneratorName(gen?.name ?? '');
+    setOilChangeMonths(gen ? gen.oilChangeMonths.toString() : '6');
+    setOilChangeHours(gen ? gen.oilChangeHours.toString() : '100');
+    setInstalledAt(gen?.installedAt ? gen.installedAt.split('T')[0] : '');
+    setInitialHours(gen ? gen.initialHours.toString() : '0');
+    setMaxRunHours(gen && gen.maxRunHours !== null ? gen.maxRunHours.toString() : '');
+    setTankCapacity(gen && gen.tankCapacityGallons !== null ? gen.tankCapacityGallons.toString() : '');
+    setFuelBurnRate(gen && gen.fuelBurnRate !== null ? gen.fuelBurnRate.toString() : '');
+    setSiteId(gen && gen.siteId !== null ? gen.siteId.toString() : '');
+    setDeleteTarget(null);
   }, []);
 
-  const loadProfile = async () => {
+  const handleSelectGenerator = (id: number) => {
+    const gen = activeGenerators.find(g => g.id === id);
+    if (!gen) return;
+    setSelectedGeneratorId(gen.id);
+    fillGeneratorForm(gen);
+  };
+
+  const loadProfile = useCallback(async () => {
     try {
       setLoading(true);
-      const [userProfile, generators] = await Promise.all([
+      const [userProfile, allGenerators, siteList] = await Promise.all([
         api.getProfile(),
-        api.getGenerators(),
+        api.getGenerators({ includeArchived: true }),
+        api.getSites(),
       ]);
       setUser(userProfile);
+      setSites(siteList);
       setName(userProfile.name || '');
       setEmail(userProfile.email);
 
-      if (generators.length > 0) {
-        const gen = generators[0];
-        setGenerator(gen);
-        setGeneratorName(gen.name);
-        setOilChangeMonths(gen.oilChangeMonths.toString());
-        setOilChangeHours(gen.oilChangeHours.toString());
-        setInstalledAt(gen.installedAt ? gen.installedAt.split('T')[0] : '');
-      }
+      const generators = allGenerators.filter(g => !g.archivedAt);
+      setActiveGenerators(generators);
+      setArchivedGenerators(allGenerators.filter(g => g.archivedAt));
+      // Back to the create form once the last active generator is archived or deleted
+      fillGeneratorForm(pickGenerator(generators));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load profile');
     } finally {
       setLoading(false);
     }
-  };
+  }, [fillGeneratorForm]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
 
   const handleProfileUpdate = async (e: FormEvent) => {
     e.preventDefault();
@@ -74,8 +108,14 @@ export function ProfilePage() {
           oilChangeMonths: parseInt(oilChangeMonths, 10),
           oilChangeHours: parseFloat(oilChangeHours),
           installedAt: installedAt || null,
+          initialHours: initialHours ? parseFloat(initialHours) : 0,
+          maxRunHours: maxRunHours ? parseFloat(maxRunHours) : null,
+          tankCapacityGallons: tankCapacity ? parseFloat(tankCapacity) : null,
+          fuelBurnRate: fuelBurnRate ? parseFloat(fuelBurnRate) : null,
+          siteId: siteId ? parseInt(siteId, 10) : null,
         });
         setGenerator(updated);
+        setActiveGenerators(prev => prev.map(g => g.id === updated.id ? updated : g));
         setSuccessMessage('Generator settings updated!');
       } else {
         const created = await api.createGenerator({
@@ -83,8 +123,12 @@ export function ProfilePage() {
           oilChangeMonths: parseInt(oilChangeMonths, 10),
           oilChangeHours: parseFloat(oilChangeHours),
           installedAt: installedAt || null,
+          initialHours: initialHours ? parseFloat(initialHours) : 0,
+          siteId: siteId ? parseInt(siteId, 10) : null,
         });
         setGenerator(created);
+        setActiveGenerators(prev => [...prev, created]);
+        setSelectedGeneratorId(created.id);
         setSuccessMessage('Generator created!');
       }
       setTimeout(() => setSuccessMessage(''), 3000);
@@ -93,10 +137,98 @@ export function ProfilePage() {
     }
   };
 
+  const handleArchive = async (target: Generator) => {
+    if (!confirm(`Archive "${target.name}"? It will be hidden from the dashboard and can't be started until you unarchive it. Its history is kept.`)) return;
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await api.archiveGenerator(target.id);
+      await loadProfile();
+      setSuccessMessage(`Archived ${target.name}.`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to archive generator');
+    }
+  };
+
+  const handleUnarchive = async (target: Generator) => {
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await api.unarchiveGenerator(target.id);
+      await loadProfile();
+      setSuccessMessage(`Restored ${target.name}.`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unarchive generator');
+    }
+  };
+
+  const startDelete = (target: Generator) => {
+    setDeleteTarget(target);
+    setDeleteConfirmName('');
+  };
+
+  const handleDelete = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!deleteTarget || deleteConfirmName !== deleteTarget.name) return;
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await api.deleteGenerator(deleteTarget.id);
+      const deletedName = deleteTarget.name;
+      setDeleteTarget(null);
+      await loadProfile();
+      setSuccessMessage(`Deleted ${deletedName}.`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete generator');
+    }
+  };
+
+  const handleLeft = async (left: Generator) => {
+    await loadProfile();
+    setSuccessMessage(`You left ${left.name}.`);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
   if (loading) {
     return <div className="profile-page"><div className="loading">Loading...</div></div>;
   }
 
+  // Settings, sharing and retiring are for owners; a new generator's creator becomes its owner
+  const isOwner = !generator || generator.role === 'owner';
+  // Generators can go in sites you created; a site someone else created stays listed while selected
+  const siteOptions = sites.filter(s => s.isOwner || s.id === generator?.siteId);
+
+  const renderDeleteConfirm = (target: Generator) => deleteTarget?.id === target.id && (
+    <form onSubmit={handleDelete} className="delete-generator-confirm">
+      <p>
+        This permanently deletes <strong>{target.name}</strong> with its run log, oil changes, maintenance
+        history, refuels and meter readings. API keys set up for it stop working. This can't be undone.
+      </p>
+      <label htmlFor="deleteConfirmName">Type the generator name to confirm</label>
+      <input
+        type="text"
+        id="deleteConfirmName"
+        value={deleteConfirmName}
+        onChange={(e) => setDeleteConfirmName(e.target.value)}
+        autoComplete="off"
+      />
+      <div className="retire-actions">
+        <button type="submit" className="danger-button" disabled={deleteConfirmName !== target.name}>
+          Delete Forever
+        </button>
+        <button type="button" className="secondary-button" onClick={() => setDeleteTarget(null)}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+
   return (
     <div className="profile-page">
       <div className="profile-container">
@@ -139,71 +271,244 @@ export function ProfilePage() {
 
         <section className="profile-section">
           <h2>Generator Configuration</h2>
-          <form onSubmit={handleGeneratorUpdate} className="profile-form">
-            <div className="form-group">
-              <label htmlFor="generatorName">Generator Name</label>
-              <input
-                type="text"
-                id="generatorName"
-                value={generatorName}
-                onChange={(e) => setGeneratorName(e.target.value)}
-                required
-                placeholder="Honda EU2200i"
-              />
+          {activeGenerators.length > 0 && (
+            <div className="generator-picker">
+              {generator && activeGenerators.length > 1 && (
+                <div className="form-group">
+                  <label htmlFor="profileGenerator">Editing</label>
+                  <select
+                    id="profileGenerator"
+                    value={generator.id}
+                    onChange={(e) => handleSelectGenerator(parseInt(e.target.value, 10))}
+                  >
+                    {activeGenerators.map(g => (
+                      <option key={g.id} value={g.id}>{g.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {generator ? (
+                <button type="button" className="secondary-button add-generator-button" onClick={() => fillGeneratorForm(null)}>
+                  Add Another Generator
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  className="secondary-button"
+                  onClick={() => fillGeneratorForm(pickGenerator(activeGenerators))}
+                >
+                  Cancel
+                </button>
+              )}
             </div>
-
-            <div className="form-row">
+          )}
+          {!isOwner && (
+            <p className="retire-hint role-notice">
+              You are {generator.role === 'operator' ? 'an operator' : 'a viewer'} of this generator. Only its owners can change these settings.
+            </p>
+          )}
+          <form onSubmit={handleGeneratorUpdate} className="profile-form">
+            <fieldset className="generator-fieldset" disabled={!isOwner}>
               <div className="form-group">
-                <label htmlFor="oilChangeMonths">Oil Change (months)</label>
+                <label htmlFor="generatorName">Generator Name</label>
                 <input
-                  type="number"
-                  id="oilChangeMonths"
-                  value={oilChangeMonths}
-                  onChange={(e) => setOilChangeMonths(e.target.value)}
-                  min="1"
+                  type="text"
+                  id="generatorName"
+                  value={generatorName}
+                  onChange={(e) => setGeneratorName(e.target.value)}
                   required
+                  placeholder="Honda EU2200i"
+                />
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="oilChangeMonths">Oil Change (months)</label>
+                  <input
+                    type="number"
+                    id="oilChangeMonths"
+                    value={oilChangeMonths}
+                    onChange={(e) => setOilChangeMonths(e.target.value)}
+                    min="1"
+                    required
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="oilChangeHours">Oil Change (hours)</label>
+                  <input
+                    type="number"
+                    id="oilChangeHours"
+                    value={oilChangeHours}
+                    onChange={(e) => setOilChangeHours(e.target.value)}
+                    min="1"
+                    step="0.1"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="installedAt">Installation Date</label>
+                <input
+                  type="date"
+                  id="installedAt"
+                  value={installedAt}
+                  onChange={(e) => setInstalledAt(e.target.value)}
                 />
+                <small className="field-hint">Used to calculate time-based oil change reminders from the start.</small>
               </div>
 
               <div className="form-group">
-                <label htmlFor="oilChangeHours">Oil Change (hours)</label>
+                <label htmlFor="initialHours">Hours Before Tracking</label>
                 <input
                   type="number"
-                  id="oilChangeHours"
-                  value={oilChangeHours}
-                  onChange={(e) => setOilChangeHours(e.target.value)}
-                  min="1"
+                  id="initialHours"
+                  value={initialHours}
+                  onChange={(e) => setInitialHours(e.target.value)}
+                  min="0"
                   step="0.1"
-                  required
                 />
+                <small className="field-hint">Hours already on the generator's meter when you started logging. Added to the total; maintenance counts from here.</small>
               </div>
-            </div>
 
-            <div className="form-group">
-              <label htmlFor="installedAt">Installation Date</label>
-              <input
-                type="date"
-                id="installedAt"
-                value={installedAt}
-                onChange={(e) => setInstalledAt(e.target.value)}
-              />
-              <small className="field-hint">Used to calculate time-based oil change reminders from the start.</small>
-            </div>
+              {siteOptions.length > 0 && (
+                <div className="form-group">
+                  <label htmlFor="generatorSite">Site</label>
+                  <select
+                    id="generatorSite"
+                    value={siteId}
+                    onChange={(e) => setSiteId(e.target.value)}
+                  >
+                    <option value="">No site</option>
+                    {siteOptions.map(site => (
+                      <option key={site.id} value={site.id}>{site.name}</option>
+                    ))}
+                  </select>
+                  <small className="field-hint">Groups this generator with others at the same property on the Sites page.</small>
+                </div>
+              )}
 
-            {generator && (
-              <div className="generator-stats">
-                <p>Total Hours: <strong>{generator.totalHours.toFixed(1)}</strong></p>
-                <p>Status: <strong className={generator.isRunning ? 'status-running' : 'status-stopped'}>
-                  {generator.isRunning ? 'Running' : 'Stopped'}
-                </strong></p>
-              </div>
-            )}
+              {generator && (
+                <div className="form-group">
+                  <label htmlFor="maxRunHours">Auto-stop after (hours)</label>
+                  <input
+                    type="number"
+                    id="maxRunHours"
+                    value={maxRunHours}
+                    onChange={(e) => setMaxRunHours(e.target.value)}
+                    min="0.5"
+                    step="0.5"
+                    placeholder="Never"
+                  />
+                  <small className="field-hint">Runs longer than this are stopped automatically, in case the stop Shortcut is forgotten. Leave empty to disable.</small>
+                </div>
+              )}
 
-            <button type="submit" className="submit-button">
-              {generator ? 'Update Generator' : 'Create Generator'}
-            </button>
+              {generator && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="tankCapacity">Tank Capacity (gallons)</label>
+                    <input
+                      type="number"
+                      id="tankCapacity"
+                      value={tankCapacity}
+                      onChange={(e) => setTankCapacity(e.target.value)}
+                      min="0.1"
+                      step="0.1"
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="fuelBurnRate">Burn Rate (gallons/hour)</label>
+                    <input
+                      type="number"
+                      id="fuelBurnRate"
+                      value={fuelBurnRate}
+                      onChange={(e) => setFuelBurnRate(e.target.value)}
+                      min="0.01"
+                      step="0.01"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {generator && (
+                <div className="generator-stats">
+                  <p>Total Hours: <strong>{generator.totalHours.toFixed(1)}</strong>
+                    {generator.initialHours > 0 && <> (incl. {generator.initialHours.toFixed(1)} before tracking)</>}
+                  </p>
+                  <p>Status: <strong className={generator.isRunning ? 'status-running' : 'status-stopped'}>
+                    {generator.isRunning ? 'Running' : 'Stopped'}
+                  </strong></p>
+                </div>
+              )}
+
+            </fieldset>
+
+            {isOwner && (
+              <button type="submit" className="submit-button">
+                {generator ? 'Update Generator' : 'Create Generator'}
+              </button>
+            )}
           </form>
         </section>
+
+        {generator && user && (
+          <GeneratorSharing key={generator.id} generator={generator} currentUserId={user.id} onLeft={handleLeft} />
+        )}
+
+        {generator && isOwner && (
+          <section className="profile-section retire-section">
+            <h2>Retire Generator</h2>
+            <p className="retire-hint">
+              Archiving hides the generator from the dashboard and stops it from being started, keeping its history.
+              Deleting removes it and everything recorded for it.
+            </p>
+            <div className="retire-actions">
+              <button
+                type="button"
+                className="secondary-button archive-generator-button"
+                onClick={() => handleArchive(generator)}
+                disabled={generator.isRunning}
+                title={generator.isRunning ? 'Stop the generator before archiving it' : undefined}
+              >
+                Archive
+              </button>
+              <button type="button" className="danger-button delete-generator-button" onClick={() => startDelete(generator)}>
+                Delete Permanently
+              </button>
+            </div>
+            {renderDeleteConfirm(generator)}
+          </section>
+        )}
+
+        {archivedGenerators.length > 0 && (
+          <section className="profile-section">
+            <h2>Archived Generators</h2>
+            <ul className="archived-list">
+              {archivedGenerators.map(g => (
+                <li key={g.id} className="archived-generator">
+                  <div className="archived-info">
+                    <strong>{g.name}</strong>
+                    <span>{g.totalHours.toFixed(1)} h · archived {new Date(g.archivedAt!).toLocaleDateString()}</span>
+                  </div>
+                  {g.role === 'owner' && (
+                    <div className="retire-actions">
+                      <button type="button" className="secondary-button unarchive-button" onClick={() => handleUnarchive(g)}>
+                        Unarchive
+                      </button>
+                      <button type="button" className="danger-button" onClick={() => startDelete(g)}>
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                  {renderDeleteConfirm(g)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
       </div>
     </div>
   );
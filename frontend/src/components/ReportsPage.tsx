@@ -0,0 +1,266 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { api } from '../utils/api';
+import type { Generator, FuelPrice, CostReport } from '../types';
+import './ReportsPage.css';
+
+function formatMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function formatMoney(amount: number | null): string {
+  if (amount === null) return '—';
+  return '$' + amount.toFixed(2);
+}
+
+function formatGallons(gallons: number | null): string {
+  if (gallons === null) return '—';
+  return gallons.toFixed(2) + ' gal';
+}
+
+export function ReportsPage({ generatorId }: { generatorId: number | null }) {
+  const [generator, setGenerator] = useState<Generator | null>(null);
+  const [report, setReport] = useState<CostReport | null>(null);
+  const [prices, setPrices] = useState<FuelPrice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [price, setPrice] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [priceSubmitting, setPriceSubmitting] = useState(false);
+
+  // Date inputs are UTC days, matching the report's UTC months; the end date is inclusive
+  const rangeParams = () => ({
+    ...(fromDate ? { from: new Date(fromDate).toISOString() } : {}),
+    ...(toDate ? { to: new Date(new Date(toDate).getTime() + 24 * 60 * 60 * 1000).toISOString() } : {}),
+  });
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      if (generatorId === null) return;
+      const gen = await api.getGenerator(generatorId);
+      setGenerator(gen);
+      const [costReport, priceList] = await Promise.all([
+        api.getCostReport(gen.id),
+        api.getFuelPrices(gen.id),
+      ]);
+      setReport(costReport);
+      setPrices(priceList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report');
+    } finally {
+      setLoading(false);
+    }
+  }, [generatorId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const refreshReport = async () => {
+    if (!generator) return;
+    setReport(await api.getCostReport(generator.id, rangeParams()));
+  };
+
+  const handleApplyRange = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (fromDate && toDate && toDate < fromDate) {
+      setError('End date must not be before start date');
+      return;
+    }
+    try {
+      await refreshReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report');
+    }
+  };
+
+  const handleAddPrice = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!generator) return;
+    setError('');
+    setPriceSubmitting(true);
+    try {
+      await api.createFuelPrice(generator.id, {
+        pricePerGallon: parseFloat(price),
+        ...(effectiveFrom ? { effectiveFrom: new Date(effectiveFrom).toISOString() } : {}),
+      });
+      setPrice('');
+      setEffectiveFrom('');
+      setPrices(await api.getFuelPrices(generator.id));
+      await refreshReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save fuel price');
+    } finally {
+      setPriceSubmitting(false);
+    }
+  };
+
+  const handleDeletePrice = async (priceId: number) => {
+    if (!generator) return;
+    if (!confirm('Remove this fuel price?')) return;
+    try {
+      await api.deleteFuelPrice(generator.id, priceId);
+      setPrices(prev => prev.filter(p => p.id !== priceId));
+      await refreshReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete fuel price');
+    }
+  };
+
+  if (loading) {
+    return <div className="reports-page"><div className="loading">Loading...</div></div>;
+  }
+
+  return (
+    <div className="reports-page">
+      <div className="reports-container">
+        <h1>Reports</h1>
+        {generator && <p className="subtitle">Running costs for {generator.name}</p>}
+
+        {error && <div className="error-message" role="alert">{error}</div>}
+
+        {!generator ? (
+          <div className="empty-state">
+            <p>No generator found. Please create a generator on the Profile page first.</p>
+          </div>
+        ) : (
+          <>
+            <section className="reports-section">
+              <h2>Monthly Costs</h2>
+              {generator.fuelBurnRate === null && (
+                <p className="reports-hint">
+                  Set a fuel burn rate in Settings to estimate fuel use and cost.
+                </p>
+              )}
+              <form onSubmit={handleApplyRange} className="reports-range-form">
+                <div className="form-group">
+                  <label htmlFor="reportFrom">From</label>
+                  <input
+                    type="date"
+                    id="reportFrom"
+                    value={fromDate}
+                    onChange={e => setFromDate(e.target.value)}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="reportTo">To</label>
+                  <input
+                    type="date"
+                    id="reportTo"
+                    value={toDate}
+                    onChange={e => setToDate(e.target.value)}
+                  />
+                </div>
+                <button type="submit" className="submit-button">Apply</button>
+              </form>
+
+              {!report || report.months.length === 0 ? (
+                <div className="empty-state">
+                  <p>No completed runs in this period.</p>
+                </div>
+              ) : (
+                <div className="reports-table-wrapper">
+                  <table className="reports-table">
+                    <thead>
+                      <tr>
+                        <th>Month</th>
+                        <th>Runs</th>
+                        <th>Hours</th>
+                        <th>Fuel</th>
+                        <th>Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.months.map(m => (
+                        <tr key={m.month} className="report-row">
+                          <td>{formatMonth(m.month)}</td>
+                          <td>{m.runs}</td>
+                          <td>{m.hours.toFixed(2)} h</td>
+                          <td>{formatGallons(m.gallons)}</td>
+                          <td>{formatMoney(m.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="report-totals">
+                        <td>Total</td>
+                        <td>{report.totals.runs}</td>
+                        <td>{report.totals.hours.toFixed(2)} h</td>
+                        <td>{formatGallons(report.totals.gallons)}</td>
+                        <td>{formatMoney(report.totals.cost)}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+              {report && report.totals.unpricedRuns > 0 && (
+                <p className="reports-hint">
+                  {report.totals.unpricedRuns} run(s) started before your first fuel price and are not included in the cost.
+                </p>
+              )}
+            </section>
+
+            <section className="reports-section">
+              <h2>Fuel Prices</h2>
+              <form onSubmit={handleAddPrice} className="fuel-price-form">
+                <div className="form-group">
+                  <label htmlFor="pricePerGallon">Price per gallon ($)</label>
+                  <input
+                    type="number"
+                    id="pricePerGallon"
+                    min="0.01"
+                    step="0.01"
+                    value={price}
+                    onChange={e => setPrice(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="priceEffectiveFrom">Effective from (optional)</label>
+                  <input
+                    type="datetime-local"
+                    id="priceEffectiveFrom"
+                    value={effectiveFrom}
+                    onChange={e => setEffectiveFrom(e.target.value)}
+                  />
+                </div>
+                <button type="submit" className="submit-button" disabled={priceSubmitting}>
+                  {priceSubmitting ? 'Saving…' : 'Add Price'}
+                </button>
+              </form>
+
+              {prices.length === 0 ? (
+                <p className="reports-hint">No fuel prices recorded yet.</p>
+              ) : (
+                <ul className="fuel-price-list">
+                  {prices.map(p => (
+                    <li key={p.id} className="fuel-price-item">
+                      <span className="fuel-price-amount">{formatMoney(p.pricePerGallon)}/gal</span>
+                      <span className="fuel-price-date">
+                        from {new Date(p.effectiveFrom).toLocaleString()}
+                      </span>
+                      <button
+                        className="delete-price-button"
+                        onClick={() => handleDeletePrice(p.id)}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { api } from '../utils/api';
+import type { ShortcutInfo } from '../types';
 import './ShortcutSetupPage.css';
 
-interface ShortcutInfo {
-  id: number;
-  name: string | null;
-  hint: string;
-  apiEndpoint: string;
-  shortcutFileUrl: string;
-}
-
 export function ShortcutSetupPage() {
   const { keyId } = useParams<{ keyId: string }>();
   const navigate = useNavigate();
@@ -97,6 +90,36 @@ export function ShortcutSetupPage() {
           </p>
         </div>
 
+        <div className="setup-section setup-import-section">
+          <h3>Separate Start and Stop Shortcuts</h3>
+          <p>
+            Prefer two buttons? These shortcuts only ever start or only ever stop the generator, so tapping
+            one twice can't undo the first tap.
+          </p>
+          <div className="import-actions">
+            <a
+              href={`shortcuts://import-workflow?url=${encodeURIComponent(info.startShortcutFileUrl)}`}
+              className="btn-import"
+            >
+              Import Start Shortcut
+            </a>
+            <a href={info.startShortcutFileUrl} download className="btn-download">
+              Download Start File
+            </a>
+          </div>
+          <div className="import-actions">
+            <a
+              href={`shortcuts://import-workflow?url=${encodeURIComponent(info.stopShortcutFileUrl)}`}
+              className="btn-import"
+            >
+              Import Stop Shortcut
+            </a>
+            <a href={info.stopShortcutFileUrl} download className="btn-download">
+              Download Stop File
+            </a>
+          </div>
+        </div>
+
         <details className="manual-steps-toggle">
           <summary>Manual Setup (step-by-step instructions)</summary>
 
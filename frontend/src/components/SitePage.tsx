@@ -0,0 +1,306 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { api } from '../utils/api';
+import { generatorPath, setSelectedGeneratorId } from '../utils/selected-generator';
+import type { SiteDetail, SiteStats, OverdueTask } from '../types';
+import './SitesPage.css';
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+  });
+}
+
+function formatMonth(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatHours(hours: number | null): string {
+  return hours === null ? '—' : `${hours.toFixed(1)} h`;
+}
+
+// What made a task due: hours run, time passed, or both
+function describeOverdue(task: OverdueTask): string {
+  const reasons = [];
+  if (task.hoursDue) reasons.push(`${task.hoursSinceCompletion.toFixed(0)} of ${task.intervalHours} h`);
+  if (task.monthsDue) {
+    // The API reports 999 months for tasks never done on generators without an install date
+    reasons.push(task.monthsSinceCompletion >= 999
+      ? 'never done'
+      : `${task.monthsSinceCompletion} of ${task.intervalMonths} months`);
+  }
+  return reasons.join(', ');
+}
+
+// Last 12 months, from the start of the month 11 months ago
+function statsFrom(now: Date): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1)).toISOString();
+}
+
+// Dashboard of one site: its generators, their combined runs over the last year and the
+// maintenance due across them. Only generators shared with the signed-in user are included.
+export function SitePage() {
+  const { siteId: siteIdParam = '' } = useParams();
+  const siteId = parseInt(siteIdParam, 10);
+  const navigate = useNavigate();
+  const [site, setSite] = useState<SiteDetail | null>(null);
+  const [stats, setStats] = useState<SiteStats | null>(null);
+  const [overdue, setOverdue] = useState<OverdueTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [address, setAddress] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadSite = useCallback(async () => {
+    try {
+      const [detail, siteStats, tasks] = await Promise.all([
+        api.getSite(siteId),
+        api.getSiteStats(siteId, { bucket: 'month', from: statsFrom(new Date()) }),
+        api.getSiteMaintenance(siteId),
+      ]);
+      setSite(detail);
+      setStats(siteStats);
+      setOverdue(tasks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load site');
+    } finally {
+      setLoading(false);
+    }
+  }, [siteId]);
+
+  useEffect(() => {
+    loadSite();
+  }, [loadSite]);
+
+  const startEditing = () => {
+    if (!site) return;
+    setName(site.name);
+    setAddress(site.address ?? '');
+    setEditing(true);
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!site) return;
+    setError('');
+    setSaving(true);
+    try {
+      const updated = await api.updateSite(site.id, { name: name.trim(), address: address.trim() || null });
+      setSite(prev => prev && { ...prev, ...updated });
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save site');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!site) return;
+    if (!confirm(`Delete ${site.name}? Its generators are kept and no longer belong to a site.`)) return;
+    try {
+      await api.deleteSite(site.id);
+      navigate('/sites');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete site');
+    }
+  };
+
+  if (loading) {
+    return <div className="sites-page"><div className="loading">Loading...</div></div>;
+  }
+
+  if (!site) {
+    return (
+      <div className="sites-page">
+        <div className="sites-container">
+          <h1>Site</h1>
+          {error && <div className="error-message" role="alert">{error}</div>}
+          <Link to="/sites" className="site-back-link">← All sites</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const runningCount = site.generators.filter(g => g.isRunning).length;
+
+  return (
+    <div className="sites-page">
+      <div className="sites-container">
+        <Link to="/sites" className="site-back-link">← All sites</Link>
+
+        {editing ? (
+          <form onSubmit={handleSave} className="site-form site-edit-form">
+            <div className="form-group">
+              <label htmlFor="editSiteName">Name</label>
+              <input
+                type="text"
+                id="editSiteName"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                maxLength={255}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="editSiteAddress">Address</label>
+              <input
+                type="text"
+                id="editSiteAddress"
+                value={address}
+                onChange={e => setAddress(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+            <button type="submit" className="submit-button" disabled={saving || !name.trim()}>
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button type="button" className="secondary-button" onClick={() => setEditing(false)}>
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <div className="site-header">
+            <div>
+              <h1>{site.name}</h1>
+              <p className="subtitle">
+                {site.address ? `${site.address} · ` : ''}
+                {runningCount} of {site.generators.length} generators running · {overdue.length} tasks due
+              </p>
+            </div>
+            {site.isOwner && (
+              <div className="site-actions">
+                <button type="button" className="secondary-button" onClick={startEditing}>Edit</button>
+                <button type="button" className="delete-site-button" onClick={handleDelete}>Delete</button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <div className="error-message" role="alert">{error}</div>}
+
+        {site.generators.length === 0 ? (
+          <div className="empty-state">
+            <p>No generators in this site yet. Choose this site for a generator in Settings.</p>
+          </div>
+        ) : (
+          <div className="sites-grid">
+            {site.generators.map(generator => (
+              <section key={generator.id} className="site-generator-card" data-generator-id={generator.id}>
+                <div className="site-generator-header">
+                  <span className={`site-dot ${generator.isRunning ? 'running' : 'stopped'}`} />
+                  <h2>{generator.name}</h2>
+                </div>
+                <p className={`site-generator-status ${generator.isRunning ? 'running' : 'stopped'}`}>
+                  {generator.isRunning && generator.currentStartTime
+                    ? `Running since ${formatDateTime(generator.currentStartTime)}`
+                    : 'Stopped'}
+                </p>
+                <p className="site-generator-hours">{generator.totalHours.toFixed(1)} total hours</p>
+                {generator.dueTaskCount === 0 ? (
+                  <p className="site-maintenance ok">Maintenance up to date</p>
+                ) : (
+                  <p className="site-maintenance due">
+                    {generator.dueTaskCount} task{generator.dueTaskCount === 1 ? '' : 's'} due
+                  </p>
+                )}
+                <Link
+                  to={generatorPath(generator.id)}
+                  className="site-open-link"
+                  onClick={() => setSelectedGeneratorId(generator.id)}
+                >
+                  Open dashboard →
+                </Link>
+              </section>
+            ))}
+          </div>
+        )}
+
+        <section className="sites-section overdue-section">
+          <h2>Maintenance Due</h2>
+          {overdue.length === 0 ? (
+            <p className="sites-hint">Nothing is due across this site.</p>
+          ) : (
+            <ul className="overdue-list">
+              {overdue.map(task => (
+                <li key={task.taskId} className="overdue-item">
+                  <span className="overdue-generator">{task.generatorName}</span>
+                  <span className="overdue-task">{task.name}</span>
+                  <span className="overdue-reason">{describeOverdue(task)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {stats && (
+          <section className="sites-section">
+            <h2>Runs in the Last 12 Months</h2>
+            {stats.totals.runs === 0 ? (
+              <p className="sites-hint">No completed runs in this period.</p>
+            ) : (
+              <>
+                <div className="sites-table-wrapper">
+                  <table className="sites-table site-generator-stats">
+                    <thead>
+                      <tr>
+                        <th>Generator</th>
+                        <th>Runs</th>
+                        <th>Hours</th>
+                        <th>Longest</th>
+                        <th>Average</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stats.generators.map(g => (
+                        <tr key={g.generatorId} className="sites-row">
+                          <td>{g.generatorName}</td>
+                          <td>{g.runs}</td>
+                          <td>{formatHours(g.totalHours)}</td>
+                          <td>{formatHours(g.longestRunHours)}</td>
+                          <td>{formatHours(g.averageRunHours)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="sites-totals">
+                        <td>All generators</td>
+                        <td>{stats.totals.runs}</td>
+                        <td>{formatHours(stats.totals.totalHours)}</td>
+                        <td>{formatHours(stats.totals.longestRunHours)}</td>
+                        <td>{formatHours(stats.totals.averageRunHours)}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+
+                <div className="sites-table-wrapper">
+                  <table className="sites-table site-monthly-stats">
+                    <thead>
+                      <tr>
+                        <th>Month</th>
+                        <th>Runs</th>
+                        <th>Hours</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stats.buckets.map(b => (
+                        <tr key={b.periodStart} className="sites-row">
+                          <td>{formatMonth(b.periodStart)}</td>
+                          <td>{b.runs}</td>
+                          <td>{formatHours(b.totalHours)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../utils/api';
+import type { SiteSummary } from '../types';
+import './SitesPage.css';
+
+// Sites group generators by property or location, each with its own dashboard
+export function SitesPage() {
+  const [sites, setSites] = useState<SiteSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [address, setAddress] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadSites = useCallback(async () => {
+    try {
+      setSites(await api.getSites());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sites');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSites();
+  }, [loadSites]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+    try {
+      await api.createSite({ name: name.trim(), address: address.trim() || null });
+      setName('');
+      setAddress('');
+      await loadSites();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create site');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="sites-page"><div className="loading">Loading...</div></div>;
+  }
+
+  return (
+    <div className="sites-page">
+      <div className="sites-container">
+        <h1>Sites</h1>
+        <p className="subtitle">Group generators by property to see them together</p>
+
+        {error && <div className="error-message" role="alert">{error}</div>}
+
+        {sites.length === 0 ? (
+          <div className="empty-state">
+            <p>No sites yet. Create one below, then choose it for your generators in Settings.</p>
+          </div>
+        ) : (
+          <div className="sites-grid">
+            {sites.map(site => (
+              <Link key={site.id} to={`/sites/${site.id}`} className="site-card" data-site-id={site.id}>
+                <h2>{site.name}</h2>
+                {site.address && <p className="site-address">{site.address}</p>}
+                <p className="site-counts">
+                  {site.runningCount} of {site.generatorCount} generator{site.generatorCount === 1 ? '' : 's'} running
+                </p>
+                {site.overdueTaskCount === 0 ? (
+                  <p className="site-maintenance ok">Maintenance up to date</p>
+                ) : (
+                  <p className="site-maintenance due">
+                    {site.overdueTaskCount} task{site.overdueTaskCount === 1 ? '' : 's'} due
+                    on {site.generatorsNeedingMaintenance} generator{site.generatorsNeedingMaintenance === 1 ? '' : 's'}
+                  </p>
+                )}
+              </Link>
+            ))}
+          </div>
+        )}
+
+        <section className="sites-section">
+          <h2>New Site</h2>
+          <form onSubmit={handleCreate} className="site-form">
+            <div className="form-group">
+              <label htmlFor="siteName">Name</label>
+              <input
+                type="text"
+                id="siteName"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Lake House"
+                maxLength={255}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="siteAddress">Address (optional)</label>
+              <input
+                type="text"
+                id="siteAddress"
+                value={address}
+                onChange={e => setAddress(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+            <button type="submit" className="submit-button" disabled={submitting || !name.trim()}>
+              {submitting ? 'Creating...' : 'Create Site'}
+            </button>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+}
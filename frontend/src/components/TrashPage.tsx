@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+import type { Generator, Trash, TrashedUsageLog, TrashedMaintenanceCompletion } from '../types';
+import './TrashPage.css';
+
+function formatDateTime(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString();
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString();
+}
+
+export function TrashPage({ generatorId }: { generatorId: number | null }) {
+  const [generator, setGenerator] = useState<Generator | null>(null);
+  const [trash, setTrash] = useState<Trash | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      if (generatorId === null) return;
+      const gen = await api.getGenerator(generatorId);
+      setGenerator(gen);
+      setTrash(await api.getTrash(gen.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  }, [generatorId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleRestoreLog = async (log: TrashedUsageLog) => {
+    if (!generator) return;
+    setError('');
+    setMessage('');
+    try {
+      await api.restoreUsageLog(generator.id, log.id);
+      setMessage(`Restored the run from ${formatDateTime(log.startTime)}.`);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore run');
+    }
+  };
+
+  const handleRestoreCompletion = async (completion: TrashedMaintenanceCompletion) => {
+    if (!generator) return;
+    setError('');
+    setMessage('');
+    try {
+      if (completion.taskKind === 'oil_change') {
+        await api.restoreOilChange(generator.id, completion.id);
+      } else {
+        await api.restoreMaintenanceTaskCompletion(generator.id, completion.taskId, completion.id);
+      }
+      setMessage(`Restored ${completion.taskName} from ${formatDate(completion.performedAt)}.`);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore maintenance entry');
+    }
+  };
+
+  if (loading) {
+    return <div className="trash-page"><div className="loading">Loading...</div></div>;
+  }
+
+  return (
+    <div className="trash-page">
+      <div className="trash-container">
+        <h1>Trash</h1>
+        {generator && trash && (
+          <p className="subtitle">
+            Deleted runs and maintenance entries for {generator.name} are kept for {trash.retentionDays} days before they are removed for good
+          </p>
+        )}
+
+        {error && <div className="error-message" role="alert">{error}</div>}
+        {message && <div className="success-message" role="status">{message}</div>}
+
+        {!generator || !trash ? (
+          <div className="empty-state">
+            <p>No generator found. Please create a generator on the Profile page first.</p>
+          </div>
+        ) : (
+          <>
+            <section className="trash-section">
+              <h2>Runs</h2>
+              {trash.logs.length === 0 ? (
+                <p className="empty-list">No deleted runs.</p>
+              ) : (
+                <ul className="trash-list">
+                  {trash.logs.map(log => (
+                    <li key={log.id} className="trash-entry trash-log">
+                      <div className="trash-info">
+                        <strong>
+                          {formatDateTime(log.startTime)} – {log.endTime ? formatDateTime(log.endTime) : 'running'}
+                        </strong>
+                        {log.durationHours !== null && (
+                          <span className="trash-detail">{log.durationHours.toFixed(2)} h</span>
+                        )}
+                        <span className="trash-deleted">
+                          Deleted {formatDateTime(log.deletedAt)} · removed on {formatDate(log.purgeAt)}
+                        </span>
+                      </div>
+                      {generator.role !== 'viewer' && (
+                        <button className="restore-button" onClick={() => handleRestoreLog(log)}>
+                          Restore
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="trash-section">
+              <h2>Maintenance</h2>
+              {trash.maintenanceCompletions.length === 0 ? (
+                <p className="empty-list">No deleted maintenance entries.</p>
+              ) : (
+                <ul className="trash-list">
+                  {trash.maintenanceCompletions.map(completion => (
+                    <li key={completion.id} className="trash-entry trash-completion">
+                      <div className="trash-info">
+                        <strong>{completion.taskName} — {formatDate(completion.performedAt)}</strong>
+                        <span className="trash-detail">at {completion.hoursAtCompletion.toFixed(1)} h</span>
+                        {completion.notes && <span className="trash-notes">{completion.notes}</span>}
+                        <span className="trash-deleted">
+                          Deleted {formatDateTime(completion.deletedAt)} · removed on {formatDate(completion.purgeAt)}
+                        </span>
+                      </div>
+                      {generator.role !== 'viewer' && (
+                        <button className="restore-button" onClick={() => handleRestoreCompletion(completion)}>
+                          Restore
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,20 +11,115 @@ export interface Generator {
   oilChangeMonths: number;
   oilChangeHours: number;
   totalHours: number;
+  initialHours: number;
   lastOilChangeDate: string | null;
   lastOilChangeHours: number;
   installedAt: string | null;
   isRunning: boolean;
   currentStartTime: string | null;
+  maxRunHours: number | null;
+  tankCapacityGallons: number | null;
+  fuelBurnRate: number | null;
+  meterAdjustmentHours: number;
+  // Set while the generator is archived (retired but with its history kept)
+  archivedAt: string | null;
+  // The signed-in user's role on this generator
+  role: GeneratorRole;
+  siteId: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Viewers can look, operators can also start/stop and log, owners can also change settings and sharing
+export type GeneratorRole = 'owner' | 'operator' | 'viewer';
+
+export interface GeneratorMember {
+  userId: number;
+  name: string | null;
+  email: string;
+  role: GeneratorRole;
+  createdAt: string;
+}
+
+export interface GeneratorInvite {
+  id: number;
+  email: string;
+  role: GeneratorRole;
+  expiresAt: string;
+  createdAt: string;
+  // Only returned when the invite is created
+  token?: string;
+  inviteUrl?: string;
+  emailSent?: boolean;
+}
+
+export interface InvitePreview {
+  generatorId: number;
+  generatorName: string;
+  email: string;
+  role: GeneratorRole;
+  invitedBy: string | null;
+  expiresAt: string;
+  accepted: boolean;
+  expired: boolean;
+}
+
+// A property or location grouping generators
+export interface Site {
+  id: number;
+  name: string;
+  address: string | null;
+  // Only the user who created a site can change it and put generators in it
+  isOwner: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SiteSummary extends Site {
+  generatorCount: number;
+  runningCount: number;
+  overdueTaskCount: number;
+  generatorsNeedingMaintenance: number;
+}
+
+export interface SiteGenerator {
+  id: number;
+  name: string;
+  isRunning: boolean;
+  currentStartTime: string | null;
+  totalHours: number;
+  role: GeneratorRole;
+  dueTaskCount: number;
+}
+
+export interface SiteDetail extends Site {
+  generators: SiteGenerator[];
+}
+
+export interface OverdueTask {
+  taskId: number;
+  generatorId: number;
+  generatorName: string;
+  kind: MaintenanceTaskKind;
+  name: string;
+  intervalHours: number | null;
+  intervalMonths: number | null;
+  lastCompletedAt: string | null;
+  hoursSinceCompletion: number;
+  monthsSinceCompletion: number;
+  hoursDue: boolean;
+  monthsDue: boolean;
+}
+
+export type ApiKeyScope = 'toggle' | 'status:read' | 'logs:read' | 'logs:write' | 'maintenance:write';
+
 export interface ApiKey {
   id: number;
   name: string | null;
   key?: string;
   hint?: string;
+  generatorId: number | null;
+  scopes: ApiKeyScope[];
   lastUsedAt: string | null;
   createdAt: string;
 }
@@ -35,10 +130,168 @@ export interface UsageLog {
   startTime: string;
   endTime: string | null;
   durationHours: number | null;
+  estimatedFuelGallons: number | null;
+  autoClosed: boolean;
+  autoCloseReviewedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface UsageLogQuery {
+  limit?: number;
+  cursor?: string;
+  from?: string;
+  to?: string;
+  minDuration?: number;
+  maxDuration?: number;
+  order?: 'asc' | 'desc';
+  autoClosedUnreviewed?: boolean;
+}
+
+export interface UsageLogPage {
+  logs: UsageLog[];
+  nextCursor: string | null;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type ExportDataset = 'usage-logs' | 'oil-changes' | 'generator' | 'all';
+
+export interface ExportQuery {
+  format: ExportFormat;
+  dataset: ExportDataset;
+  from?: string;
+  to?: string;
+}
+
+export interface ImportRow {
+  line: number;
+  startTime: string | null;
+  endTime: string | null;
+  durationHours: number | null;
+  status: 'ok' | 'invalid' | 'overlap';
+  message: string | null;
+}
+
+export interface ImportPreview {
+  total: number;
+  valid: number;
+  invalid: number;
+  overlapping: number;
+  rows: ImportRow[];
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
+export interface RefuelEvent {
+  id: number;
+  generatorId: number;
+  gallons: number;
+  filledToFull: boolean;
+  refueledAt: string;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface HourMeterAdjustment {
+  id: number;
+  generatorId: number;
+  readingId: number | null;
+  userId: number | null;
+  previousTotalHours: number;
+  newTotalHours: number;
+  adjustmentHours: number;
+  createdAt: string;
+}
+
+export interface HourMeterReading {
+  id: number;
+  generatorId: number;
+  meterHours: number;
+  trackedHours: number;
+  driftHours: number;
+  readAt: string;
+  notes: string | null;
+  rebased: boolean;
+  createdAt: string;
+}
+
+export interface RecordedMeterReading extends HourMeterReading {
+  adjustment: HourMeterAdjustment | null;
+}
+
+export interface FuelStatus {
+  tankCapacityGallons: number | null;
+  fuelBurnRate: number | null;
+  estimatedGallonsRemaining: number | null;
+  lastRefueledAt: string | null;
+  pricePerGallon: number | null;
+}
+
+export interface FuelPrice {
+  id: number;
+  generatorId: number;
+  pricePerGallon: number;
+  effectiveFrom: string;
+  createdAt: string;
+}
+
+export interface CostSummary {
+  runs: number;
+  hours: number;
+  gallons: number | null;
+  cost: number | null;
+  unpricedRuns: number;
+}
+
+export interface MonthlyCost extends CostSummary {
+  month: string;
+}
+
+export interface CostReport {
+  generatorId: number;
+  fuelBurnRate: number | null;
+  from: string | null;
+  to: string | null;
+  months: MonthlyCost[];
+  totals: CostSummary;
+}
+
+export type StatsBucket = 'day' | 'week' | 'month';
+
+export interface RunStats {
+  runs: number;
+  totalHours: number;
+  longestRunHours: number | null;
+  averageRunHours: number | null;
+}
+
+export interface BucketStats extends RunStats {
+  periodStart: string;
+}
+
+export interface UsageStats {
+  generatorId: number;
+  bucket: StatsBucket;
+  from: string | null;
+  to: string | null;
+  buckets: BucketStats[];
+  totals: RunStats;
+}
+
+export interface SiteStats {
+  siteId: number;
+  bucket: StatsBucket;
+  from: string | null;
+  to: string | null;
+  buckets: BucketStats[];
+  totals: RunStats;
+  generators: (RunStats & { generatorId: number; generatorName: string })[];
+}
+
 export interface OilChangeEntry {
   id: number;
   generatorId: number;
@@ -48,11 +301,182 @@ export interface OilChangeEntry {
   createdAt: string;
 }
 
+export type MaintenanceTaskKind =
+  | 'oil_change'
+  | 'air_filter'
+  | 'spark_plug'
+  | 'fuel_stabilizer'
+  | 'valve_clearance'
+  | 'custom';
+
+export interface MaintenanceTask {
+  id: number;
+  generatorId: number;
+  kind: MaintenanceTaskKind;
+  name: string;
+  intervalHours: number | null;
+  intervalMonths: number | null;
+  lastCompletedAt: string | null;
+  lastCompletedHours: number | null;
+  hoursSinceCompletion: number;
+  monthsSinceCompletion: number;
+  isDue: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MaintenanceTaskCompletion {
+  id: number;
+  taskId: number;
+  performedAt: string;
+  hoursAtCompletion: number;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface TrashedUsageLog {
+  id: number;
+  generatorId: number;
+  startTime: string;
+  endTime: string | null;
+  durationHours: number | null;
+  estimatedFuelGallons: number | null;
+  autoClosed: boolean;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export interface TrashedMaintenanceCompletion {
+  id: number;
+  taskId: number;
+  taskKind: MaintenanceTaskKind;
+  taskName: string;
+  performedAt: string;
+  hoursAtCompletion: number;
+  notes: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export interface Trash {
+  retentionDays: number;
+  logs: TrashedUsageLog[];
+  maintenanceCompletions: TrashedMaintenanceCompletion[];
+}
+
+export interface MaintenanceNotification {
+  id: number;
+  generatorId: number;
+  taskId: number;
+  taskName: string | null;
+  reason: 'hours' | 'months' | 'hours_and_months';
+  hoursSinceChange: number;
+  monthsSinceChange: number;
+  recipient: string;
+  sentAt: string;
+  snoozedUntil: string | null;
+  acknowledgedAt: string | null;
+  status: 'open' | 'snoozed' | 'acknowledged';
+}
+
 export type ToggleResult =
   | { status: 'started'; isRunning: true; startTime: string; totalHours: number }
   | { status: 'stopped'; isRunning: false; durationHours: number; totalHours: number };
 
+export type StartResult =
+  | { status: 'started' | 'already_running'; isRunning: true; startTime: string; totalHours: number };
+
+export type StopResult =
+  | { status: 'stopped'; isRunning: false; durationHours: number; totalHours: number }
+  | { status: 'already_stopped'; isRunning: false; totalHours: number };
+
+export interface ShortcutInfo {
+  id: number;
+  name: string | null;
+  hint: string;
+  apiEndpoint: string;
+  startEndpoint: string;
+  stopEndpoint: string;
+  shortcutFileUrl: string;
+  startShortcutFileUrl: string;
+  stopShortcutFileUrl: string;
+}
+
+export type AuditAction =
+  | 'generator.create'
+  | 'generator.update'
+  | 'generator.archive'
+  | 'generator.unarchive'
+  | 'generator.delete'
+  | 'generator.start'
+  | 'generator.stop'
+  | 'usage_log.create'
+  | 'usage_log.update'
+  | 'usage_log.delete'
+  | 'usage_log.restore'
+  | 'usage_log.confirm'
+  | 'usage_log.import'
+  | 'maintenance_task.create'
+  | 'maintenance_task.update'
+  | 'maintenance_task.delete'
+  | 'maintenance_completion.create'
+  | 'maintenance_completion.delete'
+  | 'maintenance_completion.restore'
+  | 'api_key.create'
+  | 'api_key.update'
+  | 'api_key.delete'
+  | 'api_key.reset'
+  | 'generator_invite.create'
+  | 'generator_invite.revoke'
+  | 'generator_member.add'
+  | 'generator_member.update'
+  | 'generator_member.remove'
+  | 'site.create'
+  | 'site.update'
+  | 'site.delete';
+
+export interface AuditEvent {
+  id: number;
+  action: AuditAction;
+  targetType: string;
+  targetId: number | null;
+  generatorId: number | null;
+  generatorName: string | null;
+  actor: {
+    type: 'user' | 'api_key' | 'system';
+    userId: number | null;
+    name: string | null;
+    apiKeyId: number | null;
+    apiKeyName: string | null;
+  };
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  createdAt: string;
+}
+
+export interface AuditQuery {
+  limit?: number;
+  cursor?: string;
+  generatorId?: number;
+  action?: AuditAction;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  nextCursor: string | null;
+}
+
 export interface ApiError {
   error: string;
   details?: unknown;
 }
+
+export type LogField = 'startTime' | 'endTime';
+
+export interface LogValidationIssue {
+  code: 'future' | 'too_long' | 'overlap' | 'live_run';
+  path: [LogField];
+  message: string;
+  conflictingLog?: { id: number | null; startTime: string; endTime: string | null };
+}
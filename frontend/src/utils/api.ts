@@ -1,12 +1,35 @@
-import type { User, Generator, ApiKey, UsageLog, OilChangeEntry, ToggleResult, ApiError } from '../types';
+import type { User, Generator, GeneratorRole, GeneratorMember, GeneratorInvite, InvitePreview, Site, SiteSummary, SiteDetail, SiteStats, OverdueTask, ApiKey, ApiKeyScope, UsageLog, UsageLogQuery, UsageLogPage, ExportQuery, ImportPreview, ImportResult, RefuelEvent, HourMeterReading, HourMeterAdjustment, RecordedMeterReading, FuelStatus, FuelPrice, CostReport, StatsBucket, UsageStats, OilChangeEntry, MaintenanceTask, MaintenanceTaskCompletion, MaintenanceTaskKind, MaintenanceNotification, ToggleResult, StartResult, StopResult, ShortcutInfo, Trash, AuditQuery, AuditEventPage, ApiError } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '';
 
+// Carries the status and any structured `details` of a failed request alongside its message
+export class RequestError extends Error {
+  readonly status: number;
+  readonly details?: unknown;
+
+  constructor(status: number, body: ApiError) {
+    super(body.error);
+    this.name = 'RequestError';
+    this.status = status;
+    this.details = body.details;
+  }
+}
+
 class ApiClient {
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
+    const response = await this.send(endpoint, options);
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    return response.json();
+  }
+
+  private async send(endpoint: string, options: RequestInit = {}): Promise<Response> {
     const headers: Record<string, string> = {
       ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
       ...options.headers as Record<string, string>,
@@ -22,14 +45,10 @@ class ApiClient {
       const error: ApiError = await response.json().catch(() => ({
         error: `HTTP ${response.status}: ${response.statusText}`,
       }));
-      throw new Error(error.error);
+      throw new RequestError(response.status, error);
     }
 
-    if (response.status === 204) {
-      return undefined as T;
-    }
-
-    return response.json();
+    return response;
   }
 
   async enrollUser(email: string, password: string, name?: string): Promise<User> {
@@ -70,6 +89,8 @@ class ApiClient {
     oilChangeMonths?: number;
     oilChangeHours?: number;
     installedAt?: string | null;
+    initialHours?: number;
+    siteId?: number | null;
   }): Promise<Generator> {
     return this.request<Generator>('/api/generators', {
       method: 'POST',
@@ -77,8 +98,10 @@ class ApiClient {
     });
   }
 
-  async getGenerators(): Promise<Generator[]> {
-    return this.request<Generator[]>('/api/generators');
+  // Archived generators are only listed when asked for
+  async getGenerators(options: { includeArchived?: boolean } = {}): Promise<Generator[]> {
+    const query = options.includeArchived ? '?includeArchived=true' : '';
+    return this.request<Generator[]>(`/api/generators${query}`);
   }
 
   async getGenerator(id: number): Promise<Generator> {
@@ -92,6 +115,11 @@ class ApiClient {
       oilChangeMonths?: number;
       oilChangeHours?: number;
       installedAt?: string | null;
+      initialHours?: number;
+      maxRunHours?: number | null;
+      tankCapacityGallons?: number | null;
+      fuelBurnRate?: number | null;
+      siteId?: number | null;
     }
   ): Promise<Generator> {
     return this.request<Generator>(`/api/generators/${id}`, {
@@ -100,10 +128,109 @@ class ApiClient {
     });
   }
 
-  async createApiKey(name: string): Promise<ApiKey> {
+  async archiveGenerator(id: number): Promise<Generator> {
+    return this.request<Generator>(`/api/generators/${id}/archive`, { method: 'POST' });
+  }
+
+  async unarchiveGenerator(id: number): Promise<Generator> {
+    return this.request<Generator>(`/api/generators/${id}/unarchive`, { method: 'POST' });
+  }
+
+  async deleteGenerator(id: number): Promise<void> {
+    return this.request<void>(`/api/generators/${id}`, { method: 'DELETE' });
+  }
+
+  async getGeneratorMembers(generatorId: number): Promise<GeneratorMember[]> {
+    return this.request<GeneratorMember[]>(`/api/generators/${generatorId}/members`);
+  }
+
+  async updateGeneratorMember(generatorId: number, userId: number, role: GeneratorRole): Promise<GeneratorMember> {
+    return this.request<GeneratorMember>(`/api/generators/${generatorId}/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeGeneratorMember(generatorId: number, userId: number): Promise<void> {
+    return this.request<void>(`/api/generators/${generatorId}/members/${userId}`, { method: 'DELETE' });
+  }
+
+  async getGeneratorInvites(generatorId: number): Promise<GeneratorInvite[]> {
+    return this.request<GeneratorInvite[]>(`/api/generators/${generatorId}/invites`);
+  }
+
+  async createGeneratorInvite(generatorId: number, email: string, role: GeneratorRole): Promise<GeneratorInvite> {
+    return this.request<GeneratorInvite>(`/api/generators/${generatorId}/invites`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async revokeGeneratorInvite(generatorId: number, inviteId: number): Promise<void> {
+    return this.request<void>(`/api/generators/${generatorId}/invites/${inviteId}`, { method: 'DELETE' });
+  }
+
+  async getInvite(token: string): Promise<InvitePreview> {
+    return this.request<InvitePreview>(`/api/invites/${encodeURIComponent(token)}`);
+  }
+
+  async acceptInvite(token: string): Promise<{ generatorId: number; generatorName: string; role: GeneratorRole }> {
+    return this.request(`/api/invites/${encodeURIComponent(token)}/accept`, { method: 'POST' });
+  }
+
+  async getSites(): Promise<SiteSummary[]> {
+    return this.request<SiteSummary[]>('/api/sites');
+  }
+
+  async getSite(id: number): Promise<SiteDetail> {
+    return this.request<SiteDetail>(`/api/sites/${id}`);
+  }
+
+  async createSite(data: { name: string; address?: string | null }): Promise<Site> {
+    return this.request<Site>('/api/sites', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateSite(id: number, data: { name?: string; address?: string | null }): Promise<Site> {
+    return this.request<Site>(`/api/sites/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteSite(id: number): Promise<void> {
+    return this.request<void>(`/api/sites/${id}`, { method: 'DELETE' });
+  }
+
+  async getSiteStats(
+    siteId: number,
+    options: { bucket?: StatsBucket; from?: string; to?: string } = {}
+  ): Promise<SiteStats> {
+    const params = new URLSearchParams();
+    if (options.bucket) params.set('bucket', options.bucket);
+    if (options.from) params.set('from', options.from);
+    if (options.to) params.set('to', options.to);
+    const query = params.toString();
+    return this.request<SiteStats>(`/api/sites/${siteId}/stats${query ? `?${query}` : ''}`);
+  }
+
+  async getSiteMaintenance(siteId: number): Promise<OverdueTask[]> {
+    return this.request<OverdueTask[]>(`/api/sites/${siteId}/maintenance`);
+  }
+
+  async createApiKey(name: string, generatorId: number | null = null, scopes?: ApiKeyScope[]): Promise<ApiKey> {
     return this.request<ApiKey>('/api/api-keys', {
       method: 'POST',
-      body: JSON.stringify({ name }),
+      body: JSON.stringify({ name, generatorId, scopes }),
+    });
+  }
+
+  async updateApiKey(id: number, data: { name?: string; generatorId?: number | null; scopes?: ApiKeyScope[] }): Promise<ApiKey> {
+    return this.request<ApiKey>(`/api/api-keys/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
     });
   }
 
@@ -128,12 +255,60 @@ class ApiClient {
     return this.request<{ qrCode: string; shortcutFileUrl: string }>(`/api/api-keys/${id}/qrcode`);
   }
 
-  async getApiKeyShortcutInfo(id: number): Promise<{ id: number; name: string | null; hint: string; apiEndpoint: string; shortcutFileUrl: string }> {
-    return this.request<{ id: number; name: string | null; hint: string; apiEndpoint: string; shortcutFileUrl: string }>(`/api/api-keys/${id}/shortcut-info`);
+  async getApiKeyShortcutInfo(id: number): Promise<ShortcutInfo> {
+    return this.request<ShortcutInfo>(`/api/api-keys/${id}/shortcut-info`);
   }
 
-  async getUsageLogs(generatorId: number): Promise<UsageLog[]> {
-    return this.request<UsageLog[]>(`/api/generators/${generatorId}/logs`);
+  async getUsageLogPage(generatorId: number, query: UsageLogQuery): Promise<UsageLogPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const response = await this.send(`/api/generators/${generatorId}/logs?${params}`);
+    return {
+      logs: await response.json(),
+      nextCursor: response.headers.get('X-Next-Cursor'),
+    };
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<AuditEventPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const response = await this.send(`/api/audit?${params}`);
+    return {
+      events: await response.json(),
+      nextCursor: response.headers.get('X-Next-Cursor'),
+    };
+  }
+
+  async downloadExport(generatorId: number, query: ExportQuery): Promise<Blob> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const response = await this.send(`/api/generators/${generatorId}/export?${params}`);
+    return response.blob();
+  }
+
+  async previewUsageLogImport(generatorId: number, csv: string, timezone: string): Promise<ImportPreview> {
+    return this.request<ImportPreview>(`/api/generators/${generatorId}/logs/import`, {
+      method: 'POST',
+      body: JSON.stringify({ csv, timezone, dryRun: true }),
+    });
+  }
+
+  async importUsageLogs(
+    generatorId: number,
+    csv: string,
+    timezone: string,
+    skipOverlaps: boolean
+  ): Promise<ImportResult> {
+    return this.request<ImportResult>(`/api/generators/${generatorId}/logs/import`, {
+      method: 'POST',
+      body: JSON.stringify({ csv, timezone, skipOverlaps }),
+    });
   }
 
   async createUsageLog(
@@ -157,12 +332,116 @@ class ApiClient {
     });
   }
 
+  async confirmUsageLog(generatorId: number, logId: number): Promise<UsageLog> {
+    return this.request<UsageLog>(`/api/generators/${generatorId}/logs/${logId}/confirm`, {
+      method: 'POST',
+    });
+  }
+
   async deleteUsageLog(generatorId: number, logId: number): Promise<void> {
     return this.request<void>(`/api/generators/${generatorId}/logs/${logId}`, {
       method: 'DELETE',
     });
   }
 
+  async restoreUsageLog(generatorId: number, logId: number): Promise<UsageLog> {
+    return this.request<UsageLog>(`/api/generators/${generatorId}/logs/${logId}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async getTrash(generatorId: number): Promise<Trash> {
+    return this.request<Trash>(`/api/generators/${generatorId}/trash`);
+  }
+
+  async getFuelStatus(generatorId: number): Promise<FuelStatus> {
+    return this.request<FuelStatus>(`/api/generators/${generatorId}/fuel`);
+  }
+
+  async getRefuels(generatorId: number): Promise<RefuelEvent[]> {
+    return this.request<RefuelEvent[]>(`/api/generators/${generatorId}/refuels`);
+  }
+
+  async createRefuel(
+    generatorId: number,
+    data: { gallons: number; filledToFull?: boolean; refueledAt?: string; notes?: string }
+  ): Promise<RefuelEvent> {
+    return this.request<RefuelEvent>(`/api/generators/${generatorId}/refuels`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteRefuel(generatorId: number, refuelId: number): Promise<void> {
+    return this.request<void>(`/api/generators/${generatorId}/refuels/${refuelId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getMeterReadings(generatorId: number): Promise<HourMeterReading[]> {
+    return this.request<HourMeterReading[]>(`/api/generators/${generatorId}/meter-readings`);
+  }
+
+  async createMeterReading(
+    generatorId: number,
+    data: { meterHours: number; readAt?: string; notes?: string; rebase?: boolean }
+  ): Promise<RecordedMeterReading> {
+    return this.request<RecordedMeterReading>(`/api/generators/${generatorId}/meter-readings`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteMeterReading(generatorId: number, readingId: number): Promise<void> {
+    return this.request<void>(`/api/generators/${generatorId}/meter-readings/${readingId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getMeterAdjustments(generatorId: number): Promise<HourMeterAdjustment[]> {
+    return this.request<HourMeterAdjustment[]>(`/api/generators/${generatorId}/meter-adjustments`);
+  }
+
+  async getFuelPrices(generatorId: number): Promise<FuelPrice[]> {
+    return this.request<FuelPrice[]>(`/api/generators/${generatorId}/fuel-prices`);
+  }
+
+  async createFuelPrice(
+    generatorId: number,
+    data: { pricePerGallon: number; effectiveFrom?: string }
+  ): Promise<FuelPrice> {
+    return this.request<FuelPrice>(`/api/generators/${generatorId}/fuel-prices`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteFuelPrice(generatorId: number, priceId: number): Promise<void> {
+    return this.request<void>(`/api/generators/${generatorId}/fuel-prices/${priceId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getCostReport(generatorId: number, range: { from?: string; to?: string } = {}): Promise<CostReport> {
+    const params = new URLSearchParams();
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+    const query = params.toString();
+    return this.request<CostReport>(`/api/generators/${generatorId}/reports/costs${query ? `?${query}` : ''}`);
+  }
+
+  async getUsageStats(
+    generatorId: number,
+    options: { bucket?: StatsBucket; from?: string; to?: string } = {}
+  ): Promise<UsageStats> {
+    const params = new URLSearchParams();
+    if (options.bucket) params.set('bucket', options.bucket);
+    if (options.from) params.set('from', options.from);
+    if (options.to) params.set('to', options.to);
+    const query = params.toString();
+    return this.request<UsageStats>(`/api/generators/${generatorId}/stats${query ? `?${query}` : ''}`);
+  }
+
   async getOilChangeHistory(generatorId: number): Promise<OilChangeEntry[]> {
     return this.request<OilChangeEntry[]>(`/api/generators/${generatorId}/oil-changes`);
   }
@@ -183,11 +462,113 @@ class ApiClient {
     });
   }
 
+  async restoreOilChange(generatorId: number, changeId: number): Promise<OilChangeEntry> {
+    return this.request<OilChangeEntry>(`/api/generators/${generatorId}/oil-changes/${changeId}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async getMaintenanceTasks(generatorId: number): Promise<MaintenanceTask[]> {
+    return this.request<MaintenanceTask[]>(`/api/generators/${generatorId}/maintenance-tasks`);
+  }
+
+  async createMaintenanceTask(
+    generatorId: number,
+    data: { kind: MaintenanceTaskKind; name: string; intervalHours?: number | null; intervalMonths?: number | null }
+  ): Promise<MaintenanceTask> {
+    return this.request<MaintenanceTask>(`/api/generators/${generatorId}/maintenance-tasks`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateMaintenanceTask(
+    generatorId: number,
+    taskId: number,
+    data: { name?: string; intervalHours?: number | null; intervalMonths?: number | null }
+  ): Promise<MaintenanceTask> {
+    return this.request<MaintenanceTask>(`/api/generators/${generatorId}/maintenance-tasks/${taskId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteMaintenanceTask(generatorId: number, taskId: number): Promise<void> {
+    return this.request<void>(`/api/generators/${generatorId}/maintenance-tasks/${taskId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getMaintenanceTaskCompletions(generatorId: number, taskId: number): Promise<MaintenanceTaskCompletion[]> {
+    return this.request<MaintenanceTaskCompletion[]>(
+      `/api/generators/${generatorId}/maintenance-tasks/${taskId}/completions`
+    );
+  }
+
+  async completeMaintenanceTask(
+    generatorId: number,
+    taskId: number,
+    data: { performedAt?: string; notes?: string }
+  ): Promise<MaintenanceTaskCompletion> {
+    return this.request<MaintenanceTaskCompletion>(
+      `/api/generators/${generatorId}/maintenance-tasks/${taskId}/completions`,
+      { method: 'POST', body: JSON.stringify(data) }
+    );
+  }
+
+  async restoreMaintenanceTaskCompletion(
+    generatorId: number,
+    taskId: number,
+    completionId: number
+  ): Promise<MaintenanceTaskCompletion> {
+    return this.request<MaintenanceTaskCompletion>(
+      `/api/generators/${generatorId}/maintenance-tasks/${taskId}/completions/${completionId}/restore`,
+      { method: 'POST' }
+    );
+  }
+
+  async getMaintenanceNotifications(generatorId: number): Promise<MaintenanceNotification[]> {
+    return this.request<MaintenanceNotification[]>(`/api/generators/${generatorId}/notifications`);
+  }
+
+  async snoozeMaintenanceNotification(
+    generatorId: number,
+    notificationId: number,
+    days: number
+  ): Promise<MaintenanceNotification> {
+    return this.request<MaintenanceNotification>(
+      `/api/generators/${generatorId}/notifications/${notificationId}/snooze`,
+      { method: 'POST', body: JSON.stringify({ days }) }
+    );
+  }
+
+  async acknowledgeMaintenanceNotification(
+    generatorId: number,
+    notificationId: number
+  ): Promise<MaintenanceNotification> {
+    return this.request<MaintenanceNotification>(
+      `/api/generators/${generatorId}/notifications/${notificationId}/acknowledge`,
+      { method: 'POST' }
+    );
+  }
+
   async toggleGenerator(generatorId: number): Promise<ToggleResult> {
     return this.request<ToggleResult>(`/api/generators/${generatorId}/toggle`, {
       method: 'POST',
     });
   }
+
+  async startGenerator(generatorId: number): Promise<StartResult> {
+    return this.request<StartResult>(`/api/generators/${generatorId}/start`, {
+      method: 'POST',
+    });
+  }
+
+  async stopGenerator(generatorId: number): Promise<StopResult> {
+    return this.request<StopResult>(`/api/generators/${generatorId}/stop`, {
+      method: 'POST',
+    });
+  }
 }
 
 export const api = new ApiClient();
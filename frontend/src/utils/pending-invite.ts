@@ -0,0 +1,22 @@
+const STORAGE_KEY = 'pendingInviteToken';
+
+// Invite link opened while signed out, so sign-in or enrollment can return to it
+export function setPendingInvite(token: string): void {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, token);
+  } catch {
+    // Storage can be unavailable (private mode); the user just has to open the link again
+  }
+}
+
+// Where to go after signing in: the pending invite if there is one (cleared once read)
+export function takePendingInvitePath(): string | null {
+  try {
+    const token = sessionStorage.getItem(STORAGE_KEY);
+    if (!token) return null;
+    sessionStorage.removeItem(STORAGE_KEY);
+    return `/invites/${encodeURIComponent(token)}`;
+  } catch {
+    return null;
+  }
+}
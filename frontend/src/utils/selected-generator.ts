@@ -0,0 +1,32 @@
+import type { Generator } from '../types';
+
+const STORAGE_KEY = 'selectedGeneratorId';
+
+// The generator last picked in the switcher, remembered per browser so unscoped links open it
+export function getSelectedGeneratorId(): number | null {
+  try {
+    const id = parseInt(localStorage.getItem(STORAGE_KEY) ?? '', 10);
+    return isNaN(id) ? null : id;
+  } catch {
+    return null;
+  }
+}
+
+export function setSelectedGeneratorId(id: number): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(id));
+  } catch {
+    // Storage can be unavailable (private mode); the selection just won't persist
+  }
+}
+
+// The remembered generator if it is still in the list, otherwise the first one
+export function pickGenerator(generators: Generator[]): Generator | null {
+  const selectedId = getSelectedGeneratorId();
+  return generators.find(g => g.id === selectedId) ?? generators[0] ?? null;
+}
+
+// Path of a generator-scoped page, e.g. generatorPath(3, 'logs') → /generators/3/logs
+export function generatorPath(id: number, page = ''): string {
+  return page ? `/generators/${id}/${page}` : `/generators/${id}`;
+}
@@ -74,6 +74,27 @@ test.describe('API Keys', () => {
     expect(newKey).not.toBe(originalKey);
   });
 
+  test('read-only key has no Shortcut setup', async ({ page }) => {
+    await page.fill('.key-name-input', 'Dashboard Key');
+    await page.uncheck('#scope-toggle');
+    await page.check('#scope-status-read');
+    await page.click('button:has-text("Create New API Key")');
+    await expect(page.locator('.modal')).toBeVisible();
+    await expect(page.locator('.modal .qr-section')).toHaveCount(0);
+    await page.click("button:has-text(\"I've Saved the Key\")");
+
+    const card = page.locator('.key-card');
+    await expect(card.locator('input[type="checkbox"]:checked')).toHaveCount(1);
+    await expect(card.locator('.qr-button')).toHaveCount(0);
+  });
+
+  test('create key without permissions shows error', async ({ page }) => {
+    await page.fill('.key-name-input', 'No Permissions');
+    await page.uncheck('#scope-toggle');
+    await page.click('button:has-text("Create New API Key")');
+    await expect(page.locator('.error-message')).toContainText('at least one permission');
+  });
+
   test('create key with empty name shows error', async ({ page }) => {
     await page.click('button:has-text("Create New API Key")');
     await expect(page.locator('.error-message')).toBeVisible();
@@ -0,0 +1,50 @@
+import { test, expect, type Page } from '@playwright/test';
+
+const PASSWORD = 'TestPass123!';
+let counter = 0;
+
+function uniqueEmail(prefix: string) {
+  return `${prefix}+${Date.now()}${counter++}@example.com`;
+}
+
+async function enrollLoginAndCreateGenerator(page: Page, email: string) {
+  await page.goto('/enroll');
+  await page.fill('#email', email);
+  await page.fill('#name', 'Activity Tester');
+  await page.fill('#password', PASSWORD);
+  await page.fill('#confirmPassword', PASSWORD);
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/profile');
+
+  await page.fill('#generatorName', 'Test Generator');
+  await page.click('button:has-text("Create Generator")');
+  await expect(page.locator('.success-message')).toBeVisible({ timeout: 5000 });
+}
+
+test.describe('Activity', () => {
+  test.beforeEach(async ({ page }) => {
+    await enrollLoginAndCreateGenerator(page, uniqueEmail('activity'));
+  });
+
+  test('lists the generator being added and who added it', async ({ page }) => {
+    await page.goto('/activity');
+
+    await expect(page.locator('.audit-entry')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('.audit-entry')).toContainText('Added generator');
+    await expect(page.locator('.audit-actor')).toContainText('Activity Tester');
+  });
+
+  test('shows changed fields of an edited run', async ({ page }) => {
+    await page.goto('/logs');
+    await page.fill('#startTime', '2026-01-10T10:00');
+    await page.fill('#endTime', '2026-01-10T12:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+
+    await page.goto('/activity');
+    await page.selectOption('#auditAction', 'usage_log.create');
+
+    await expect(page.locator('.audit-entry')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('.audit-changes')).toContainText('durationHours');
+  });
+});
@@ -55,6 +55,17 @@ test.describe('Dashboard', () => {
     await expect(page.locator('.oil-change-section')).toBeVisible();
   });
 
+  test('shows maintenance alerts section with no alerts for a new generator', async ({ page }) => {
+    await expect(page.locator('.notifications-section')).toBeVisible();
+    await expect(page.locator('.notifications-section')).toContainText('No maintenance alerts');
+  });
+
+  test('shows run history with a period selector', async ({ page }) => {
+    await expect(page.locator('.history-section')).toContainText('No completed runs in this period');
+    await page.selectOption('.history-section select', 'week');
+    await expect(page.locator('.history-section select')).toHaveValue('week');
+  });
+
   test('can log an oil change from dashboard', async ({ page }) => {
     await page.click('button:has-text("Log Oil Change")');
     await expect(page.locator('.oil-change-form')).toBeVisible();
@@ -74,13 +85,35 @@ test.describe('Dashboard', () => {
     const deletePromise = page.waitForResponse(
       r => r.url().includes('/oil-changes/') && r.request().method() === 'DELETE'
     );
-    page.once('dialog', dialog => dialog.accept());
     await page.click('.delete-oil-change-button');
     await deletePromise;
 
     await expect(page.locator('.oil-change-entry')).toHaveCount(0, { timeout: 5000 });
   });
 
+  test('can undo deleting an oil change entry', async ({ page }) => {
+    await page.click('button:has-text("Log Oil Change")');
+    await page.click('.oil-change-form button[type="submit"]');
+    await expect(page.locator('.oil-change-entry')).toHaveCount(1, { timeout: 5000 });
+
+    await page.click('.delete-oil-change-button');
+    await expect(page.locator('.oil-change-entry')).toHaveCount(0, { timeout: 5000 });
+
+    await page.click('.undo-button');
+    await expect(page.locator('.oil-change-entry')).toHaveCount(1, { timeout: 5000 });
+  });
+
+  test('records an hour meter reading and rebases total hours', async ({ page }) => {
+    await page.click('button:has-text("Record Reading")');
+    await page.fill('#meterHours', '120.5');
+    await page.check('#meterRebase');
+    await page.click('.meter-form button[type="submit"]');
+
+    await expect(page.locator('.meter-entry')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('.meter-entry')).toContainText('rebased');
+    await expect(page.locator('.stat-detail', { hasText: 'Total lifetime' })).toContainText('120.5 h');
+  });
+
   test('navigation order is Dashboard, Run Log, API Keys, Downloads', async ({ page }) => {
     const links = page.locator('.nav-links .nav-link');
     await expect(links.nth(0)).toContainText('Dashboard');
@@ -0,0 +1,66 @@
+import { test, expect, type Page } from '@playwright/test';
+
+const PASSWORD = 'TestPass123!';
+let counter = 0;
+
+function uniqueEmail(prefix: string) {
+  return `${prefix}+${Date.now()}${counter++}@example.com`;
+}
+
+async function enrollLoginAndCreateGenerator(page: Page, email: string) {
+  await page.goto('/enroll');
+  await page.fill('#email', email);
+  await page.fill('#password', PASSWORD);
+  await page.fill('#confirmPassword', PASSWORD);
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/profile');
+
+  await page.fill('#generatorName', 'Test Generator');
+  await page.click('button:has-text("Create Generator")');
+  await expect(page.locator('.success-message')).toBeVisible({ timeout: 5000 });
+}
+
+const IMPORT_CSV = [
+  'Start Time,End Time',
+  '2024-09-27 08:00,2024-09-27 11:00',
+  '2024-09-28 17:00,2024-09-28 19:00',
+].join('\n');
+
+test.describe('Run log import', () => {
+  test.beforeEach(async ({ page }) => {
+    await enrollLoginAndCreateGenerator(page, uniqueEmail('import'));
+  });
+
+  test('previews and imports runs from a CSV file', async ({ page }) => {
+    await page.goto('/downloads');
+    await page.setInputFiles('#importFile', {
+      name: 'runs.csv',
+      mimeType: 'text/csv',
+      buffer: Buffer.from(IMPORT_CSV),
+    });
+    await page.selectOption('#importTimezone', 'America/New_York');
+    await page.click('button:has-text("Preview")');
+
+    await expect(page.locator('.import-row')).toHaveCount(2, { timeout: 5000 });
+    await expect(page.locator('.import-summary').first()).toContainText('2 ready');
+
+    await page.click('button:has-text("Import 2 runs")');
+    await expect(page.locator('.import-card .success-message')).toContainText('Imported 2 runs', { timeout: 5000 });
+
+    await page.goto('/logs');
+    await expect(page.locator('.log-row')).toHaveCount(2, { timeout: 5000 });
+  });
+
+  test('blocks the import when a row cannot be read', async ({ page }) => {
+    await page.goto('/downloads');
+    await page.setInputFiles('#importFile', {
+      name: 'runs.csv',
+      mimeType: 'text/csv',
+      buffer: Buffer.from('start,end\n2024-09-27 08:00,later\n'),
+    });
+    await page.click('button:has-text("Preview")');
+
+    await expect(page.locator('.import-row-invalid')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('button:has-text("Import")')).toBeDisabled();
+  });
+});
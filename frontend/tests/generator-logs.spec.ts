@@ -56,6 +56,30 @@ test.describe('Generator Logs', () => {
     await expect(page.locator('.error-message')).toBeVisible();
   });
 
+  test('shows overlaps with an existing entry next to the field', async ({ page }) => {
+    await page.fill('#startTime', '2026-01-01T10:00');
+    await page.fill('#endTime', '2026-01-01T12:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+
+    await page.fill('#startTime', '2026-01-01T11:00');
+    await page.fill('#endTime', '2026-01-01T13:00');
+    await page.click('button:has-text("Add Entry")');
+
+    await expect(page.locator('.field-error')).toContainText('Overlaps another run', { timeout: 5000 });
+    await expect(page.locator('#startTime')).toHaveAttribute('aria-invalid', 'true');
+    await expect(page.locator('.log-row')).toHaveCount(1);
+  });
+
+  test('rejects an entry ending in the future', async ({ page }) => {
+    await page.fill('#startTime', '2026-01-01T10:00');
+    await page.fill('#endTime', '2099-01-01T10:00');
+    await page.click('button:has-text("Add Entry")');
+
+    await expect(page.locator('.field-error').first()).toBeVisible({ timeout: 5000 });
+    await expect(page.locator('#endTime')).toHaveAttribute('aria-invalid', 'true');
+  });
+
   test('edits a log entry', async ({ page }) => {
     await page.fill('#startTime', '2026-01-01T10:00');
     await page.fill('#endTime', '2026-01-01T12:00');
@@ -93,13 +117,85 @@ test.describe('Generator Logs', () => {
     const deletePromise = page.waitForResponse(
       r => r.url().includes('/logs/') && r.request().method() === 'DELETE'
     );
-    page.once('dialog', dialog => dialog.accept());
     await page.click('.delete-log-button');
     await deletePromise;
 
     await expect(page.locator('.empty-state')).toBeVisible({ timeout: 5000 });
   });
 
+  test('undoes a deleted log entry', async ({ page }) => {
+    await page.fill('#startTime', '2026-01-01T10:00');
+    await page.fill('#endTime', '2026-01-01T11:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+
+    await page.click('.delete-log-button');
+    await expect(page.locator('.empty-state')).toBeVisible({ timeout: 5000 });
+
+    await page.click('.undo-button');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('.undo-banner')).toHaveCount(0);
+  });
+
+  test('restores a deleted log entry from the trash', async ({ page }) => {
+    await page.fill('#startTime', '2026-01-01T10:00');
+    await page.fill('#endTime', '2026-01-01T11:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+
+    await page.click('.delete-log-button');
+    await expect(page.locator('.empty-state')).toBeVisible({ timeout: 5000 });
+
+    await page.click('.trash-note a');
+    await page.waitForURL(/\/generators\/\d+\/trash$/);
+    await expect(page.locator('.trash-log')).toHaveCount(1, { timeout: 5000 });
+
+    await page.click('.trash-log .restore-button');
+    await expect(page.locator('.success-message')).toBeVisible({ timeout: 5000 });
+    await expect(page.locator('.trash-log')).toHaveCount(0);
+
+    await page.goto('/logs');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+  });
+
+  test('filters entries by minimum duration', async ({ page }) => {
+    await page.fill('#startTime', '2026-01-01T10:00');
+    await page.fill('#endTime', '2026-01-01T11:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+
+    await page.fill('#startTime', '2026-01-02T10:00');
+    await page.fill('#endTime', '2026-01-02T14:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(2, { timeout: 5000 });
+
+    await page.fill('#filterMinDuration', '2');
+    await page.click('.filter-button');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('.log-row')).toContainText('4.00');
+
+    await page.click('.clear-filter-button');
+    await expect(page.locator('.log-row')).toHaveCount(2, { timeout: 5000 });
+  });
+
+  test('lists newest entries first by default and can sort oldest first', async ({ page }) => {
+    await page.fill('#startTime', '2026-01-01T10:00');
+    await page.fill('#endTime', '2026-01-01T11:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+
+    await page.fill('#startTime', '2026-01-02T10:00');
+    await page.fill('#endTime', '2026-01-02T13:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(2, { timeout: 5000 });
+
+    await expect(page.locator('.log-row').first()).toContainText('3.00');
+
+    await page.selectOption('#filterOrder', 'asc');
+    await page.click('.filter-button');
+    await expect(page.locator('.log-row').first()).toContainText('1.00');
+  });
+
   test('requires authentication to view logs', async ({ page }) => {
     // Log out
     await page.click('.nav-logout');
@@ -0,0 +1,69 @@
+import { test, expect, type Page } from '@playwright/test';
+
+const PASSWORD = 'TestPass123!';
+let counter = 0;
+
+function uniqueEmail(prefix: string) {
+  return `${prefix}+${Date.now()}${counter++}@example.com`;
+}
+
+async function enrollLoginAndCreateGenerators(page: Page, email: string) {
+  await page.goto('/enroll');
+  await page.fill('#email', email);
+  await page.fill('#password', PASSWORD);
+  await page.fill('#confirmPassword', PASSWORD);
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/profile');
+
+  await page.fill('#generatorName', 'Standby Generator');
+  await page.click('button:has-text("Create Generator")');
+  await expect(page.locator('.success-message')).toBeVisible({ timeout: 5000 });
+
+  await page.click('.add-generator-button');
+  await page.fill('#generatorName', 'Portable Generator');
+  await page.click('button:has-text("Create Generator")');
+  await expect(page.locator('.success-message')).toContainText('Generator created', { timeout: 5000 });
+}
+
+test.describe('Multiple generators', () => {
+  test.beforeEach(async ({ page }) => {
+    await enrollLoginAndCreateGenerators(page, uniqueEmail('multi'));
+  });
+
+  test('shows every generator on the overview', async ({ page }) => {
+    await page.goto('/');
+
+    await expect(page.locator('.overview-card')).toHaveCount(2, { timeout: 5000 });
+    await expect(page.locator('.overview-card').first()).toContainText('Standby Generator');
+    await expect(page.locator('.overview-card').nth(1)).toContainText('Portable Generator');
+    await expect(page.locator('.overview-card').first()).toContainText('Stopped');
+  });
+
+  test('opens a generator dashboard from the overview', async ({ page }) => {
+    await page.goto('/');
+    await page.click('.overview-card:has-text("Portable Generator") .overview-open-link');
+
+    await page.waitForURL(/\/generators\/\d+$/);
+    await expect(page.locator('.dashboard-page .subtitle')).toContainText('Portable Generator');
+  });
+
+  test('redirects unscoped pages to the selected generator', async ({ page }) => {
+    await page.goto('/logs');
+
+    await page.waitForURL(/\/generators\/\d+\/logs$/);
+    await expect(page.locator('.logs-page .subtitle')).toContainText('Portable Generator');
+  });
+
+  test('switcher keeps the current page', async ({ page }) => {
+    await page.goto('/logs');
+    await page.waitForURL(/\/generators\/\d+\/logs$/);
+    const firstUrl = page.url();
+
+    await page.selectOption('.generator-switcher', { label: 'Standby Generator' });
+    await page.waitForURL(url => url.toString() !== firstUrl && /\/generators\/\d+\/logs$/.test(url.pathname));
+    await expect(page.locator('.subtitle')).toContainText('Standby Generator');
+
+    await page.selectOption('.generator-switcher', { label: 'Portable Generator' });
+    await expect(page.locator('.subtitle')).toContainText('Portable Generator', { timeout: 5000 });
+  });
+});
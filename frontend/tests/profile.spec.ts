@@ -39,6 +39,53 @@ test.describe('Profile', () => {
     await expect(page.locator('#name')).toHaveValue('Updated Name');
   });
 
+  test('generator created with hours before tracking starts its total there', async ({ page }) => {
+    await enrollAndLogin(page, uniqueEmail('profile-initial'));
+    await page.goto('/profile');
+
+    await page.fill('#generatorName', 'Used Generator');
+    await page.fill('#initialHours', '250');
+    await page.click('button:has-text("Create Generator")');
+    await expect(page.locator('.success-message')).toBeVisible();
+
+    await expect(page.locator('.generator-stats')).toContainText('Total Hours: 250.0');
+    await expect(page.locator('.generator-stats')).toContainText('250.0 before tracking');
+  });
+
+  test('archives a generator and restores it', async ({ page }) => {
+    await enrollAndLogin(page, uniqueEmail('profile-archive'));
+    await page.fill('#generatorName', 'Old Generator');
+    await page.click('button:has-text("Create Generator")');
+    await expect(page.locator('.success-message')).toBeVisible();
+
+    page.once('dialog', dialog => dialog.accept());
+    await page.click('.archive-generator-button');
+
+    await expect(page.locator('.archived-generator')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('button:has-text("Create Generator")')).toBeVisible();
+
+    await page.click('.unarchive-button');
+    await expect(page.locator('.archived-generator')).toHaveCount(0, { timeout: 5000 });
+    await expect(page.locator('#generatorName')).toHaveValue('Old Generator');
+  });
+
+  test('deletes a generator only after its name is typed', async ({ page }) => {
+    await enrollAndLogin(page, uniqueEmail('profile-delete'));
+    await page.fill('#generatorName', 'Doomed Generator');
+    await page.click('button:has-text("Create Generator")');
+    await expect(page.locator('.success-message')).toBeVisible();
+
+    await page.click('.delete-generator-button');
+    const confirmButton = page.locator('button:has-text("Delete Forever")');
+    await expect(confirmButton).toBeDisabled();
+
+    await page.fill('#deleteConfirmName', 'Doomed Generator');
+    await confirmButton.click();
+
+    await expect(page.locator('button:has-text("Create Generator")')).toBeVisible({ timeout: 5000 });
+    await expect(page.locator('#generatorName')).toHaveValue('');
+  });
+
   test('access profile without auth redirects to login', async ({ page }) => {
     await page.goto('/profile');
     await expect(page).toHaveURL('/login');
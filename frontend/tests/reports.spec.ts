@@ -0,0 +1,54 @@
+import { test, expect, type Page } from '@playwright/test';
+
+const PASSWORD = 'TestPass123!';
+let counter = 0;
+
+function uniqueEmail(prefix: string) {
+  return `${prefix}+${Date.now()}${counter++}@example.com`;
+}
+
+async function enrollLoginAndCreateGenerator(page: Page, email: string) {
+  await page.goto('/enroll');
+  await page.fill('#email', email);
+  await page.fill('#password', PASSWORD);
+  await page.fill('#confirmPassword', PASSWORD);
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/profile');
+
+  await page.fill('#generatorName', 'Test Generator');
+  await page.click('button:has-text("Create Generator")');
+  await expect(page.locator('.success-message')).toBeVisible({ timeout: 5000 });
+}
+
+test.describe('Reports', () => {
+  test.beforeEach(async ({ page }) => {
+    await enrollLoginAndCreateGenerator(page, uniqueEmail('reports'));
+  });
+
+  test('shows empty state when there are no runs', async ({ page }) => {
+    await page.goto('/reports');
+    await expect(page.locator('.empty-state')).toBeVisible();
+  });
+
+  test('adds a fuel price to the history', async ({ page }) => {
+    await page.goto('/reports');
+    await page.fill('#pricePerGallon', '3.50');
+    await page.fill('#priceEffectiveFrom', '2026-01-01T00:00');
+    await page.click('button:has-text("Add Price")');
+
+    await expect(page.locator('.fuel-price-item')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('.fuel-price-item')).toContainText('$3.50');
+  });
+
+  test('lists completed runs by month', async ({ page }) => {
+    await page.goto('/logs');
+    await page.fill('#startTime', '2026-01-10T10:00');
+    await page.fill('#endTime', '2026-01-10T12:00');
+    await page.click('button:has-text("Add Entry")');
+    await expect(page.locator('.log-row')).toHaveCount(1, { timeout: 5000 });
+
+    await page.goto('/reports');
+    await expect(page.locator('.report-row')).toHaveCount(1, { timeout: 5000 });
+    await expect(page.locator('.report-totals')).toContainText('2.00 h');
+  });
+});
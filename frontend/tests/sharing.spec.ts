@@ -0,0 +1,84 @@
+import { test, expect, type Page } from '@playwright/test';
+
+const PASSWORD = 'TestPass123!';
+let counter = 0;
+
+function uniqueEmail(prefix: string) {
+  return `${prefix}+${Date.now()}${counter++}@example.com`;
+}
+
+async function enroll(page: Page, email: string) {
+  await page.goto('/enroll');
+  await page.fill('#email', email);
+  await page.fill('#password', PASSWORD);
+  await page.fill('#confirmPassword', PASSWORD);
+  await page.click('button[type="submit"]');
+}
+
+// Owner creates a generator and invites `inviteeEmail`; returns the invite link shown to them
+async function createGeneratorAndInvite(page: Page, inviteeEmail: string, role: string) {
+  await enroll(page, uniqueEmail('owner'));
+  await page.waitForURL('/profile');
+  await page.fill('#generatorName', 'House Generator');
+  await page.click('button:has-text("Create Generator")');
+  await expect(page.locator('.success-message')).toBeVisible({ timeout: 5000 });
+
+  await page.fill('#inviteEmail', inviteeEmail);
+  await page.selectOption('#inviteRole', role);
+  await page.click('button:has-text("Send Invite")');
+  const link = page.locator('.invite-link input');
+  await expect(link).toBeVisible({ timeout: 5000 });
+  return new URL(await link.inputValue()).pathname;
+}
+
+test.describe('Sharing a generator', () => {
+  test('invited operator can accept and start the generator', async ({ page, browser }) => {
+    const partnerEmail = uniqueEmail('partner');
+    const invitePath = await createGeneratorAndInvite(page, partnerEmail, 'operator');
+    await expect(page.locator('.pending-invite')).toContainText(partnerEmail);
+
+    const partnerContext = await browser.newContext();
+    const partner = await partnerContext.newPage();
+
+    // Signed out: the invite sends them to enroll, then back to the invite
+    await partner.goto(invitePath);
+    await expect(partner.locator('h1')).toHaveText("You're Invited");
+    await enroll(partner, partnerEmail);
+    await partner.waitForURL(invitePath);
+
+    await expect(partner.locator('h1')).toHaveText('House Generator', { timeout: 5000 });
+    await partner.click('.accept-invite-button');
+    await partner.waitForURL(/\/generators\/\d+$/);
+
+    await partner.click('.toggle-button');
+    await expect(partner.locator('.status-badge')).toHaveText('Running', { timeout: 5000 });
+
+    await partnerContext.close();
+
+    await page.reload();
+    await expect(page.locator(`.member-row[data-email="${partnerEmail}"] .member-role-select`)).toHaveValue('operator');
+  });
+
+  test('viewers cannot start the generator or change its settings', async ({ page, browser }) => {
+    const viewerEmail = uniqueEmail('viewer');
+    const invitePath = await createGeneratorAndInvite(page, viewerEmail, 'viewer');
+
+    const viewerContext = await browser.newContext();
+    const viewer = await viewerContext.newPage();
+    await enroll(viewer, viewerEmail);
+    await viewer.waitForURL('/profile');
+    await viewer.goto(invitePath);
+    await viewer.click('.accept-invite-button');
+    await viewer.waitForURL(/\/generators\/\d+$/);
+
+    await expect(viewer.locator('.status-badge')).toHaveText('Stopped', { timeout: 5000 });
+    await expect(viewer.locator('.toggle-button')).toHaveCount(0);
+
+    await viewer.goto('/profile');
+    await expect(viewer.locator('.role-notice')).toContainText('viewer');
+    await expect(viewer.locator('#generatorName')).toBeDisabled();
+    await expect(viewer.locator('#inviteEmail')).toHaveCount(0);
+
+    await viewerContext.close();
+  });
+});
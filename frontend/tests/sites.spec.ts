@@ -0,0 +1,56 @@
+import { test, expect, type Page } from '@playwright/test';
+
+const PASSWORD = 'TestPass123!';
+
+async function enroll(page: Page) {
+  await page.goto('/enroll');
+  await page.fill('#email', `sites+${Date.now()}@example.com`);
+  await page.fill('#password', PASSWORD);
+  await page.fill('#confirmPassword', PASSWORD);
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/profile');
+}
+
+test.describe('Sites', () => {
+  test('groups generators into a site dashboard', async ({ page }) => {
+    await enroll(page);
+
+    await page.goto('/sites');
+    await expect(page.locator('.empty-state')).toBeVisible();
+    await page.fill('#siteName', 'Lake House');
+    await page.fill('#siteAddress', '1 Shore Rd');
+    await page.click('button:has-text("Create Site")');
+    await expect(page.locator('.site-card h2')).toHaveText('Lake House', { timeout: 5000 });
+
+    await page.goto('/profile');
+    await page.fill('#generatorName', 'Boathouse');
+    await page.selectOption('#generatorSite', { label: 'Lake House' });
+    await page.click('button:has-text("Create Generator")');
+    await expect(page.locator('.success-message')).toBeVisible({ timeout: 5000 });
+
+    await page.goto('/sites');
+    await expect(page.locator('.site-counts')).toHaveText('0 of 1 generator running');
+    await page.click('.site-card');
+    await page.waitForURL(/\/sites\/\d+$/);
+
+    await expect(page.locator('h1')).toHaveText('Lake House');
+    await expect(page.locator('.site-generator-card h2')).toHaveText('Boathouse');
+    // A new generator without an install date has never had its oil changed
+    await expect(page.locator('.overdue-item')).toContainText('Boathouse');
+  });
+
+  test('deleting a site keeps its generators', async ({ page }) => {
+    await enroll(page);
+
+    await page.goto('/sites');
+    await page.fill('#siteName', 'Cabin');
+    await page.click('button:has-text("Create Site")');
+    await page.click('.site-card');
+    await page.waitForURL(/\/sites\/\d+$/);
+
+    page.on('dialog', dialog => dialog.accept());
+    await page.click('.delete-site-button');
+    await page.waitForURL('/sites');
+    await expect(page.locator('.site-card')).toHaveCount(0);
+  });
+});